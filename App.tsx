@@ -9,11 +9,15 @@ import StockView from './components/StockView';
 import { RecommendationIcon, BriefcaseIcon } from './components/common/Icons';
 import StockPicker from './components/StockPicker';
 import HistoryLedger from './components/HistoryLedger';
+import TaxReport from './components/TaxReport';
+import ConsistencyReport from './components/ConsistencyReport';
+import PortfolioArchive from './components/PortfolioArchive';
 import Login from './src/components/Login';
 import LandingPage from './components/LandingPage';
 import { getAuth, signOut } from 'firebase/auth';
 import { NotificationProvider } from './hooks/useNotification';
 import { useUnreadListener } from './hooks/useUnreadListener';
+import { useAutomationAlerts } from './hooks/useAutomationAlerts';
 import NotificationPopup from './components/common/NotificationPopup';
 import VersionChecker from './components/VersionChecker';
 
@@ -25,6 +29,7 @@ import Footer from './components/Footer';
 import SubscriptionModal from './components/SubscriptionModal';
 import ReferralModal from './components/ReferralModal';
 import HelpMenu from './components/HelpMenu';
+import MarketStatusIndicator from './components/MarketStatusIndicator';
 
 const FONT_SIZES = ['small', 'medium', 'large'] as const;
 
@@ -50,6 +55,7 @@ const MainApp: React.FC = () => {
     const auth = getAuth();
     const navigate = useNavigate();
     useUnreadListener();
+    useAutomationAlerts();
     const location = useLocation();
 
     const [isFontSizeMenuOpen, setIsFontSizeMenuOpen] = useState(false);
@@ -98,6 +104,7 @@ const MainApp: React.FC = () => {
                           <span className="inline sm:hidden text-lg">Signatex</span>
                       </Link>
                       <div className="flex gap-2 sm:gap-4 items-center">
+                          <MarketStatusIndicator />
                           {user && (
                               <button
                                   onClick={() => setIsFontSizeMenuOpen(true)}
@@ -188,6 +195,9 @@ const MainApp: React.FC = () => {
                             <Route path="/stock/:ticker" element={<StockView />} />
                             <Route path="/picker" element={<StockPicker />} />
                             <Route path="/history" element={<HistoryLedger />} />
+                            <Route path="/tax" element={<TaxReport />} />
+                            <Route path="/consistency" element={<ConsistencyReport />} />
+                            <Route path="/archive" element={<PortfolioArchive />} />
                             <Route path="/help-menu" element={<HelpMenu />} />
                         </>
                     )}
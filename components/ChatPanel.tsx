@@ -8,7 +8,7 @@ import { usePortfolio } from '../hooks/usePortfolio';
 import { useWatchlist } from '../hooks/useWatchlist';
 import { useAuth } from '../src/hooks/useAuth';
 import { subscribeToChat, sendMessage, ChatMessage, clearUnreadMessage, clearAiChatHistory } from '../services/chatService';
-import { User, AiChatMessage, WorkflowStep } from '../types';
+import { User, AiChatMessage, WorkflowStep, OptionsStrategyRec } from '../types';
 import { useNotification } from '../hooks/useNotification';
 import { collection, onSnapshot, query, orderBy, addDoc, limit } from 'firebase/firestore';
 import { db } from '../src/firebaseConfig';
@@ -129,11 +129,12 @@ const ChatPanel: React.FC = () => {
     const AI_CHAT_COLLECTION = 'aiChatMessages';
 
     // Function to save a message to AI Chat history
-    const saveAiMessage = async (sender: 'user' | 'bot' | 'system', text: string) => {
+    const saveAiMessage = async (sender: 'user' | 'bot' | 'system', text: string, strategyRec?: OptionsStrategyRec) => {
         if (!user) return;
         const messagesRef = collection(db, 'users', user.uid, 'aiChatMessages');
         try {
-            await addDoc(messagesRef, { id: nanoid(), sender, text, timestamp: Date.now() });
+            // Firestore rejects undefined fields, so the strategy is only added when present
+            await addDoc(messagesRef, { id: nanoid(), sender, text, timestamp: Date.now(), ...(strategyRec ? { strategyRec } : {}) });
         } catch (error) {
             console.error("Error saving AI chat message:", error);
         }
@@ -149,13 +150,15 @@ const ChatPanel: React.FC = () => {
         if (mode === 'private') {
              return privateChatMessages.map(msg => ({ 
                 sender: msg.senderId === user?.uid ? 'user' : 'bot', 
-                text: msg.text
+                text: msg.text,
+                strategyRec: undefined as OptionsStrategyRec | undefined
             }));
         }
         // AI chat uses AiChatMessage[] directly
         return localMessages.map(msg => ({ 
             sender: msg.sender, 
-            text: msg.text 
+            text: msg.text,
+            strategyRec: msg.strategyRec
         }));
     }, [mode, privateChatMessages, localMessages, user, params.ticker]);
     // --- Effects ---
@@ -418,7 +421,38 @@ const ChatPanel: React.FC = () => {
 
     // --- AI Flow Logic ---
 
-    const { portfolio } = usePortfolio();
+    const { portfolio, placeStrategyFromRecommendation } = usePortfolio();
+
+    // Order ticket for the latest AI options strategy shown in the chat
+    const [strategyQuantity, setStrategyQuantity] = useState('1');
+    const [strategyNetLimit, setStrategyNetLimit] = useState('');
+    const [isPlacingStrategy, setIsPlacingStrategy] = useState(false);
+    const latestStrategyIndex = useMemo(() => {
+        for (let i = currentMessages.length - 1; i >= 0; i--) {
+            if (currentMessages[i].strategyRec) return i;
+        }
+        return -1;
+    }, [currentMessages]);
+
+    const handlePlaceStrategy = async (rec: OptionsStrategyRec) => {
+        const quantity = parseInt(strategyQuantity, 10);
+        if (!(quantity > 0)) {
+            alert("Please enter a valid number of contracts.");
+            return;
+        }
+        // Blank means a market order; otherwise a signed net limit (negative = minimum credit)
+        const netLimitPrice = strategyNetLimit.trim() === '' ? undefined : parseFloat(strategyNetLimit);
+        if (netLimitPrice !== undefined && isNaN(netLimitPrice)) {
+            alert("Please enter a valid net limit price.");
+            return;
+        }
+        setIsPlacingStrategy(true);
+        try {
+            await placeStrategyFromRecommendation(rec, quantity, netLimitPrice);
+        } finally {
+            setIsPlacingStrategy(false);
+        }
+    };
     const { watchlist } = useWatchlist();
 
     const context: AppContext = useMemo(() => ({
@@ -444,7 +478,7 @@ const ChatPanel: React.FC = () => {
         setCurrentStepIndex(index);
 
         if (step.action === 'say') {
-            saveAiMessage('bot', step.message || '');
+            saveAiMessage('bot', step.message || '', step.strategyRec);
         } else {
              try {
                 // If it's a navigational step, first indicate what's happening
@@ -778,6 +812,28 @@ const ChatPanel: React.FC = () => {
                                    'bg-night-600 text-night-500 italic'
                                }`}>
                                    {linkifyTickers(msg.text, params.ticker?.toUpperCase())}
+                                   {/* AI options strategies can be placed as one multi-leg order */}
+                                   {msg.strategyRec && index === latestStrategyIndex && msg.strategyRec.suggestedContracts.length > 1 && (
+                                       <div className="mt-3 pt-2 border-t border-night-600 space-y-2">
+                                           <div className="flex gap-2">
+                                               <label className="flex-1 text-xs text-night-500">
+                                                   Contracts per leg
+                                                   <input type="number" min="1" step="1" value={strategyQuantity} onChange={(e) => setStrategyQuantity(e.target.value)} className="w-full bg-night-600 rounded px-2 py-1 text-night-100" />
+                                               </label>
+                                               <label className="flex-1 text-xs text-night-500">
+                                                   Net limit (blank = market)
+                                                   <input type="number" step="0.01" placeholder="-1.20 = credit" value={strategyNetLimit} onChange={(e) => setStrategyNetLimit(e.target.value)} className="w-full bg-night-600 rounded px-2 py-1 text-night-100" />
+                                               </label>
+                                           </div>
+                                           <button
+                                               onClick={() => handlePlaceStrategy(msg.strategyRec!)}
+                                               disabled={isPlacingStrategy}
+                                               className="w-full bg-yellow-400 text-night-900 font-bold py-1 px-2 rounded-md hover:bg-yellow-500 disabled:opacity-50"
+                                           >
+                                               {isPlacingStrategy ? 'Placing...' : `Place ${msg.strategyRec.strategyName} Order`}
+                                           </button>
+                                       </div>
+                                   )}
                                </div>
                            </div>
                        ))}
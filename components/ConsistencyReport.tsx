@@ -0,0 +1,138 @@
+// components/ConsistencyReport.tsx
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePortfolio } from '../hooks/usePortfolio';
+import { useRunTransactions } from '../hooks/useRunTransactions';
+import Card from './common/Card';
+import { formatCurrency } from '../utils/formatters';
+import { checkPortfolioConsistency } from '../utils/portfolioReplay';
+import type { ConsistencyDiscrepancy } from '../utils/portfolioReplay';
+import { ClipboardCheckIcon } from './common/Icons';
+import ChatPanel from './ChatPanel';
+import { useAuth } from '../src/hooks/useAuth.tsx';
+
+const KIND_LABELS: Record<ConsistencyDiscrepancy['kind'], string> = {
+    cash: 'Cash',
+    stock: 'Stock',
+    short: 'Short',
+    option: 'Option',
+    strategy: 'Strategy',
+};
+
+const ConsistencyReport: React.FC = () => {
+    const { portfolio, repairPortfolioFromLog } = usePortfolio();
+    const { transactions, isLoading: isLogLoading, loadFailed } = useRunTransactions();
+    // A failed read leaves the log empty, which would report every position as drift
+    const isLoading = isLogLoading || loadFailed;
+    const { user } = useAuth();
+    const [isRepairing, setIsRepairing] = useState(false);
+
+    const report = useMemo(() => checkPortfolioConsistency(portfolio, transactions), [portfolio, transactions]);
+
+    if (!user) {
+        return <div className="text-center text-night-500 mt-10">You must be logged in to check your portfolio.</div>;
+    }
+
+    // Cash is shown in dollars; share and contract counts as plain numbers
+    const formatValue = (row: ConsistencyDiscrepancy, value: number | null) => {
+        if (value === null) return <span className="text-night-500">Not held</span>;
+        if (row.kind === 'cash' || row.label.endsWith('cost basis') || row.label.endsWith('entry price') || row.label.endsWith('premium')) {
+            return formatCurrency(value);
+        }
+        return Number(value.toFixed(4));
+    };
+
+    const handleRepair = async () => {
+        if (!window.confirm("Rebuild this portfolio's cash and positions from its transaction log? Positions the log doesn't account for will be removed, and ones it does will get the log's share counts and cost basis.")) return;
+        setIsRepairing(true);
+        try {
+            await repairPortfolioFromLog();
+        } finally {
+            setIsRepairing(false);
+        }
+    };
+
+    return (
+        <>
+            {user && <ChatPanel />}
+            <Card>
+                <div className="flex justify-between items-center mb-6 flex-wrap gap-4">
+                    <h2 className="text-2xl font-bold flex items-center gap-2">
+                        <ClipboardCheckIcon className="h-6 w-6 text-brand-blue" /> Portfolio Consistency
+                    </h2>
+                    <button
+                        onClick={handleRepair}
+                        disabled={isLoading || isRepairing || report.discrepancies.length === 0}
+                        className="bg-brand-blue text-white font-bold py-2 px-4 rounded-md hover:bg-blue-600 transition-colors disabled:bg-night-600 disabled:cursor-not-allowed"
+                    >
+                        {isRepairing ? 'Rebuilding...' : 'Rebuild from log'}
+                    </button>
+                </div>
+
+                {/* An empty log would report every position as drift, so nothing is judged until it arrives */}
+                {isLoading ? (
+                    <div className="p-4 rounded-md mb-6 bg-night-700 text-night-500">{loadFailed ? "Your transaction log couldn't be loaded. Please try again later." : 'Loading your transaction log...'}</div>
+                ) : (
+                    <div className={`p-4 rounded-md mb-6 ${report.consistent ? 'bg-green-900/30 text-brand-green' : 'bg-yellow-900/30 text-yellow-400'}`}>
+                        {report.consistent
+                            ? `Your portfolio matches its ${report.transactionCount} transactions.`
+                            : `Replaying ${report.transactionCount} transactions found ${report.discrepancies.length} ${report.discrepancies.length === 1 ? 'difference' : 'differences'} from your portfolio${report.issues.length > 0 ? ` and ${report.issues.length} ${report.issues.length === 1 ? 'entry' : 'entries'} that couldn't be replayed` : ''}.`}
+                    </div>
+                )}
+                <div className="text-xs text-night-500 mb-4">
+                    The log starts from {formatCurrency(portfolio.initialValue)} in cash with no positions. Prices, stops and settings aren't compared.
+                    {' · '}<Link to="/history" className="text-brand-blue hover:underline">Transaction History</Link>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full text-left divide-y divide-night-700">
+                        <thead className="bg-night-700">
+                            <tr>
+                                <th className="p-3 text-sm font-semibold">Type</th>
+                                <th className="p-3 text-sm font-semibold">Field</th>
+                                <th className="p-3 text-sm font-semibold">From Log</th>
+                                <th className="p-3 text-sm font-semibold">In Portfolio</th>
+                                <th className="p-3 text-sm font-semibold text-right">Difference</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-night-700">
+                            {isLoading || report.discrepancies.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="text-center p-6 text-night-500">{loadFailed ? 'Transactions unavailable.' : isLoading ? 'Loading transactions...' : 'No differences found.'}</td>
+                                </tr>
+                            ) : (
+                                report.discrepancies.map(row => (
+                                    <tr key={`${row.kind}-${row.label}`} className="hover:bg-night-700/50">
+                                        <td className="p-3 text-xs text-night-500">{KIND_LABELS[row.kind]}</td>
+                                        <td className="p-3 font-bold">{row.label}</td>
+                                        <td className="p-3">{formatValue(row, row.expected)}</td>
+                                        <td className="p-3">{formatValue(row, row.actual)}</td>
+                                        <td className="p-3 font-bold text-right text-yellow-400">
+                                            {row.expected !== null && row.actual !== null ? formatValue(row, row.actual - row.expected) : ''}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {!isLoading && report.issues.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="text-lg font-semibold mb-2">Entries That Couldn't Be Replayed</h3>
+                        <ul className="space-y-1 text-sm">
+                            {report.issues.map(issue => (
+                                <li key={`${issue.transactionId}-${issue.message}`} className="bg-night-700 p-2 rounded-md">
+                                    <span className="text-xs text-night-500 mr-2">{new Date(issue.timestamp).toLocaleString()}</span>
+                                    {issue.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </Card>
+        </>
+    );
+};
+
+export default ConsistencyReport;
@@ -3,27 +3,35 @@ import { Link } from 'react-router-dom';
 import { usePortfolio } from '../hooks/usePortfolio';
 import * as fmpService from '../services/fmpService';
 import * as geminiService from '../services/geminiService';
-import type { FmpSearchResult, PortfolioRiskAnalysis } from '../types';
+import type { FmpSearchResult, PortfolioRiskAnalysis, OptionSettlementMode, SlippageLevel, FeeSchedule, FeePresetId, LotReliefMethod } from '../types';
 import Card from './common/Card';
 import Spinner from './common/Spinner';
 import { formatCurrency, formatNumber, formatPercentage } from '../utils/formatters';
 import { SearchIcon, TrendingUpIcon, TrendingDownIcon, DollarSignIcon, BriefcaseIcon, AnalysisIcon, SettingsIcon } from './common/Icons';
 import ChatPanel from './ChatPanel';
 import Watchlist from './Watchlist';
+import PortfolioSwitcher from './PortfolioSwitcher';
 import MarketScreener from './MarketScreener';
 import ActiveUsers from './ActiveUsers';
 import { SignatexMaxIcon } from './common/Icons';
 import UsageIndicator from './UsageIndicator';
 import { useAuth, LITE_LIMIT, MAX_LIMIT, AiLevel } from '/src/hooks/useAuth.tsx';
 import { processHelpAction } from '../utils/workflowExecutor';
+import { getMarginSummary } from '../utils/margin';
+import { getStrategyMarketValue, getStrategyDailyChange, describeLeg, getOptionHoldingValue, isShortOption, getContractMultiplier } from '../utils/optionStrategies';
+import { formatNetPrice } from '../utils/multiLegOrders';
+import { FEE_PRESETS, getFeeSchedule } from '../utils/feeSchedule';
+import { LOT_RELIEF_METHODS, getHoldingLots } from '../utils/taxLots';
+import { getPerformanceSummary, getWithdrawableCash } from '../utils/performance';
+import { getRunStartedAt } from '../utils/portfolioArchive';
 import { usePersistentState } from '../utils/localStorageManager';
 
 const Dashboard: React.FC = () => {
-    const { user, checkUsage, logUsage, onLimitExceeded, userSettings, updateAiLevel } = useAuth();
+    const { user, checkUsage, logUsage, onLimitExceeded, userSettings, updateAiLevel, updateOptionSettlement, updateSlippage } = useAuth();
     const authFunctions = { checkUsage, logUsage, onLimitExceeded };
     const { aiLevel } = userSettings;
 
-    const { portfolio, totalValue, isLoading: isPortfolioLoading, manualSellOption, sellAllStock } = usePortfolio();
+    const { portfolio, transactions, cashFlows, totalValue, isLoading: isPortfolioLoading, depositCash, withdrawCash, manualSellOption, exerciseOption, sellAllStock, coverShort, setMarginEnabled, setFeeSettings, setDividendReinvestment, setLotReliefMethod, closeStrategyPosition } = usePortfolio();
     const [searchQuery, setSearchQuery] = useState('');
     const [searchResults, setSearchResults] = useState<FmpSearchResult[]>([]);
     const [isSearching, setIsSearching] = useState(false);
@@ -33,6 +41,12 @@ const Dashboard: React.FC = () => {
     const [testResult, setTestResult] = useState<{ name: string, result: string } | null>(null);
     const [isTesting, setIsTesting] = useState(false);
     const [testTicker, setTestTicker] = useState('AAPL');
+    const feePreset: FeePresetId = portfolio.fees?.preset || 'none';
+    const [customFees, setCustomFees] = useState<FeeSchedule>(() => getFeeSchedule(portfolio.fees));
+    const [expandedLotsTicker, setExpandedLotsTicker] = useState<string | null>(null);
+    const [showCashTransfer, setShowCashTransfer] = useState(false);
+    const [transferAmount, setTransferAmount] = useState('');
+    const [exerciseContracts, setExerciseContracts] = useState<Record<string, string>>({}); // By option symbol; blank means all
     const handleAiLevelChange = (level: AiLevel) => {
         updateAiLevel(level);
     };
@@ -96,12 +110,32 @@ const Dashboard: React.FC = () => {
     }, [portfolio, authFunctions]);
     
     const holdingsValue = totalValue - portfolio.cash;
-    const totalGain = totalValue - portfolio.initialValue;
-    const totalGainPercent = portfolio.initialValue > 0 ? (totalGain / portfolio.initialValue) * 100 : 0;
+    const marginSummary = useMemo(() => getMarginSummary(portfolio), [portfolio]);
+    const marginCall = portfolio.margin?.enabled ? portfolio.margin.marginCall : null;
+    // Deposits and withdrawals aren't gains: measure against what was put in, and report returns
+    // time-weighted (the trading) and money-weighted (the account, including when cash was added)
+    const performance = useMemo(() => {
+        const now = Date.now();
+        return getPerformanceSummary(portfolio, cashFlows, totalValue, getRunStartedAt(portfolio, transactions, now), now);
+    }, [portfolio, transactions, cashFlows, totalValue]);
+    const totalGain = performance.totalGain;
+    const totalGainPercent = performance.timeWeightedReturn;
+
+    const handleCashTransfer = async (type: 'DEPOSIT' | 'WITHDRAWAL') => {
+        const amount = parseFloat(transferAmount);
+        if (type === 'DEPOSIT') await depositCash(amount);
+        else await withdrawCash(amount);
+        setTransferAmount('');
+        setShowCashTransfer(false);
+    };
     
     const totalDailyStockGain = portfolio.holdings.reduce((acc, h) => acc + (h.shares * (h.change || 0)), 0);
-    const totalDailyOptionGain = portfolio.optionHoldings.reduce((acc, o) => acc + (o.shares * (o.change || 0) * 100), 0);
-    const totalDailyGain = totalDailyStockGain + totalDailyOptionGain;
+    // Written contracts lose value when their premium rises
+    const totalDailyOptionGain = portfolio.optionHoldings.reduce((acc, o) => acc + ((isShortOption(o) ? -1 : 1) * o.shares * (o.change || 0) * getContractMultiplier(o)), 0);
+    // A short position loses value when the stock rises
+    const totalDailyShortGain = portfolio.shortHoldings.reduce((acc, s) => acc - (s.shares * (s.change || 0)), 0);
+    const totalDailyStrategyGain = portfolio.strategyPositions.reduce((acc, p) => acc + getStrategyDailyChange(p), 0);
+    const totalDailyGain = totalDailyStockGain + totalDailyOptionGain + totalDailyShortGain + totalDailyStrategyGain;
     
     const previousTotalValue = totalValue - totalDailyGain;
     const totalDailyGainPercent = previousTotalValue > 0 ? (totalDailyGain / previousTotalValue) * 100 : 0;
@@ -293,6 +327,7 @@ const Dashboard: React.FC = () => {
                     {user ? (
                         <Card>
                             <h2 className="text-2xl font-bold mb-4">Portfolio Overview</h2>
+                            <PortfolioSwitcher />
                             {isPortfolioLoading ? <Spinner /> : (
                                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4"> 
                                     <div className="bg-night-700 p-4 rounded-lg flex items-center gap-4">
@@ -306,10 +341,15 @@ const Dashboard: React.FC = () => {
                                         <GainLossIcon className={`h-8 w-8 ${totalGain >= 0 ? 'text-brand-green' : 'text-brand-red'}`} />
                                         <div className="flex flex-col">
                                             <div>
-                                                <div className="text-xs text-blue-200">Open G/L</div>
+                                                <div className="text-xs text-blue-200" title="Time-weighted return: deposits and withdrawals don't count as gains">Total G/L</div>
                                                 <div className={`text-lg font-bold ${totalGain >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
                                                     {formatCurrency(totalGain)} ({formatPercentage(totalGainPercent)})
                                                 </div>
+                                                {(performance.deposits > 0 || performance.withdrawals > 0) && (
+                                                    <div className="text-xs text-night-500" title="Money-weighted return: weights each dollar by how long it was invested">
+                                                        Money-weighted {formatPercentage(performance.moneyWeightedReturn)} on {formatCurrency(performance.netContributions)} invested
+                                                    </div>
+                                                )}
                                             </div>
                                             <div className="mt-1">
                                                 <div className="text-xs text-blue-200">Day's G/L</div>
@@ -324,6 +364,27 @@ const Dashboard: React.FC = () => {
                                         <div>
                                             <div className="text-sm text-blue-200">Cash Balance</div>
                                             <div className="text-2xl font-bold">{formatCurrency(portfolio.cash)}</div>
+                                            {/* --- Simulated deposits and withdrawals --- */}
+                                            {showCashTransfer ? (
+                                                <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        value={transferAmount}
+                                                        onChange={(e) => setTransferAmount(e.target.value)}
+                                                        placeholder="Amount"
+                                                        className="bg-night-600 rounded-md px-2 py-1 w-24"
+                                                        autoFocus
+                                                    />
+                                                    <button onClick={() => handleCashTransfer('DEPOSIT')} className="bg-brand-green text-white font-semibold px-2 py-1 rounded-md hover:opacity-90">Deposit</button>
+                                                    <button onClick={() => handleCashTransfer('WITHDRAWAL')} className="bg-brand-red text-white font-semibold px-2 py-1 rounded-md hover:opacity-90" title={`Up to ${formatCurrency(getWithdrawableCash(portfolio))}`}>Withdraw</button>
+                                                    <button onClick={() => setShowCashTransfer(false)} className="text-night-500 hover:text-white px-1">&times;</button>
+                                                </div>
+                                            ) : (
+                                                <button onClick={() => setShowCashTransfer(true)} className="mt-1 text-xs text-brand-blue hover:underline">
+                                                    Deposit / Withdraw
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                     <div className="bg-night-700 p-4 rounded-lg flex items-center gap-4">
@@ -335,6 +396,135 @@ const Dashboard: React.FC = () => {
                                     </div>
                                 </div>
                             )}
+
+                            {/* --- Margin Account --- */}
+                            {!isPortfolioLoading && (
+                                <div className="mt-4 bg-night-700 p-4 rounded-lg">
+                                    <div className="flex justify-between items-center mb-3">
+                                        <h3 className="text-lg font-bold">{marginSummary.isMarginAccount ? 'Margin Account' : 'Cash Account'}</h3>
+                                        <button
+                                            onClick={() => setMarginEnabled(!marginSummary.isMarginAccount)}
+                                            className="text-xs bg-night-600 px-3 py-1 rounded-md hover:bg-night-500 transition-colors"
+                                        >
+                                            {marginSummary.isMarginAccount ? 'Switch to Cash Account' : 'Enable Margin'}
+                                        </button>
+                                    </div>
+                                    {marginCall && (
+                                        <div className="mb-3 p-2 rounded-md bg-brand-red/20 border border-brand-red text-sm">
+                                            <span className="font-bold text-brand-red">Margin Call:</span> {formatCurrency(marginCall.amount)} due by {marginCall.dueDate}. Sell positions to restore equity or they will be liquidated.
+                                        </div>
+                                    )}
+                                    <div className="grid grid-cols-3 gap-4 text-center">
+                                        <div>
+                                            <div className="text-xs text-blue-200">Buying Power</div>
+                                            <div className="text-lg font-bold">{formatCurrency(marginSummary.buyingPower)}</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-xs text-blue-200">Margin Used</div>
+                                            <div className={`text-lg font-bold ${marginSummary.debitBalance > 0 ? 'text-yellow-400' : ''}`}>{formatCurrency(marginSummary.debitBalance)}</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-xs text-blue-200">Equity %</div>
+                                            <div className={`text-lg font-bold ${marginSummary.marginCallAmount > 0 ? 'text-brand-red' : 'text-brand-green'}`}>{formatPercentage(marginSummary.equityPercent)}</div>
+                                        </div>
+                                    </div>
+                                    {marginSummary.isMarginAccount && (
+                                        <div className="mt-2 text-xs text-night-500 text-center">
+                                            Maintenance requirement {formatCurrency(marginSummary.maintenanceRequirement)} · Interest {portfolio.margin?.interestRate}%/yr on debit balance
+                                        </div>
+                                    )}
+                                    {/* --- Fill model: market orders cross the spread, then slippage grows with order size vs. volume --- */}
+                                    <div className="mt-3 flex items-center justify-center gap-2 text-sm">
+                                        <span className="text-night-500" title="Market orders buy at the ask and sell at the bid. Slippage adds price impact for orders that are large relative to average volume.">Slippage:</span>
+                                        {(['off', 'low', 'normal', 'high'] as SlippageLevel[]).map(level => (
+                                            <button
+                                                key={level}
+                                                onClick={() => updateSlippage(level)}
+                                                className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors ${
+                                                    userSettings.slippage === level
+                                                        ? 'bg-purple-600 text-white'
+                                                        : 'bg-night-600 text-night-100 hover:bg-night-500'
+                                                }`}
+                                            >
+                                                {level.charAt(0).toUpperCase() + level.slice(1)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {/* --- Commissions and regulatory fees, charged on every fill --- */}
+                                    <div className="mt-3 flex items-center justify-center gap-2 text-sm">
+                                        <span className="text-night-500" title="Commissions are charged per share or per contract. Regulatory fees (SEC and FINRA TAF) apply to sales only.">Fees:</span>
+                                        <select
+                                            value={feePreset}
+                                            onChange={(e) => {
+                                                const preset = e.target.value as FeePresetId;
+                                                if (preset === 'custom') {
+                                                    // Start the custom editor from whatever schedule is in effect now
+                                                    const schedule = getFeeSchedule(portfolio.fees);
+                                                    setCustomFees(schedule);
+                                                    setFeeSettings({ preset, custom: schedule });
+                                                } else {
+                                                    setFeeSettings({ preset });
+                                                }
+                                            }}
+                                            className="bg-night-600 text-night-100 text-xs rounded-md px-2 py-1"
+                                        >
+                                            {Object.entries(FEE_PRESETS).map(([id, preset]) => (
+                                                <option key={id} value={id}>{preset.label}</option>
+                                            ))}
+                                            <option value="custom">Custom</option>
+                                        </select>
+                                    </div>
+                                    {feePreset === 'custom' && (
+                                        <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+                                            {([
+                                                ['perShare', 'Per Share ($)'],
+                                                ['perContract', 'Per Contract ($)'],
+                                                ['minimumPerTrade', 'Minimum per Trade ($)'],
+                                                ['maxPercentOfValue', 'Max % of Trade Value'],
+                                            ] as [keyof Omit<FeeSchedule, 'regulatoryFees'>, string][]).map(([field, label]) => (
+                                                <label key={field} className="flex flex-col text-night-500">
+                                                    {label}
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="0.001"
+                                                        value={customFees[field]}
+                                                        onChange={(e) => setCustomFees({ ...customFees, [field]: parseFloat(e.target.value) || 0 })}
+                                                        className="bg-night-600 text-night-100 rounded-md px-2 py-1 mt-1"
+                                                    />
+                                                </label>
+                                            ))}
+                                            <label className="col-span-2 flex items-center gap-2 text-night-500">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={customFees.regulatoryFees}
+                                                    onChange={(e) => setCustomFees({ ...customFees, regulatoryFees: e.target.checked })}
+                                                />
+                                                Charge SEC and FINRA fees on sales
+                                            </label>
+                                            <button
+                                                onClick={() => setFeeSettings({ preset: 'custom', custom: customFees })}
+                                                className="col-span-2 bg-purple-600 text-white font-semibold py-1 rounded-md hover:bg-purple-700 transition-colors"
+                                            >
+                                                Save Fee Schedule
+                                            </button>
+                                        </div>
+                                    )}
+                                    {/* --- Tax lots: which lots a sale closes unless specific lots are picked on the trade --- */}
+                                    <div className="mt-3 flex items-center justify-center gap-2 text-sm">
+                                        <span className="text-night-500" title="Each purchase is kept as its own tax lot. This decides which lots a sale closes, and so its realized gain and holding period.">Lot Relief:</span>
+                                        <select
+                                            value={portfolio.lotReliefMethod || 'FIFO'}
+                                            onChange={(e) => setLotReliefMethod(e.target.value as Exclude<LotReliefMethod, 'SPECIFIC'>)}
+                                            className="bg-night-600 text-night-100 text-xs rounded-md px-2 py-1"
+                                        >
+                                            {(['FIFO', 'LIFO', 'HIFO'] as const).map(method => (
+                                                <option key={method} value={method}>{LOT_RELIEF_METHODS[method]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                            )}
                         </Card>
                     ) : (
                         <Card><p className="text-center text-night-500 p-4">Log in to view your Portfolio Overview.</p></Card>
@@ -367,10 +557,21 @@ const Dashboard: React.FC = () => {
                                                 const openGainPercent = h.purchasePrice > 0 ? (openGain / (h.purchasePrice * h.shares)) * 100 : 0;
                                                 const dayGain = h.shares * (h.change || 0);
                                                 const dayGainPercent = h.changesPercentage || 0;
+                                                const lots = getHoldingLots(h);
+                                                const lotsExpanded = expandedLotsTicker === h.ticker;
                                                 return (
-                                                    <tr key={h.ticker} className="border-b border-night-700 hover:bg-night-700">
+                                                    <React.Fragment key={h.ticker}>
+                                                    <tr className="border-b border-night-700 hover:bg-night-700">
                                                         <td className="p-3 font-bold"><Link to={`/stock/${h.ticker}`} className="text-brand-blue hover:underline">{h.ticker}</Link></td>
-                                                        <td className="p-3">{h.shares.toFixed(3)}</td>
+                                                        <td className="p-3">
+                                                            {h.shares.toFixed(3)}
+                                                            <button
+                                                                onClick={() => setExpandedLotsTicker(lotsExpanded ? null : h.ticker)}
+                                                                className="block text-xs text-night-500 hover:text-brand-blue"
+                                                            >
+                                                                {lots.length} lot{lots.length === 1 ? '' : 's'} {lotsExpanded ? '▴' : '▾'}
+                                                            </button>
+                                                        </td>
                                                         <td className="p-3">{formatCurrency(h.purchasePrice)}</td>
                                                         <td className="p-3">{formatCurrency(h.currentPrice)}</td>
                                                         <td className="p-3">{formatCurrency(totalValue)}</td>
@@ -380,7 +581,15 @@ const Dashboard: React.FC = () => {
                                                         <td className={`p-3 font-semibold ${openGain >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
                                                             {formatCurrency(openGain)} ({formatPercentage(openGainPercent)})
                                                         </td>
-                                                        <td className="p-3 text-right">
+                                                        <td className="p-3 text-right whitespace-nowrap">
+                                                            {/* Dividend reinvestment: paid dividends buy fractional shares instead of staying as cash */}
+                                                            <button
+                                                                onClick={() => setDividendReinvestment(h.ticker, !h.drip)}
+                                                                title={h.drip ? 'Dividends are reinvested in shares. Click to take them as cash.' : 'Dividends are paid as cash. Click to reinvest them.'}
+                                                                className={`mr-2 px-3 py-1 rounded-md text-sm font-semibold transition-colors ${h.drip ? 'bg-purple-600 text-white hover:bg-purple-700' : 'bg-night-600 text-night-100 hover:bg-night-500'}`}
+                                                            >
+                                                                DRIP {h.drip ? 'On' : 'Off'}
+                                                            </button>
                                                             <button 
                                                                 onClick={() => sellAllStock(h.ticker)}
                                                                 className="text-white bg-brand-red px-3 py-1 rounded-md text-sm hover:bg-red-600 transition-colors"
@@ -389,6 +598,22 @@ const Dashboard: React.FC = () => {
                                                             </button>
                                                         </td>
                                                     </tr>
+                                                    {/* Lot detail: acquisition date, basis and holding period of each purchase */}
+                                                    {lotsExpanded && lots.map(lot => {
+                                                        const lotGain = (h.currentPrice - lot.costBasis) * lot.shares;
+                                                        const isLongTerm = lot.acquiredAt > 0 && Date.now() - lot.acquiredAt > 365 * 24 * 60 * 60 * 1000;
+                                                        return (
+                                                            <tr key={lot.id} className="border-b border-night-700 bg-night-800 text-xs text-night-500">
+                                                                <td className="p-2 pl-6">{lot.acquiredAt > 0 ? new Date(lot.acquiredAt).toLocaleDateString() : 'Various'}</td>
+                                                                <td className="p-2">{Number(lot.shares.toFixed(4))}</td>
+                                                                <td className="p-2">{formatCurrency(lot.costBasis)}</td>
+                                                                <td className="p-2" colSpan={3}>{lot.acquiredAt > 0 ? (isLongTerm ? 'Long-term' : 'Short-term') : 'Holding period unknown'}</td>
+                                                                <td className={`p-2 font-semibold ${lotGain >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>{formatCurrency(lotGain)}</td>
+                                                                <td className="p-2"></td>
+                                                            </tr>
+                                                        );
+                                                    })}
+                                                    </React.Fragment>
                                                 );
                                             })
                                         )}
@@ -400,9 +625,140 @@ const Dashboard: React.FC = () => {
                          <Card><p className="text-center text-night-500 p-4">Log in to view your Stock Holdings.</p></Card>
                     )}
 
+                    {/* Short positions are only listed once the user has opened one */}
+                    {user && portfolio.shortHoldings.length > 0 && (
+                        <Card>
+                            <h2 className="text-2xl font-bold mb-4">My Short Positions</h2>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left">
+                                    <thead className="border-b border-night-600">
+                                        <tr>
+                                            <th className="p-3">Ticker</th>
+                                            <th className="p-3">Shares</th>
+                                            <th className="p-3">Short Price</th>
+                                            <th className="p-3">Current Price</th>
+                                            <th className="p-3">Market Value</th>
+                                            <th className="p-3">Open G/L</th>
+                                            <th className="p-3">Borrow Fees</th>
+                                            <th className="p-3 text-right">Action</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {portfolio.shortHoldings.map(s => {
+                                            const marketValue = s.shares * s.currentPrice;
+                                            const openGain = (s.entryPrice - s.currentPrice) * s.shares;
+                                            const openGainPercent = s.entryPrice > 0 ? (openGain / (s.entryPrice * s.shares)) * 100 : 0;
+                                            return (
+                                                <tr key={s.ticker} className="border-b border-night-700 hover:bg-night-700">
+                                                    <td className="p-3 font-bold"><Link to={`/stock/${s.ticker}`} className="text-brand-blue hover:underline">{s.ticker}</Link></td>
+                                                    <td className="p-3">{s.shares.toFixed(3)}</td>
+                                                    <td className="p-3">{formatCurrency(s.entryPrice)}</td>
+                                                    <td className="p-3">{formatCurrency(s.currentPrice)}</td>
+                                                    <td className="p-3">{formatCurrency(marketValue)}</td>
+                                                    <td className={`p-3 font-semibold ${openGain >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
+                                                        {formatCurrency(openGain)} ({formatPercentage(openGainPercent)})
+                                                    </td>
+                                                    <td className="p-3 text-sm">
+                                                        {formatCurrency(s.borrowFeesPaid)}
+                                                        <span className="text-night-500 ml-1">({s.borrowRate}%/yr)</span>
+                                                    </td>
+                                                    <td className="p-3 text-right">
+                                                        <button
+                                                            onClick={() => coverShort(s.ticker, s.shares, s.currentPrice)}
+                                                            className="text-white bg-brand-blue px-3 py-1 rounded-md text-sm hover:bg-blue-600 transition-colors"
+                                                        >
+                                                            Cover All
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </Card>
+                    )}
+
+                    {/* Multi-leg strategies are listed as one row per position, with their legs underneath */}
+                    {user && portfolio.strategyPositions.length > 0 && (
+                        <Card>
+                            <h2 className="text-2xl font-bold mb-4">My Option Strategies</h2>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left">
+                                    <thead className="border-b border-night-600">
+                                        <tr>
+                                            <th className="p-3">Strategy</th>
+                                            <th className="p-3">Legs</th>
+                                            <th className="p-3">Qty</th>
+                                            <th className="p-3">Entry</th>
+                                            <th className="p-3">Market Value</th>
+                                            <th className="p-3">Open G/L</th>
+                                            <th className="p-3 text-right">Action</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {portfolio.strategyPositions.map(p => {
+                                            const marketValue = getStrategyMarketValue(p);
+                                            const openGain = marketValue - p.netEntryPrice * p.quantity * getContractMultiplier(p);
+                                            return (
+                                                <tr key={p.id} className="border-b border-night-700 hover:bg-night-700">
+                                                    <td className="p-3 font-bold">
+                                                        <Link to={`/stock/${p.underlyingTicker}`} className="text-brand-blue hover:underline">{p.underlyingTicker}</Link>
+                                                        <div className="text-xs text-night-500">{p.name}</div>
+                                                    </td>
+                                                    <td className="p-3 text-xs">
+                                                        {p.legs.map(leg => (
+                                                            <div key={leg.symbol} className={leg.side === 'long' ? 'text-brand-green' : 'text-brand-red'}>
+                                                                {describeLeg(leg)} @ {formatCurrency(leg.currentPrice)}
+                                                            </div>
+                                                        ))}
+                                                    </td>
+                                                    <td className="p-3">{p.quantity}</td>
+                                                    <td className="p-3">{formatNetPrice(p.netEntryPrice)}</td>
+                                                    <td className="p-3">{formatCurrency(marketValue)}</td>
+                                                    <td className={`p-3 font-semibold ${openGain >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
+                                                        {formatCurrency(openGain)}
+                                                    </td>
+                                                    <td className="p-3 text-right">
+                                                        <button
+                                                            onClick={() => closeStrategyPosition(p.id)}
+                                                            className="text-white bg-brand-red px-3 py-1 rounded-md text-sm hover:bg-red-600 transition-colors"
+                                                        >
+                                                            Close All Legs
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </Card>
+                    )}
+
                     {user ? (
                         <Card>
-                            <h2 className="text-2xl font-bold mb-4">My Option Holdings</h2>
+                            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                                <h2 className="text-2xl font-bold">My Option Holdings</h2>
+                                {/* --- Settlement at expiration: deliver shares, or pay out intrinsic value --- */}
+                                <div className="flex items-center gap-2 text-sm">
+                                    <span className="text-night-500">At expiration:</span>
+                                    {(['physical', 'cash'] as OptionSettlementMode[]).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => updateOptionSettlement(mode)}
+                                            title={mode === 'physical' ? "In-the-money contracts are exercised or assigned into shares at the strike" : "In-the-money contracts are closed out at their intrinsic value"}
+                                            className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors ${
+                                                userSettings.optionSettlement === mode
+                                                    ? 'bg-purple-600 text-white'
+                                                    : 'bg-night-600 text-night-100 hover:bg-night-500'
+                                            }`}
+                                        >
+                                            {mode === 'physical' ? 'Deliver Shares' : 'Cash Settle'}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
                             <div className="overflow-x-auto">
                                 <table className="w-full text-left">
                                     <thead className="border-b border-night-600">
@@ -424,25 +780,36 @@ const Dashboard: React.FC = () => {
                                             <tr><td colSpan={10} className="text-center p-6 text-night-500">You do not own any options.</td></tr>
                                         ) : (
                                             portfolio.optionHoldings.map(o => {
-                                                const totalValue = o.shares * o.currentPrice * 100;
-                                                const openGain = (o.currentPrice - o.purchasePrice) * o.shares * 100;
-                                                const openGainPercent = o.purchasePrice > 0 ? (openGain / (o.purchasePrice * o.shares * 100)) * 100 : 0;
-                                                const dayGain = (o.change || 0) * o.shares * 100;
-                                                const dayGainPercent = o.changesPercentage || 0;
+                                                const isShort = isShortOption(o);
+                                                const direction = isShort ? -1 : 1;
+                                                const totalValue = getOptionHoldingValue(o);
+                                                const openGain = direction * (o.currentPrice - o.purchasePrice) * o.shares * getContractMultiplier(o);
+                                                const openGainPercent = o.purchasePrice > 0 ? (openGain / (o.purchasePrice * o.shares * getContractMultiplier(o))) * 100 : 0;
+                                                const dayGain = direction * (o.change || 0) * o.shares * getContractMultiplier(o);
+                                                const dayGainPercent = direction * (o.changesPercentage || 0);
                                                 
                                                 const handleSellClick = () => {
                                                     manualSellOption(o.symbol); 
                                                 };
+                                                const contractsToExercise = exerciseContracts[o.symbol] ? Number(exerciseContracts[o.symbol]) : o.shares;
+                                                const handleExerciseClick = async () => {
+                                                    await exerciseOption(o.symbol, contractsToExercise);
+                                                    setExerciseContracts(prev => {
+                                                        const { [o.symbol]: _done, ...rest } = prev;
+                                                        return rest;
+                                                    });
+                                                };
 
                                                 return (
                                                     <tr key={o.symbol} className="border-b border-night-700 hover:bg-night-700">
                                                         <td className="p-3 font-bold">
                                                             <Link to={`/stock/${o.underlyingTicker}`} className="text-brand-blue hover:underline">{o.underlyingTicker}</Link>
                                                             <span className={`ml-2 text-xs font-semibold uppercase ${o.optionType === 'call' ? 'text-brand-green' : 'text-brand-red'}`}>({o.optionType})</span>
+                                                            {isShort && <span className="ml-2 text-xs font-semibold uppercase text-purple-400">Written</span>}
                                                         </td>
                                                         <td className="p-3 text-sm">{o.expirationDate}</td>
                                                         <td className="p-3">{formatCurrency(o.strikePrice)}</td>
-                                                        <td className="p-3">{o.shares}</td>
+                                                        <td className="p-3">{isShort ? -o.shares : o.shares}</td>
                                                         <td className="p-3">{formatCurrency(o.purchasePrice)}</td>
                                                         <td className="p-3">{formatCurrency(o.currentPrice)}</td>
                                                         <td className="p-3">{formatCurrency(totalValue)}</td>
@@ -452,12 +819,35 @@ const Dashboard: React.FC = () => {
                                                         <td className={`p-3 font-semibold ${openGain >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
                                                             {formatCurrency(openGain)} ({formatPercentage(openGainPercent)})
                                                         </td>
-                                                        <td className="p-3 text-right">
+                                                        <td className="p-3 text-right whitespace-nowrap">
+                                                            {/* Early exercise turns long contracts into shares at the strike */}
+                                                            {!isShort && (
+                                                                <>
+                                                                    <input
+                                                                        type="number"
+                                                                        min="1"
+                                                                        max={o.shares}
+                                                                        step="1"
+                                                                        value={exerciseContracts[o.symbol] ?? ''}
+                                                                        onChange={(e) => setExerciseContracts(prev => ({ ...prev, [o.symbol]: e.target.value }))}
+                                                                        placeholder={String(o.shares)}
+                                                                        title="Contracts to exercise"
+                                                                        className="bg-night-600 rounded-md px-2 py-1 w-16 text-sm mr-1"
+                                                                    />
+                                                                    <button
+                                                                        onClick={handleExerciseClick}
+                                                                        title={`${o.optionType === 'call' ? 'Buy' : 'Sell'} ${Number.isFinite(contractsToExercise) ? contractsToExercise * getContractMultiplier(o) : 0} shares at ${formatCurrency(o.strikePrice)}`}
+                                                                        className="text-white bg-purple-600 px-3 py-1 rounded-md text-sm hover:bg-purple-700 transition-colors mr-2"
+                                                                    >
+                                                                        Exercise
+                                                                    </button>
+                                                                </>
+                                                            )}
                                                             <button 
                                                                 onClick={handleSellClick}
-                                                                className="text-white bg-brand-red px-3 py-1 rounded-md text-sm hover:bg-red-600 transition-colors"
+                                                                className={`text-white px-3 py-1 rounded-md text-sm transition-colors ${isShort ? 'bg-brand-blue hover:bg-blue-600' : 'bg-brand-red hover:bg-red-600'}`}
                                                             >
-                                                                Sell All
+                                                                {isShort ? 'Buy to Close' : 'Sell All'}
                                                             </button>
                                                         </td>
                                                     </tr>
@@ -1,33 +1,134 @@
 // components/HistoryLedger.tsx
-import React, { useMemo } from 'react';
-import { usePortfolio } from '../hooks/usePortfolio';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePortfolio, getPortfolioDocIds } from '../hooks/usePortfolio';
+import { fetchTransactionPage, fetchRunTotals, TransactionPage, RunTotals } from '../services/transactionLogService';
 import Card from './common/Card';
 // Ensure formatCurrency is imported if needed elsewhere,
 // but the fix is to use the wrapper below
 import { formatCurrency } from '../utils/formatters';
+import { formatNetPrice } from '../utils/multiLegOrders';
+import type { Transaction } from '../types';
 import { BriefcaseIcon } from './common/Icons';
 import ChatPanel from './ChatPanel';
 import { useAuth } from '../src/hooks/useAuth.tsx';
 
 const HistoryLedger: React.FC = () => {
-    const { transactions } = usePortfolio();
+    const { portfolio, transactions, allPortfolios, activePortfolio } = usePortfolio();
     const { user } = useAuth(); // ADDED: Destructure user from useAuth
 
+    // The table reads the log a page at a time and totals are summed on the server; the hook only holds the newest entries
+    const [tickerFilter, setTickerFilter] = useState('');
+    const [pageTransactions, setPageTransactions] = useState<Transaction[]>([]);
+    const [cursor, setCursor] = useState<TransactionPage['cursor']>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoadingPage, setIsLoadingPage] = useState(false);
+    const [totals, setTotals] = useState<RunTotals>({ realizedPnl: 0, fees: 0 });
+    const portfolioDocId = getPortfolioDocIds(activePortfolio).portfolio;
+    const since = portfolio.startedAt ?? 0;
+
+    // Start over from the newest page whenever the portfolio or the filter changes
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        setIsLoadingPage(true);
+        fetchTransactionPage(user.uid, portfolioDocId, since, tickerFilter || undefined)
+            .then(page => {
+                if (cancelled) return;
+                setPageTransactions(page.transactions);
+                setCursor(page.cursor);
+                setHasMore(page.hasMore);
+            })
+            .catch(error => console.error('[DEBUG] Failed to load transactions:', error))
+            .finally(() => { if (!cancelled) setIsLoadingPage(false); });
+        return () => { cancelled = true; };
+    }, [user, portfolioDocId, since, tickerFilter]);
+
+    // New trades arrive through the hook's live window; put them on top of the pages already loaded
+    useEffect(() => {
+        setPageTransactions(prev => {
+            const loadedIds = new Set(prev.map(t => t.id));
+            const newest = prev.length > 0 ? prev[0].timestamp : since;
+            const arrivals = transactions
+                .filter(t => !loadedIds.has(t.id) && t.timestamp >= newest && (!tickerFilter || t.ticker === tickerFilter))
+                .reverse();
+            return arrivals.length > 0 ? [...arrivals, ...prev] : prev;
+        });
+    }, [transactions]);
+
+    const loadMore = async () => {
+        if (!user || !cursor) return;
+        setIsLoadingPage(true);
+        try {
+            const page = await fetchTransactionPage(user.uid, portfolioDocId, since, tickerFilter || undefined, cursor);
+            setPageTransactions(prev => [...prev, ...page.transactions]);
+            setCursor(page.cursor);
+            setHasMore(page.hasMore);
+        } catch (error) {
+            console.error('[DEBUG] Failed to load more transactions:', error);
+            alert('Could not load more transactions. Please try again.');
+        } finally {
+            setIsLoadingPage(false);
+        }
+    };
+
+    // Re-summed whenever a new transaction arrives
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        fetchRunTotals(user.uid, portfolioDocId, since)
+            .then(result => { if (!cancelled) setTotals(result); })
+            .catch(error => console.error('[DEBUG] Failed to total transactions:', error));
+        return () => { cancelled = true; };
+    }, [user, portfolioDocId, since, transactions]);
+
+    // Everything loaded so far: the pages shown and the hook's newest entries
+    const loadedTransactions = useMemo(() => {
+        const byId = new Map<string, Transaction>(pageTransactions.map(t => [t.id, t]));
+        transactions.forEach(t => byId.set(t.id, t));
+        return [...byId.values()];
+    }, [pageTransactions, transactions]);
+
+    // Tickers held or seen in the loaded entries, for the filter
+    const tradedTickers = useMemo(() => {
+        const tickers = [
+            ...loadedTransactions.map(t => t.ticker),
+            ...portfolio.holdings.map(h => h.ticker),
+            ...(portfolio.shortHoldings || []).map(s => s.ticker),
+            ...portfolio.optionHoldings.map(o => o.underlyingTicker),
+        ];
+        return [...new Set(tickers.filter(Boolean))].sort();
+    }, [loadedTransactions, portfolio]);
+
     // ADDITION: Robust check against unprotected access
     if (!user) {
         return <div className="text-center text-night-500 mt-10">You must be logged in to view your transaction history.</div>;
     }
 
-    const realizedPnl = useMemo(() => {
-        return transactions.reduce((sum, t) => sum + (t.realizedPnl || 0), 0);
-    }, [transactions]);
+    const realizedPnl = totals.realizedPnl;
+    // Already counted in realized P&L; shown separately so trading costs are visible
+    const feesPaid = totals.fees;
 
-    // Sort transactions by timestamp descending (most recent first)
-    const sortedTransactions = useMemo(() => {
-        return [...transactions].sort((a, b) => b.timestamp - a.timestamp);
-    }, [transactions]);
+    // Exercise/assignment writes the option close and the stock trades it produced; index both directions
+    const { transactionsById, deliveriesByOptionId } = useMemo(() => {
+        const byId = new Map<string, Transaction>();
+        const deliveries = new Map<string, Transaction[]>();
+        loadedTransactions.forEach(t => {
+            byId.set(t.id, t);
+            if (t.linkedTransactionId) {
+                deliveries.set(t.linkedTransactionId, [...(deliveries.get(t.linkedTransactionId) || []), t]);
+            }
+        });
+        return { transactionsById: byId, deliveriesByOptionId: deliveries };
+    }, [loadedTransactions]);
 
     const getTypeColor = (type: string, pnl?: number) => {
+        // Covers and borrow fees close out P&L, so color them by result like sells
+        if ((type === 'BUY_TO_COVER' || type === 'BORROW_FEE' || type === 'DIVIDEND' || type === 'MARGIN_INTEREST' || type === 'STRATEGY_LEG_CLOSE' || type === 'OPTION_BUY_TO_CLOSE' || type === 'CORPORATE_ACTION') && pnl !== undefined) {
+            return pnl >= 0 ? 'text-brand-green' : 'text-brand-red';
+        }
+        if (type === 'DEPOSIT') return 'text-brand-green';
+        if (type === 'WITHDRAWAL') return 'text-yellow-400';
         if (type.includes('BUY')) return 'text-brand-blue';
         if (type.includes('SELL')) {
             if (pnl !== undefined) {
@@ -44,6 +145,46 @@ const HistoryLedger: React.FC = () => {
         return formatCurrency(value);
     };
 
+    // Describes the level that fired an automated exit (or the limit of a filled order)
+    const getTriggerDetail = (t: Transaction): string | null => {
+        // Audit entries explain themselves under the ticker
+        if (t.type === 'CORPORATE_ACTION') return null;
+        if (t.marginLiquidation) return 'Margin call liquidation';
+        if (t.strategyName) {
+            const net = t.netPrice !== undefined ? ` · Net ${formatNetPrice(t.netPrice)}` : '';
+            return `${t.strategyName} (${t.legSide} leg)${net}`;
+        }
+        if (t.trailingPeakPrice !== undefined && t.trailingTriggerPrice !== undefined) {
+            return `Peak ${formatCurrency(t.trailingPeakPrice)} · Trigger ${formatCurrency(t.trailingTriggerPrice)}`;
+        }
+        if (t.stopLossTriggerPrice !== undefined) return `Stop ${formatCurrency(t.stopLossTriggerPrice)}`;
+        if (t.takeProfitTriggerPrice !== undefined) return `Target ${formatCurrency(t.takeProfitTriggerPrice)}`;
+        if (t.limitPrice !== undefined) return `Limit ${formatCurrency(t.limitPrice)}`;
+        if (t.stopPrice !== undefined) return `Stop order ${formatCurrency(t.stopPrice)}`;
+        return null;
+    };
+
+    // Links an exercised/assigned option (or a reinvested dividend) to the stock trades it produced, and back
+    const getLinkDetail = (t: Transaction): string | null => {
+        if (t.linkedTransactionId) {
+            const source = transactionsById.get(t.linkedTransactionId);
+            if (!source) return null;
+            if (source.type === 'DIVIDEND') return 'Dividend reinvestment';
+            return `From ${source.type === 'OPTION_ASSIGNMENT' ? 'assignment' : 'exercise'} of ${source.optionSymbol}`;
+        }
+        const deliveries = deliveriesByOptionId.get(t.id);
+        if (!deliveries) return null;
+        return deliveries.map(d => `→ ${d.type.replace(/_/g, ' ')} ${Number(d.shares.toFixed(4))} ${d.ticker} @ ${formatCurrency(d.price)}`).join(' · ');
+    };
+
+    // Which tax lots a sale closed, oldest first
+    const getLotDetail = (t: Transaction): string | null => {
+        if (!t.closedLots || t.closedLots.length === 0) return null;
+        const lots = [...t.closedLots]
+            .sort((a, b) => a.acquiredAt - b.acquiredAt)
+            .map(lot => `${Number(lot.shares.toFixed(4))} @ ${formatCurrency(lot.costBasis)} (${lot.acquiredAt > 0 ? new Date(lot.acquiredAt).toLocaleDateString() : 'various'})`);
+        return `${t.lotReliefMethod ? `${t.lotReliefMethod}: ` : ''}${lots.join(' · ')}`;
+    };
 
     return (
         <>
@@ -53,15 +194,36 @@ const HistoryLedger: React.FC = () => {
                 <div className="flex justify-between items-center mb-6">
                     <h2 className="text-2xl font-bold flex items-center gap-2">
                         <BriefcaseIcon className="h-6 w-6 text-brand-blue" /> Transaction History
+                        {/* The ledger follows the portfolio picked on the Dashboard */}
+                        <span className="text-base font-normal text-night-500">· {allPortfolios.find(p => p.id === activePortfolio)?.name}</span>
                     </h2>
                     <div className="text-right">
                         <div className="text-sm text-night-500">Total Realized P&L (Closed Positions)</div>
                         <div className={`text-xl font-bold ${realizedPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
                             {formatPriceOrPnl(realizedPnl)}
                         </div>
+                        {feesPaid > 0 && (
+                            <div className="text-xs text-night-500">Includes {formatCurrency(feesPaid)} in fees</div>
+                        )}
+                        <Link to="/tax" className="text-xs text-brand-blue hover:underline">Capital Gains Report</Link>
+                        {' · '}<Link to="/consistency" className="text-xs text-brand-blue hover:underline">Check Consistency</Link>
                     </div>
                 </div>
 
+                <div className="flex justify-end mb-3">
+                    <select
+                        value={tickerFilter}
+                        onChange={(e) => setTickerFilter(e.target.value)}
+                        className="bg-night-700 border border-night-600 rounded-md py-1 px-2 focus:ring-2 focus:ring-brand-blue focus:outline-none text-sm"
+                        title="Filter by ticker"
+                    >
+                        <option value="">All tickers</option>
+                        {tradedTickers.map(ticker => (
+                            <option key={ticker} value={ticker}>{ticker}</option>
+                        ))}
+                    </select>
+                </div>
+
                 <div className="overflow-x-auto">
                     <table className="min-w-full text-left divide-y divide-night-700">
                         <thead className="bg-night-700">
@@ -76,20 +238,37 @@ const HistoryLedger: React.FC = () => {
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-night-700">
-                            {sortedTransactions.length === 0 ? (
+                            {pageTransactions.length === 0 ? (
                                 <tr>
-                                    <td colSpan={7} className="text-center p-6 text-night-500">No transactions recorded yet.</td>
+                                    <td colSpan={7} className="text-center p-6 text-night-500">{isLoadingPage ? 'Loading transactions...' : 'No transactions recorded yet.'}</td>
                                 </tr>
                             ) : (
-                                sortedTransactions.map(t => (
+                                pageTransactions.map(t => (
                                     <tr key={t.id} className="hover:bg-night-700">
                                         <td className="p-3 text-xs text-night-500">{new Date(t.timestamp).toLocaleString()}</td>
-                                        <td className={`p-3 font-semibold ${getTypeColor(t.type, t.realizedPnl)}`}>{t.type.replace('_', ' ')}</td>
-                                        <td className="p-3 font-bold">{t.optionSymbol || t.ticker}</td>
-                                        <td className="p-3">{t.shares}</td>
+                                        <td className={`p-3 font-semibold ${getTypeColor(t.type, t.realizedPnl)}`}>{t.type.replace(/_/g, ' ')}</td>
+                                        <td className="p-3 font-bold">
+                                            {t.optionSymbol || t.ticker || 'Cash'}
+                                            {getLinkDetail(t) && <div className="text-xs font-normal text-purple-400">{getLinkDetail(t)}</div>}
+                                            {t.description && <div className="text-xs font-normal text-night-500">{t.description}</div>}
+                                        </td>
+                                        <td className="p-3">
+                                            {t.type === 'DEPOSIT' || t.type === 'WITHDRAWAL' ? '—' : t.shares}
+                                            {getLotDetail(t) && <div className="text-xs text-night-500">{getLotDetail(t)}</div>}
+                                        </td>
                                         {/* FIX: Use the helper function here */}
-                                        <td className="p-3">{formatPriceOrPnl(t.price)}</td>
-                                        <td className="p-3">{formatPriceOrPnl(t.totalAmount)}</td>
+                                        <td className="p-3">
+                                            {t.type === 'DEPOSIT' || t.type === 'WITHDRAWAL' ? '—' : formatPriceOrPnl(t.price)}
+                                            {/* Fill vs. the quote midpoint: what the spread and slippage cost */}
+                                            {t.midPrice !== undefined && Math.abs(t.midPrice - t.price) >= 0.005 && (
+                                                <div className="text-xs text-night-500">Mid {formatCurrency(t.midPrice)}</div>
+                                            )}
+                                            {getTriggerDetail(t) && <div className="text-xs text-night-500">{getTriggerDetail(t)}</div>}
+                                        </td>
+                                        <td className="p-3">
+                                            {formatPriceOrPnl(t.totalAmount)}
+                                            {t.fees !== undefined && <div className="text-xs text-night-500">Fees {formatCurrency(t.fees)}</div>}
+                                        </td>
                                         <td className={`p-3 font-bold text-right ${getTypeColor(t.type, t.realizedPnl)}`}>
                                             {t.realizedPnl !== undefined ? formatPriceOrPnl(t.realizedPnl) : '—'}
                                         </td>
@@ -99,6 +278,17 @@ const HistoryLedger: React.FC = () => {
                         </tbody>
                     </table>
                 </div>
+                {hasMore && (
+                    <div className="text-center mt-4">
+                        <button
+                            onClick={loadMore}
+                            disabled={isLoadingPage}
+                            className="px-4 py-2 rounded-md bg-night-700 hover:bg-night-600 text-sm font-semibold disabled:opacity-50"
+                        >
+                            {isLoadingPage ? 'Loading...' : 'Load more'}
+                        </button>
+                    </div>
+                )}
             </Card>
         </>
     );
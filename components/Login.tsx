@@ -43,17 +43,17 @@ const Login: React.FC = () => {
                 });
                 console.log("User document created in Firestore for user:", user.uid);
 
-                // Create initial portfolio and transactions documents
+                // Create the initial portfolio; its transaction log is written by the server
                 const portfolioDocRef = doc(db, 'users', user.uid, 'data', 'portfolio');
-                const transactionsDocRef = doc(db, 'users', user.uid, 'data', 'transactions');
                 const initialPortfolio = {
                     cash: INITIAL_CASH,
                     holdings: [],
                     optionHoldings: [],
+                    shortHoldings: [],
+                    strategyPositions: [],
                     initialValue: INITIAL_CASH,
                 };
                 await setDoc(portfolioDocRef, initialPortfolio);
-                await setDoc(transactionsDocRef, { transactions: [] });
 
             } catch (error) {
                 console.error("Error creating user document:", error);
@@ -0,0 +1,32 @@
+import React, { useState, useEffect } from 'react';
+import { getMarketStatus, formatMarketTime, MarketSession } from '../utils/marketCalendar';
+
+const SESSION_COLORS: Record<MarketSession, string> = {
+    regular: 'bg-brand-green',
+    pre: 'bg-yellow-400',
+    post: 'bg-yellow-400',
+    closed: 'bg-brand-red',
+};
+
+const MarketStatusIndicator: React.FC = () => {
+    const [status, setStatus] = useState(() => getMarketStatus());
+
+    useEffect(() => {
+        // Sessions change on the minute, so a minute is as fresh as this needs to be
+        const interval = setInterval(() => setStatus(getMarketStatus()), 60000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const detail = status.isOpen
+        ? `Closes ${formatMarketTime(status.nextClose)}${status.earlyClose ? ' (early close)' : ''}`
+        : `${status.holiday ? `${status.holiday}. ` : ''}Opens ${formatMarketTime(status.nextOpen)}`;
+
+    return (
+        <div className="flex items-center gap-2 text-sm font-semibold bg-night-700 px-3 py-2 rounded-md" title={detail}>
+            <span className={`h-2.5 w-2.5 rounded-full ${SESSION_COLORS[status.session]}`}></span>
+            <span className="hidden md:inline">{status.label}</span>
+        </div>
+    );
+};
+
+export default MarketStatusIndicator;
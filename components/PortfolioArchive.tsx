@@ -0,0 +1,234 @@
+// components/PortfolioArchive.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePortfolio } from '../hooks/usePortfolio';
+import Card from './common/Card';
+import Spinner from './common/Spinner';
+import { formatCurrency, formatPercentage } from '../utils/formatters';
+import type { ArchivedRun, ArchivedRunSnapshot } from '../types';
+import { BriefcaseIcon } from './common/Icons';
+import ChatPanel from './ChatPanel';
+import { useAuth } from '../src/hooks/useAuth.tsx';
+
+// Read-only view of portfolio runs that were reset: final stats, and the positions and log they ended with
+const PortfolioArchive: React.FC = () => {
+    const { archivedRuns, loadArchivedRun } = usePortfolio();
+    const { user } = useAuth();
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [snapshot, setSnapshot] = useState<ArchivedRunSnapshot | null>(null);
+    const [isLoadingRun, setIsLoadingRun] = useState(false);
+
+    // Newest first
+    const runs = useMemo(() => [...archivedRuns].sort((a, b) => b.endedAt - a.endedAt), [archivedRuns]);
+
+    useEffect(() => {
+        if (!selectedRunId) {
+            setSnapshot(null);
+            return;
+        }
+        let cancelled = false;
+        setIsLoadingRun(true);
+        loadArchivedRun(selectedRunId).then(result => {
+            if (cancelled) return;
+            if (!result) alert('Could not load this run. Please try again.');
+            setSnapshot(result);
+            setIsLoadingRun(false);
+        });
+        return () => { cancelled = true; };
+    }, [selectedRunId, loadArchivedRun]);
+
+    if (!user) {
+        return <div className="text-center text-night-500 mt-10">You must be logged in to view past runs.</div>;
+    }
+
+    const pnlColor = (value: number) => value >= 0 ? 'text-brand-green' : 'text-brand-red';
+
+    const renderRunStats = (run: ArchivedRun) => (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-night-700 p-4 rounded-md">
+                <div className="text-sm text-night-500">Final Value</div>
+                <div className="text-xl font-bold">{formatCurrency(run.finalValue)}</div>
+                <div className="text-xs text-night-500">
+                    Started with {formatCurrency(run.initialValue)}
+                    {!!run.netDeposits && ` · Net ${run.netDeposits > 0 ? 'deposits' : 'withdrawals'} ${formatCurrency(Math.abs(run.netDeposits))}`}
+                </div>
+            </div>
+            <div className="bg-night-700 p-4 rounded-md">
+                <div className="text-sm text-night-500">Total Return</div>
+                <div className={`text-xl font-bold ${pnlColor(run.totalReturn)}`}>{formatCurrency(run.totalReturn)}</div>
+                <div className={`text-xs ${pnlColor(run.totalReturn)}`}>{formatPercentage(run.totalReturnPercent)}</div>
+            </div>
+            <div className="bg-night-700 p-4 rounded-md">
+                <div className="text-sm text-night-500">Closed Trades</div>
+                <div className="text-xl font-bold">{run.closedTrades}</div>
+                <div className="text-xs text-night-500">
+                    {run.closedTrades > 0 ? `${((run.winningTrades / run.closedTrades) * 100).toFixed(0)}% winners` : 'No closed trades'}
+                </div>
+            </div>
+            <div className="bg-night-700 p-4 rounded-md">
+                <div className="text-sm text-night-500">Realized P&L</div>
+                <div className={`text-xl font-bold ${pnlColor(run.realizedPnl)}`}>{formatCurrency(run.realizedPnl)}</div>
+                <div className="text-xs text-night-500">
+                    Best {formatCurrency(run.bestTrade)} · Worst {formatCurrency(run.worstTrade)}
+                    {run.feesPaid > 0 && ` · Fees ${formatCurrency(run.feesPaid)}`}
+                    {run.dividends !== 0 && ` · Dividends ${formatCurrency(run.dividends)}`}
+                </div>
+            </div>
+        </div>
+    );
+
+    const selectedRun = runs.find(r => r.id === selectedRunId);
+
+    return (
+        <>
+            {user && <ChatPanel />}
+            <Card>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold flex items-center gap-2">
+                        <BriefcaseIcon className="h-6 w-6 text-brand-blue" /> Past Runs
+                    </h2>
+                    {selectedRun && (
+                        <button onClick={() => setSelectedRunId(null)} className="text-sm text-brand-blue hover:underline">
+                            ← All runs
+                        </button>
+                    )}
+                </div>
+
+                {!selectedRun ? (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-left divide-y divide-night-700">
+                            <thead className="bg-night-700">
+                                <tr>
+                                    <th className="p-3 text-sm font-semibold">Portfolio</th>
+                                    <th className="p-3 text-sm font-semibold">Period</th>
+                                    <th className="p-3 text-sm font-semibold">Starting Cash</th>
+                                    <th className="p-3 text-sm font-semibold">Final Value</th>
+                                    <th className="p-3 text-sm font-semibold">Trades</th>
+                                    <th className="p-3 text-sm font-semibold text-right">Return</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-night-700">
+                                {runs.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={6} className="text-center p-6 text-night-500">
+                                            No past runs yet. Resetting a portfolio from the <Link to="/" className="text-brand-blue hover:underline">Dashboard</Link> saves its run here.
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    runs.map(run => (
+                                        <tr key={run.id} onClick={() => setSelectedRunId(run.id)} className="hover:bg-night-700/50 cursor-pointer">
+                                            <td className="p-3 font-bold">{run.portfolioName}</td>
+                                            <td className="p-3 text-xs text-night-500">{new Date(run.startedAt).toLocaleDateString()} – {new Date(run.endedAt).toLocaleDateString()}</td>
+                                            <td className="p-3">{formatCurrency(run.initialValue)}</td>
+                                            <td className="p-3">{formatCurrency(run.finalValue)}</td>
+                                            <td className="p-3">{run.closedTrades}</td>
+                                            <td className={`p-3 font-bold text-right ${pnlColor(run.totalReturn)}`}>
+                                                {formatCurrency(run.totalReturn)} ({formatPercentage(run.totalReturnPercent)})
+                                            </td>
+                                        </tr>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <>
+                        <div className="text-sm text-night-500 mb-4">
+                            <span className="font-bold text-white">{selectedRun.portfolioName}</span>
+                            {' · '}{new Date(selectedRun.startedAt).toLocaleString()} – {new Date(selectedRun.endedAt).toLocaleString()}
+                        </div>
+                        {renderRunStats(selectedRun)}
+
+                        {isLoadingRun ? <Spinner /> : snapshot && (
+                            <>
+                                {/* Positions open when the run was reset, at their last prices */}
+                                <h3 className="text-lg font-bold mb-2">Positions at Reset ({selectedRun.openPositions})</h3>
+                                <div className="overflow-x-auto mb-6">
+                                    <table className="min-w-full text-left divide-y divide-night-700">
+                                        <thead className="bg-night-700">
+                                            <tr>
+                                                <th className="p-3 text-sm font-semibold">Position</th>
+                                                <th className="p-3 text-sm font-semibold">Quantity</th>
+                                                <th className="p-3 text-sm font-semibold">Cost</th>
+                                                <th className="p-3 text-sm font-semibold">Last Price</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-night-700">
+                                            <tr>
+                                                <td className="p-3 font-bold">Cash</td>
+                                                <td className="p-3" colSpan={3}>{formatCurrency(snapshot.portfolio.cash)}</td>
+                                            </tr>
+                                            {snapshot.portfolio.holdings.map(h => (
+                                                <tr key={`stock-${h.ticker}`}>
+                                                    <td className="p-3 font-bold">{h.ticker}</td>
+                                                    <td className="p-3">{Number(h.shares.toFixed(4))} sh</td>
+                                                    <td className="p-3">{formatCurrency(h.purchasePrice)}</td>
+                                                    <td className="p-3">{formatCurrency(h.currentPrice)}</td>
+                                                </tr>
+                                            ))}
+                                            {(snapshot.portfolio.shortHoldings || []).map(s => (
+                                                <tr key={`short-${s.ticker}`}>
+                                                    <td className="p-3 font-bold">{s.ticker} (short)</td>
+                                                    <td className="p-3">{Number(s.shares.toFixed(4))} sh</td>
+                                                    <td className="p-3">{formatCurrency(s.entryPrice)}</td>
+                                                    <td className="p-3">{formatCurrency(s.currentPrice)}</td>
+                                                </tr>
+                                            ))}
+                                            {snapshot.portfolio.optionHoldings.map(o => (
+                                                <tr key={`option-${o.symbol}`}>
+                                                    <td className="p-3 font-bold">{o.symbol}</td>
+                                                    <td className="p-3">{o.shares} contracts</td>
+                                                    <td className="p-3">{formatCurrency(o.purchasePrice)}</td>
+                                                    <td className="p-3">{formatCurrency(o.currentPrice)}</td>
+                                                </tr>
+                                            ))}
+                                            {(snapshot.portfolio.strategyPositions || []).map(p => (
+                                                <tr key={`strategy-${p.id}`}>
+                                                    <td className="p-3 font-bold">{p.underlyingTicker} {p.name}</td>
+                                                    <td className="p-3">{p.quantity} × {p.legs.length} legs</td>
+                                                    <td className="p-3" colSpan={2}></td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                <h3 className="text-lg font-bold mb-2">Transactions ({snapshot.transactions.length})</h3>
+                                <div className="overflow-x-auto">
+                                    <table className="min-w-full text-left divide-y divide-night-700">
+                                        <thead className="bg-night-700">
+                                            <tr>
+                                                <th className="p-3 text-sm font-semibold">Time</th>
+                                                <th className="p-3 text-sm font-semibold">Type</th>
+                                                <th className="p-3 text-sm font-semibold">Ticker/Option</th>
+                                                <th className="p-3 text-sm font-semibold">Shares/Contracts</th>
+                                                <th className="p-3 text-sm font-semibold">Price</th>
+                                                <th className="p-3 text-sm font-semibold text-right">Realized P&L</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-night-700">
+                                            {[...snapshot.transactions].sort((a, b) => b.timestamp - a.timestamp).map(t => (
+                                                <tr key={t.id}>
+                                                    <td className="p-3 text-xs text-night-500">{new Date(t.timestamp).toLocaleString()}</td>
+                                                    <td className="p-3 font-semibold">{t.type.replace(/_/g, ' ')}</td>
+                                                    <td className="p-3 font-bold">{t.optionSymbol || t.ticker}</td>
+                                                    <td className="p-3">{Number(t.shares.toFixed(4))}</td>
+                                                    <td className="p-3">{formatCurrency(t.price)}</td>
+                                                    <td className={`p-3 font-bold text-right ${t.realizedPnl !== undefined ? pnlColor(t.realizedPnl) : ''}`}>
+                                                        {t.realizedPnl !== undefined ? formatCurrency(t.realizedPnl) : ''}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </>
+                        )}
+                    </>
+                )}
+            </Card>
+        </>
+    );
+};
+
+export default PortfolioArchive;
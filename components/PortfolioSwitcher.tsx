@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePortfolio } from '../hooks/usePortfolio';
+import { INITIAL_CASH } from '../constants';
+import { formatCurrency } from '../utils/formatters';
+import { PlusIcon, EditIcon, TrashIcon, RegenerateIcon } from './common/Icons';
+
+// Selector plus create / rename / archive / reset controls for the user's named portfolios
+const PortfolioSwitcher: React.FC = () => {
+    const { allPortfolios, activePortfolio, setActivePortfolio, createPortfolio, renamePortfolio, archivePortfolio, restorePortfolio, resetPortfolio, archivedRuns } = usePortfolio();
+    const [showNewPortfolioInput, setShowNewPortfolioInput] = useState(false);
+    const [newPortfolioName, setNewPortfolioName] = useState('');
+    const [newPortfolioCash, setNewPortfolioCash] = useState(String(INITIAL_CASH));
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [renameValue, setRenameValue] = useState('');
+    const [showArchived, setShowArchived] = useState(false);
+    const [showResetInput, setShowResetInput] = useState(false);
+    const [resetCash, setResetCash] = useState(String(INITIAL_CASH));
+
+    const openPortfolios = allPortfolios.filter(p => !p.archived);
+    const archivedPortfolios = allPortfolios.filter(p => p.archived);
+    const active = allPortfolios.find(p => p.id === activePortfolio);
+
+    const handleCreate = async () => {
+        await createPortfolio(newPortfolioName, parseFloat(newPortfolioCash));
+        setNewPortfolioName('');
+        setNewPortfolioCash(String(INITIAL_CASH));
+        setShowNewPortfolioInput(false);
+    };
+
+    const handleRename = async () => {
+        if (active && renameValue.trim()) {
+            await renamePortfolio(active.id, renameValue);
+        }
+        setIsRenaming(false);
+        setRenameValue('');
+    };
+
+    const handleArchive = () => {
+        if (!active) return;
+        if (window.confirm(`Archive "${active.name}"? It will be hidden from the list, and its positions and pending orders stop updating until you restore it.`)) {
+            archivePortfolio(active.id);
+        }
+    };
+
+    const handleReset = async () => {
+        const initialValue = parseFloat(resetCash);
+        if (!active) return;
+        if (!window.confirm(`Start "${active.name}" over with ${formatCurrency(initialValue)}? Open positions and pending orders are dropped. The current run and its transactions are saved to Past Runs.`)) {
+            return;
+        }
+        await resetPortfolio(initialValue);
+        setShowResetInput(false);
+    };
+
+    if (allPortfolios.length === 0) return null;
+
+    return (
+        <div className="mb-4 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                {isRenaming ? (
+                    <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={handleRename}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename();
+                            if (e.key === 'Escape') {
+                                setIsRenaming(false);
+                                setRenameValue('');
+                            }
+                        }}
+                        className="bg-night-600 text-white py-1 px-2 rounded-md font-bold"
+                        autoFocus
+                    />
+                ) : (
+                    <select
+                        value={activePortfolio}
+                        onChange={(e) => setActivePortfolio(e.target.value)}
+                        className="bg-night-700 border border-night-600 rounded-md py-1 px-2 focus:ring-2 focus:ring-brand-blue focus:outline-none font-bold"
+                        title="Switch portfolio"
+                    >
+                        {openPortfolios.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                )}
+                <button onClick={() => setShowNewPortfolioInput(!showNewPortfolioInput)} className="text-night-100 hover:text-brand-green" title="Create New Portfolio">
+                    <PlusIcon className="h-5 w-5" />
+                </button>
+                <button onClick={() => { setIsRenaming(true); setRenameValue(active?.name || ''); }} className="text-night-100 hover:text-yellow-400" title="Rename Portfolio">
+                    <EditIcon className="h-5 w-5" />
+                </button>
+                <button onClick={handleArchive} disabled={openPortfolios.length <= 1} className="text-night-100 hover:text-brand-red disabled:opacity-40 disabled:cursor-not-allowed" title="Archive Portfolio">
+                    <TrashIcon className="h-5 w-5" />
+                </button>
+                <button onClick={() => setShowResetInput(!showResetInput)} className="text-night-100 hover:text-orange-400" title="Reset Portfolio">
+                    <RegenerateIcon className="h-5 w-5" />
+                </button>
+                {archivedRuns.length > 0 && (
+                    <Link to="/archive" className="text-xs text-brand-blue hover:underline" title="Past Runs">
+                        Past Runs ({archivedRuns.length})
+                    </Link>
+                )}
+                {archivedPortfolios.length > 0 && (
+                    <button onClick={() => setShowArchived(!showArchived)} className="text-xs text-night-500 hover:text-white" title="Archived Portfolios">
+                        {archivedPortfolios.length} archived {showArchived ? '▴' : '▾'}
+                    </button>
+                )}
+            </div>
+
+            {showNewPortfolioInput && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                        type="text"
+                        value={newPortfolioName}
+                        onChange={(e) => setNewPortfolioName(e.target.value)}
+                        placeholder="Portfolio name"
+                        className="bg-night-700 border border-night-600 rounded-md py-1 px-2"
+                    />
+                    <input
+                        type="number"
+                        min="1"
+                        value={newPortfolioCash}
+                        onChange={(e) => setNewPortfolioCash(e.target.value)}
+                        placeholder="Starting cash"
+                        className="bg-night-700 border border-night-600 rounded-md py-1 px-2 w-32"
+                        title="Starting cash"
+                    />
+                    <button onClick={handleCreate} className="bg-brand-blue text-white font-semibold py-1 px-3 rounded-md hover:bg-blue-600 transition-colors">
+                        Create
+                    </button>
+                </div>
+            )}
+
+            {showResetInput && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-night-500">Start over with</span>
+                    <input
+                        type="number"
+                        min="1"
+                        value={resetCash}
+                        onChange={(e) => setResetCash(e.target.value)}
+                        className="bg-night-700 border border-night-600 rounded-md py-1 px-2 w-32"
+                        title="Starting cash"
+                    />
+                    <button onClick={handleReset} className="bg-orange-600 text-white font-semibold py-1 px-3 rounded-md hover:bg-orange-700 transition-colors">
+                        Reset
+                    </button>
+                </div>
+            )}
+
+            {showArchived && archivedPortfolios.length > 0 && (
+                <ul className="text-sm space-y-1">
+                    {archivedPortfolios.map(p => (
+                        <li key={p.id} className="flex items-center justify-between bg-night-700 rounded-md py-1 px-2">
+                            <span className="text-night-500">{p.name}</span>
+                            <button onClick={() => restorePortfolio(p.id)} className="text-xs text-night-100 hover:text-brand-green" title="Restore Portfolio">
+                                Restore
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default PortfolioSwitcher;
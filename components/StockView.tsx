@@ -3,7 +3,7 @@ import ReactDOM from 'react-dom'; // Import ReactDOM for portal
 import { useParams, Link } from 'react-router-dom';
 import * as fmpService from '../services/fmpService';
 import * as geminiService from '../services/geminiService';
-import type { FmpQuote, FmpProfile, FmpHistoricalData, FmpNews, AiAnalysis, FmpAnalystRating, FmpIncomeStatement, FmpBalanceSheet, FmpCashFlowStatement, FmpInsiderTrading, FinancialStatementAnalysis, TechnicalAnalysis, CombinedRec, AlpacaOptionContract, OptionHolding, KeyMetricsAnalysis } from '../types';
+import type { FmpQuote, FmpProfile, FmpHistoricalData, FmpNews, AiAnalysis, FmpAnalystRating, FmpIncomeStatement, FmpBalanceSheet, FmpCashFlowStatement, FmpInsiderTrading, FinancialStatementAnalysis, TechnicalAnalysis, CombinedRec, AlpacaOptionContract, OptionHolding, KeyMetricsAnalysis, OrderType, OrderSide, TimeInForce, TrailType, TrailingStop, TrailingStopSettings, LotReliefMethod, LotSelection } from '../types';
 import { usePortfolio } from '../hooks/usePortfolio';
 import { OptionHolding } from '../types';
 import { useWatchlist } from '../hooks/useWatchlist';
@@ -21,6 +21,12 @@ import { processHelpAction } from '../utils/workflowExecutor';
 import { usePersistentState } from '../utils/localStorageManager';
 import UsageIndicator from './UsageIndicator';
 import { XIcon } from './common/Icons';
+import { getTrailingStopTriggerPrice, validateTrailingStopSettings } from '../utils/protectiveExits';
+import { getOrderPrice } from '../utils/orderBook';
+import { formatNetPrice } from '../utils/multiLegOrders';
+import { describeLeg, getOptionHoldingValue, isShortOption, getContractMultiplier } from '../utils/optionStrategies';
+import { getMarketStatus, formatMarketTime } from '../utils/marketCalendar';
+import { LOT_RELIEF_METHODS, getHoldingLots } from '../utils/taxLots';
 
 type OptionsSortKey = 'strike_price' | 'close_price' | 'impliedVolatility' | 'volume' | 'delta' | 'gamma' | 'theta' | 'vega' | null;
 type SortDirection = 'asc' | 'desc';
@@ -105,7 +111,7 @@ const HelpIconWithTooltip: React.FC<{ tooltip: string }> = ({ tooltip }) => {
 
 const StockView: React.FC = () => {
     const { ticker } = useParams<{ ticker: string }>();
-    const { buyStock, sellStock, portfolio, buyOption, sellOption, manualSellOption, updateOptionStopLoss } = usePortfolio();
+    const { buyStock, sellStock, shortStock, coverShort, portfolio, buyOption, sellOption, sellOptionToOpen, buyToCloseOption, manualSellOption, updateOptionStopLoss, pendingOrders, placeLimitOrder, placeBracketOrder, cancelOrder, updateStockExits, updateOptionTrailingStop } = usePortfolio();
     const { addToWatchlist, removeFromWatchlist, isOnWatchlist } = useWatchlist();
     const { user, checkUsage, logUsage, onLimitExceeded, userSettings, updateAiLevel } = useAuth();
     const { aiLevel } = userSettings;
@@ -144,6 +150,18 @@ const StockView: React.FC = () => {
     const [selectedExpiry, setSelectedExpiry] = useState<string>('');
     const [isOptionsLoading, setIsOptionsLoading] = useState(false);
     const [stopLossInput, setStopLossInput] = useState<number | ''>('');
+    const [orderType, setOrderType] = useState<OrderType>('MARKET');
+    const [limitPriceInput, setLimitPriceInput] = useState<number | ''>('');
+    const [timeInForce, setTimeInForce] = useState<TimeInForce>('DAY');
+    const [stockStopLossInput, setStockStopLossInput] = useState<number | ''>('');
+    const [takeProfitInput, setTakeProfitInput] = useState<number | ''>('');
+    const [trailTypeInput, setTrailTypeInput] = useState<TrailType>('PERCENT');
+    const [trailValueInput, setTrailValueInput] = useState<number | ''>('');
+    const [bracketEnabled, setBracketEnabled] = useState(false);
+    const [bracketTargetInput, setBracketTargetInput] = useState<number | ''>('');
+    const [bracketStopInput, setBracketStopInput] = useState<number | ''>('');
+    const [lotMethodInput, setLotMethodInput] = useState<LotReliefMethod | ''>(''); // '' = the portfolio's default method
+    const [specificLotInputs, setSpecificLotInputs] = useState<Record<string, number | ''>>({});
 
     const [isLoading, setIsLoading] = useState(true);
     const [isAiLoading, setIsAiLoading] = useState(false);
@@ -489,91 +507,247 @@ const StockView: React.FC = () => {
         }
     };
     
+    const handleLimitOrder = async (side: OrderSide) => {
+        const amount = Number(tradeAmount);
+        const limitPrice = Number(limitPriceInput);
+        if (amount <= 0 || !quote || !profile) return;
+        if (!(limitPrice > 0)) {
+            alert("Please enter a valid limit price.");
+            return;
+        }
+        // In dollar mode the share count is sized against the limit price, not the last trade.
+        const shares = tradeInputMode === 'shares' ? amount : amount / limitPrice;
+        await placeLimitOrder({
+            ticker: quote.symbol,
+            name: profile.companyName,
+            side,
+            shares,
+            limitPrice,
+            timeInForce,
+        }, quote.price);
+        setTradeAmount('');
+        setLimitPriceInput('');
+    };
+
+    const trailSettings: TrailingStopSettings | undefined = trailValueInput === ''
+        ? undefined
+        : { trailType: trailTypeInput, trailValue: Number(trailValueInput) };
+
+    const formatTrail = (trailingStop: TrailingStop) =>
+        trailingStop.trailType === 'PERCENT' ? `${trailingStop.trailValue}%` : formatCurrency(trailingStop.trailValue);
+
+    // --- Arbitrage Prevention Check ---
+    // Alerts and returns false when the listed premium is stale or below intrinsic value.
+    const isOptionPremiumValid = (option: AlpacaOptionContract): boolean => {
+        if (!quote) return false;
+        const currentStockPrice = quote.price;
+        const strikePrice = parseFloat(option.strike_price);
+        const marketPremium = option.close_price || 0;
+        const impliedVolatility = option.impliedVolatility || 0;
+        const intrinsicFloor = calculateIntrinsicValueFloor(currentStockPrice, strikePrice, option.type);
+        const epsilon = 0.0001;
+
+        if (marketPremium < intrinsicFloor - epsilon) {
+             alert(`Arbitrage attempt prevented. The listed premium (\$${marketPremium.toFixed(2)}) is below the intrinsic floor (\$${intrinsicFloor.toFixed(2)}). This is stale data. Please select another option or try again.`);
+             return false;
+        }
+        if (Math.abs(marketPremium - intrinsicFloor) < epsilon && impliedVolatility < epsilon) {
+             alert(`Arbitrage attempt prevented. The listed premium (\$${marketPremium.toFixed(2)}) is equal to the intrinsic floor and has 0.00% Implied Volatility. This indicates critically flawed (stale or static) data and no real time value. Please select another option.`);
+             return false;
+        }
+        return true;
+    };
+
+    const toOptionHolding = (option: AlpacaOptionContract, contracts: number): OptionHolding => {
+        const marketPremium = option.close_price || 0;
+        return {
+            symbol: option.symbol,
+            underlyingTicker: option.underlying_symbol,
+            shares: contracts,
+            purchasePrice: marketPremium,
+            currentPrice: marketPremium,
+            change: option.change || 0,
+            changesPercentage: option.changesPercentage || 0,
+            optionType: option.type,
+            strikePrice: parseFloat(option.strike_price),
+            expirationDate: option.expiration_date,
+            delta: option.delta,
+            gamma: option.gamma,
+            theta: option.theta,
+            vega: option.vega,
+            impliedVolatility: option.impliedVolatility,
+            open_interest: option.open_interest,
+            volume: option.volume,
+            bid: option.bid,
+            ask: option.ask,
+        };
+    };
+
+    // Buy side places an entry with attached exits; sell side places an OCO exit pair on the current position.
+    const handleBracketOrder = async (side: OrderSide) => {
+        const amount = Number(tradeAmount);
+        if (amount <= 0 || !quote || !profile) return;
+        const isOption = tradeTab !== 'stock';
+        if (isOption && !selectedOption) return;
+
+        const takeProfitPrice = bracketTargetInput === '' ? undefined : Number(bracketTargetInput);
+        const stopPrice = bracketStopInput === '' ? undefined : Number(bracketStopInput);
+        const isLimitEntry = side === 'BUY' && !isOption && orderType === 'LIMIT';
+        const marketPrice = isOption ? (selectedOption?.close_price || 0) : quote.price;
+        const entryPrice = isLimitEntry ? Number(limitPriceInput) : marketPrice;
+        if (!(entryPrice > 0)) {
+            alert(isLimitEntry ? "Please enter a valid limit price." : "No valid market price for this order.");
+            return;
+        }
+        if (isOption && side === 'BUY' && selectedOption && !isOptionPremiumValid(selectedOption)) return;
+
+        const shares = isOption || tradeInputMode === 'shares' ? amount : amount / entryPrice;
+        await placeBracketOrder({
+            assetType: isOption ? 'option' : 'stock',
+            ticker: quote.symbol,
+            name: profile.companyName,
+            shares,
+            ...(isOption && selectedOption ? { option: toOptionHolding(selectedOption, shares) } : {}),
+            ...(side === 'BUY' ? { entryType: isLimitEntry ? 'LIMIT' as const : 'MARKET' as const } : {}),
+            ...(isLimitEntry ? { entryLimitPrice: entryPrice } : {}),
+            takeProfitPrice,
+            stopPrice,
+            timeInForce,
+        }, marketPrice);
+        setTradeAmount('');
+        setBracketTargetInput('');
+        setBracketStopInput('');
+    };
+
+    const handleSetStockExits = async () => {
+        if (!quote) return;
+        const exits = {
+            ...(stockStopLossInput !== '' ? { stopLossPrice: Number(stockStopLossInput) } : {}),
+            ...(takeProfitInput !== '' ? { takeProfitPrice: Number(takeProfitInput) } : {}),
+            ...(trailSettings ? { trailingStop: trailSettings } : {}),
+        };
+        if (Object.keys(exits).length === 0) {
+            alert("Please enter a stop-loss, take-profit or trailing stop.");
+            return;
+        }
+        await updateStockExits(quote.symbol, exits);
+        setStockStopLossInput('');
+        setTakeProfitInput('');
+        setTrailValueInput('');
+    };
+
     const handleBuy = () => {
         const amount = Number(tradeAmount);
         if (amount <= 0 || !quote) return;
 
-        if (tradeTab === 'stock' && profile) {
+        if (bracketEnabled) {
+            handleBracketOrder('BUY');
+        } else if (tradeTab === 'stock' && orderType === 'LIMIT') {
+            handleLimitOrder('BUY');
+        } else if (tradeTab === 'stock' && profile) {
             // Stock buying logic remains the same
             const sharesToBuy = tradeInputMode === 'shares' ? amount : amount / quote.price;
             if (sharesToBuy <= 0) {
                  alert("Please enter a valid amount.");
                  return;
              }
-             buyStock(quote.symbol, profile.companyName, sharesToBuy, quote.price);
+             const stopLossPrice = stockStopLossInput === '' ? undefined : Number(stockStopLossInput);
+             const takeProfitPrice = takeProfitInput === '' ? undefined : Number(takeProfitInput);
+             if (stopLossPrice !== undefined && stopLossPrice >= quote.price) {
+                 alert(`Stop-loss must be below the current price (${formatCurrency(quote.price)}).`);
+                 return;
+             }
+             if (takeProfitPrice !== undefined && takeProfitPrice <= quote.price) {
+                 alert(`Take-profit must be above the current price (${formatCurrency(quote.price)}).`);
+                 return;
+             }
+             const trailError = trailSettings ? validateTrailingStopSettings(trailSettings, quote.price) : null;
+             if (trailError) {
+                 alert(trailError);
+                 return;
+             }
+             const exits = (stopLossPrice !== undefined || takeProfitPrice !== undefined || trailSettings)
+                 ? { stopLossPrice, takeProfitPrice, trailingStop: trailSettings }
+                 : undefined;
+             buyStock(quote.symbol, profile.companyName, sharesToBuy, quote.price, exits, quote.avgVolume);
              alert(`Successfully bought ${sharesToBuy.toFixed(4)} share(s) of ${quote.symbol}`);
              setTradeAmount(''); // Clear amount after trade
+             setStockStopLossInput('');
+             setTakeProfitInput('');
+             setTrailValueInput('');
         } else if (selectedOption) {
             const contractsToBuy = amount;
-            // --- Arbitrage Prevention Check (remains the same) ---
-             const currentStockPrice = quote.price;
-             const strikePrice = parseFloat(selectedOption.strike_price);
-             const marketPremium = selectedOption.close_price || 0;
-             const impliedVolatility = selectedOption.impliedVolatility || 0;
-             const intrinsicFloor = calculateIntrinsicValueFloor(currentStockPrice, strikePrice, selectedOption.type);
-             const epsilon = 0.0001;
-
-             if (marketPremium < intrinsicFloor - epsilon) {
-                  alert(`Arbitrage attempt prevented. The listed premium (\$${marketPremium.toFixed(2)}) is below the intrinsic floor (\$${intrinsicFloor.toFixed(2)}). This is stale data. Please select another option or try again.`);
-                  return;
-             }
-             if (Math.abs(marketPremium - intrinsicFloor) < epsilon && impliedVolatility < epsilon) {
-                  alert(`Arbitrage attempt prevented. The listed premium (\$${marketPremium.toFixed(2)}) is equal to the intrinsic floor and has 0.00% Implied Volatility. This indicates critically flawed (stale or static) data and no real time value. Please select another option.`);
-                  return;
-             }
+            const marketPremium = selectedOption.close_price || 0;
+            if (!isOptionPremiumValid(selectedOption)) return;
              if (portfolio.cash < contractsToBuy * marketPremium * 100) {
                   alert("Not enough cash to complete option purchase.");
                   return;
              }
-             // --- End Arbitrage Check ---
-
-            const optionToBuy: OptionHolding = {
-                symbol: selectedOption.symbol,
-                underlyingTicker: selectedOption.underlying_symbol,
-                shares: contractsToBuy,
-                purchasePrice: marketPremium,
-                currentPrice: marketPremium,
-                change: selectedOption.change || 0,
-                changesPercentage: selectedOption.changesPercentage || 0,
-                optionType: selectedOption.type,
-                strikePrice: parseFloat(selectedOption.strike_price),
-                expirationDate: selectedOption.expiration_date,
-                delta: selectedOption.delta,
-                gamma: selectedOption.gamma,
-                theta: selectedOption.theta,
-                vega: selectedOption.vega,
-                impliedVolatility: selectedOption.impliedVolatility,
-                open_interest: selectedOption.open_interest,
-                volume: selectedOption.volume,
-                // stopLossPrice is added in the buyOption call
-            };
+
+            // stopLossPrice is added in the buyOption call
+            const optionToBuy = toOptionHolding(selectedOption, contractsToBuy);
 
             // ADDED: Pass stopLossInput to buyOption (convert empty string to null)
             const slPrice = stopLossInput === '' ? null : Number(stopLossInput);
-            buyOption(optionToBuy, slPrice);
+            const trailError = trailSettings ? validateTrailingStopSettings(trailSettings, marketPremium) : null;
+            if (trailError) {
+                alert(trailError);
+                return;
+            }
+            buyOption(optionToBuy, slPrice, trailSettings);
 
             alert(`Successfully bought ${contractsToBuy} contract(s) of ${selectedOption.symbol}${slPrice !== null ? ` with stop-loss at ${formatCurrency(slPrice)}` : ''}`);
             setTradeAmount(''); // Clear amount
             setStopLossInput(''); // Clear stop loss input
+            setTrailValueInput('');
         }
     };
 
     useEffect(() => {
         setStopLossInput('');
+        setTrailValueInput('');
     }, [selectedOption, tradeTab]);
     
+    // Lots to close on a sale; undefined leaves it to the portfolio's default method
+    const getLotSelection = (): LotSelection | undefined => {
+        if (!lotMethodInput) return undefined;
+        if (lotMethodInput !== 'SPECIFIC') return { method: lotMethodInput };
+        const lots = Object.entries(specificLotInputs)
+            .filter(([, shares]) => Number(shares) > 0)
+            .map(([lotId, shares]) => ({ lotId, shares: Number(shares) }));
+        return { method: 'SPECIFIC', lots };
+    };
+
+    const handleSpecificLotChange = (lotId: string, value: number | '') => {
+        const inputs = { ...specificLotInputs, [lotId]: value };
+        setSpecificLotInputs(inputs);
+        // Keep the order size in step with the lots picked
+        const total = Object.values(inputs).reduce<number>((acc, shares) => acc + (Number(shares) || 0), 0);
+        setTradeInputMode('shares');
+        setTradeAmount(total > 0 ? Number(total.toFixed(4)) : '');
+    };
+
     const handleSell = () => {
         const amount = Number(tradeAmount);
         if (amount <= 0 || !quote) return;
 
-        if (tradeTab === 'stock') {
+        if (bracketEnabled) {
+            handleBracketOrder('SELL');
+        } else if (tradeTab === 'stock' && orderType === 'LIMIT') {
+            handleLimitOrder('SELL');
+        } else if (tradeTab === 'stock') {
             // Calculate shares based on input mode
-            const sharesToSell = tradeInputMode === 'shares' ? amount : amount / quote.price;
+            const lotSelection = getLotSelection();
+            // Picking specific lots sets the size of the sale
+            const sharesToSell = lotSelection?.lots
+                ? lotSelection.lots.reduce((acc, lot) => acc + lot.shares, 0)
+                : tradeInputMode === 'shares' ? amount : amount / quote.price;
             if (sharesToSell <= 0) {
                 alert("Please enter a valid amount.");
                 return;
             }
-            sellStock(quote.symbol, sharesToSell, quote.price);
+            sellStock(quote.symbol, sharesToSell, quote.price, quote.avgVolume, lotSelection);
+            setSpecificLotInputs({});
             alert(`Successfully sold ${sharesToSell.toFixed(4)} share(s) of ${quote.symbol}`);
         } else if (selectedOption) {
             const contractsToSell = amount;
@@ -582,11 +756,46 @@ const StockView: React.FC = () => {
         }
     };
 
+    const handleShort = async () => {
+        const amount = Number(tradeAmount);
+        if (amount <= 0 || !quote || !profile) return;
+        const sharesToShort = tradeInputMode === 'shares' ? amount : amount / quote.price;
+        await shortStock(quote.symbol, profile.companyName, sharesToShort, quote.price, quote.avgVolume);
+        setTradeAmount('');
+    };
+
+    const handleCover = async () => {
+        const amount = Number(tradeAmount);
+        if (amount <= 0 || !quote) return;
+        const sharesToCover = tradeInputMode === 'shares' ? amount : amount / quote.price;
+        await coverShort(quote.symbol, Math.min(sharesToCover, sharesShort), quote.price, quote.avgVolume);
+        setTradeAmount('');
+    };
+
+    // Writing options: covered calls against owned shares, cash-secured puts against free cash
+    const handleWriteOption = async () => {
+        const contracts = Number(tradeAmount);
+        if (!selectedOption || !Number.isInteger(contracts) || contracts <= 0) {
+            alert("Please enter a whole number of contracts.");
+            return;
+        }
+        if (!isOptionPremiumValid(selectedOption)) return;
+        await sellOptionToOpen(toOptionHolding(selectedOption, contracts));
+        setTradeAmount('');
+    };
+
+    const handleBuyToClose = async () => {
+        const contracts = Number(tradeAmount);
+        if (!selectedOption || contracts <= 0) return;
+        await buyToCloseOption(selectedOption.symbol, Math.min(contracts, contractsWritten), selectedOption.close_price || 0);
+        setTradeAmount('');
+    };
+
     const handleSellAll = () => {
         if (tradeTab !== 'stock' || sharesOwned <= 0 || !quote) return;
 
         // Use the sellStock function with the total number of shares owned
-        sellStock(quote.symbol, sharesOwned, quote.price);
+        sellStock(quote.symbol, sharesOwned, quote.price, quote.avgVolume);
         alert(`Successfully sold all ${sharesOwned.toFixed(4)} share(s) of ${quote.symbol}`);
         setTradeAmount(''); // Clear the input after selling
     };
@@ -600,14 +809,22 @@ const StockView: React.FC = () => {
         }
     };
 
-    const sharesOwned = portfolio.holdings.find(h => h.ticker === ticker)?.shares || 0;
-    const contractsOwned = portfolio.optionHoldings.find(o => o.symbol === selectedOption?.symbol)?.shares || 0;
+    const stockHolding = portfolio.holdings.find(h => h.ticker === ticker);
+    const sharesOwned = stockHolding?.shares || 0;
+    const shortPosition = portfolio.shortHoldings.find(s => s.ticker === ticker);
+    const sharesShort = shortPosition?.shares || 0;
+    const openOrdersForTicker = pendingOrders.filter(o => o.ticker === ticker);
+    const selectedOptionHolding = portfolio.optionHoldings.find(o => o.symbol === selectedOption?.symbol);
+    const contractsOwned = selectedOptionHolding && !isShortOption(selectedOptionHolding) ? selectedOptionHolding.shares : 0;
+    const contractsWritten = selectedOptionHolding && isShortOption(selectedOptionHolding) ? selectedOptionHolding.shares : 0;
 
     const quantity = Number(tradeAmount) || 0;
     const isStockTrade = tradeTab === 'stock';
 
+    const marketStatus = getMarketStatus();
+    const stockOrderPrice = orderType === 'LIMIT' && Number(limitPriceInput) > 0 ? Number(limitPriceInput) : (quote?.price || 0);
     const totalTradeValue = isStockTrade
-        ? (tradeInputMode === 'dollars' ? quantity : quantity * (quote?.price || 0))
+        ? (tradeInputMode === 'dollars' ? quantity : quantity * stockOrderPrice)
         : quantity * (selectedOption?.close_price || 0) * 100;
 
     // Safely get the price per unit (either stock price or option premium per contract)
@@ -1030,6 +1247,50 @@ const StockView: React.FC = () => {
                                             </button>
                                         </div>
                                         {/* ADDITION END */}
+
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label htmlFor="order-type-select" className="block text-sm font-medium text-night-100 mb-1">Order Type</label>
+                                                <select
+                                                    id="order-type-select"
+                                                    value={orderType}
+                                                    onChange={(e) => setOrderType(e.target.value as OrderType)}
+                                                    className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                                >
+                                                    <option value="MARKET">Market</option>
+                                                    <option value="LIMIT">Limit</option>
+                                                </select>
+                                            </div>
+                                            {orderType === 'LIMIT' && (
+                                                <div>
+                                                    <label htmlFor="time-in-force-select" className="block text-sm font-medium text-night-100 mb-1">Time in Force</label>
+                                                    <select
+                                                        id="time-in-force-select"
+                                                        value={timeInForce}
+                                                        onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                                                        className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                                    >
+                                                        <option value="DAY">Day</option>
+                                                        <option value="GTC">Good 'til Canceled</option>
+                                                    </select>
+                                                </div>
+                                            )}
+                                        </div>
+                                        {orderType === 'LIMIT' && (
+                                            <div>
+                                                <label htmlFor="limit-price" className="block text-sm font-medium text-night-100 mb-1">Limit Price</label>
+                                                <input
+                                                    type="number"
+                                                    id="limit-price"
+                                                    value={limitPriceInput}
+                                                    onChange={(e) => setLimitPriceInput(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value)))}
+                                                    className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                                    min="0"
+                                                    step="0.01"
+                                                    placeholder={quote.price.toFixed(2)}
+                                                />
+                                            </div>
+                                        )}
                                     </>
                                 )}
                                 
@@ -1141,6 +1402,13 @@ const StockView: React.FC = () => {
                                      <div className="text-sm bg-night-700 p-2 rounded-md">
                                         Selected: {selectedOption.symbol} <br/>
                                         Contracts Owned: <span className="font-bold">{contractsOwned}</span>
+                                        {contractsWritten > 0 && <> · Written: <span className="font-bold text-purple-400">{contractsWritten}</span></>}
+                                        {/* Market orders buy at the ask and sell at the bid */}
+                                        {selectedOption.bid !== null && selectedOption.ask !== null && (
+                                            <div className="text-xs text-night-500 mt-1">
+                                                Bid {formatCurrency(selectedOption.bid)} · Ask {formatCurrency(selectedOption.ask)}
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                                 
@@ -1181,9 +1449,275 @@ const StockView: React.FC = () => {
                                         />
                                     </div>
                                 )}
+                                {/* --- Trailing Stop Input (percent or dollar trail below the peak) --- */}
+                                {(tradeTab === 'calls' || tradeTab === 'puts') && (
+                                    <div>
+                                        <label htmlFor="trailing-stop-value" className="block text-sm font-medium text-night-100 mb-1">
+                                            Trailing Stop (Optional)
+                                        </label>
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="number"
+                                                id="trailing-stop-value"
+                                                value={trailValueInput}
+                                                onChange={(e) => setTrailValueInput(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value)))}
+                                                className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+                                                min="0"
+                                                step="any"
+                                                placeholder={trailTypeInput === 'PERCENT' ? 'e.g., 5' : 'e.g., 2.50'}
+                                            />
+                                            <select
+                                                value={trailTypeInput}
+                                                onChange={(e) => setTrailTypeInput(e.target.value as TrailType)}
+                                                className="bg-night-700 border border-night-600 rounded-md py-2 px-2 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                            >
+                                                <option value="PERCENT">%</option>
+                                                <option value="AMOUNT">$</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* --- Stop Loss / Take Profit Inputs (stock market orders) --- */}
+                                {tradeTab === 'stock' && orderType === 'MARKET' && !bracketEnabled && (
+                                    <div className="space-y-2">
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label htmlFor="stock-stop-loss" className="block text-sm font-medium text-night-100 mb-1">
+                                                    Stop Loss (Optional)
+                                                </label>
+                                                <input
+                                                    type="number"
+                                                    id="stock-stop-loss"
+                                                    value={stockStopLossInput}
+                                                    onChange={(e) => setStockStopLossInput(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value)))}
+                                                    className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+                                                    min="0"
+                                                    step="0.01"
+                                                    placeholder={quote ? (quote.price * 0.9).toFixed(2) : '0.00'}
+                                                />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="stock-take-profit" className="block text-sm font-medium text-night-100 mb-1">
+                                                    Take Profit (Optional)
+                                                </label>
+                                                <input
+                                                    type="number"
+                                                    id="stock-take-profit"
+                                                    value={takeProfitInput}
+                                                    onChange={(e) => setTakeProfitInput(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value)))}
+                                                    className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-brand-green focus:outline-none"
+                                                    min="0"
+                                                    step="0.01"
+                                                    placeholder={quote ? (quote.price * 1.1).toFixed(2) : '0.00'}
+                                                />
+                                            </div>
+                                        </div>
+
+                                        {/* --- Trailing Stop Input (percent or dollar trail below the peak) --- */}
+                                        <div>
+                                            <label htmlFor="trailing-stop-value" className="block text-sm font-medium text-night-100 mb-1">
+                                                Trailing Stop (Optional)
+                                            </label>
+                                            <div className="flex gap-2">
+                                                <input
+                                                    type="number"
+                                                    id="trailing-stop-value"
+                                                    value={trailValueInput}
+                                                    onChange={(e) => setTrailValueInput(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value)))}
+                                                    className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+                                                    min="0"
+                                                    step="any"
+                                                    placeholder={trailTypeInput === 'PERCENT' ? 'e.g., 5' : 'e.g., 2.50'}
+                                                />
+                                                <select
+                                                    value={trailTypeInput}
+                                                    onChange={(e) => setTrailTypeInput(e.target.value as TrailType)}
+                                                    className="bg-night-700 border border-night-600 rounded-md py-2 px-2 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                                >
+                                                    <option value="PERCENT">%</option>
+                                                    <option value="AMOUNT">$</option>
+                                                </select>
+                                            </div>
+                                        </div>
+
+                                        {/* Existing exits on the position, editable without placing a new trade */}
+                                        {stockHolding && (
+                                            <div className="text-xs bg-night-700 p-2 rounded-md space-y-1">
+                                                <div className="flex justify-between items-center">
+                                                    <span className="text-night-500">Stop Loss:</span>
+                                                    {stockHolding.stopLossPrice !== null && stockHolding.stopLossPrice !== undefined ? (
+                                                        <span className="flex items-center gap-1 text-yellow-400">
+                                                            {formatCurrency(stockHolding.stopLossPrice)}
+                                                            <button
+                                                                onClick={() => updateStockExits(stockHolding.ticker, { stopLossPrice: null })}
+                                                                className="text-red-500 hover:text-red-400"
+                                                                title="Remove Stop Loss"
+                                                            >
+                                                                <XIcon className="h-3 w-3" />
+                                                            </button>
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-night-500 italic">None</span>
+                                                    )}
+                                                </div>
+                                                <div className="flex justify-between items-center">
+                                                    <span className="text-night-500">Take Profit:</span>
+                                                    {stockHolding.takeProfitPrice !== null && stockHolding.takeProfitPrice !== undefined ? (
+                                                        <span className="flex items-center gap-1 text-brand-green">
+                                                            {formatCurrency(stockHolding.takeProfitPrice)}
+                                                            <button
+                                                                onClick={() => updateStockExits(stockHolding.ticker, { takeProfitPrice: null })}
+                                                                className="text-red-500 hover:text-red-400"
+                                                                title="Remove Take Profit"
+                                                            >
+                                                                <XIcon className="h-3 w-3" />
+                                                            </button>
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-night-500 italic">None</span>
+                                                    )}
+                                                </div>
+                                                <div className="flex justify-between items-center">
+                                                    <span className="text-night-500">Trailing Stop:</span>
+                                                    {stockHolding.trailingStop ? (
+                                                        <span className="flex items-center gap-1 text-yellow-400">
+                                                            {formatTrail(stockHolding.trailingStop)} · peak {formatCurrency(stockHolding.trailingStop.highWaterMark)} · stop {formatCurrency(getTrailingStopTriggerPrice(stockHolding.trailingStop))}
+                                                            <button
+                                                                onClick={() => updateStockExits(stockHolding.ticker, { trailingStop: null })}
+                                                                className="text-red-500 hover:text-red-400"
+                                                                title="Remove Trailing Stop"
+                                                            >
+                                                                <XIcon className="h-3 w-3" />
+                                                            </button>
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-night-500 italic">None</span>
+                                                    )}
+                                                </div>
+                                                <button
+                                                    onClick={handleSetStockExits}
+                                                    disabled={stockStopLossInput === '' && takeProfitInput === '' && trailValueInput === ''}
+                                                    className="w-full mt-1 bg-night-600 text-white font-bold py-1 px-2 rounded-md hover:bg-night-500 transition-colors disabled:opacity-50"
+                                                >
+                                                    Set Exits on Position
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* --- Bracket / OCO Exits --- */}
+                                <div className="bg-night-700 p-2 rounded-md space-y-2">
+                                    <label className="flex items-center gap-2 text-sm font-medium text-night-100 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={bracketEnabled}
+                                            onChange={(e) => setBracketEnabled(e.target.checked)}
+                                            className="accent-brand-blue"
+                                        />
+                                        Bracket / OCO Exits
+                                        <HelpIconWithTooltip tooltip="Buy places an entry with attached take-profit and stop legs. Sell places a one-cancels-other exit pair on your current position. When one exit fills, the other is cancelled." />
+                                    </label>
+                                    {bracketEnabled && (
+                                        <>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <div>
+                                                    <label htmlFor="bracket-target" className="block text-xs font-medium text-night-100 mb-1">Take Profit</label>
+                                                    <input
+                                                        type="number"
+                                                        id="bracket-target"
+                                                        value={bracketTargetInput}
+                                                        onChange={(e) => setBracketTargetInput(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value)))}
+                                                        className="w-full bg-night-800 border border-night-600 rounded-md py-1 px-2 focus:ring-2 focus:ring-brand-green focus:outline-none"
+                                                        min="0"
+                                                        step="0.01"
+                                                        placeholder="Limit"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="bracket-stop" className="block text-xs font-medium text-night-100 mb-1">Stop</label>
+                                                    <input
+                                                        type="number"
+                                                        id="bracket-stop"
+                                                        value={bracketStopInput}
+                                                        onChange={(e) => setBracketStopInput(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value)))}
+                                                        className="w-full bg-night-800 border border-night-600 rounded-md py-1 px-2 focus:ring-2 focus:ring-brand-red focus:outline-none"
+                                                        min="0"
+                                                        step="0.01"
+                                                        placeholder="Stop"
+                                                    />
+                                                </div>
+                                            </div>
+                                            {/* The stock limit ticket already shows a TIF selector */}
+                                            {!(tradeTab === 'stock' && orderType === 'LIMIT') && (
+                                                <div>
+                                                    <label htmlFor="bracket-tif-select" className="block text-xs font-medium text-night-100 mb-1">Time in Force</label>
+                                                    <select
+                                                        id="bracket-tif-select"
+                                                        value={timeInForce}
+                                                        onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                                                        className="w-full bg-night-800 border border-night-600 rounded-md py-1 px-2 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                                    >
+                                                        <option value="DAY">Day</option>
+                                                        <option value="GTC">Good 'til Canceled</option>
+                                                    </select>
+                                                </div>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+
+                                {/* --- Tax lots to close when selling (market orders) --- */}
+                                {tradeTab === 'stock' && orderType === 'MARKET' && !bracketEnabled && stockHolding && (
+                                    <div className="space-y-2">
+                                        <label htmlFor="lot-relief-select" className="block text-sm font-medium text-night-100 mb-1">Lots to Sell</label>
+                                        <select
+                                            id="lot-relief-select"
+                                            value={lotMethodInput}
+                                            onChange={(e) => {
+                                                setLotMethodInput(e.target.value as LotReliefMethod | '');
+                                                setSpecificLotInputs({});
+                                            }}
+                                            className="w-full bg-night-700 border border-night-600 rounded-md py-2 px-3 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                        >
+                                            <option value="">Default ({LOT_RELIEF_METHODS[portfolio.lotReliefMethod || 'FIFO']})</option>
+                                            {(Object.keys(LOT_RELIEF_METHODS) as LotReliefMethod[]).map(method => (
+                                                <option key={method} value={method}>{LOT_RELIEF_METHODS[method]}</option>
+                                            ))}
+                                        </select>
+                                        {lotMethodInput === 'SPECIFIC' && (
+                                            <div className="space-y-1">
+                                                {getHoldingLots(stockHolding).map(lot => (
+                                                    <div key={lot.id} className="flex items-center gap-2 text-xs bg-night-700 p-2 rounded-md">
+                                                        <span className="flex-1">
+                                                            {lot.acquiredAt > 0 ? new Date(lot.acquiredAt).toLocaleDateString() : 'Various'} · {Number(lot.shares.toFixed(4))} @ {formatCurrency(lot.costBasis)}
+                                                        </span>
+                                                        <input
+                                                            type="number"
+                                                            value={specificLotInputs[lot.id] ?? ''}
+                                                            onChange={(e) => handleSpecificLotChange(lot.id, e.target.value === '' ? '' : Math.min(lot.shares, Math.max(0, parseFloat(e.target.value))))}
+                                                            className="w-24 bg-night-600 border border-night-600 rounded-md py-1 px-2 focus:ring-2 focus:ring-brand-blue focus:outline-none"
+                                                            min="0"
+                                                            max={lot.shares}
+                                                            step="any"
+                                                            placeholder="0"
+                                                        />
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
 
                                 {/* MODIFICATION: Use the new totalTradeValue variable */}
                                 <div className="text-center font-bold">Total: {formatCurrency(totalTradeValue)}</div>
+                                {/* Market orders placed while the exchange is closed can be queued for the open */}
+                                {orderType === 'MARKET' && !marketStatus.isOpen && (
+                                    <div className="text-center text-xs text-yellow-400">
+                                        Market closed. Buy/Sell market orders can be queued for the open ({formatMarketTime(marketStatus.nextOpen)}).
+                                    </div>
+                                )}
                                 <div className="flex gap-2">
                                     <button onClick={handleBuy} disabled={!tradeAmount || (tradeTab !== 'stock' && !selectedOption)} className="w-full bg-brand-green text-white font-bold py-2 px-4 rounded-md hover:bg-green-600 transition-colors disabled:bg-night-600">Buy</button>
                                     
@@ -1206,6 +1740,114 @@ const StockView: React.FC = () => {
                                         Sell
                                     </button>
                                 </div>
+
+                                {/* --- Short Selling (market orders only) --- */}
+                                {tradeTab === 'stock' && orderType === 'MARKET' && !bracketEnabled && (
+                                    <div className="space-y-2">
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={handleShort}
+                                                disabled={!tradeAmount || sharesOwned > 0}
+                                                title={sharesOwned > 0 ? "Sell your long shares before shorting" : "Borrow and sell shares you don't own"}
+                                                className="w-full bg-purple-600 text-white font-bold py-2 px-4 rounded-md hover:bg-purple-700 transition-colors disabled:bg-night-600"
+                                            >
+                                                Sell Short
+                                            </button>
+                                            <button
+                                                onClick={handleCover}
+                                                disabled={!tradeAmount || sharesShort === 0}
+                                                className="w-full bg-brand-blue text-white font-bold py-2 px-4 rounded-md hover:bg-blue-600 transition-colors disabled:bg-night-600"
+                                            >
+                                                Buy to Cover
+                                            </button>
+                                        </div>
+                                        {shortPosition && (
+                                            <div className="text-xs bg-night-700 p-2 rounded-md flex justify-between">
+                                                <span>Short <span className="font-bold">{shortPosition.shares.toFixed(4)}</span> @ {formatCurrency(shortPosition.entryPrice)}</span>
+                                                <span className={(shortPosition.entryPrice - shortPosition.currentPrice) >= 0 ? 'text-brand-green' : 'text-brand-red'}>
+                                                    {formatCurrency((shortPosition.entryPrice - shortPosition.currentPrice) * shortPosition.shares)}
+                                                </span>
+                                                <span className="text-night-500">Borrow {shortPosition.borrowRate}%/yr</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* --- Writing Options: covered calls / cash-secured puts (market orders only) --- */}
+                                {tradeTab !== 'stock' && selectedOption && orderType === 'MARKET' && !bracketEnabled && (
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={handleWriteOption}
+                                            disabled={!tradeAmount || contractsOwned > 0}
+                                            title={selectedOption.type === 'call' ? "Covered call: needs 100 shares per contract" : "Cash-secured put: sets aside the strike × 100 per contract"}
+                                            className="w-full bg-purple-600 text-white font-bold py-2 px-4 rounded-md hover:bg-purple-700 transition-colors disabled:bg-night-600"
+                                        >
+                                            Sell to Open
+                                        </button>
+                                        <button
+                                            onClick={handleBuyToClose}
+                                            disabled={!tradeAmount || contractsWritten === 0}
+                                            className="w-full bg-brand-blue text-white font-bold py-2 px-4 rounded-md hover:bg-blue-600 transition-colors disabled:bg-night-600"
+                                        >
+                                            Buy to Close
+                                        </button>
+                                    </div>
+                                )}
+
+                                {openOrdersForTicker.length > 0 && (
+                                    <div className="bg-night-700 p-2 rounded-md">
+                                        <h3 className="text-sm font-bold mb-2">Open Orders</h3>
+                                        <table className="w-full text-left text-xs">
+                                            <thead>
+                                                <tr className="text-night-500">
+                                                    <th className="p-1">Side</th>
+                                                    <th className="p-1">Qty</th>
+                                                    <th className="p-1">Type</th>
+                                                    <th className="p-1">Price</th>
+                                                    <th className="p-1">TIF</th>
+                                                    <th className="p-1">Placed</th>
+                                                    <th className="p-1 text-right">Action</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {openOrdersForTicker.map(order => (
+                                                    <tr key={order.id} className="border-t border-night-600">
+                                                        <td className={`p-1 font-semibold ${order.side === 'BUY' ? 'text-brand-green' : 'text-brand-red'}`}>{order.side}</td>
+                                                        <td className="p-1">
+                                                            {order.assetType === 'option' || order.assetType === 'strategy' ? order.shares : order.shares.toFixed(4)}
+                                                            {order.assetType === 'option' && <div className="text-night-500">{order.optionSymbol}</div>}
+                                                            {/* Multi-leg orders list their legs under the strategy name */}
+                                                            {order.assetType === 'strategy' && (
+                                                                <div className="text-night-500">
+                                                                    {order.name}
+                                                                    {(order.strategyLegs || []).map(leg => <div key={leg.symbol}>{describeLeg(leg)}</div>)}
+                                                                </div>
+                                                            )}
+                                                        </td>
+                                                        <td className="p-1">
+                                                            {order.orderType}
+                                                            {order.role && order.role !== 'ENTRY' && <div className="text-night-500">{order.role.replace(/_/g, ' ')}{order.parentOrderId ? ' (after entry)' : ''}</div>}
+                                                        </td>
+                                                        <td className="p-1">
+                                                            {order.assetType === 'strategy' ? formatNetPrice(getOrderPrice(order)) : formatCurrency(getOrderPrice(order))}
+                                                            {order.orderType === 'MARKET' && <div className="text-night-500">at the open</div>}
+                                                        </td>
+                                                        <td className="p-1">{order.timeInForce}</td>
+                                                        <td className="p-1 text-night-500">{new Date(order.createdAt).toLocaleString()}</td>
+                                                        <td className="p-1 text-right">
+                                                            <button
+                                                                onClick={() => cancelOrder(order.id)}
+                                                                className="text-white bg-brand-red px-2 py-1 rounded text-xs hover:bg-red-600"
+                                                            >
+                                                                Cancel
+                                                            </button>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
                             </div>
                         </Card>
                     ) : (
@@ -1257,6 +1899,7 @@ const StockView: React.FC = () => {
                                      <th className="p-2">Day's G/L</th>
                                      <th className="p-2">Open G/L</th>
                                      <th className="p-2">Stop Loss</th> {/* ADDED Header */}
+                                     <th className="p-2">Trailing Stop</th>
                                     <th className="p-2 text-right">Action</th>
                                 </tr>
                             </thead>
@@ -1264,11 +1907,13 @@ const StockView: React.FC = () => {
                                 {portfolio.optionHoldings
                                     .filter(o => o.underlyingTicker === ticker) // Filter for current ticker
                                     .map(o => {
-                                        const totalValue = o.shares * o.currentPrice * 100;
-                                        const openGain = (o.currentPrice - o.purchasePrice) * o.shares * 100;
-                                        const openGainPercent = o.purchasePrice > 0 ? (openGain / (o.purchasePrice * o.shares * 100)) * 100 : 0;
-                                        const dayGain = (o.change || 0) * o.shares * 100;
-                                        const dayGainPercent = o.changesPercentage || 0;
+                                        const isShort = isShortOption(o);
+                                        const direction = isShort ? -1 : 1;
+                                        const totalValue = getOptionHoldingValue(o);
+                                        const openGain = direction * (o.currentPrice - o.purchasePrice) * o.shares * getContractMultiplier(o);
+                                        const openGainPercent = o.purchasePrice > 0 ? (openGain / (o.purchasePrice * o.shares * getContractMultiplier(o))) * 100 : 0;
+                                        const dayGain = direction * (o.change || 0) * o.shares * getContractMultiplier(o);
+                                        const dayGainPercent = direction * (o.changesPercentage || 0);
 
                                         return (
                                             <tr key={o.symbol} className="border-b border-night-700 hover:bg-night-700">
@@ -1276,8 +1921,9 @@ const StockView: React.FC = () => {
                                                  <td className="p-2 font-bold">
                                                      {o.symbol}
                                                      <span className={`ml-1 text-xs ${o.optionType === 'call' ? 'text-brand-green' : 'text-brand-red'}`}>({o.optionType.toUpperCase()})</span>
+                                                     {isShort && <span className="ml-1 text-xs text-purple-400">WRITTEN</span>}
                                                  </td>
-                                                 <td className="p-2">{o.shares}</td>
+                                                 <td className="p-2">{isShort ? -o.shares : o.shares}</td>
                                                  <td className="p-2">{formatCurrency(o.purchasePrice)}</td>
                                                  <td className="p-2">{formatCurrency(o.currentPrice)}</td>
                                                  <td className="p-2">{formatCurrency(totalValue)}</td>
@@ -1302,12 +1948,36 @@ const StockView: React.FC = () => {
                                                         // Optionally add a button here to ADD a stop loss later
                                                     )}
                                                 </td>
+                                                <td className="p-2">
+                                                    {o.trailingStop ? (
+                                                        <span className="flex items-center gap-1 text-yellow-400">
+                                                            {formatTrail(o.trailingStop)} (stop {formatCurrency(getTrailingStopTriggerPrice(o.trailingStop))})
+                                                            <button
+                                                                onClick={() => updateOptionTrailingStop(o.symbol, null)}
+                                                                className="text-red-500 hover:text-red-400"
+                                                                title="Remove Trailing Stop"
+                                                            >
+                                                                <XIcon className="h-3 w-3" />
+                                                            </button>
+                                                        </span>
+                                                    ) : trailSettings && !isShort ? (
+                                                        // Apply the trail entered in the trade panel to an existing position
+                                                        <button
+                                                            onClick={() => updateOptionTrailingStop(o.symbol, trailSettings)}
+                                                            className="text-xs text-brand-blue hover:underline"
+                                                        >
+                                                            Set {trailSettings.trailType === 'PERCENT' ? `${trailSettings.trailValue}%` : formatCurrency(trailSettings.trailValue)} trail
+                                                        </button>
+                                                    ) : (
+                                                        <span className="text-night-500 italic">None</span>
+                                                    )}
+                                                </td>
                                                 <td className="p-2 text-right">
                                                     <button
                                                         onClick={() => manualSellOption(o.symbol)}
-                                                        className="text-white bg-brand-red px-2 py-1 rounded text-xs hover:bg-red-600"
+                                                        className={`text-white px-2 py-1 rounded text-xs ${isShort ? 'bg-brand-blue hover:bg-blue-600' : 'bg-brand-red hover:bg-red-600'}`}
                                                     >
-                                                        Sell All
+                                                        {isShort ? 'Buy to Close' : 'Sell All'}
                                                     </button>
                                                 </td>
                                             </tr>
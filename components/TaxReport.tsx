@@ -0,0 +1,143 @@
+// components/TaxReport.tsx
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRunTransactions } from '../hooks/useRunTransactions';
+import Card from './common/Card';
+import { formatCurrency } from '../utils/formatters';
+import { buildTaxReport, getTaxYears, formatTaxDate, taxReportToCsv, getTaxYear } from '../utils/taxReport';
+import type { TaxReportTotals } from '../utils/taxReport';
+import { DollarSignIcon } from './common/Icons';
+import ChatPanel from './ChatPanel';
+import { useAuth } from '../src/hooks/useAuth.tsx';
+
+const TaxReport: React.FC = () => {
+    const { transactions, isLoading, loadFailed } = useRunTransactions();
+    const { user } = useAuth();
+
+    const years = useMemo(() => {
+        const found = getTaxYears(transactions);
+        return found.length > 0 ? found : [getTaxYear(Date.now())];
+    }, [transactions]);
+    const [selectedYear, setSelectedYear] = useState<number | null>(null);
+    const year = selectedYear ?? years[0];
+
+    const report = useMemo(() => buildTaxReport(transactions, year), [transactions, year]);
+
+    if (!user) {
+        return <div className="text-center text-night-500 mt-10">You must be logged in to view your tax report.</div>;
+    }
+
+    const pnlColor = (value: number) => value >= 0 ? 'text-brand-green' : 'text-brand-red';
+
+    const handleExport = () => {
+        const blob = new Blob([taxReportToCsv(report)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `form-8949-${report.year}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+        console.log(`[DEBUG] Exported ${report.rows.length} tax report lines for ${report.year}`);
+    };
+
+    // One Form 8949 part: the totals that carry over to Schedule D
+    const renderTotals = (label: string, totals: TaxReportTotals) => (
+        <div className="bg-night-700 p-4 rounded-md">
+            <div className="text-sm text-night-500">{label}</div>
+            <div className={`text-xl font-bold ${pnlColor(totals.gain)}`}>{formatCurrency(totals.gain)}</div>
+            <div className="text-xs text-night-500 mt-1">
+                {totals.count} {totals.count === 1 ? 'sale' : 'sales'} · Proceeds {formatCurrency(totals.proceeds)} · Basis {formatCurrency(totals.costBasis)}
+                {totals.adjustment > 0 && ` · Adjustments ${formatCurrency(totals.adjustment)}`}
+            </div>
+        </div>
+    );
+
+    return (
+        <>
+            {user && <ChatPanel />}
+            <Card>
+                <div className="flex justify-between items-center mb-6 flex-wrap gap-4">
+                    <h2 className="text-2xl font-bold flex items-center gap-2">
+                        <DollarSignIcon className="h-6 w-6 text-brand-blue" /> Capital Gains Report
+                    </h2>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={year}
+                            onChange={(e) => setSelectedYear(Number(e.target.value))}
+                            className="bg-night-700 border border-night-600 rounded-md p-2 text-sm"
+                            title="Tax year"
+                        >
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </select>
+                        <button
+                            onClick={handleExport}
+                            disabled={report.rows.length === 0}
+                            className="bg-brand-blue text-white font-bold py-2 px-4 rounded-md hover:bg-blue-600 transition-colors disabled:bg-night-600 disabled:cursor-not-allowed"
+                        >
+                            Export CSV
+                        </button>
+                    </div>
+                </div>
+
+                {/* Form 8949 summary: Part I short-term, Part II long-term */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    {renderTotals('Short-Term (Part I)', report.shortTerm)}
+                    {renderTotals('Long-Term (Part II)', report.longTerm)}
+                    <div className="bg-night-700 p-4 rounded-md">
+                        <div className="text-sm text-night-500">Wash Sales</div>
+                        <div className="text-xl font-bold">{report.washSales}</div>
+                        <div className="text-xs text-night-500 mt-1">
+                            {formatCurrency(report.disallowedLosses)} in losses disallowed and added to the replacement shares' basis
+                        </div>
+                    </div>
+                </div>
+                <div className="text-xs text-night-500 mb-4">
+                    Dividends: {formatCurrency(report.dividends)}
+                    {report.openingFees > 0 && ` · Commissions on purchases and opening trades: ${formatCurrency(report.openingFees)}`}
+                    {' · '}<Link to="/history" className="text-brand-blue hover:underline">Transaction History</Link>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full text-left divide-y divide-night-700">
+                        <thead className="bg-night-700">
+                            <tr>
+                                <th className="p-3 text-sm font-semibold">Description</th>
+                                <th className="p-3 text-sm font-semibold">Acquired</th>
+                                <th className="p-3 text-sm font-semibold">Sold</th>
+                                <th className="p-3 text-sm font-semibold">Proceeds</th>
+                                <th className="p-3 text-sm font-semibold">Cost Basis</th>
+                                <th className="p-3 text-sm font-semibold">Code</th>
+                                <th className="p-3 text-sm font-semibold">Adjustment</th>
+                                <th className="p-3 text-sm font-semibold">Term</th>
+                                <th className="p-3 text-sm font-semibold text-right">Gain/Loss</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-night-700">
+                            {report.rows.length === 0 ? (
+                                <tr>
+                                    <td colSpan={9} className="text-center p-6 text-night-500">{loadFailed ? "Transactions couldn't be loaded. Please try again later." : isLoading ? 'Loading transactions...' : `No positions were closed in ${report.year}.`}</td>
+                                </tr>
+                            ) : (
+                                report.rows.map(row => (
+                                    <tr key={row.id} className="hover:bg-night-700/50">
+                                        <td className="p-3 font-bold">{row.description}</td>
+                                        <td className="p-3 text-xs text-night-500">{formatTaxDate(row.dateAcquired)}</td>
+                                        <td className="p-3 text-xs text-night-500">{formatTaxDate(row.dateSold)}</td>
+                                        <td className="p-3">{formatCurrency(row.proceeds)}</td>
+                                        <td className="p-3">{formatCurrency(row.costBasis)}</td>
+                                        <td className="p-3 font-semibold text-yellow-400" title={row.code === 'W' ? 'Wash sale: replaced within 30 days' : undefined}>{row.code}</td>
+                                        <td className="p-3">{row.adjustment > 0 ? formatCurrency(row.adjustment) : ''}</td>
+                                        <td className="p-3 text-xs">{row.term === 'LONG' ? 'Long' : 'Short'}</td>
+                                        <td className={`p-3 font-bold text-right ${pnlColor(row.gain)}`}>{formatCurrency(row.gain)}</td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </>
+    );
+};
+
+export default TaxReport;
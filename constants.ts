@@ -2,5 +2,8 @@ export const FMP_BASE_URL = '/fmpProxy'; // REMOVE "?endpoint=" from here
 export const ALPACA_BASE_URL = '/alpacaProxy'; // Assuming similar pattern, remove "?endpoint=" if present
 export const GEMINI_BASE_URL = '/geminiProxy';
 export const OPTIONS_PROXY_URL = '/optionsProxy';
+export const EXECUTE_TRADE_URL = '/executeTrade';
+export const UPDATE_PORTFOLIO_URL = '/updatePortfolio';
 
-export const INITIAL_CASH = 100000;
\ No newline at end of file
+export const INITIAL_CASH = 100000;
+export const DEFAULT_BORROW_RATE = 3; // Annual %, accrued daily on the market value of short positions
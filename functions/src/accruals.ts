@@ -0,0 +1,506 @@
+// Daily accruals and margin enforcement for the automation pass: short
+// borrow fees, dividends, margin interest and margin calls. These only run
+// here; the web app shows the entries they write.
+
+import {applyMultiLegClose} from "./strategies.js";
+import {getEasternDayStart} from "./marketCalendar.js";
+import {
+  applyBuyToCover,
+  applyOptionBuyToClose,
+  applyOptionSell,
+  applyStockBuy,
+  applyStockSell,
+  createId,
+  getContractMultiplier,
+  getDaysBetweenDateKeys,
+  getEasternDateKey,
+  getMarginSummary,
+  getSharesCoveringCalls,
+  getStrategyCollateral,
+  getStrategyMarketValue,
+  isShortOption,
+  LONG_MAINTENANCE_REQUIREMENT,
+  SHORT_MAINTENANCE_REQUIREMENT,
+  TradeResult,
+} from "./trading.js";
+import {
+  Dividend,
+  MarginCall,
+  PendingDividend,
+  Portfolio,
+  StrategyPosition,
+  Transaction,
+} from "./types.js";
+
+// Borrow fees and margin interest are quoted annually on a 360-day year
+const DAY_COUNT = 360;
+// Calendar days to bring equity back above maintenance before liquidation
+const MARGIN_CALL_GRACE_DAYS = 2;
+// Sell a little more than the shortfall so ticks don't re-trigger the call
+const LIQUIDATION_BUFFER = 1.05;
+
+export interface BorrowFeeResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  charged: {ticker: string; fee: number; days: number}[];
+  changed: boolean;
+}
+
+export interface MarginInterestResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  interest: number;
+  days: number;
+  changed: boolean;
+}
+
+export interface MarginCallResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  issued: MarginCall | null;
+  met: boolean;
+  liquidations: Transaction[];
+  changed: boolean;
+}
+
+export interface DividendResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  paid: {
+    dividend: PendingDividend;
+    transaction: Transaction;
+    reinvested?: Transaction;
+  }[];
+  changed: boolean;
+}
+
+// --- Borrow fees ---
+
+/**
+ * Charges borrow fees for every Eastern day since each short was last
+ * charged, logged as BORROW_FEE transactions with a negative realized P&L.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {number} now Timestamp to accrue through.
+ * @return {BorrowFeeResult} The state after the fees.
+ */
+export const accrueBorrowFees = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  now: number = Date.now(),
+): BorrowFeeResult => {
+  const today = getEasternDateKey(now);
+  const newTransactions = [...transactions];
+  const charged: BorrowFeeResult["charged"] = [];
+  let cash = portfolio.cash;
+
+  const shortHoldings = (portfolio.shortHoldings || []).map((short) => {
+    const days = getDaysBetweenDateKeys(short.lastBorrowFeeDate, today);
+    if (days === 0) return short;
+    const fee = short.shares * short.currentPrice *
+      (short.borrowRate / 100) / DAY_COUNT * days;
+    newTransactions.push({
+      id: createId(), type: "BORROW_FEE", ticker: short.ticker,
+      shares: short.shares, price: short.currentPrice, totalAmount: fee,
+      timestamp: now, realizedPnl: -fee,
+    });
+    charged.push({ticker: short.ticker, fee, days});
+    cash -= fee;
+    return {
+      ...short,
+      borrowFeesPaid: short.borrowFeesPaid + fee,
+      lastBorrowFeeDate: today,
+    };
+  });
+
+  if (charged.length === 0) {
+    return {portfolio, transactions, charged, changed: false};
+  }
+  return {
+    portfolio: {...portfolio, cash, shortHoldings},
+    transactions: newTransactions,
+    charged,
+    changed: true,
+  };
+};
+
+// --- Dividends ---
+
+const LONG_SHARE_CHANGES: {[type: string]: number} = {
+  BUY: 1, SELL: -1, STOP_LOSS_SELL: -1, TAKE_PROFIT_SELL: -1,
+  TRAILING_STOP_SELL: -1,
+};
+const SHORT_SHARE_CHANGES: {[type: string]: number} = {
+  SHORT_SELL: 1, BUY_TO_COVER: -1,
+};
+
+// Shares held at a past moment: the current position with the trades (and
+// splits) since then unwound, newest first
+const getSharesHeldAt = (
+  currentShares: number,
+  transactions: Transaction[],
+  ticker: string,
+  timestamp: number,
+  side: "long" | "short",
+): number => {
+  const changes = side === "long" ? LONG_SHARE_CHANGES : SHORT_SHARE_CHANGES;
+  const shares = transactions
+    .filter((t) => t.ticker === ticker && !t.optionSymbol && !t.strategyId &&
+      t.timestamp >= timestamp)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .reduce((acc: number, t) => {
+      if (t.type !== "CORPORATE_ACTION") {
+        return acc - (changes[t.type] || 0) * t.shares;
+      }
+      if ((t.legSide === "short") !== (side === "short")) return acc;
+      if (t.corporateAction === "SPLIT" && t.splitRatio) {
+        return acc / t.splitRatio;
+      }
+      if (t.corporateAction === "CASH_MERGER") return acc + t.shares;
+      return acc;
+    }, currentShares);
+  return Math.max(0, shares);
+};
+
+// Records a dividend for every position held going into an ex-date since
+// the last check. A portfolio never checked starts from today.
+const recordExDividends = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  dividends: {[ticker: string]: Dividend[]},
+  now: number,
+): Portfolio => {
+  const today = getEasternDateKey(now);
+  const checkedThrough = portfolio.dividendsCheckedThrough;
+  if (checkedThrough && checkedThrough >= today) return portfolio;
+
+  const recorded: PendingDividend[] = [];
+  if (checkedThrough) {
+    const positions = [
+      ...portfolio.holdings.map((h) =>
+        ({ticker: h.ticker, shares: h.shares, side: "long" as const})),
+      ...(portfolio.shortHoldings || []).map((s) =>
+        ({ticker: s.ticker, shares: s.shares, side: "short" as const})),
+    ];
+    positions.forEach((position) => {
+      (dividends[position.ticker] || [])
+        .filter((d) => d.date > checkedThrough && d.date <= today &&
+          d.dividend > 0)
+        .forEach((d) => {
+          const shares = getSharesHeldAt(position.shares, transactions,
+            position.ticker, getEasternDayStart(d.date), position.side);
+          if (shares <= 0) return;
+          recorded.push({
+            id: createId(),
+            ticker: position.ticker,
+            exDate: d.date,
+            // Some listings omit the pay date; pay on the ex-date instead
+            paymentDate: d.paymentDate || d.date,
+            amountPerShare: d.dividend,
+            shares,
+            side: position.side,
+          });
+        });
+    });
+  }
+
+  return {
+    ...portfolio,
+    pendingDividends: [...(portfolio.pendingDividends || []), ...recorded],
+    dividendsCheckedThrough: today,
+  };
+};
+
+// Pays every pending dividend whose pay date has arrived; DRIP holdings
+// reinvest it commission-free, shorts are charged what they owe the lender
+const payDividends = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  now: number,
+) => {
+  const today = getEasternDateKey(now);
+  const pending = portfolio.pendingDividends || [];
+  const due = pending.filter((d) => d.paymentDate <= today);
+  const paid: DividendResult["paid"] = [];
+  if (due.length === 0) return {portfolio, transactions, paid};
+
+  let newPortfolio: Portfolio = {
+    ...portfolio,
+    pendingDividends: pending.filter((d) => d.paymentDate > today),
+  };
+  const newTransactions = [...transactions];
+  due.forEach((dividend) => {
+    const amount = dividend.shares * dividend.amountPerShare;
+    const signed = dividend.side === "long" ? amount : -amount;
+    const transaction: Transaction = {
+      id: createId(), type: "DIVIDEND", ticker: dividend.ticker,
+      shares: dividend.shares, price: dividend.amountPerShare,
+      totalAmount: amount, timestamp: now, realizedPnl: signed,
+    };
+    newPortfolio = {...newPortfolio, cash: newPortfolio.cash + signed};
+    newTransactions.push(transaction);
+
+    const holding = dividend.side === "long" ?
+      newPortfolio.holdings.find((h) => h.ticker === dividend.ticker) :
+      undefined;
+    let reinvested: Transaction | undefined;
+    if (holding?.drip && holding.currentPrice > 0) {
+      try {
+        const {fees, ...feeFree} = newPortfolio;
+        const buy = applyStockBuy(feeFree, holding.ticker, holding.name,
+          amount / holding.currentPrice, holding.currentPrice,
+          {linkedTransactionId: transaction.id});
+        newPortfolio = {...buy.portfolio, ...(fees ? {fees} : {})};
+        newTransactions.push(buy.transaction);
+        reinvested = buy.transaction;
+      } catch (error) {
+        console.warn(`[DIVIDENDS] Could not reinvest the ${
+          dividend.ticker} dividend, keeping it as cash:`, error);
+      }
+    }
+    paid.push({dividend, transaction, ...(reinvested ? {reinvested} : {})});
+  });
+
+  return {portfolio: newPortfolio, transactions: newTransactions, paid};
+};
+
+/**
+ * Records new ex-dates (when dividend data was fetched) and pays whatever
+ * has come due.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log of the run.
+ * @param {object | null} dividends Dividend history per ticker, or null to
+ * only pay what is already pending.
+ * @param {number} now Current timestamp.
+ * @return {DividendResult} The state after the payments.
+ */
+export const processDividends = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  dividends: {[ticker: string]: Dividend[]} | null,
+  now: number = Date.now(),
+): DividendResult => {
+  const recorded = dividends ?
+    recordExDividends(portfolio, transactions, dividends, now) : portfolio;
+  const payment = payDividends(recorded, transactions, now);
+  return {
+    ...payment,
+    changed: recorded !== portfolio || payment.paid.length > 0,
+  };
+};
+
+/**
+ * Whether dividend data needs fetching: once per Eastern day, for
+ * portfolios holding stock.
+ * @param {object} portfolio The portfolio document.
+ * @param {number} now Current timestamp.
+ * @return {boolean} True if the day hasn't been checked.
+ */
+export const needsDividendCheck = (
+  portfolio: Portfolio,
+  now: number = Date.now(),
+): boolean => {
+  const hasStock = portfolio.holdings.length > 0 ||
+    (portfolio.shortHoldings || []).length > 0;
+  return hasStock &&
+    (portfolio.dividendsCheckedThrough || "") < getEasternDateKey(now);
+};
+
+// --- Margin ---
+
+const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Charges interest on the debit balance for every Eastern day since the
+ * last accrual, logged as a MARGIN_INTEREST transaction.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {number} now Timestamp to accrue through.
+ * @return {MarginInterestResult} The state after the interest.
+ */
+export const accrueMarginInterest = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  now: number = Date.now(),
+): MarginInterestResult => {
+  const unchanged = {portfolio, transactions, interest: 0, days: 0,
+    changed: false};
+  const margin = portfolio.margin;
+  if (!margin?.enabled) return unchanged;
+  const today = getEasternDateKey(now);
+  const days = getDaysBetweenDateKeys(margin.lastInterestDate, today);
+  if (days === 0) return unchanged;
+
+  const debitBalance = Math.max(0, -portfolio.cash);
+  const interest = debitBalance * (margin.interestRate / 100) /
+    DAY_COUNT * days;
+  const newMargin = {
+    ...margin,
+    lastInterestDate: today,
+    interestPaid: margin.interestPaid + interest,
+  };
+  if (interest <= 0) {
+    // Nothing borrowed: just move the accrual date forward
+    return {...unchanged, portfolio: {...portfolio, margin: newMargin}, days,
+      changed: true};
+  }
+  return {
+    portfolio: {...portfolio, cash: portfolio.cash - interest,
+      margin: newMargin},
+    transactions: [...transactions, {
+      id: createId(), type: "MARGIN_INTEREST", ticker: "CASH", shares: 0,
+      price: 0, totalAmount: interest, timestamp: now, realizedPnl: -interest,
+    }],
+    interest,
+    days,
+    changed: true,
+  };
+};
+
+// Sells positions, largest first, until equity is back above maintenance.
+// Stock is trimmed by just enough shares; options and strategies close.
+const liquidateForMarginCall = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+) => {
+  let newPortfolio = portfolio;
+  const newTransactions = [...transactions];
+  const liquidations: Transaction[] = [];
+  const extra = {marginLiquidation: true};
+
+  // Each trade closes a position or clears the shortfall, so this terminates
+  const maxTrades = portfolio.holdings.length +
+    portfolio.optionHoldings.length +
+    (portfolio.shortHoldings || []).length +
+    (portfolio.strategyPositions || []).length;
+  for (let i = 0; i < maxTrades; i++) {
+    const deficit = getMarginSummary(newPortfolio).marginCallAmount;
+    if (deficit <= 0.005) break;
+
+    const candidates = [
+      // Shares covering written calls can't be sold first
+      ...newPortfolio.holdings.map((h) => {
+        const shares = h.shares -
+          getSharesCoveringCalls(newPortfolio.optionHoldings, h.ticker);
+        return {kind: "long", key: h.ticker, value: shares * h.currentPrice,
+          shares, price: h.currentPrice};
+      }),
+      ...(newPortfolio.shortHoldings || []).map((s) => ({
+        kind: "short", key: s.ticker, value: s.shares * s.currentPrice,
+        shares: s.shares, price: s.currentPrice,
+      })),
+      ...newPortfolio.optionHoldings.map((o) => ({
+        kind: isShortOption(o) ? "shortOption" : "option", key: o.symbol,
+        value: o.shares * o.currentPrice * getContractMultiplier(o),
+        shares: o.shares, price: o.currentPrice,
+      })),
+      // A spread ties up its market value plus its short legs' collateral
+      ...(newPortfolio.strategyPositions || []).map((p) => ({
+        kind: "strategy", key: p.id,
+        value: Math.abs(getStrategyMarketValue(p)) +
+          getStrategyCollateral(p.legs) * p.quantity *
+          getContractMultiplier(p),
+        shares: p.quantity, price: 0,
+      })),
+    ].filter((c) => c.value > 0).sort((a, b) => b.value - a.value);
+    const target = candidates[0];
+    if (!target) break;
+
+    try {
+      if (target.kind === "strategy") {
+        const position = newPortfolio.strategyPositions
+          .find((p) => p.id === target.key) as StrategyPosition;
+        const multiLeg = applyMultiLegClose(newPortfolio, target.key,
+          position.legs.map((leg) => leg.currentPrice), extra);
+        newPortfolio = multiLeg.portfolio;
+        newTransactions.push(...multiLeg.transactions);
+        liquidations.push(...multiLeg.transactions);
+        continue;
+      }
+      let trade: TradeResult;
+      if (target.kind === "option") {
+        trade = applyOptionSell(newPortfolio, target.key, target.shares,
+          target.price, extra);
+      } else if (target.kind === "shortOption") {
+        trade = applyOptionBuyToClose(newPortfolio, target.key, target.shares,
+          target.price, extra);
+      } else {
+        // Closing stock frees its maintenance requirement: size to the deficit
+        const requirement = target.kind === "long" ?
+          LONG_MAINTENANCE_REQUIREMENT : SHORT_MAINTENANCE_REQUIREMENT;
+        const sharesNeeded =
+          deficit / (requirement * target.price) * LIQUIDATION_BUFFER;
+        const shares = Math.min(target.shares, sharesNeeded);
+        trade = target.kind === "long" ?
+          applyStockSell(newPortfolio, target.key, shares, target.price,
+            extra) :
+          applyBuyToCover(newPortfolio, target.key, shares, target.price,
+            extra);
+      }
+      newPortfolio = trade.portfolio;
+      newTransactions.push(trade.transaction);
+      liquidations.push(trade.transaction);
+    } catch (error) {
+      console.error(`[MARGIN CALL] Failed to liquidate ${target.key}:`, error);
+      break;
+    }
+  }
+
+  return {portfolio: newPortfolio, transactions: newTransactions,
+    liquidations};
+};
+
+/**
+ * Issues, clears or enforces a margin call at current prices. Positions are
+ * liquidated once a call is past its grace period or equity is gone.
+ * @param {object} portfolio The portfolio document, at fresh prices.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {number} now Current timestamp.
+ * @return {MarginCallResult} The state after the check.
+ */
+export const evaluateMarginCall = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  now: number = Date.now(),
+): MarginCallResult => {
+  const unchanged: MarginCallResult = {portfolio, transactions, issued: null,
+    met: false, liquidations: [], changed: false};
+  const margin = portfolio.margin;
+  if (!margin?.enabled) return unchanged;
+
+  const summary = getMarginSummary(portfolio);
+  const today = getEasternDateKey(now);
+  if (summary.marginCallAmount <= 0) {
+    if (!margin.marginCall) return unchanged;
+    return {...unchanged, met: true, changed: true,
+      portfolio: {...portfolio, margin: {...margin, marginCall: null}}};
+  }
+
+  const isPastDue = !!margin.marginCall && today > margin.marginCall.dueDate;
+  if (summary.equity <= 0 || isPastDue) {
+    const result = liquidateForMarginCall(portfolio, transactions);
+    const stillShort = getMarginSummary(result.portfolio).marginCallAmount > 0;
+    return {
+      portfolio: {...result.portfolio, margin: {...margin,
+        marginCall: stillShort ? margin.marginCall : null}},
+      transactions: result.transactions,
+      issued: null,
+      met: false,
+      liquidations: result.liquidations,
+      changed: result.liquidations.length > 0 || !stillShort,
+    };
+  }
+
+  if (margin.marginCall) return unchanged;
+  const issued: MarginCall = {
+    issuedAt: now,
+    amount: summary.marginCallAmount,
+    dueDate: addDaysToDateKey(today, MARGIN_CALL_GRACE_DAYS),
+  };
+  return {...unchanged, issued, changed: true,
+    portfolio: {...portfolio, margin: {...margin, marginCall: issued}}};
+};
@@ -0,0 +1,132 @@
+// Portfolio resets: the final stats of the run being archived and the
+// portfolio it restarts from. The return math matches the web app's
+// performance summary (utils/performance); keep the two in step.
+
+import {createMarginAccount} from "./trading.js";
+import {ArchivedRun, Portfolio, Transaction, TransactionType} from "./types.js";
+
+interface CashFlow {
+  amount: number; // Positive for deposits, negative for withdrawals
+  valueBefore: number; // Total portfolio value just before the money moved
+}
+
+// Realized P&L on these isn't a trade result: income, financing costs, and
+// fees charged on opening trades
+const NON_TRADE_PNL: TransactionType[] = ["DIVIDEND", "BORROW_FEE",
+  "MARGIN_INTEREST", "BUY", "SHORT_SELL", "OPTION_BUY",
+  "OPTION_SELL_TO_OPEN", "STRATEGY_LEG_OPEN"];
+
+const getCashFlows = (transactions: Transaction[]): CashFlow[] =>
+  transactions
+    .filter((t) => t.type === "DEPOSIT" || t.type === "WITHDRAWAL")
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((t) => ({
+      amount: t.type === "DEPOSIT" ? t.totalAmount : -t.totalAmount,
+      valueBefore: t.valueBefore ?? 0,
+    }));
+
+// The returns between cash flows, chained, so deposits and withdrawals don't
+// count as gains
+const getTimeWeightedReturn = (
+  initialValue: number,
+  flows: CashFlow[],
+  currentValue: number,
+): number => {
+  let growth = 1;
+  let periodStart = initialValue;
+  [
+    ...flows.map((f) => ({end: f.valueBefore, next: f.valueBefore + f.amount})),
+    {end: currentValue, next: 0},
+  ].forEach(({end, next}) => {
+    // A period that started from nothing (everything withdrawn) has no return
+    if (periodStart > 0) growth *= end / periodStart;
+    periodStart = next;
+  });
+  return (growth - 1) * 100;
+};
+
+const getOpenPositionCount = (portfolio: Portfolio): number =>
+  portfolio.holdings.length + portfolio.optionHoldings.length +
+  (portfolio.shortHoldings || []).length +
+  (portfolio.strategyPositions || []).length;
+
+/**
+ * Final stats of a run being reset.
+ * @param {object} details The run's id, portfolio id and portfolio name.
+ * @param {object} portfolio The portfolio document at the reset.
+ * @param {Array<object>} transactions The run's whole transaction log.
+ * @param {number} finalValue Total value at the reset.
+ * @param {number} now Current timestamp.
+ * @return {ArchivedRun} The archive index entry.
+ */
+export const buildArchivedRun = (
+  details: Pick<ArchivedRun, "id" | "portfolioId" | "portfolioName">,
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  finalValue: number,
+  now: number = Date.now(),
+): ArchivedRun => {
+  const tradeResults = transactions
+    .filter((t) => t.realizedPnl !== undefined &&
+      !NON_TRADE_PNL.includes(t.type))
+    .map((t) => t.realizedPnl as number);
+  // Runs from before startedAt was tracked began with their first trade
+  const startedAt = portfolio.startedAt ||
+    transactions.reduce((earliest, t) => Math.min(earliest, t.timestamp), now);
+  const flows = getCashFlows(transactions);
+  const deposits = flows.filter((f) => f.amount > 0)
+    .reduce((acc, f) => acc + f.amount, 0);
+  const withdrawals = flows.filter((f) => f.amount < 0)
+    .reduce((acc, f) => acc - f.amount, 0);
+
+  return {
+    ...details,
+    startedAt,
+    endedAt: now,
+    initialValue: portfolio.initialValue,
+    netDeposits: deposits - withdrawals,
+    finalValue,
+    totalReturn: finalValue - (portfolio.initialValue + deposits - withdrawals),
+    // Deposits and withdrawals aren't returns, so the run is judged on its
+    // time-weighted return
+    totalReturnPercent:
+      getTimeWeightedReturn(portfolio.initialValue, flows, finalValue),
+    realizedPnl: transactions.reduce((acc, t) => acc + (t.realizedPnl || 0), 0),
+    feesPaid: transactions.reduce((acc, t) => acc + (t.fees || 0), 0),
+    dividends: transactions.filter((t) => t.type === "DIVIDEND")
+      .reduce((acc, t) => acc + (t.realizedPnl || 0), 0),
+    closedTrades: tradeResults.length,
+    winningTrades: tradeResults.filter((pnl) => pnl > 0).length,
+    bestTrade: tradeResults.length > 0 ? Math.max(...tradeResults) : 0,
+    worstTrade: tradeResults.length > 0 ? Math.min(...tradeResults) : 0,
+    openPositions: getOpenPositionCount(portfolio),
+  };
+};
+
+/**
+ * The portfolio a reset starts from: the chosen cash and no positions,
+ * keeping the account's settings (fee schedule, lot relief method and margin
+ * on or off).
+ * @param {object} portfolio The portfolio document being reset.
+ * @param {number} initialValue The new starting cash.
+ * @param {number} now Current timestamp.
+ * @return {object} The new portfolio document.
+ */
+export const createResetPortfolio = (
+  portfolio: Portfolio,
+  initialValue: number,
+  now: number = Date.now(),
+): Portfolio => ({
+  cash: initialValue,
+  holdings: [],
+  optionHoldings: [],
+  shortHoldings: [],
+  strategyPositions: [],
+  initialValue,
+  startedAt: now,
+  ...(portfolio.fees ? {fees: portfolio.fees} : {}),
+  ...(portfolio.lotReliefMethod ?
+    {lotReliefMethod: portfolio.lotReliefMethod} : {}),
+  // A fresh margin account: no debit, interest or call carried over
+  ...(portfolio.margin?.enabled ? {margin: createMarginAccount(now)} : {}),
+});
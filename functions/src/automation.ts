@@ -0,0 +1,475 @@
+// One automation pass over a portfolio: the steps the web app's price loop
+// used to run while a tab was open (corporate actions, price refresh, orders,
+// protective exits, accruals, margin calls, option stops, expiry and
+// rectangle alerts), in the same order. Pure; the scheduled function in
+// index.ts fetches the market data and writes the result.
+
+import {
+  accrueBorrowFees,
+  accrueMarginInterest,
+  evaluateMarginCall,
+  processDividends,
+} from "./accruals.js";
+import {
+  CorporateActionData,
+  describeCorporateAction,
+  processCorporateActions,
+} from "./corporateActions.js";
+import {settleExpiredOptions} from "./expiry.js";
+import {isMarketOpen} from "./marketCalendar.js";
+import {
+  describeOrder,
+  evaluatePendingOrders,
+  evaluateStockExits,
+  getTrailingStopTriggerPrice,
+  isTrailingStopTriggered,
+  ratchetTrailingStop,
+} from "./orders.js";
+import {formatNetPrice, settleExpiredStrategies} from "./strategies.js";
+import {
+  chargeTradeFees,
+  createId,
+  formatCurrency,
+  getContractMultiplier,
+  getFillPrice,
+  TradeResult,
+} from "./trading.js";
+import {
+  Dividend,
+  Drawing,
+  OptionContract,
+  OptionHolding,
+  OptionSettlementMode,
+  PendingOrder,
+  Portfolio,
+  Quote,
+  TrailingStop,
+  Transaction,
+} from "./types.js";
+
+export interface AutomationInput {
+  portfolio: Portfolio;
+  // The run's log since the last dividend check, for the shares held going
+  // into new ex-dates; empty when no dividend data was fetched
+  transactions: Transaction[];
+  orders: PendingOrder[];
+  quotes: Quote[];
+  optionContracts: OptionContract[];
+  // Null when the day's lookups aren't due or failed; retried next pass
+  corporateActionData: CorporateActionData | null;
+  dividendData: {[ticker: string]: Dividend[]} | null;
+  drawings: {[ticker: string]: Drawing[]};
+  slippage?: string;
+  optionSettlement: OptionSettlementMode;
+  now: number;
+}
+
+export interface AutomationAlert {
+  // Alerts with an id replace an undelivered alert with the same id
+  id?: string;
+  text: string;
+  ticker?: string;
+}
+
+export interface AutomationResult {
+  portfolio: Portfolio;
+  // Only the transactions this pass added
+  transactions: Transaction[];
+  orders: PendingOrder[];
+  ordersChanged: boolean;
+  alerts: AutomationAlert[];
+  // Something beyond quotes changed: trades, orders, stops or accruals.
+  // Fresh quotes alone don't count; they're saved with the next change.
+  changed: boolean;
+}
+
+/**
+ * Every ticker a portfolio needs quotes for: positions, open orders and
+ * dividends still owed on positions closed after the ex-date.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} orders The open orders.
+ * @return {Array<string>} The tickers, without duplicates.
+ */
+export const getAutomationTickers = (
+  portfolio: Portfolio,
+  orders: PendingOrder[],
+): string[] => [...new Set([
+  ...portfolio.holdings.map((h) => h.ticker),
+  ...portfolio.optionHoldings.map((o) => o.underlyingTicker),
+  ...orders.map((o) => o.ticker),
+  ...(portfolio.shortHoldings || []).map((s) => s.ticker),
+  ...(portfolio.strategyPositions || []).map((p) => p.underlyingTicker),
+  ...(portfolio.pendingDividends || []).map((d) => d.ticker),
+])] as string[];
+
+/**
+ * The option chains (underlying and expiration) a portfolio needs: held
+ * contracts, strategy legs and open option or multi-leg orders.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} orders The open orders.
+ * @return {Array<object>} Ticker and expiration date pairs.
+ */
+export const getOptionChainRequests = (
+  portfolio: Portfolio,
+  orders: PendingOrder[],
+): {ticker: string; date: string}[] => Array.from(new Set<string>([
+  ...portfolio.optionHoldings.map((o) =>
+    `${o.underlyingTicker}_${o.expirationDate}`),
+  ...orders.flatMap((o) => o.option ?
+    [`${o.ticker}_${o.option.expirationDate}`] : []),
+  ...(portfolio.strategyPositions || []).flatMap((p) =>
+    p.legs.map((leg) => `${p.underlyingTicker}_${leg.expirationDate}`)),
+  ...orders.flatMap((o) => (o.strategyLegs || []).map((leg) =>
+    `${o.ticker}_${leg.expirationDate}`)),
+])).map((pair) => {
+  const [ticker, date] = pair.split("_");
+  return {ticker, date};
+});
+
+// Sells a whole option holding whose stop-loss or trailing stop fired. The
+// stop triggers on the last price but sells into the bid, less slippage.
+const applyOptionStopSale = (
+  portfolio: Portfolio,
+  option: OptionHolding,
+  isTrailing: boolean,
+  slippage: string | undefined,
+  now: number,
+): TradeResult => {
+  const {fillPrice: sellPrice, midPrice} = getFillPrice("SELL", option.shares,
+    {price: option.currentPrice, bid: option.bid, ask: option.ask,
+      volume: option.volume}, slippage);
+  const multiplier = getContractMultiplier(option);
+  const proceeds = option.shares * sellPrice * multiplier;
+  const transaction: Transaction = {
+    id: createId(),
+    type: isTrailing ? "OPTION_TRAILING_STOP_SELL" : "OPTION_STOP_LOSS_SELL",
+    ticker: option.underlyingTicker,
+    shares: option.shares,
+    price: sellPrice,
+    totalAmount: proceeds,
+    timestamp: now,
+    purchasePrice: option.purchasePrice,
+    realizedPnl: (sellPrice - option.purchasePrice) * option.shares *
+      multiplier,
+    optionSymbol: option.symbol,
+    optionType: option.optionType,
+    strikePrice: option.strikePrice,
+    midPrice,
+    // Record the peak and the level the trail fired at, for the ledger
+    ...(isTrailing ? {
+      trailingPeakPrice: (option.trailingStop as TrailingStop).highWaterMark,
+      trailingTriggerPrice: getTrailingStopTriggerPrice(
+        option.trailingStop as TrailingStop),
+    } : {stopLossTriggerPrice: option.stopLossPrice as number}),
+  };
+  return chargeTradeFees({
+    portfolio: {
+      ...portfolio,
+      cash: portfolio.cash + proceeds,
+      optionHoldings: portfolio.optionHoldings
+        .filter((o) => o.symbol !== option.symbol),
+    },
+    transaction,
+  }, {assetType: "option", side: "SELL", quantity: option.shares,
+    price: sellPrice, multiplier});
+};
+
+// Rectangle drawings whose price range the latest quote is inside
+const getRectangleAlerts = (
+  quotes: Quote[],
+  drawings: {[ticker: string]: Drawing[]},
+  now: number,
+): AutomationAlert[] => quotes.flatMap((quote) => {
+  const active = (drawings[quote.symbol] || []).some((drawing) => {
+    const minTime = Math.min(drawing.p1.time, drawing.p2.time);
+    const minPrice = Math.min(drawing.p1.price, drawing.p2.price);
+    const maxPrice = Math.max(drawing.p1.price, drawing.p2.price);
+    return minTime <= now / 1000 &&
+      quote.price >= minPrice && quote.price <= maxPrice;
+  });
+  return active ? [{
+    id: `rectangle_${quote.symbol}`,
+    text: `Price Alert! ${quote.symbol} entered a saved rectangle ` +
+      `(Price: ${formatCurrency(quote.price)})`,
+    ticker: quote.symbol,
+  }] : [];
+});
+
+/**
+ * Runs one automation pass over a portfolio with fresh market data.
+ * Stops, exits and margin liquidations only fire during the regular
+ * session, since quotes are stale outside it.
+ * @param {AutomationInput} input The stored state and fresh market data.
+ * @return {AutomationResult} The new state and the alerts to deliver.
+ */
+export const runAutomationPass = (input: AutomationInput): AutomationResult => {
+  const {quotes, optionContracts, slippage, now} = input;
+  const marketOpen = isMarketOpen(now);
+  let portfolio: Portfolio = {
+    ...input.portfolio,
+    shortHoldings: input.portfolio.shortHoldings || [],
+    strategyPositions: input.portfolio.strategyPositions || [],
+  };
+  let transactions = input.transactions;
+  let orders = input.orders;
+  let changed = false;
+  const messages: string[] = [];
+  let messageTicker: string | undefined;
+  const alerts = getRectangleAlerts(quotes, input.drawings, now);
+
+  // Corporate actions go before fresh quotes so post-split prices never meet
+  // pre-split share counts
+  if (input.corporateActionData) {
+    const result = processCorporateActions(portfolio, transactions, orders,
+      input.corporateActionData, quotes, now);
+    if (result.changed) {
+      portfolio = result.portfolio;
+      transactions = result.transactions;
+      orders = result.orders;
+      changed = true;
+      messages.push(
+        ...result.applied.map(({action}) =>
+          `Corporate action applied: ${describeCorporateAction(action)}`),
+        ...result.cancelledOrders.map((order) =>
+          `${describeOrder(order)} cancelled (corporate action)`),
+      );
+      messageTicker = result.applied[0]?.action.newTicker ||
+        result.applied[0]?.action.ticker;
+    }
+  }
+
+  // --- Fresh prices; trailing stops ratchet before exits are evaluated ---
+  portfolio.holdings = portfolio.holdings.map((holding) => {
+    const quote = quotes.find((q) => q.symbol === holding.ticker);
+    if (!quote || (quote.price === holding.currentPrice &&
+      quote.change === holding.change)) {
+      return holding;
+    }
+    // A new peak moves the stop, so unlike the price it has to be saved
+    const trailingStop = holding.trailingStop &&
+      ratchetTrailingStop(holding.trailingStop, quote.price);
+    if (trailingStop !== holding.trailingStop) changed = true;
+    return {
+      ...holding,
+      currentPrice: quote.price,
+      change: quote.change,
+      changesPercentage: quote.changesPercentage,
+      ...(trailingStop ? {trailingStop} : {}),
+    };
+  });
+  portfolio.shortHoldings = portfolio.shortHoldings.map((short) => {
+    const quote = quotes.find((q) => q.symbol === short.ticker);
+    if (!quote || (quote.price === short.currentPrice &&
+      quote.change === short.change)) {
+      return short;
+    }
+    return {...short, currentPrice: quote.price, change: quote.change,
+      changesPercentage: quote.changesPercentage};
+  });
+  portfolio.strategyPositions = portfolio.strategyPositions
+    .map((position) => {
+      let legsChanged = false;
+      const legs = position.legs.map((leg) => {
+        const fresh = optionContracts.find((c) => c.symbol === leg.symbol);
+        if (!fresh || fresh.close_price === null ||
+          fresh.close_price === undefined) {
+          return leg;
+        }
+        if (Math.abs(fresh.close_price - leg.currentPrice) <= 0.0001 &&
+          (fresh.change || 0) === leg.change) {
+          return leg;
+        }
+        legsChanged = true;
+        return {...leg, currentPrice: fresh.close_price,
+          change: fresh.change || 0};
+      });
+      if (!legsChanged) return position;
+      return {...position, legs};
+    });
+  portfolio.optionHoldings = portfolio.optionHoldings.map((option) => {
+    const fresh = optionContracts.find((c) => c.symbol === option.symbol);
+    const price = fresh?.close_price;
+    if (!fresh || price === null || price === undefined) return option;
+    if (Math.abs(price - option.currentPrice) <= 0.0001 &&
+      fresh.bid === (option.bid ?? null) &&
+      fresh.ask === (option.ask ?? null)) {
+      return option;
+    }
+    const trailingStop = option.trailingStop &&
+      ratchetTrailingStop(option.trailingStop, price);
+    if (trailingStop !== option.trailingStop) changed = true;
+    return {
+      ...option,
+      currentPrice: price,
+      change: fresh.change || 0,
+      changesPercentage: fresh.changesPercentage || 0,
+      impliedVolatility: fresh.impliedVolatility,
+      open_interest: fresh.open_interest,
+      volume: fresh.volume,
+      bid: fresh.bid,
+      ask: fresh.ask,
+      ...(trailingStop ? {trailingStop} : {}),
+    };
+  });
+
+  // --- Pending orders and stock exits against the fresh quotes ---
+  if (orders.length > 0) {
+    const result = evaluatePendingOrders(portfolio, transactions, orders,
+      quotes, optionContracts, slippage, now);
+    if (result.changed) {
+      portfolio = result.portfolio;
+      transactions = result.transactions;
+      orders = result.orders;
+      changed = true;
+      messages.push(
+        ...result.filled.map(({order, price}) => `${describeOrder(order)} ` +
+          `filled @ ${order.assetType === "strategy" ?
+            formatNetPrice(price) : formatCurrency(price)}`),
+        ...result.expired.map((order) =>
+          `${describeOrder(order)} expired (DAY)`),
+        ...result.rejected.map(({order, reason}) =>
+          `${describeOrder(order)} cancelled: ${reason}`),
+        ...result.cancelled.map((order) => `${describeOrder(order)} ` +
+          `cancelled (${order.parentOrderId ? "entry not filled" : "OCO"})`),
+      );
+      messageTicker = messageTicker || (result.filled[0]?.order ||
+        result.expired[0] || result.rejected[0]?.order ||
+        result.cancelled[0])?.ticker;
+    }
+  }
+
+  const exitResult = evaluateStockExits(portfolio, transactions, quotes,
+    slippage);
+  if (marketOpen && exitResult.changed) {
+    portfolio = exitResult.portfolio;
+    transactions = exitResult.transactions;
+    changed = true;
+    messages.push(...exitResult.triggered.map(({holding, transaction,
+      reason}) => `${reason.replace(/_/g, " ")} executed for ${
+      holding.ticker} @ ${formatCurrency(transaction.price)}. Realized P&L: ${
+      formatCurrency(transaction.realizedPnl)}`));
+    messageTicker = messageTicker || exitResult.triggered[0].holding.ticker;
+  }
+
+  // --- Daily accruals: borrow fees, dividends and margin interest ---
+  const feeResult = accrueBorrowFees(portfolio, transactions, now);
+  if (feeResult.changed) {
+    portfolio = feeResult.portfolio;
+    transactions = feeResult.transactions;
+    changed = true;
+    messages.push(...feeResult.charged.map(({ticker, fee, days}) =>
+      `Borrow fee for ${ticker} short: ${formatCurrency(fee)} ` +
+      `(${days} day${days === 1 ? "" : "s"})`));
+    messageTicker = messageTicker || feeResult.charged[0].ticker;
+  }
+
+  const dividendResult = processDividends(portfolio, transactions,
+    input.dividendData, now);
+  if (dividendResult.changed) {
+    portfolio = dividendResult.portfolio;
+    transactions = dividendResult.transactions;
+    changed = true;
+    messages.push(...dividendResult.paid.map(({dividend, transaction,
+      reinvested}) => dividend.side === "short" ?
+      `Dividend owed on ${dividend.ticker} short: ${
+        formatCurrency(transaction.totalAmount)}` :
+      `Dividend from ${dividend.ticker}: ${
+        formatCurrency(transaction.totalAmount)}${reinvested ?
+        `, reinvested in ${reinvested.shares.toFixed(4)} shares @ ${
+          formatCurrency(reinvested.price)}` : ""}`));
+    messageTicker = messageTicker || dividendResult.paid[0]?.dividend.ticker;
+  }
+
+  const interestResult = accrueMarginInterest(portfolio, transactions, now);
+  if (interestResult.changed) {
+    portfolio = interestResult.portfolio;
+    transactions = interestResult.transactions;
+    changed = true;
+    if (interestResult.interest > 0) {
+      messages.push(`Margin interest charged: ${
+        formatCurrency(interestResult.interest)} (${interestResult.days} day${
+        interestResult.days === 1 ? "" : "s"})`);
+    }
+  }
+
+  const marginCallResult = evaluateMarginCall(portfolio, transactions, now);
+  if (marketOpen && marginCallResult.changed) {
+    portfolio = marginCallResult.portfolio;
+    transactions = marginCallResult.transactions;
+    changed = true;
+    if (marginCallResult.issued) {
+      messages.push(`MARGIN CALL: deposit or sell ${
+        formatCurrency(marginCallResult.issued.amount)} of positions by ${
+        marginCallResult.issued.dueDate} or positions will be liquidated.`);
+    }
+    if (marginCallResult.met) {
+      messages.push("Margin call met. Your account is back above the " +
+        "maintenance requirement.");
+    }
+    if (marginCallResult.liquidations.length > 0) {
+      messages.push(`Margin call not met. Liquidated: ${
+        marginCallResult.liquidations.map((t) => `${t.shares.toFixed(2)} ${
+          t.optionSymbol || t.ticker} @ ${formatCurrency(t.price)}`)
+          .join(", ")}`);
+      messageTicker = messageTicker ||
+        marginCallResult.liquidations[0].ticker;
+    }
+  }
+
+  if (messages.length > 0) {
+    alerts.push({text: messages.join(" | "), ticker: messageTicker});
+  }
+
+  // --- Option stop-losses and trailing stops, on the refreshed prices ---
+  if (marketOpen) {
+    for (const option of [...portfolio.optionHoldings]) {
+      const hitStopLoss = option.stopLossPrice !== null &&
+        option.stopLossPrice !== undefined &&
+        option.currentPrice <= option.stopLossPrice;
+      const isTrailing = !hitStopLoss &&
+        isTrailingStopTriggered(option.trailingStop, option.currentPrice);
+      if (!hitStopLoss && !isTrailing) continue;
+
+      try {
+        const sale = applyOptionStopSale(portfolio, option, isTrailing,
+          slippage, now);
+        portfolio = sale.portfolio;
+        transactions = [...transactions, sale.transaction];
+        changed = true;
+        alerts.push({
+          text: `${isTrailing ? "TRAILING STOP" : "STOP LOSS"} executed for ${
+            option.symbol} @ ${formatCurrency(sale.transaction.price)}. ` +
+            `Realized P&L: ${formatCurrency(sale.transaction.realizedPnl)}`,
+          ticker: option.underlyingTicker,
+        });
+      } catch (error) {
+        console.error(`[STOP LOSS FAILED] Could not sell ${option.symbol}:`,
+          error);
+      }
+    }
+  }
+
+  // --- Expiry: stop-loss sales first, so a contract sold isn't settled ---
+  const optionSettlement = settleExpiredOptions(portfolio, transactions,
+    quotes, input.optionSettlement);
+  // Strategy legs settle in the same pass so a spread's legs are never split
+  // across saves
+  const strategySettlement = settleExpiredStrategies(
+    optionSettlement.portfolio, optionSettlement.transactions, quotes,
+    input.optionSettlement, now);
+  if (optionSettlement.changed || strategySettlement.changed) {
+    portfolio = strategySettlement.portfolio;
+    transactions = strategySettlement.transactions;
+    changed = true;
+  }
+
+  const knownIds = new Set(input.transactions.map((t) => t.id));
+  return {
+    portfolio,
+    transactions: transactions.filter((t) => !knownIds.has(t.id)),
+    orders,
+    ordersChanged: orders !== input.orders,
+    alerts,
+    changed,
+  };
+};
@@ -0,0 +1,662 @@
+// Corporate actions for the automation pass: splits, symbol changes and cash
+// mergers found in the day's lookups and applied to positions and open
+// orders. The web app's applyCorporateAction (utils/corporateActions) replays
+// them in history; keep the two in step.
+
+import {
+  createId,
+  formatCurrency,
+  getContractMultiplier,
+  getEasternDateKey,
+  getHoldingLots,
+  getLegSign,
+  isShortOption,
+} from "./trading.js";
+import {
+  CorporateAction,
+  DelistedCompany,
+  PendingOrder,
+  Portfolio,
+  Quote,
+  StockSplit,
+  SymbolChange,
+  TrailingStop,
+  Transaction,
+} from "./types.js";
+
+export interface CorporateActionData {
+  splits: {[ticker: string]: StockSplit[]};
+  symbolChanges: SymbolChange[];
+  delisted: DelistedCompany[];
+}
+
+export interface CorporateActionResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  orders: PendingOrder[];
+  applied: {action: CorporateAction; entries: Transaction[]}[];
+  cancelledOrders: PendingOrder[];
+  changed: boolean;
+}
+
+export interface AppliedAction {
+  portfolio: Portfolio;
+  orders: PendingOrder[];
+  entries: Transaction[];
+  cancelledOrders: PendingOrder[];
+}
+
+// ROOT + YYMMDD + C/P + strike × 1000 (8 digits)
+const OCC_SYMBOL = /^([A-Z0-9.]+?)(\d{6})([CP])(\d{8})$/;
+
+// Adjusted contracts (deliverable no longer 100 shares) trade under a
+// numbered root (XYZ → XYZ1)
+const rewriteOptionSymbol = (
+  symbol: string,
+  ticker: string,
+  changes: {newTicker?: string; strikePrice?: number; adjustedRoot?: boolean},
+): string => {
+  const match = symbol.match(OCC_SYMBOL);
+  if (!match) return symbol;
+  const [, root, expiration, type, strike] = match;
+  const suffix = root.startsWith(ticker) ? root.slice(ticker.length) : "";
+  const newSuffix = changes.adjustedRoot ?
+    String(Number(suffix || 0) + 1) : suffix;
+  const newStrike = changes.strikePrice !== undefined ?
+    String(Math.round(changes.strikePrice * 1000)).padStart(8, "0") : strike;
+  return `${changes.newTicker || ticker}${newSuffix}${expiration}${type}${
+    newStrike}`;
+};
+
+// Whole-number splits add contracts; other ratios change the deliverable
+const isWholeRatio = (ratio: number): boolean =>
+  ratio >= 2 && Math.abs(ratio - Math.round(ratio)) < 1e-9;
+
+const describeSplitRatio = (ratio: number): string => {
+  for (let denominator = 1; denominator <= 20; denominator++) {
+    const numerator = ratio * denominator;
+    if (Math.abs(numerator - Math.round(numerator)) < 1e-6) {
+      return `${Math.round(numerator)}-for-${denominator}`;
+    }
+  }
+  return `${Number(ratio.toFixed(4))}-for-1`;
+};
+
+const describeAction = (action: CorporateAction): string => {
+  if (action.kind === "SPLIT") {
+    const ratio = action.ratio || 1;
+    return `${describeSplitRatio(ratio)} ${
+      ratio < 1 ? "reverse split" : "split"}`;
+  }
+  if (action.kind === "SYMBOL_CHANGE") {
+    return `Symbol change ${action.ticker} → ${action.newTicker}`;
+  }
+  return `Cash merger at ${formatCurrency(action.cashPerShare)}/share`;
+};
+
+const auditEntry = (
+  action: CorporateAction,
+  now: number,
+  fields: Pick<Transaction, "ticker" | "shares" | "price" | "description"> &
+    Partial<Transaction>,
+): Transaction => ({
+  id: createId(),
+  type: "CORPORATE_ACTION",
+  totalAmount: 0,
+  timestamp: now,
+  corporateAction: action.kind,
+  ...(action.kind === "SPLIT" ? {splitRatio: action.ratio} : {}),
+  ...(action.kind === "SYMBOL_CHANGE" ?
+    {previousTicker: action.ticker} : {}),
+  ...fields,
+});
+
+const adjustTrailingStop = (
+  trailingStop: TrailingStop,
+  ratio: number,
+): TrailingStop => ({
+  ...trailingStop,
+  highWaterMark: trailingStop.highWaterMark / ratio,
+  // A percent trail scales on its own; a dollar trail is per share
+  ...(trailingStop.trailType === "AMOUNT" ?
+    {trailValue: trailingStop.trailValue / ratio} : {}),
+});
+
+// Divides whichever of the given prices are set; missing ones stay missing
+// since Firestore rejects undefined
+const dividePrices = <T extends object>(
+  item: T,
+  keys: (keyof T)[],
+  ratio: number,
+): Partial<T> => {
+  const divided: Partial<T> = {};
+  keys.filter((key) => typeof item[key] === "number")
+    .forEach((key) => {
+      divided[key] = ((item[key] as number) / ratio) as T[keyof T];
+    });
+  return divided;
+};
+
+const isStockOrder = (order: PendingOrder): boolean =>
+  !order.assetType || order.assetType === "stock";
+
+const formatShares = (shares: number): number => Number(shares.toFixed(4));
+
+const applySplit = (
+  portfolio: Portfolio,
+  orders: PendingOrder[],
+  action: CorporateAction,
+  now: number,
+): AppliedAction => {
+  const ratio = action.ratio || 1;
+  const ticker = action.ticker;
+  const label = describeAction(action);
+  const wholeRatio = isWholeRatio(ratio);
+  const entries: Transaction[] = [];
+
+  const holdings = portfolio.holdings.map((h) => {
+    if (h.ticker !== ticker) return h;
+    const adjusted = {
+      ...h,
+      shares: h.shares * ratio,
+      purchasePrice: h.purchasePrice / ratio,
+      currentPrice: h.currentPrice / ratio,
+      change: h.change / ratio,
+      ...dividePrices(h, ["stopLossPrice", "takeProfitPrice"], ratio),
+      ...(h.trailingStop ?
+        {trailingStop: adjustTrailingStop(h.trailingStop, ratio)} : {}),
+      ...(h.lots ? {lots: h.lots.map((lot) => ({...lot,
+        shares: lot.shares * ratio, costBasis: lot.costBasis / ratio}))} : {}),
+    };
+    entries.push(auditEntry(action, now, {
+      ticker, shares: adjusted.shares, price: adjusted.purchasePrice,
+      purchasePrice: adjusted.purchasePrice,
+      description: `${label}: ${formatShares(h.shares)} → ${
+        formatShares(adjusted.shares)} shares, cost basis ${
+        formatCurrency(h.purchasePrice)} → ${
+        formatCurrency(adjusted.purchasePrice)}/share`,
+    }));
+    return adjusted;
+  });
+
+  const shortHoldings = (portfolio.shortHoldings || []).map((s) => {
+    if (s.ticker !== ticker) return s;
+    const adjusted = {
+      ...s,
+      shares: s.shares * ratio,
+      entryPrice: s.entryPrice / ratio,
+      currentPrice: s.currentPrice / ratio,
+      change: s.change / ratio,
+    };
+    entries.push(auditEntry(action, now, {
+      ticker, shares: adjusted.shares, price: adjusted.entryPrice,
+      purchasePrice: adjusted.entryPrice, legSide: "short",
+      description: `${label}: short ${formatShares(s.shares)} → ${
+        formatShares(adjusted.shares)} shares, entry ${
+        formatCurrency(s.entryPrice)} → ${
+        formatCurrency(adjusted.entryPrice)}/share`,
+    }));
+    return adjusted;
+  });
+
+  const optionHoldings = portfolio.optionHoldings.map((o) => {
+    if (o.underlyingTicker !== ticker) return o;
+    const strikePrice = o.strikePrice / ratio;
+    const adjusted = {
+      ...o,
+      symbol: rewriteOptionSymbol(o.symbol, ticker,
+        {strikePrice, adjustedRoot: !wholeRatio}),
+      shares: wholeRatio ? o.shares * ratio : o.shares,
+      strikePrice,
+      purchasePrice: o.purchasePrice / ratio,
+      currentPrice: o.currentPrice / ratio,
+      change: o.change / ratio,
+      ...dividePrices(o, ["stopLossPrice", "bid", "ask"], ratio),
+      ...(o.trailingStop ?
+        {trailingStop: adjustTrailingStop(o.trailingStop, ratio)} : {}),
+      ...(wholeRatio ? {} :
+        {multiplier: getContractMultiplier(o) * ratio}),
+    };
+    entries.push(auditEntry(action, now, {
+      ticker, shares: adjusted.shares, price: adjusted.purchasePrice,
+      purchasePrice: adjusted.purchasePrice, optionSymbol: adjusted.symbol,
+      optionType: o.optionType, strikePrice,
+      ...(isShortOption(o) ? {legSide: "short"} : {}),
+      description: `${label}: ${o.shares} ${o.symbol} → ${adjusted.shares} ${
+        adjusted.symbol}, strike ${formatCurrency(o.strikePrice)} → ${
+        formatCurrency(strikePrice)}, ${
+        formatShares(getContractMultiplier(adjusted))} shares per contract`,
+    }));
+    return adjusted;
+  });
+
+  const strategyPositions = (portfolio.strategyPositions || [])
+    .map((p) => {
+      if (p.underlyingTicker !== ticker) return p;
+      const adjusted = {
+        ...p,
+        quantity: wholeRatio ? p.quantity * ratio : p.quantity,
+        netEntryPrice: p.netEntryPrice / ratio,
+        legs: p.legs.map((leg) => {
+          const strikePrice = leg.strikePrice / ratio;
+          return {
+            ...leg,
+            symbol: rewriteOptionSymbol(leg.symbol, ticker,
+              {strikePrice, adjustedRoot: !wholeRatio}),
+            strikePrice,
+            entryPrice: leg.entryPrice / ratio,
+            currentPrice: leg.currentPrice / ratio,
+            change: leg.change / ratio,
+          };
+        }),
+        ...(wholeRatio ? {} :
+          {multiplier: getContractMultiplier(p) * ratio}),
+      };
+      entries.push(auditEntry(action, now, {
+        ticker, shares: adjusted.quantity, price: adjusted.netEntryPrice,
+        strategyId: p.id, strategyName: p.name,
+        description: `${label}: ${p.name} ${p.quantity} → ${
+          adjusted.quantity} contract(s) per leg, strikes ${
+          p.legs.map((l) => formatCurrency(l.strikePrice / ratio))
+            .join("/")}, ${formatShares(getContractMultiplier(adjusted))} ` +
+          "shares per contract",
+      }));
+      return adjusted;
+    });
+
+  const cancelledOrders = orders.filter((o) =>
+    o.ticker === ticker && !isStockOrder(o));
+  const newOrders = orders
+    .filter((o) => !cancelledOrders.includes(o))
+    .map((o) => {
+      if (o.ticker !== ticker) return o;
+      return {
+        ...o,
+        shares: o.shares * ratio,
+        ...dividePrices(o, ["limitPrice", "stopPrice", "referencePrice"],
+          ratio),
+        ...(o.lotSelection?.lots ? {lotSelection: {
+          ...o.lotSelection,
+          lots: o.lotSelection.lots.map((l) =>
+            ({...l, shares: l.shares * ratio})),
+        }} : {}),
+      };
+    });
+
+  // Dividends that went ex before the split are owed on pre-split shares
+  const pendingDividends = (portfolio.pendingDividends || []).map((d) =>
+    d.ticker === ticker ? {...d, shares: d.shares * ratio,
+      amountPerShare: d.amountPerShare / ratio} : d);
+
+  return {
+    portfolio: {...portfolio, holdings, shortHoldings, optionHoldings,
+      strategyPositions, pendingDividends},
+    orders: newOrders,
+    entries,
+    cancelledOrders,
+  };
+};
+
+const applySymbolChange = (
+  portfolio: Portfolio,
+  orders: PendingOrder[],
+  action: CorporateAction,
+  now: number,
+): AppliedAction => {
+  const ticker = action.ticker;
+  const newTicker = action.newTicker || ticker;
+  const label = describeAction(action);
+  const renameSymbol = (symbol: string) =>
+    rewriteOptionSymbol(symbol, ticker, {newTicker});
+  const entries: Transaction[] = [];
+
+  const holdings = portfolio.holdings.map((h) => {
+    if (h.ticker !== ticker) return h;
+    entries.push(auditEntry(action, now, {
+      ticker: newTicker, shares: h.shares, price: h.purchasePrice,
+      description: `${label}: ${formatShares(h.shares)} shares`,
+    }));
+    return {...h, ticker: newTicker};
+  });
+  const shortHoldings = (portfolio.shortHoldings || []).map((s) => {
+    if (s.ticker !== ticker) return s;
+    entries.push(auditEntry(action, now, {
+      ticker: newTicker, shares: s.shares, price: s.entryPrice,
+      legSide: "short",
+      description: `${label}: short ${formatShares(s.shares)} shares`,
+    }));
+    return {...s, ticker: newTicker};
+  });
+  const optionHoldings = portfolio.optionHoldings.map((o) => {
+    if (o.underlyingTicker !== ticker) return o;
+    const symbol = renameSymbol(o.symbol);
+    entries.push(auditEntry(action, now, {
+      ticker: newTicker, shares: o.shares, price: o.purchasePrice,
+      optionSymbol: symbol, optionType: o.optionType,
+      strikePrice: o.strikePrice,
+      ...(isShortOption(o) ? {legSide: "short"} : {}),
+      description: `${label}: ${o.symbol} → ${symbol}`,
+    }));
+    return {...o, underlyingTicker: newTicker, symbol};
+  });
+  const strategyPositions = (portfolio.strategyPositions || [])
+    .map((p) => {
+      if (p.underlyingTicker !== ticker) return p;
+      entries.push(auditEntry(action, now, {
+        ticker: newTicker, shares: p.quantity, price: p.netEntryPrice,
+        strategyId: p.id, strategyName: p.name,
+        description: `${label}: ${p.name}`,
+      }));
+      return {...p, underlyingTicker: newTicker, legs: p.legs.map(
+        (leg) => ({...leg, symbol: renameSymbol(leg.symbol)}))};
+    });
+
+  const newOrders = orders.map((o) => {
+    if (o.ticker !== ticker) return o;
+    return {
+      ...o,
+      ticker: newTicker,
+      ...(o.optionSymbol ?
+        {optionSymbol: renameSymbol(o.optionSymbol)} : {}),
+      ...(o.option ? {option: {...o.option, underlyingTicker: newTicker,
+        symbol: renameSymbol(o.option.symbol)}} : {}),
+      ...(o.strategyLegs ? {strategyLegs: o.strategyLegs.map((leg) =>
+        ({...leg, symbol: renameSymbol(leg.symbol)}))} : {}),
+    };
+  });
+  const pendingDividends = (portfolio.pendingDividends || []).map((d) =>
+    d.ticker === ticker ? {...d, ticker: newTicker} : d);
+
+  return {
+    portfolio: {...portfolio, holdings, shortHoldings, optionHoldings,
+      strategyPositions, pendingDividends},
+    orders: newOrders,
+    entries,
+    cancelledOrders: [],
+  };
+};
+
+const applyCashMerger = (
+  portfolio: Portfolio,
+  orders: PendingOrder[],
+  action: CorporateAction,
+  now: number,
+): AppliedAction => {
+  const ticker = action.ticker;
+  const cashPerShare = action.cashPerShare || 0;
+  const label = describeAction(action);
+  const intrinsicValue = (optionType: string, strikePrice: number) =>
+    optionType === "call" ?
+      Math.max(0, cashPerShare - strikePrice) :
+      Math.max(0, strikePrice - cashPerShare);
+  let cash = portfolio.cash;
+  const entries: Transaction[] = [];
+
+  portfolio.holdings.filter((h) => h.ticker === ticker)
+    .forEach((h) => {
+      const proceeds = h.shares * cashPerShare;
+      cash += proceeds;
+      // A cash merger is a sale of every lot for tax purposes
+      const closedLots = getHoldingLots(h).map((lot) => ({
+        lotId: lot.id, shares: lot.shares, costBasis: lot.costBasis,
+        acquiredAt: lot.acquiredAt,
+      }));
+      entries.push(auditEntry(action, now, {
+        ticker, shares: h.shares, price: cashPerShare, totalAmount: proceeds,
+        purchasePrice: h.purchasePrice,
+        realizedPnl: (cashPerShare - h.purchasePrice) * h.shares, closedLots,
+        description: `${label}: ${formatShares(h.shares)} shares paid out ` +
+          `for ${formatCurrency(proceeds)}`,
+      }));
+    });
+  (portfolio.shortHoldings || []).filter((s) => s.ticker === ticker)
+    .forEach((s) => {
+      const cost = s.shares * cashPerShare;
+      cash -= cost;
+      entries.push(auditEntry(action, now, {
+        ticker, shares: s.shares, price: cashPerShare, totalAmount: cost,
+        purchasePrice: s.entryPrice, legSide: "short",
+        realizedPnl: (s.entryPrice - cashPerShare) * s.shares,
+        description: `${label}: short ${formatShares(s.shares)} shares ` +
+          `closed for ${formatCurrency(cost)}`,
+      }));
+    });
+  portfolio.optionHoldings.filter((o) => o.underlyingTicker === ticker)
+    .forEach((o) => {
+      const settlement = intrinsicValue(o.optionType, o.strikePrice);
+      const multiplier = getContractMultiplier(o);
+      const isShort = isShortOption(o);
+      // A written contract pays out its intrinsic value
+      cash += (isShort ? -settlement : settlement) * o.shares * multiplier;
+      entries.push(auditEntry(action, now, {
+        ticker, shares: o.shares, price: settlement,
+        totalAmount: settlement * o.shares * multiplier,
+        purchasePrice: o.purchasePrice,
+        realizedPnl: (isShort ? o.purchasePrice - settlement :
+          settlement - o.purchasePrice) * o.shares * multiplier,
+        optionSymbol: o.symbol, optionType: o.optionType,
+        strikePrice: o.strikePrice,
+        ...(isShort ? {legSide: "short"} : {}),
+        description: `${label}: ${o.shares} ${o.symbol} settled at ${
+          formatCurrency(settlement)}`,
+      }));
+    });
+  (portfolio.strategyPositions || [])
+    .filter((p) => p.underlyingTicker === ticker)
+    .forEach((p) => {
+      const multiplier = getContractMultiplier(p);
+      p.legs.forEach((leg) => {
+        const settlement = intrinsicValue(leg.optionType, leg.strikePrice);
+        const sign = getLegSign(leg.side);
+        cash += sign * settlement * p.quantity * multiplier;
+        entries.push(auditEntry(action, now, {
+          ticker, shares: p.quantity, price: settlement,
+          totalAmount: settlement * p.quantity * multiplier,
+          purchasePrice: leg.entryPrice,
+          realizedPnl: sign * (settlement - leg.entryPrice) * p.quantity *
+            multiplier,
+          optionSymbol: leg.symbol, optionType: leg.optionType,
+          strikePrice: leg.strikePrice, strategyId: p.id,
+          strategyName: p.name, legSide: leg.side,
+          description: `${label}: ${p.name} leg ${leg.symbol} settled at ${
+            formatCurrency(settlement)}`,
+        }));
+      });
+    });
+
+  const cancelledOrders = orders.filter((o) => o.ticker === ticker);
+  return {
+    portfolio: {
+      ...portfolio,
+      cash,
+      holdings: portfolio.holdings.filter((h) => h.ticker !== ticker),
+      shortHoldings: (portfolio.shortHoldings || [])
+        .filter((s) => s.ticker !== ticker),
+      optionHoldings: portfolio.optionHoldings
+        .filter((o) => o.underlyingTicker !== ticker),
+      strategyPositions: (portfolio.strategyPositions || [])
+        .filter((p) => p.underlyingTicker !== ticker),
+    },
+    orders: orders.filter((o) => !cancelledOrders.includes(o)),
+    entries,
+    cancelledOrders,
+  };
+};
+
+/**
+ * Applies one corporate action to positions and open orders.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} orders The open orders.
+ * @param {CorporateAction} action The split, symbol change or cash merger.
+ * @param {number} now Current timestamp.
+ * @return {AppliedAction} The adjusted state and the entries it wrote.
+ */
+export const applyCorporateAction = (
+  portfolio: Portfolio,
+  orders: PendingOrder[],
+  action: CorporateAction,
+  now: number,
+): AppliedAction => {
+  if (action.kind === "SPLIT") {
+    return applySplit(portfolio, orders, action, now);
+  }
+  if (action.kind === "SYMBOL_CHANGE") {
+    return applySymbolChange(portfolio, orders, action, now);
+  }
+  return applyCashMerger(portfolio, orders, action, now);
+};
+
+/**
+ * Every ticker the portfolio has exposure to, through shares or options.
+ * @param {object} portfolio The portfolio document.
+ * @return {Array<string>} The tickers.
+ */
+export const getPositionTickers = (
+  portfolio: Portfolio,
+): string[] => [...new Set([
+  ...portfolio.holdings.map((h) => h.ticker),
+  ...(portfolio.shortHoldings || []).map((s) => s.ticker),
+  ...portfolio.optionHoldings.map((o) => o.underlyingTicker),
+  ...(portfolio.strategyPositions || []).map((p) => p.underlyingTicker),
+])] as string[];
+
+// Actions affecting the portfolio after one date, through another, oldest
+// first. A delisting without a rename is a cash merger at the last price.
+const findCorporateActions = (
+  portfolio: Portfolio,
+  data: CorporateActionData,
+  quotes: Quote[],
+  after: string,
+  through: string,
+): CorporateAction[] => {
+  const inWindow = (date: string) => date > after && date <= through;
+  const held = new Set(getPositionTickers(portfolio));
+  const actions: CorporateAction[] = [];
+
+  // Follow chains of renames so a position ends up under its latest symbol
+  const symbolChanges = data.symbolChanges.filter((c) => inWindow(c.date))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  symbolChanges.forEach((c) => {
+    if (!held.has(c.oldSymbol) || !c.newSymbol ||
+      c.newSymbol === c.oldSymbol) {
+      return;
+    }
+    held.add(c.newSymbol);
+    actions.push({kind: "SYMBOL_CHANGE", ticker: c.oldSymbol, date: c.date,
+      newTicker: c.newSymbol});
+  });
+
+  Object.keys(data.splits).forEach((ticker) => {
+    data.splits[ticker].filter((s) => inWindow(s.date) && s.numerator > 0 &&
+      s.denominator > 0 && s.numerator !== s.denominator)
+      .forEach((s) => {
+        actions.push({kind: "SPLIT", ticker, date: s.date,
+          ratio: s.numerator / s.denominator});
+      });
+  });
+
+  const renamed = new Set(symbolChanges.map((c) => c.oldSymbol));
+  data.delisted.filter((d) => held.has(d.symbol) &&
+    inWindow(d.delistedDate) && !renamed.has(d.symbol))
+    .forEach((d) => {
+      const cashPerShare =
+        quotes.find((q) => q.symbol === d.symbol)?.price ||
+        portfolio.holdings.find((h) => h.ticker === d.symbol)
+          ?.currentPrice ||
+        (portfolio.shortHoldings || []).find((s) => s.ticker === d.symbol)
+          ?.currentPrice;
+      if (!(cashPerShare && cashPerShare > 0)) {
+        console.warn(`[CORPORATE ACTIONS] ${d.symbol} was delisted on ${
+          d.delistedDate} but has no last price to cash out at.`);
+        return;
+      }
+      actions.push({kind: "CASH_MERGER", ticker: d.symbol,
+        date: d.delistedDate, cashPerShare});
+    });
+
+  return actions.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Applies the corporate actions that took effect since the portfolio was
+ * last checked, through today. A portfolio never checked starts from today.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {Array<object>} orders The open orders.
+ * @param {CorporateActionData} data Splits, symbol changes and delistings.
+ * @param {Array<object>} quotes Latest quotes, for a delisting's last price.
+ * @param {number} now Current timestamp.
+ * @return {CorporateActionResult} The adjusted state.
+ */
+export const processCorporateActions = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  orders: PendingOrder[],
+  data: CorporateActionData,
+  quotes: Quote[],
+  now: number = Date.now(),
+): CorporateActionResult => {
+  const today = getEasternDateKey(now);
+  const checkedThrough = portfolio.corporateActionsCheckedThrough;
+  if (checkedThrough && checkedThrough >= today) {
+    return {portfolio, transactions, orders, applied: [],
+      cancelledOrders: [], changed: false};
+  }
+
+  let newPortfolio = portfolio;
+  let newOrders = orders;
+  const newTransactions = [...transactions];
+  const applied: CorporateActionResult["applied"] = [];
+  const cancelledOrders: PendingOrder[] = [];
+  if (checkedThrough) {
+    findCorporateActions(portfolio, data, quotes, checkedThrough, today)
+      .forEach((action) => {
+        const result = applyCorporateAction(newPortfolio, newOrders, action,
+          now);
+        if (result.entries.length === 0 &&
+          result.cancelledOrders.length === 0) {
+          return;
+        }
+        console.log(`[CORPORATE ACTIONS] ${action.ticker} ${
+          describeAction(action)} on ${action.date}: ${
+          result.entries.length} position(s) adjusted, ${
+          result.cancelledOrders.length} order(s) cancelled.`);
+        newPortfolio = result.portfolio;
+        newOrders = result.orders;
+        newTransactions.push(...result.entries);
+        cancelledOrders.push(...result.cancelledOrders);
+        applied.push({action, entries: result.entries});
+      });
+  }
+
+  return {
+    portfolio: {...newPortfolio, corporateActionsCheckedThrough: today},
+    transactions: newTransactions,
+    orders: newOrders,
+    applied,
+    cancelledOrders,
+    changed: true,
+  };
+};
+
+/**
+ * Summary of an applied action, for notifications.
+ * @param {object} action The corporate action.
+ * @return {string} The description.
+ */
+export const describeCorporateAction = (action: CorporateAction): string =>
+  action.kind === "SYMBOL_CHANGE" ?
+    describeAction(action) : `${action.ticker} ${describeAction(action)}`;
+
+/**
+ * Whether corporate-action data needs fetching: once per Eastern day, for
+ * portfolios with positions.
+ * @param {object} portfolio The portfolio document.
+ * @param {number} now Current timestamp.
+ * @return {boolean} True if the day hasn't been checked.
+ */
+export const needsCorporateActionCheck = (
+  portfolio: Portfolio,
+  now: number = Date.now(),
+): boolean => getPositionTickers(portfolio).length > 0 &&
+  (portfolio.corporateActionsCheckedThrough || "") < getEasternDateKey(now);
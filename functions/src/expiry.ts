@@ -0,0 +1,284 @@
+// Option delivery and expiration: exercise and assignment into shares at the
+// strike, and the settlement of contracts past expiration. These only run
+// here.
+
+import {isOptionExpired} from "./marketCalendar.js";
+import {
+  applyBuyToCover,
+  applyShortSell,
+  applyStockBuy,
+  applyStockSell,
+  createId,
+  getContractMultiplier,
+  getSharesCoveringCalls,
+  isShortOption,
+  TradeError,
+} from "./trading.js";
+import {
+  OptionHolding,
+  OptionSettlementMode,
+  Portfolio,
+  Quote,
+  Transaction,
+} from "./types.js";
+
+export interface OptionDeliveryResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  optionTransaction: Transaction;
+}
+
+export interface OptionSettlementResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  changed: boolean;
+}
+
+// Receives shares at the strike: covers a short first, then buys the rest
+const receiveShares = (
+  portfolio: Portfolio,
+  ticker: string,
+  name: string,
+  shares: number,
+  strike: number,
+  extra: Partial<Transaction>,
+) => {
+  let newPortfolio = portfolio;
+  const trades: Transaction[] = [];
+  const shortShares = (portfolio.shortHoldings || [])
+    .find((s) => s.ticker === ticker)?.shares || 0;
+  const toCover = Math.min(shortShares, shares);
+  if (toCover > 0) {
+    const cover = applyBuyToCover(newPortfolio, ticker, toCover, strike, extra);
+    newPortfolio = cover.portfolio;
+    trades.push(cover.transaction);
+  }
+  if (shares - toCover > 0) {
+    const buy = applyStockBuy(newPortfolio, ticker, name, shares - toCover,
+      strike, extra);
+    newPortfolio = buy.portfolio;
+    trades.push(buy.transaction);
+  }
+  return {portfolio: newPortfolio, trades};
+};
+
+// Delivers shares at the strike: sells shares not covering other calls
+// first, then shorts the rest
+const deliverShares = (
+  portfolio: Portfolio,
+  ticker: string,
+  name: string,
+  shares: number,
+  strike: number,
+  extra: Partial<Transaction>,
+) => {
+  let newPortfolio = portfolio;
+  const trades: Transaction[] = [];
+  const owned = portfolio.holdings
+    .find((h) => h.ticker === ticker)?.shares || 0;
+  const toSell = Math.min(Math.max(0,
+    owned - getSharesCoveringCalls(portfolio.optionHoldings, ticker)), shares);
+  if (toSell > 0) {
+    const sell = applyStockSell(newPortfolio, ticker, toSell, strike, extra);
+    newPortfolio = sell.portfolio;
+    trades.push(sell.transaction);
+  }
+  if (shares - toSell > 0) {
+    const short = applyShortSell(newPortfolio, ticker, name, shares - toSell,
+      strike, extra);
+    newPortfolio = short.portfolio;
+    trades.push(short.transaction);
+  }
+  return {portfolio: newPortfolio, trades};
+};
+
+/**
+ * Moves the shares behind exercised or assigned contracts at the strike:
+ * received for a long call or short put, delivered for a long put or short
+ * call. Throws a TradeError if they can't be (e.g. not enough cash).
+ * @param {object} portfolio The portfolio document.
+ * @param {string} ticker The underlying ticker.
+ * @param {boolean} receives Whether the shares come in or go out.
+ * @param {number} shares Number of shares.
+ * @param {number} strike The strike price.
+ * @param {object} extra Fields for every stock trade, e.g. the link to the
+ * option transaction.
+ * @return {object} The new portfolio and the stock trades.
+ */
+export const deliverUnderlying = (
+  portfolio: Portfolio,
+  ticker: string,
+  receives: boolean,
+  shares: number,
+  strike: number,
+  extra: Partial<Transaction>,
+): {portfolio: Portfolio; trades: Transaction[]} => {
+  const name =
+    portfolio.holdings.find((h) => h.ticker === ticker)?.name ||
+    (portfolio.shortHoldings || [])
+      .find((s) => s.ticker === ticker)?.name ||
+    ticker;
+  return receives ?
+    receiveShares(portfolio, ticker, name, shares, strike, extra) :
+    deliverShares(portfolio, ticker, name, shares, strike, extra);
+};
+
+/**
+ * Settles option contracts by delivering the underlying shares at the
+ * strike. The contracts close at zero premium and every resulting stock
+ * trade links back to the option transaction. Throws a TradeError if the
+ * shares can't be delivered (e.g. not enough cash).
+ * @param {object} portfolio The portfolio document.
+ * @param {string} symbol The option contract symbol.
+ * @param {number} contracts Number of contracts to settle.
+ * @return {OptionDeliveryResult} The new portfolio and transactions.
+ */
+export const applyOptionDelivery = (
+  portfolio: Portfolio,
+  symbol: string,
+  contracts: number,
+): OptionDeliveryResult => {
+  const option = portfolio.optionHoldings.find((o) => o.symbol === symbol);
+  if (!option || option.shares < contracts || contracts <= 0) {
+    throw new TradeError("You don't hold enough of these contracts.");
+  }
+  const isShort = isShortOption(option);
+  const ticker = option.underlyingTicker;
+  const shares = contracts * getContractMultiplier(option);
+
+  const optionTransaction: Transaction = {
+    id: createId(),
+    type: isShort ? "OPTION_ASSIGNMENT" : "OPTION_EXERCISE",
+    ticker,
+    shares: contracts,
+    price: 0,
+    totalAmount: 0,
+    timestamp: Date.now(),
+    purchasePrice: option.purchasePrice,
+    realizedPnl: (isShort ? 1 : -1) * option.purchasePrice * shares,
+    optionSymbol: option.symbol,
+    optionType: option.optionType,
+    strikePrice: option.strikePrice,
+    ...(isShort ? {legSide: "short"} : {}),
+  };
+
+  // The contracts leave first so shares covering an assigned call are free
+  const remainingOptions = option.shares === contracts ?
+    portfolio.optionHoldings.filter((o) => o.symbol !== symbol) :
+    portfolio.optionHoldings.map((o) => o.symbol === symbol ?
+      {...o, shares: o.shares - contracts} : o);
+  const withoutOption = {...portfolio, optionHoldings: remainingOptions};
+
+  const receives = (option.optionType === "call") !== isShort;
+  const delivery = deliverUnderlying(withoutOption, ticker, receives, shares,
+    option.strikePrice, {linkedTransactionId: optionTransaction.id});
+
+  return {
+    portfolio: delivery.portfolio,
+    transactions: [optionTransaction, ...delivery.trades],
+    optionTransaction,
+  };
+};
+
+/**
+ * Settles option holdings past their expiration. In-the-money contracts
+ * deliver shares when the user settles physically (falling back to cash if
+ * delivery fails); everything else settles in cash at intrinsic value.
+ * Contracts whose underlying has no quote are left for a later pass.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {Array<object>} quotes Fresh quotes for the underlying tickers.
+ * @param {string} optionSettlement The user's setting: physical or cash.
+ * @return {OptionSettlementResult} The settled state.
+ */
+export const settleExpiredOptions = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  quotes: Quote[],
+  optionSettlement: OptionSettlementMode,
+): OptionSettlementResult => {
+  const getQuote = (option: OptionHolding) => quotes.find((q) =>
+    q.symbol === option.underlyingTicker && q.price > 0);
+  // Settling needs the underlying's price, so contracts without a quote stay
+  // open until a later pass
+  const expired = portfolio.optionHoldings.filter((option) => {
+    if (!isOptionExpired(option.expirationDate)) return false;
+    if (getQuote(option)) return true;
+    console.warn(`[OPTION SETTLEMENT] No quote for ${
+      option.underlyingTicker}; ${option.symbol} will settle later.`);
+    return false;
+  });
+  if (expired.length === 0) return {portfolio, transactions, changed: false};
+
+  const newTransactions = [...transactions];
+  // Expired contracts come off up front so shares covering them are free to
+  // deliver on another assignment
+  let newPortfolio = {
+    ...portfolio,
+    optionHoldings: portfolio.optionHoldings
+      .filter((o) => !expired.includes(o)),
+  };
+
+  for (const option of expired) {
+    const stockPrice = (getQuote(option) as Quote).price;
+    const contracts = option.shares;
+    const intrinsicValue = option.optionType === "call" ?
+      Math.max(0, stockPrice - option.strikePrice) :
+      Math.max(0, option.strikePrice - stockPrice);
+
+    if (intrinsicValue > 0 && optionSettlement === "physical") {
+      try {
+        const delivery = applyOptionDelivery({
+          ...newPortfolio,
+          optionHoldings: [...newPortfolio.optionHoldings, option],
+        }, option.symbol, contracts);
+        console.log(`[OPTION SETTLEMENT] ${option.symbol} expired in the ` +
+          `money. Delivered ${contracts * getContractMultiplier(option)} ` +
+          `shares of ${option.underlyingTicker}.`);
+        newPortfolio = delivery.portfolio;
+        newTransactions.push(...delivery.transactions);
+        continue;
+      } catch (error) {
+        // The broker closes it out at intrinsic value instead
+        console.warn(`[OPTION SETTLEMENT] Could not deliver shares for ${
+          option.symbol}, cash-settling instead:`, error);
+      }
+    }
+
+    // A written contract pays out its intrinsic value instead of receiving it
+    const isShort = isShortOption(option);
+    const multiplier = getContractMultiplier(option);
+    const realizedPnl = (isShort ?
+      option.purchasePrice - intrinsicValue :
+      intrinsicValue - option.purchasePrice) * contracts * multiplier;
+    const cashProceeds =
+      (isShort ? -intrinsicValue : intrinsicValue) * contracts * multiplier;
+    const settlementType = intrinsicValue > 0 ?
+      "OPTION_EXERCISE" : "OPTION_EXPIRE";
+    console.log(`[OPTION SETTLEMENT] ${option.symbol} expired. Type: ${
+      settlementType}. PnL: ${realizedPnl.toFixed(2)}`);
+
+    newTransactions.push({
+      id: createId(),
+      type: settlementType,
+      ticker: option.underlyingTicker,
+      shares: contracts,
+      price: intrinsicValue,
+      totalAmount: Math.abs(cashProceeds),
+      timestamp: Date.now(),
+      purchasePrice: option.purchasePrice,
+      realizedPnl,
+      optionSymbol: option.symbol,
+      optionType: option.optionType,
+      strikePrice: option.strikePrice,
+      ...(isShort ? {legSide: "short"} : {}),
+    });
+    newPortfolio = {...newPortfolio, cash: newPortfolio.cash + cashProceeds};
+  }
+
+  return {
+    portfolio: newPortfolio,
+    transactions: newTransactions,
+    changed: true,
+  };
+};
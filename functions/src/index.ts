@@ -3,7 +3,8 @@ import {Request, Response} from "express";
 import * as logger from "firebase-functions/logger";
 import {initializeApp} from "firebase-admin/app";
 import {getFirestore, FieldValue,
-  DocumentSnapshot} from "firebase-admin/firestore";
+  DocumentReference, DocumentSnapshot} from "firebase-admin/firestore";
+import {onSchedule} from "firebase-functions/v2/scheduler";
 import {defineString} from "firebase-functions/params";
 import {
   GoogleGenAI,
@@ -14,6 +15,49 @@ import {
 } from "@google/genai";
 import {onDocumentWritten,
   Change, FirestoreEvent} from "firebase-functions/v2/firestore";
+import {getAuth} from "firebase-admin/auth";
+import {
+  getAutomationTickers,
+  getOptionChainRequests,
+  runAutomationPass,
+} from "./automation.js";
+import {
+  CorporateActionData,
+  getPositionTickers,
+  needsCorporateActionCheck,
+} from "./corporateActions.js";
+import {needsDividendCheck} from "./accruals.js";
+import {getEasternDayStart, isMarketOpen} from "./marketCalendar.js";
+import {resolveStockExits} from "./orders.js";
+import {buildArchivedRun, createResetPortfolio} from "./archive.js";
+import {
+  ActionMarketData,
+  applyPortfolioAction,
+  getActionMarketRequest,
+  isPortfolioAction,
+  MarketDataRequest,
+} from "./portfolioActions.js";
+import {rebuildPortfolioFromLog} from "./replay.js";
+import {
+  applyStockBuy,
+  applyStockSell,
+  createId,
+  getMarginSummary,
+  getStockFillPrice,
+  StockExitLevels,
+  TradeError,
+  TradeResult,
+} from "./trading.js";
+import {
+  ArchivedRun,
+  Dividend,
+  LotSelection,
+  OptionContract,
+  PendingOrder,
+  Portfolio,
+  Quote,
+  Transaction,
+} from "./types.js";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type ToolFunction = (args: any) => Promise<any>;
@@ -831,6 +875,713 @@ export const alpacaProxy = onRequest(
   },
 );
 
+// Same document layout as the web app: the legacy "main" portfolio keeps
+// the original id, every other one is suffixed with its id.
+const getPortfolioDocId = (portfolioId: string) => portfolioId === "main" ?
+  "portfolio" : `portfolio_${portfolioId}`;
+const getOrdersDocId = (portfolioId: string) => portfolioId === "main" ?
+  "orders" : `orders_${portfolioId}`;
+const getLegacyTransactionsDocId = (portfolioId: string) =>
+  portfolioId === "main" ? "transactions" : `transactions_${portfolioId}`;
+
+// Verifies the "Authorization: Bearer <ID token>" header and returns the uid.
+const getRequestUid = async (req: Request): Promise<string | null> => {
+  const header = req.headers.authorization || "";
+  if (!header.startsWith("Bearer ")) return null;
+  try {
+    const decoded = await getAuth().verifyIdToken(header.slice(7));
+    return decoded.uid;
+  } catch (error) {
+    logger.warn("Invalid ID token:", error);
+    return null;
+  }
+};
+
+export const executeTrade = onRequest(
+  {
+    invoker: "public",
+    cors: true,
+    region: "us-central1",
+  },
+  async (req: Request, res: Response): Promise<void> => {
+    if (req.method !== "POST") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+
+    const uid = await getRequestUid(req);
+    if (!uid) {
+      res.status(401).json({error: "You must be logged in to trade."});
+      return;
+    }
+
+    const {
+      portfolioId, side, name, lotSelection, exits, version,
+    } = req.body as {
+      portfolioId?: string;
+      version?: number;
+      side?: string;
+      name?: string;
+      lotSelection?: LotSelection;
+      exits?: StockExitLevels;
+    };
+    const ticker = typeof req.body.ticker === "string" ?
+      req.body.ticker.trim().toUpperCase() : "";
+    const shares = Number(req.body.shares);
+    if (!ticker || (side !== "BUY" && side !== "SELL") ||
+      !Number.isFinite(shares) || shares <= 0 ||
+      (portfolioId !== undefined && !/^[\w-]+$/.test(portfolioId))) {
+      res.status(400).json({error: "Invalid trade request."});
+      return;
+    }
+
+    // The price comes from the market, never from the client
+    if (!isMarketOpen(Date.now())) {
+      res.status(400).json({error: "The market is closed."});
+      return;
+    }
+    const quoteResult = await fetchFmpApi(
+      `/v3/quote/${encodeURIComponent(ticker)}`);
+    const quote = Array.isArray(quoteResult.data) ? quoteResult.data[0] : null;
+    if (!quote || !(quote.price > 0)) {
+      res.status(502).json({error: `Could not get a price for ${ticker}.`});
+      return;
+    }
+
+    const db = getFirestore();
+    const userRef = db.collection("users").doc(uid);
+    const portfolioRef = userRef.collection("data")
+      .doc(getPortfolioDocId(portfolioId || "main"));
+
+    try {
+      const result = await db.runTransaction(async (tx) => {
+        const [userDoc, portfolioDoc] = await Promise.all([
+          tx.get(userRef),
+          tx.get(portfolioRef),
+        ]);
+        const portfolio = portfolioDoc.data() as Portfolio | undefined;
+        if (!portfolio) {
+          throw new TradeError("Portfolio not found.");
+        }
+        const fillPrice = getStockFillPrice(side, shares,
+          quote, userDoc.data()?.slippage);
+        const extra = {midPrice: quote.price};
+        // Exit levels are checked like SET_STOCK_EXITS, at the current price
+        const holdingExits = side === "BUY" && exits ? resolveStockExits(
+          portfolio.holdings.find((h) => h.ticker === ticker), exits,
+          quote.price) : undefined;
+        const trade: TradeResult = side === "BUY" ?
+          applyStockBuy(portfolio, ticker, name || quote.name || ticker,
+            shares, fillPrice, extra, holdingExits) :
+          applyStockSell(portfolio, ticker, shares, fillPrice, extra,
+            lotSelection);
+
+        // Bumping the version makes saves in open tabs built on the old
+        // state re-evaluate against this trade instead of overwriting it
+        tx.set(portfolioRef, {
+          ...trade.portfolio,
+          version: (portfolio.version ?? 0) + 1,
+        });
+        // One document per transaction under the portfolio
+        tx.set(portfolioRef.collection("transactions")
+          .doc(trade.transaction.id), trade.transaction);
+        // The client computed its checks from this version; a different one
+        // means the trade was re-evaluated against newer state
+        const reevaluated = version !== undefined &&
+          version !== (portfolio.version ?? 0);
+        return {transaction: trade.transaction, reevaluated};
+      });
+      logger.info("Trade executed.", {uid, side, ticker, shares});
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof TradeError) {
+        res.status(400).json({error: error.message});
+        return;
+      }
+      logger.error("executeTrade Error:", error);
+      res.status(500).json({error: "Error executing trade."});
+    }
+  },
+);
+
+// Yahoo chain data in the shape the web app's option chain uses. The premium
+// is floored at intrinsic value, like the web app's options proxy service.
+const toOptionContracts = (chain: {
+  options?: OptionGroup[];
+  quote?: {regularMarketPrice?: number};
+}): OptionContract[] => {
+  const stockPrice = chain.quote?.regularMarketPrice;
+  if (!stockPrice) return [];
+  return (chain.options || []).flatMap((group: OptionGroup) => [
+    ...group.calls.map((c) => ({c, type: "call"})),
+    ...group.puts.map((c) => ({c, type: "put"})),
+  ]).map(({c, type}) => {
+    const intrinsicValue = type === "call" ?
+      Math.max(0, stockPrice - c.strike) : Math.max(0, c.strike - stockPrice);
+    return {
+      symbol: c.contractSymbol,
+      close_price: Math.max(c.lastPrice || c.bid || c.ask || 0,
+        intrinsicValue),
+      bid: c.bid > 0 ? c.bid : null,
+      ask: c.ask > 0 ? c.ask : null,
+      change: c.change || 0,
+      changesPercentage: c.percentChange || 0,
+      volume: c.volume || 0,
+      open_interest: c.openInterest || 0,
+      impliedVolatility: c.impliedVolatility || null,
+    };
+  });
+};
+
+// Quotes, option chains, drawings and the day's corporate-action and
+// dividend lookups for one portfolio. Throws if quotes or a chain can't be
+// fetched, so the pass waits for complete data.
+const fetchAutomationData = async (
+  userRef: DocumentReference,
+  portfolio: Portfolio,
+  orders: PendingOrder[],
+  now: number,
+) => {
+  const tickers = getAutomationTickers(portfolio, orders);
+  const quoteResult = await fetchFmpApi(
+    `/v3/quote/${tickers.map(encodeURIComponent).join(",")}`);
+  if (!Array.isArray(quoteResult.data)) {
+    throw new Error(`Could not get quotes: ${quoteResult.error}`);
+  }
+
+  const chains = await Promise.all(getOptionChainRequests(portfolio, orders)
+    .map(async ({ticker, date}) => {
+      const result = await fetchOptionsApi(ticker, date);
+      if (result.error || !result.data) {
+        throw new Error(`Could not get the ${ticker} ${date} chain.`);
+      }
+      return toOptionContracts(result.data);
+    }));
+
+  const drawingDocs = await Promise.all(tickers.map((ticker) =>
+    userRef.collection("drawings").doc(ticker).get()));
+  const drawings = Object.fromEntries(tickers.map((ticker, i) =>
+    [ticker, drawingDocs[i].data()?.drawings || []]));
+
+  // Any failed daily lookup leaves the day unchecked for the next pass
+  let corporateActionData: CorporateActionData | null = null;
+  if (needsCorporateActionCheck(portfolio, now)) {
+    const positionTickers = getPositionTickers(portfolio);
+    const [splits, symbolChanges, delisted] = await Promise.all([
+      Promise.all(positionTickers.map((ticker) => fetchFmpApi(
+        `/v3/historical-price-full/stock_split/${
+          encodeURIComponent(ticker)}`))),
+      fetchFmpApi("/v4/symbol_change"),
+      fetchFmpApi("/v3/delisted-companies?page=0"),
+    ]);
+    if (Array.isArray(symbolChanges.data) && Array.isArray(delisted.data) &&
+      splits.every((result) => result.data)) {
+      corporateActionData = {
+        splits: Object.fromEntries(positionTickers.map((ticker, i) =>
+          [ticker, splits[i].data.historical || []])),
+        symbolChanges: symbolChanges.data,
+        delisted: delisted.data,
+      };
+    }
+  }
+  let dividendData: {[ticker: string]: Dividend[]} | null = null;
+  if (needsDividendCheck(portfolio, now)) {
+    const heldTickers = [...new Set([
+      ...portfolio.holdings.map((h) => h.ticker),
+      ...(portfolio.shortHoldings || []).map((s) => s.ticker),
+    ])];
+    const histories = await Promise.all(heldTickers.map((ticker) =>
+      fetchFmpApi(`/v3/historical-price-full/stock_dividend/${
+        encodeURIComponent(ticker)}`)));
+    if (histories.every((result) => result.data)) {
+      dividendData = Object.fromEntries(heldTickers.map((ticker, i) =>
+        [ticker, histories[i].data.historical || []]));
+    }
+  }
+
+  return {
+    quotes: quoteResult.data,
+    optionContracts: chains.flat(),
+    drawings,
+    corporateActionData,
+    dividendData,
+  };
+};
+
+// Only portfolios with something to automate are indexed here, one document
+// per portfolio, so the schedule never has to scan every user
+const AUTOMATION_TARGETS = "automationTargets";
+// Portfolios processed at once by a scheduled run
+const AUTOMATION_CONCURRENCY = 10;
+// How long a run holds a portfolio; covers the function's 540s timeout
+const AUTOMATION_LEASE_MS = 9 * 60 * 1000;
+
+const getAutomationTargetRef = (uid: string, portfolioId: string) =>
+  getFirestore().collection(AUTOMATION_TARGETS).doc(`${uid}_${portfolioId}`);
+
+// Adds or removes a portfolio's automation target: it is automated while it
+// isn't archived and has positions, open orders or dividends owed.
+const syncAutomationTarget = async (
+  userRef: DocumentReference,
+  portfolioId: string,
+) => {
+  const dataRef = userRef.collection("data");
+  const targetRef = getAutomationTargetRef(userRef.id, portfolioId);
+  const [portfoliosDoc, portfolioDoc, ordersDoc, targetDoc] =
+    await Promise.all([
+      dataRef.doc("portfolios").get(),
+      dataRef.doc(getPortfolioDocId(portfolioId)).get(),
+      dataRef.doc(getOrdersDocId(portfolioId)).get(),
+      targetRef.get(),
+    ]);
+  const portfolios: {id: string; archived?: boolean}[] =
+    portfoliosDoc.data()?.portfolios || [{id: "main"}];
+  const portfolio = portfolioDoc.data() as Portfolio | undefined;
+  const orders: PendingOrder[] = ordersDoc.data()?.orders || [];
+  const active = !!portfolio &&
+    portfolios.some((p) => p.id === portfolioId && !p.archived) &&
+    getAutomationTickers(portfolio, orders).length > 0;
+  // This runs on every portfolio and order write, so only write when the
+  // target actually appears or goes away
+  if (active && !targetDoc.exists) {
+    await targetRef.set({uid: userRef.id, portfolioId, leaseUntil: 0});
+  } else if (!active && targetDoc.exists) {
+    await targetRef.delete();
+  }
+};
+
+// Maps a document in users/{uid}/data to the portfolios whose automation
+// target it affects, or to nothing for unrelated documents.
+const getAffectedPortfolioIds = (
+  docId: string,
+  before: DocumentSnapshot | undefined,
+  after: DocumentSnapshot | undefined,
+): string[] => {
+  if (docId === "portfolios") {
+    const ids = [before, after].flatMap((snapshot) =>
+      (snapshot?.data()?.portfolios || []).map((p: {id: string}) => p.id));
+    return [...new Set<string>(ids.length > 0 ? ids : ["main"])];
+  }
+  if (docId === "portfolio" || docId === "orders") return ["main"];
+  const match = /^(?:portfolio|orders)_(.+)$/.exec(docId);
+  return match ? [match[1]] : [];
+};
+
+/**
+ * Keeps the automation target index in step with portfolio, order and
+ * portfolio-list writes, so runAutomation only reads active portfolios.
+ */
+export const indexAutomationTarget = onDocumentWritten(
+  "users/{uid}/data/{docId}",
+  async (event: FirestoreEvent<Change<DocumentSnapshot> |
+    undefined, {uid: string; docId: string}>) => {
+    const {uid, docId} = event.params;
+    const portfolioIds = getAffectedPortfolioIds(docId,
+      event.data?.before, event.data?.after);
+    const userRef = getFirestore().collection("users").doc(uid);
+    await Promise.all(portfolioIds.map((portfolioId) =>
+      syncAutomationTarget(userRef, portfolioId)));
+  },
+);
+
+// Indexes every portfolio once, for those saved before the index existed.
+// The marker document keeps later runs to the index alone.
+const indexExistingPortfolios = async (now: number) => {
+  const db = getFirestore();
+  const markerRef = db.collection("system").doc("automation");
+  if ((await markerRef.get()).data()?.indexedAt) return;
+  const users = await db.collection("users").get();
+  for (const userDoc of users.docs) {
+    const portfoliosDoc = await userDoc.ref.collection("data")
+      .doc("portfolios").get();
+    const portfolios: {id: string}[] =
+      portfoliosDoc.data()?.portfolios || [{id: "main"}];
+    await Promise.all(portfolios.map(({id}) =>
+      syncAutomationTarget(userDoc.ref, id)));
+  }
+  await markerRef.set({indexedAt: now});
+  logger.info("Automation targets indexed.", {users: users.size});
+};
+
+// Claims a target for this run. Returns false if it's gone or another run
+// still holds it, so overlapping runs never process a portfolio twice.
+const claimAutomationTarget = (
+  targetRef: DocumentReference,
+  now: number,
+): Promise<boolean> => getFirestore().runTransaction(async (tx) => {
+  const target = await tx.get(targetRef);
+  if (!target.exists || (target.data()?.leaseUntil ?? 0) > now) return false;
+  tx.update(targetRef, {leaseUntil: now + AUTOMATION_LEASE_MS});
+  return true;
+});
+
+// Runs one automation pass over a portfolio and writes the result. Market
+// data is fetched up front; the pass itself runs in a transaction against
+// the stored state so it never overwrites a trade made meanwhile.
+const automatePortfolio = async (
+  userRef: DocumentReference,
+  portfolioId: string,
+  now: number,
+) => {
+  const db = getFirestore();
+  const portfolioRef = userRef.collection("data")
+    .doc(getPortfolioDocId(portfolioId));
+  const ordersRef = userRef.collection("data")
+    .doc(getOrdersDocId(portfolioId));
+
+  const [userDoc, portfolioDoc, ordersDoc] = await Promise.all([
+    userRef.get(),
+    portfolioRef.get(),
+    ordersRef.get(),
+  ]);
+  const portfolio = portfolioDoc.data() as Portfolio | undefined;
+  if (!portfolio) return;
+  const orders: PendingOrder[] = ordersDoc.data()?.orders || [];
+  if (getAutomationTickers(portfolio, orders).length === 0) return;
+
+  const data = await fetchAutomationData(userRef, portfolio, orders, now);
+  const result = await db.runTransaction(async (tx) => {
+    const [storedDoc, storedOrdersDoc] = await Promise.all([
+      tx.get(portfolioRef),
+      tx.get(ordersRef),
+    ]);
+    const stored = storedDoc.data() as Portfolio | undefined;
+    if (!stored) return null;
+    // New ex-dates fall after the last dividend check, so only the trades
+    // since then are needed to unwind positions to them
+    const checkedThrough = stored.dividendsCheckedThrough;
+    const log = data.dividendData && checkedThrough ?
+      (await tx.get(portfolioRef.collection("transactions")
+        .where("timestamp", ">=", Math.max(stored.startedAt ?? 0,
+          getEasternDayStart(checkedThrough)))
+        .orderBy("timestamp", "asc"))).docs
+        .map((d) => d.data() as Transaction) :
+      [];
+    const pass = runAutomationPass({
+      ...data,
+      portfolio: stored,
+      transactions: log,
+      orders: storedOrdersDoc.data()?.orders || [],
+      slippage: userDoc.data()?.slippage,
+      optionSettlement: userDoc.data()?.optionSettlement || "physical",
+      now,
+    });
+    // A pass that only refreshed quotes isn't saved: open tabs price
+    // positions themselves, and a write would force their saves to re-run
+    if (pass.changed) {
+      // Bumping the version makes saves in open tabs built on the old state
+      // re-evaluate against this pass instead of overwriting it
+      tx.set(portfolioRef, {
+        ...pass.portfolio,
+        version: (stored.version ?? 0) + 1,
+      });
+      pass.transactions.forEach((transaction) => tx.set(
+        portfolioRef.collection("transactions").doc(transaction.id),
+        transaction));
+      if (pass.ordersChanged) tx.set(ordersRef, {orders: pass.orders});
+    }
+    // Open tabs show these and delete them. They commit with the pass, and
+    // their ids come from the portfolio and pass time, so a retried pass
+    // rewrites its alerts instead of adding copies. An alert with its own
+    // id replaces an undelivered one, so a rectangle alert isn't repeated.
+    const alertsRef = userRef.collection("alerts");
+    pass.alerts.forEach(({id, ...alert}, i) => tx.set(
+      alertsRef.doc(id || `${portfolioId}_${now}_${i}`),
+      {...alert, portfolioId, createdAt: now}));
+    return pass;
+  });
+  if (result?.changed) {
+    logger.info("Automation pass applied.", {
+      uid: userRef.id, portfolioId, transactions: result.transactions.length,
+    });
+  }
+};
+
+// Stop losses, orders, accruals, expiry and alerts used to run only in an
+// open browser tab; this runs them on a schedule for every portfolio in the
+// automation target index.
+export const runAutomation = onSchedule(
+  {
+    schedule: "every 5 minutes",
+    region: "us-central1",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const now = Date.now();
+    await indexExistingPortfolios(now);
+    const targets = await getFirestore().collection(AUTOMATION_TARGETS).get();
+    const queue = [...targets.docs];
+    // A few workers drain the queue so one slow portfolio (a large option
+    // chain, say) doesn't hold up the rest
+    await Promise.all(Array.from({length: AUTOMATION_CONCURRENCY}, async () => {
+      for (let target = queue.shift(); target; target = queue.shift()) {
+        const {uid, portfolioId} = target.data();
+        try {
+          if (!(await claimAutomationTarget(target.ref, now))) continue;
+          await automatePortfolio(getFirestore().collection("users").doc(uid),
+            portfolioId, now);
+        } catch (error) {
+          // One failing portfolio shouldn't hold up everyone else's
+          logger.error("Automation pass failed.", {uid, portfolioId, error});
+        }
+        // Release it for the next run; the target is gone if the pass left
+        // nothing to automate
+        await target.ref.update({leaseUntil: 0}).catch(() => undefined);
+      }
+    }));
+  },
+);
+
+// Firestore caps a batch at 500 writes
+const MIGRATION_BATCH_SIZE = 450;
+
+// Portfolio changes that read more than the portfolio: the run's log, the
+// archive index or market data for the whole order book
+type PortfolioTask =
+  | {type: "REPAIR"}
+  | {type: "RESET"; initialValue: number}
+  | {type: "MIGRATE_LOG"}
+  | {type: "EVALUATE_ORDERS"};
+
+const PORTFOLIO_TASKS: PortfolioTask["type"][] =
+  ["REPAIR", "RESET", "MIGRATE_LOG", "EVALUATE_ORDERS"];
+
+// Fetches the quote and chains getActionMarketRequest asked for. Missing
+// data is left out; the action reports what it couldn't price.
+const fetchActionMarketData = async (
+  request: MarketDataRequest,
+): Promise<ActionMarketData> => {
+  let quote: Quote | null = null;
+  if (request.ticker) {
+    const result = await fetchFmpApi(
+      `/v3/quote/${encodeURIComponent(request.ticker)}`);
+    quote = Array.isArray(result.data) ? result.data[0] || null : null;
+  }
+  const chains = await Promise.all(request.chains.map(
+    async ({ticker, date}) => {
+      const result = await fetchOptionsApi(ticker, date);
+      return result.data ? toOptionContracts(result.data) : [];
+    }));
+  return {quote, optionContracts: chains.flat()};
+};
+
+// Copies a log stored the old way (one array in a single document) into the
+// subcollection, then drops the array. Writing by id makes it safe to re-run.
+const migrateTransactionLog = async (
+  userRef: DocumentReference,
+  portfolioId: string,
+): Promise<number> => {
+  const db = getFirestore();
+  const legacyRef = userRef.collection("data")
+    .doc(getLegacyTransactionsDocId(portfolioId));
+  const transactionsRef = userRef.collection("data")
+    .doc(getPortfolioDocId(portfolioId)).collection("transactions");
+  const legacy: Transaction[] =
+    (await legacyRef.get()).data()?.transactions || [];
+  if (legacy.length === 0) return 0;
+  for (let i = 0; i < legacy.length; i += MIGRATION_BATCH_SIZE) {
+    const batch = db.batch();
+    legacy.slice(i, i + MIGRATION_BATCH_SIZE).forEach((transaction) =>
+      batch.set(transactionsRef.doc(transaction.id), transaction));
+    await batch.commit();
+  }
+  await legacyRef.set({migratedAt: Date.now(), migratedCount: legacy.length});
+  return legacy.length;
+};
+
+/**
+ * Makes a change to a portfolio on the user's behalf. firestore.rules keep
+ * cash, positions, open orders and the transaction log server-written, so
+ * every trade, order, setting, transfer, repair and reset the web app offers
+ * comes through here
+ * (market stock trades go through executeTrade). Like executeTrade, it
+ * prices from its own market data and reports whether the portfolio had
+ * changed since the version the client acted on.
+ */
+export const updatePortfolio = onRequest(
+  {
+    invoker: "public",
+    cors: true,
+    region: "us-central1",
+    timeoutSeconds: 120,
+  },
+  async (req: Request, res: Response): Promise<void> => {
+    if (req.method !== "POST") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+
+    const uid = await getRequestUid(req);
+    if (!uid) {
+      res.status(401).json({error: "You must be logged in."});
+      return;
+    }
+
+    const {portfolioId = "main", version, action} = req.body as {
+      portfolioId?: string;
+      version?: number;
+      action?: unknown;
+    };
+    const task = action as PortfolioTask | undefined;
+    const isTask = !!task && PORTFOLIO_TASKS.includes(task.type);
+    if (typeof portfolioId !== "string" || !/^[\w-]+$/.test(portfolioId) ||
+      (!isTask && !isPortfolioAction(action))) {
+      res.status(400).json({error: "Invalid request."});
+      return;
+    }
+
+    const db = getFirestore();
+    const userRef = db.collection("users").doc(uid);
+    const dataRef = userRef.collection("data");
+    const portfolioRef = dataRef.doc(getPortfolioDocId(portfolioId));
+    const ordersRef = dataRef.doc(getOrdersDocId(portfolioId));
+    const transactionsRef = portfolioRef.collection("transactions");
+    // The client computed its checks from this version; a different one
+    // means the change was re-evaluated against newer state
+    const isReevaluated = (stored: Portfolio) => version !== undefined &&
+      version !== (stored.version ?? 0);
+
+    try {
+      if (task?.type === "MIGRATE_LOG") {
+        const migrated = await migrateTransactionLog(userRef, portfolioId);
+        res.status(200).json({migrated});
+        return;
+      }
+      if (task?.type === "EVALUATE_ORDERS") {
+        // Fills marketable orders now instead of at the next scheduled pass
+        await automatePortfolio(userRef, portfolioId, Date.now());
+        res.status(200).json({});
+        return;
+      }
+
+      if (task?.type === "REPAIR") {
+        const result = await db.runTransaction(async (tx) => {
+          const stored = (await tx.get(portfolioRef)).data() as
+            Portfolio | undefined;
+          if (!stored) throw new TradeError("Portfolio not found.");
+          const log = await tx.get(transactionsRef
+            .where("timestamp", ">=", stored.startedAt ?? 0)
+            .orderBy("timestamp", "asc"));
+          const rebuilt = rebuildPortfolioFromLog(stored,
+            log.docs.map((d) => d.data() as Transaction));
+          tx.set(portfolioRef, {
+            ...rebuilt,
+            version: (stored.version ?? 0) + 1,
+          });
+          return {cash: rebuilt.cash, reevaluated: isReevaluated(stored)};
+        });
+        logger.info("Portfolio repaired from its log.", {uid, portfolioId});
+        res.status(200).json(result);
+        return;
+      }
+
+      if (task?.type === "RESET") {
+        const initialValue = Number(task.initialValue);
+        if (!Number.isFinite(initialValue) || initialValue <= 0) {
+          throw new TradeError("Starting cash must be greater than zero.");
+        }
+        const archivesRef = dataRef.doc("archives");
+        const run = await db.runTransaction(async (tx) => {
+          const [portfolioDoc, ordersDoc, archivesDoc, portfoliosDoc] =
+            await Promise.all([
+              tx.get(portfolioRef),
+              tx.get(ordersRef),
+              tx.get(archivesRef),
+              tx.get(dataRef.doc("portfolios")),
+            ]);
+          const stored = portfolioDoc.data() as Portfolio | undefined;
+          if (!stored) throw new TradeError("Portfolio not found.");
+          // The run's stats cover its whole log
+          const log = await tx.get(transactionsRef
+            .where("timestamp", ">=", stored.startedAt ?? 0)
+            .orderBy("timestamp", "asc"));
+          const now = Date.now();
+          const portfolioName = (portfoliosDoc.data()?.portfolios || [])
+            .find((p: {id: string}) => p.id === portfolioId)?.name;
+          const archived = buildArchivedRun({
+            id: createId(),
+            portfolioId,
+            portfolioName: portfolioName || "Portfolio",
+          }, stored, log.docs.map((d) => d.data() as Transaction),
+          getMarginSummary(stored).equity, now);
+          const runs: ArchivedRun[] = archivesDoc.data()?.runs || [];
+
+          // The run's transactions stay in the log; the new run only loads
+          // those after its start
+          tx.set(dataRef.doc(`archive_${archived.id}`), {
+            run: archived,
+            portfolio: stored,
+            pendingOrders: ordersDoc.data()?.orders || [],
+          });
+          tx.set(archivesRef, {runs: [...runs, archived]});
+          // A newer version, so a save in flight can't restore the old run
+          tx.set(portfolioRef, {
+            ...createResetPortfolio(stored, initialValue, now),
+            version: (stored.version ?? 0) + 1,
+          });
+          tx.set(ordersRef, {orders: []});
+          return archived;
+        });
+        logger.info("Portfolio reset.", {uid, portfolioId, runId: run.id});
+        res.status(200).json({run});
+        return;
+      }
+
+      if (!isPortfolioAction(action)) return;
+      // Market data is fetched for the state the client saw; the change
+      // itself is applied in a transaction against the stored state
+      const [portfolioDoc, userDoc] = await Promise.all([
+        portfolioRef.get(),
+        userRef.get(),
+      ]);
+      const current = portfolioDoc.data() as Portfolio | undefined;
+      if (!current) throw new TradeError("Portfolio not found.");
+      const market = await fetchActionMarketData(
+        getActionMarketRequest(current, action));
+
+      const result = await db.runTransaction(async (tx) => {
+        const [storedDoc, ordersDoc] = await Promise.all([
+          tx.get(portfolioRef),
+          tx.get(ordersRef),
+        ]);
+        const stored = storedDoc.data() as Portfolio | undefined;
+        if (!stored) throw new TradeError("Portfolio not found.");
+        const change = applyPortfolioAction(stored, action, market, {
+          orders: ordersDoc.data()?.orders || [],
+          slippage: userDoc.data()?.slippage,
+          now: Date.now(),
+        });
+        if (change.orders) {
+          // Placing or cancelling an order only changes the order book
+          tx.set(ordersRef, {orders: change.orders});
+        } else {
+          // Bumping the version makes saves in open tabs built on the old
+          // state re-evaluate against this change instead of overwriting it
+          tx.set(portfolioRef, {
+            ...change.portfolio,
+            version: (stored.version ?? 0) + 1,
+          });
+          change.transactions.forEach((transaction) => tx.set(
+            transactionsRef.doc(transaction.id), transaction));
+        }
+        return {
+          transactions: change.transactions,
+          reevaluated: isReevaluated(stored),
+        };
+      });
+      logger.info("Portfolio updated.", {uid, portfolioId, type: action.type});
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof TradeError) {
+        res.status(400).json({error: error.message});
+        return;
+      }
+      logger.error("updatePortfolio Error:", error);
+      res.status(500).json({error: "Error updating the portfolio."});
+    }
+  },
+);
+
 const getAiLevelInstruction = (level: AiLevel | undefined): string => {
   switch (level) {
   case "beginner":
@@ -0,0 +1,218 @@
+// Server-side port of the web app's NYSE calendar (utils/marketCalendar):
+// regular sessions, full-day holidays and early closes. Keep it in step with
+// the original. Session times are US Eastern minutes after midnight.
+
+const REGULAR_OPEN = 9 * 60 + 30;
+const REGULAR_CLOSE = 16 * 60;
+const EARLY_CLOSE = 13 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough to step over any run of weekends and holidays
+const MAX_DAYS_TO_NEXT_SESSION = 10;
+
+export interface TradingDay {
+  dateKey: string;
+  open: number;
+  close: number;
+  earlyClose: boolean;
+}
+
+const easternFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: "America/New_York",
+  year: "numeric", month: "2-digit", day: "2-digit",
+  hour: "2-digit", minute: "2-digit", second: "2-digit",
+  hourCycle: "h23",
+});
+
+const getEasternWallClock = (timestamp: number) => {
+  const parts: {[type: string]: string} = {};
+  easternFormatter.formatToParts(new Date(timestamp)).forEach((p) => {
+    parts[p.type] = p.value;
+  });
+  return {
+    year: Number(parts.year), month: Number(parts.month),
+    day: Number(parts.day), hour: Number(parts.hour),
+    minute: Number(parts.minute), second: Number(parts.second),
+  };
+};
+
+const getEasternDateKey = (timestamp: number): string => {
+  const {year, month, day} = getEasternWallClock(timestamp);
+  return `${year}-${String(month).padStart(2, "0")}-` +
+    String(day).padStart(2, "0");
+};
+
+// Converts an Eastern wall-clock time on a date to a timestamp, honoring
+// daylight saving time
+const easternTimeToTimestamp = (dateKey: string, minutes: number): number => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  // Shift by the Eastern offset; a second pass settles times near a DST change
+  let timestamp = wallAsUtc;
+  for (let i = 0; i < 2; i++) {
+    const wall = getEasternWallClock(timestamp);
+    const offset = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour,
+      wall.minute, wall.second) - timestamp;
+    timestamp = wallAsUtc - offset;
+  }
+  return timestamp;
+};
+
+/**
+ * Midnight Eastern at the start of a date, e.g. the moment a dividend goes ex.
+ * @param {string} dateKey The date (YYYY-MM-DD).
+ * @return {number} The timestamp.
+ */
+export const getEasternDayStart = (dateKey: string): number =>
+  easternTimeToTimestamp(dateKey, 0);
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (dateKey: string, days: number): string =>
+  toDateKey(new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS));
+
+const getWeekday = (dateKey: string): number =>
+  new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+// The nth given weekday of a month (n = -1 for the last one)
+const nthWeekday = (
+  year: number,
+  month: number,
+  weekday: number,
+  n: number,
+): string => {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return toDateKey(last);
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  first.setUTCDate(
+    1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+  return toDateKey(first);
+};
+
+// Gregorian Easter (anonymous algorithm), for Good Friday
+const getEasterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateKey(new Date(Date.UTC(year, month - 1, day)));
+};
+
+// Fixed-date holidays move to Friday on a Saturday and to Monday on a Sunday
+const observed = (dateKey: string): string => {
+  const weekday = getWeekday(dateKey);
+  if (weekday === 6) return addDays(dateKey, -1);
+  if (weekday === 0) return addDays(dateKey, 1);
+  return dateKey;
+};
+
+const holidayCache = new Map<number, Set<string>>();
+
+const getHolidays = (year: number): Set<string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Set<string>();
+  // New Year's Day on a Saturday isn't made up on the Friday before
+  const newYears = `${year}-01-01`;
+  if (getWeekday(newYears) !== 6) holidays.add(observed(newYears));
+  holidays.add(nthWeekday(year, 0, 1, 3));
+  holidays.add(nthWeekday(year, 1, 1, 3));
+  holidays.add(addDays(getEasterSunday(year), -2));
+  holidays.add(nthWeekday(year, 4, 1, -1));
+  if (year >= 2022) holidays.add(observed(`${year}-06-19`));
+  holidays.add(observed(`${year}-07-04`));
+  holidays.add(nthWeekday(year, 8, 1, 1));
+  holidays.add(nthWeekday(year, 10, 4, 4));
+  holidays.add(observed(`${year}-12-25`));
+
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+const isHoliday = (dateKey: string): boolean =>
+  getHolidays(Number(dateKey.slice(0, 4))).has(dateKey);
+
+// July 3rd and Christmas Eve Monday–Thursday, and the day after Thanksgiving
+const isEarlyClose = (dateKey: string): boolean => {
+  const year = Number(dateKey.slice(0, 4));
+  const weekday = getWeekday(dateKey);
+  const midweek = weekday >= 1 && weekday <= 4;
+  if (dateKey === `${year}-07-03` || dateKey === `${year}-12-24`) {
+    return midweek && !isHoliday(dateKey);
+  }
+  return dateKey === addDays(nthWeekday(year, 10, 4, 4), 1);
+};
+
+/**
+ * Session times for an Eastern date, or null on weekends and holidays.
+ * @param {string} dateKey The date (YYYY-MM-DD).
+ * @return {TradingDay | null} The session, if the exchange opens.
+ */
+export const getTradingDay = (dateKey: string): TradingDay | null => {
+  const weekday = getWeekday(dateKey);
+  if (weekday === 0 || weekday === 6 || isHoliday(dateKey)) return null;
+  const earlyClose = isEarlyClose(dateKey);
+  return {
+    dateKey,
+    open: easternTimeToTimestamp(dateKey, REGULAR_OPEN),
+    close: easternTimeToTimestamp(dateKey,
+      earlyClose ? EARLY_CLOSE : REGULAR_CLOSE),
+    earlyClose,
+  };
+};
+
+/**
+ * The regular session in progress at a timestamp, or the next one to open.
+ * @param {number} timestamp The moment to look from.
+ * @return {TradingDay} The session.
+ */
+export const getCurrentOrNextSession = (
+  timestamp: number = Date.now(),
+): TradingDay => {
+  const today = getEasternDateKey(timestamp);
+  for (let i = 0; i <= MAX_DAYS_TO_NEXT_SESSION; i++) {
+    const day = getTradingDay(addDays(today, i));
+    if (day && timestamp < day.close) return day;
+  }
+  throw new Error(`No trading session found within ${
+    MAX_DAYS_TO_NEXT_SESSION} days of ${today}.`);
+};
+
+/**
+ * Whether the regular session is in progress.
+ * @param {number} timestamp The moment to check.
+ * @return {boolean} True while the market is open.
+ */
+export const isMarketOpen = (timestamp: number = Date.now()): boolean =>
+  timestamp >= getCurrentOrNextSession(timestamp).open;
+
+/**
+ * Whether an option has stopped trading: the close of its expiration date
+ * (4pm ET, 1pm on an early close, 4pm if the exchange is shut that day).
+ * @param {string} expirationDate The contract's expiration date.
+ * @param {number} now The moment to check.
+ * @return {boolean} True once the contract has expired.
+ */
+export const isOptionExpired = (
+  expirationDate: string,
+  now: number = Date.now(),
+): boolean => {
+  const dateKey = expirationDate.slice(0, 10);
+  const cutoff = getTradingDay(dateKey)?.close ??
+    easternTimeToTimestamp(dateKey, REGULAR_CLOSE);
+  return now >= cutoff;
+};
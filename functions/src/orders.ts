@@ -0,0 +1,585 @@
+// Order and protective-exit evaluation for the automation pass and the
+// portfolio actions. The web app keeps the order ticket (utils/orderBook,
+// utils/protectiveExits); keep the fill, reserve and trailing-stop math the
+// two share in step.
+
+import {getCurrentOrNextSession, isMarketOpen} from "./marketCalendar.js";
+import {
+  applyMultiLegOpen,
+  formatNetPrice,
+  getLegPrices,
+} from "./strategies.js";
+import {
+  applyOptionBuy,
+  applyOptionSell,
+  applyStockBuy,
+  applyStockSell,
+  FillPrice,
+  formatCurrency,
+  getFillPrice,
+  getNetPrice,
+  getContractMultiplier,
+  getSharesCoveringCalls,
+  getStrategyMaxLoss,
+  HoldingExits,
+  MarketQuote,
+  STANDARD_CONTRACT_MULTIPLIER,
+  StockExitLevels,
+  TradeError,
+  TradeResult,
+} from "./trading.js";
+import {
+  Holding,
+  OptionContract,
+  PendingOrder,
+  Portfolio,
+  Quote,
+  TrailingStop,
+  TrailingStopSettings,
+  Transaction,
+} from "./types.js";
+
+export type StockExitReason = "STOP_LOSS" | "TRAILING_STOP" | "TAKE_PROFIT";
+
+export interface OrderEvaluationResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  orders: PendingOrder[];
+  filled: {order: PendingOrder; transaction: Transaction; price: number}[];
+  expired: PendingOrder[];
+  rejected: {order: PendingOrder; reason: string}[];
+  cancelled: PendingOrder[];
+  changed: boolean;
+}
+
+export interface StockExitResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  triggered: {
+    holding: Holding;
+    transaction: Transaction;
+    reason: StockExitReason;
+  }[];
+  changed: boolean;
+}
+
+// --- Order book ---
+
+// A DAY order expires at the close of the session it was placed for
+const isOrderExpired = (order: PendingOrder, now: number): boolean =>
+  order.timeInForce === "DAY" &&
+  now >= getCurrentOrNextSession(order.createdAt).close;
+
+const getOrderPrice = (order: PendingOrder): number => {
+  if (order.orderType === "MARKET") return order.referencePrice ?? 0;
+  return (order.orderType === "STOP" ?
+    order.stopPrice : order.limitPrice) ?? 0;
+};
+
+const getOrderInstrument = (order: PendingOrder): string => {
+  if (order.assetType === "strategy") return `${order.ticker} ${order.name}`;
+  return order.assetType === "option" ?
+    order.optionSymbol || "" : order.ticker;
+};
+
+const isOrderMarketable = (order: PendingOrder, price: number): boolean => {
+  if (!price || price <= 0) return false;
+  if (order.orderType === "MARKET") return true;
+  const orderPrice = getOrderPrice(order);
+  if (order.orderType === "STOP") {
+    return order.side === "BUY" ? price >= orderPrice : price <= orderPrice;
+  }
+  return order.side === "BUY" ? price <= orderPrice : price >= orderPrice;
+};
+
+// Dormant bracket legs are waiting for their entry order and can't fill yet
+const isOrderActive = (order: PendingOrder): boolean => !order.parentOrderId;
+
+const getOrderMultiplier = (order: PendingOrder): number => {
+  if (order.assetType === "option") {
+    return getContractMultiplier(order.option || {});
+  }
+  return order.assetType === "strategy" ? STANDARD_CONTRACT_MULTIPLIER : 1;
+};
+
+/**
+ * Cash set aside for active buy orders at their limit (or reference) price;
+ * a strategy order reserves its maximum loss.
+ * @param {Array<object>} orders The open orders.
+ * @return {number} The reserved cash.
+ */
+export const getReservedCashForOrders = (orders: PendingOrder[]): number =>
+  orders
+    .filter((o) => o.side === "BUY" && isOrderActive(o))
+    .reduce((acc, o) => {
+      const perUnit = o.assetType === "strategy" ?
+        getStrategyMaxLoss(o.strategyLegs || [], getOrderPrice(o)) :
+        getOrderPrice(o);
+      return acc + o.shares * perUnit * getOrderMultiplier(o);
+    }, 0);
+
+/**
+ * Shares (or contracts) of an instrument already promised to active sell
+ * orders. Legs of one OCO group sell the same position, so each group only
+ * counts once.
+ * @param {Array<object>} orders The open orders.
+ * @param {string} instrument The ticker, or the option symbol.
+ * @return {number} The committed quantity.
+ */
+export const getCommittedSellQuantity = (
+  orders: PendingOrder[],
+  instrument: string,
+): number => {
+  const groupMax = new Map<string, number>();
+  let total = 0;
+  orders
+    .filter((o) => o.side === "SELL" && isOrderActive(o) &&
+      getOrderInstrument(o) === instrument)
+    .forEach((o) => {
+      if (o.groupId) {
+        groupMax.set(o.groupId, Math.max(groupMax.get(o.groupId) || 0,
+          o.shares));
+      } else {
+        total += o.shares;
+      }
+    });
+  groupMax.forEach((shares) => {
+    total += shares;
+  });
+  return total;
+};
+
+/**
+ * Short description used in notifications, e.g. "SELL 10 AAPL stop $180.00".
+ * @param {object} order The pending order.
+ * @return {string} The description.
+ */
+export const describeOrder = (order: PendingOrder): string => {
+  if (order.assetType === "strategy") {
+    return `${getOrderInstrument(order)} x${order.shares} net limit ${
+      formatNetPrice(getOrderPrice(order))}`;
+  }
+  if (order.orderType === "MARKET") {
+    return `${order.side} ${order.shares} ${getOrderInstrument(order)} ` +
+      "at the open";
+  }
+  const priceLabel = order.orderType === "STOP" ? "stop" : "limit";
+  return `${order.side} ${order.shares} ${getOrderInstrument(order)} ${
+    priceLabel} ${formatCurrency(getOrderPrice(order))}`;
+};
+
+const getOrderMarketQuote = (
+  order: PendingOrder,
+  quotes: Quote[],
+  optionContracts: OptionContract[],
+): MarketQuote | undefined => {
+  if (order.assetType === "option") {
+    const contract = optionContracts.find((c) =>
+      c.symbol === order.optionSymbol);
+    return contract && contract.close_price !== null ? {
+      price: contract.close_price || 0,
+      bid: contract.bid,
+      ask: contract.ask,
+      volume: contract.volume,
+    } : undefined;
+  }
+  const quote = quotes.find((q) => q.symbol === order.ticker);
+  return quote ? {price: quote.price, volume: quote.avgVolume} : undefined;
+};
+
+// Queued market orders always fill. Stops trigger on the last price, then
+// fill like a market order; limits fill only at or better than the limit.
+const getOrderFill = (
+  order: PendingOrder,
+  quote: MarketQuote,
+  slippage?: string,
+): FillPrice | null => {
+  const fill = getFillPrice(order.side, order.shares, quote, slippage);
+  if (order.orderType === "MARKET") return fill;
+  if (order.orderType === "STOP") {
+    return isOrderMarketable(order, quote.price) ? fill : null;
+  }
+  return isOrderMarketable(order, fill.fillPrice) ? fill : null;
+};
+
+const fillOrder = (
+  portfolio: Portfolio,
+  order: PendingOrder,
+  price: number,
+  midPrice?: number,
+): TradeResult => {
+  const extra = {
+    orderId: order.id,
+    ...(order.orderType === "STOP" ? {stopPrice: getOrderPrice(order)} : {}),
+    ...(order.orderType === "LIMIT" ?
+      {limitPrice: getOrderPrice(order)} : {}),
+    ...(midPrice !== undefined ? {midPrice} : {}),
+  };
+  if (order.assetType === "option") {
+    if (order.side === "BUY") {
+      if (!order.option) {
+        throw new Error("Order is missing its option contract details.");
+      }
+      return applyOptionBuy(portfolio, order.option, order.shares, price,
+        extra);
+    }
+    return applyOptionSell(portfolio, order.optionSymbol || "", order.shares,
+      price, extra);
+  }
+  return order.side === "BUY" ?
+    applyStockBuy(portfolio, order.ticker, order.name, order.shares, price,
+      extra) :
+    applyStockSell(portfolio, order.ticker, order.shares, price, extra,
+      order.lotSelection);
+};
+
+/**
+ * Evaluates every open order against fresh quotes, as the web app's order
+ * book does: marketable orders fill in the order they were placed, expired
+ * DAY orders and orders that can no longer fill leave the book, and bracket
+ * legs activate or cancel with their entry and OCO group. Nothing fills
+ * outside the regular session.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {Array<object>} orders The open orders.
+ * @param {Array<object>} quotes Fresh stock quotes.
+ * @param {Array<object>} optionContracts Fresh option chain data.
+ * @param {string} slippage The user's slippage setting.
+ * @param {number} now Current timestamp.
+ * @return {OrderEvaluationResult} The state after the fills.
+ */
+export const evaluatePendingOrders = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  orders: PendingOrder[],
+  quotes: Quote[],
+  optionContracts: OptionContract[] = [],
+  slippage?: string,
+  now: number = Date.now(),
+): OrderEvaluationResult => {
+  let newPortfolio = portfolio;
+  const newTransactions = [...transactions];
+  const remainingOrders: PendingOrder[] = [];
+  const filled: OrderEvaluationResult["filled"] = [];
+  const expired: PendingOrder[] = [];
+  const rejected: OrderEvaluationResult["rejected"] = [];
+  const cancelled: PendingOrder[] = [];
+  const filledEntryIds = new Set<string>();
+  const closedGroupIds = new Set<string>();
+
+  const sortedOrders = [...orders].sort((a, b) => a.createdAt - b.createdAt);
+  const marketOpen = isMarketOpen(now);
+
+  for (const order of sortedOrders) {
+    if (!isOrderActive(order)) {
+      remainingOrders.push(order);
+      continue;
+    }
+    if (isOrderExpired(order, now)) {
+      expired.push(order);
+      continue;
+    }
+    if (order.groupId && order.role !== "ENTRY" &&
+      closedGroupIds.has(order.groupId)) {
+      cancelled.push(order);
+      continue;
+    }
+    if (!marketOpen) {
+      remainingOrders.push(order);
+      continue;
+    }
+
+    // Multi-leg orders fill at their net premium; a credit is negative
+    const isStrategy = order.assetType === "strategy";
+    const quote = isStrategy ? undefined :
+      getOrderMarketQuote(order, quotes, optionContracts);
+    const fill = quote ? getOrderFill(order, quote, slippage) : null;
+    const legPrices = isStrategy ?
+      getLegPrices(order.strategyLegs || [], optionContracts) : null;
+    const netPrice = legPrices ?
+      getNetPrice(order.strategyLegs || [], legPrices) : undefined;
+    if (isStrategy ?
+      netPrice === undefined || netPrice > getOrderPrice(order) : !fill) {
+      remainingOrders.push(order);
+      continue;
+    }
+
+    try {
+      if (isStrategy) {
+        const multiLeg = applyMultiLegOpen(newPortfolio, {
+          ticker: order.ticker, name: order.name,
+          legs: order.strategyLegs || [], quantity: order.shares,
+        }, legPrices || [],
+        {orderId: order.id, limitPrice: getOrderPrice(order)});
+        newPortfolio = multiLeg.portfolio;
+        newTransactions.push(...multiLeg.transactions);
+        filled.push({
+          order, transaction: multiLeg.transactions[0],
+          price: multiLeg.netPrice,
+        });
+        continue;
+      }
+      const {fillPrice, midPrice} = fill as FillPrice;
+      const trade = fillOrder(newPortfolio, order, fillPrice, midPrice);
+      newPortfolio = trade.portfolio;
+      newTransactions.push(trade.transaction);
+      filled.push({
+        order, transaction: trade.transaction,
+        price: trade.transaction.price,
+      });
+      if (order.role === "ENTRY") {
+        filledEntryIds.add(order.id);
+      } else if (order.groupId) {
+        closedGroupIds.add(order.groupId);
+      }
+    } catch (error) {
+      rejected.push({
+        order,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const openIds = new Set(remainingOrders.map((o) => o.id));
+  const finalOrders: PendingOrder[] = [];
+  remainingOrders.forEach((order) => {
+    if (order.groupId && order.role !== "ENTRY" &&
+      closedGroupIds.has(order.groupId)) {
+      cancelled.push(order);
+    } else if (order.parentOrderId && filledEntryIds.has(order.parentOrderId)) {
+      // Entry filled: the leg is now live. Drop the field, not store undefined.
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const {parentOrderId, ...activeLeg} = order;
+      finalOrders.push(activeLeg);
+    } else if (order.parentOrderId && !openIds.has(order.parentOrderId)) {
+      cancelled.push(order);
+    } else {
+      finalOrders.push(order);
+    }
+  });
+
+  return {
+    portfolio: newPortfolio,
+    transactions: newTransactions,
+    orders: finalOrders,
+    filled,
+    expired,
+    rejected,
+    cancelled,
+    changed: filled.length > 0 || expired.length > 0 ||
+      rejected.length > 0 || cancelled.length > 0,
+  };
+};
+
+// --- Protective exits ---
+
+/**
+ * A user-facing error for invalid trailing stop settings, or null.
+ * @param {object} settings The trail type and amount.
+ * @param {number} price The price the trail starts from.
+ * @return {string | null} The error.
+ */
+export const validateTrailingStopSettings = (
+  settings: TrailingStopSettings,
+  price: number,
+): string | null => {
+  if (settings.trailType !== "PERCENT" && settings.trailType !== "AMOUNT") {
+    return "Unknown trailing stop type.";
+  }
+  if (typeof settings.trailValue !== "number" || !(settings.trailValue > 0)) {
+    return "Trailing stop amount must be greater than zero.";
+  }
+  if (settings.trailType === "PERCENT" && settings.trailValue >= 100) {
+    return "Trailing stop percent must be below 100%.";
+  }
+  if (settings.trailType === "AMOUNT" && settings.trailValue >= price) {
+    return "Trailing stop amount must be less than the current price.";
+  }
+  return null;
+};
+
+/**
+ * Starts a new trailing stop with its high-water mark at the given price.
+ * @param {object} settings The trail type and amount.
+ * @param {number} price The starting price.
+ * @return {object} The trailing stop.
+ */
+export const createTrailingStop = (
+  settings: TrailingStopSettings,
+  price: number,
+): TrailingStop => ({
+  trailType: settings.trailType,
+  trailValue: settings.trailValue,
+  highWaterMark: price,
+});
+
+/**
+ * A holding's exit levels after a change, checked against the current
+ * price: the stop-loss below it, the take-profit above it and a valid trail,
+ * which starts tracking from it. Levels the change leaves out are kept.
+ * Throws a TradeError if a level is invalid.
+ * @param {object | undefined} holding The holding, if there is one yet.
+ * @param {StockExitLevels} exits The levels to change.
+ * @param {number} price The current price.
+ * @return {HoldingExits} The levels to store.
+ */
+export const resolveStockExits = (
+  holding: Holding | undefined,
+  exits: StockExitLevels,
+  price: number,
+): HoldingExits => {
+  const stopLossPrice = exits.stopLossPrice !== undefined ?
+    exits.stopLossPrice : holding?.stopLossPrice ?? null;
+  const takeProfitPrice = exits.takeProfitPrice !== undefined ?
+    exits.takeProfitPrice : holding?.takeProfitPrice ?? null;
+  if (stopLossPrice !== null && !(typeof stopLossPrice === "number" &&
+    stopLossPrice > 0 && stopLossPrice < price)) {
+    throw new TradeError("Stop-loss must be between $0 and the current " +
+      `price (${formatCurrency(price)}).`);
+  }
+  if (takeProfitPrice !== null && !(typeof takeProfitPrice === "number" &&
+    Number.isFinite(takeProfitPrice) && takeProfitPrice > price)) {
+    throw new TradeError("Take-profit must be above the current price " +
+      `(${formatCurrency(price)}).`);
+  }
+  let trailingStop = holding?.trailingStop ?? null;
+  if (exits.trailingStop !== undefined) {
+    if (exits.trailingStop) {
+      const error = validateTrailingStopSettings(exits.trailingStop, price);
+      if (error) throw new TradeError(error);
+      trailingStop = createTrailingStop(exits.trailingStop, price);
+    } else {
+      trailingStop = null;
+    }
+  }
+  return {stopLossPrice, takeProfitPrice, trailingStop};
+};
+
+/**
+ * Moves a trailing stop's high-water mark up to a new peak. Returns the same
+ * object when the price is not a new high.
+ * @param {object} trailingStop The trailing stop.
+ * @param {number} price The latest price.
+ * @return {object} The ratcheted trailing stop.
+ */
+export const ratchetTrailingStop = (
+  trailingStop: TrailingStop,
+  price: number,
+): TrailingStop => {
+  if (!price || price <= trailingStop.highWaterMark) return trailingStop;
+  return {...trailingStop, highWaterMark: price};
+};
+
+/**
+ * The price at which a trailing stop fires: the peak minus the trail.
+ * @param {object} trailingStop The trailing stop.
+ * @return {number} The trigger price.
+ */
+export const getTrailingStopTriggerPrice = (
+  trailingStop: TrailingStop,
+): number =>
+  trailingStop.trailType === "PERCENT" ?
+    trailingStop.highWaterMark * (1 - trailingStop.trailValue / 100) :
+    trailingStop.highWaterMark - trailingStop.trailValue;
+
+/**
+ * Whether a price has fallen to a trailing stop's trigger.
+ * @param {object | null | undefined} trailingStop The trailing stop, if any.
+ * @param {number} price The latest price.
+ * @return {boolean} True if the stop fires.
+ */
+export const isTrailingStopTriggered = (
+  trailingStop: TrailingStop | null | undefined,
+  price: number,
+): boolean => {
+  if (!trailingStop || !price || price <= 0) return false;
+  return price <= getTrailingStopTriggerPrice(trailingStop);
+};
+
+// The stop-loss wins if a gap somehow satisfies both levels at once
+const getTriggeredStockExit = (
+  holding: Holding,
+  price: number,
+): StockExitReason | null => {
+  if (!price || price <= 0) return null;
+  if (holding.stopLossPrice !== null && holding.stopLossPrice !== undefined &&
+    price <= holding.stopLossPrice) {
+    return "STOP_LOSS";
+  }
+  if (isTrailingStopTriggered(holding.trailingStop, price)) {
+    return "TRAILING_STOP";
+  }
+  if (holding.takeProfitPrice !== null &&
+    holding.takeProfitPrice !== undefined &&
+    price >= holding.takeProfitPrice) {
+    return "TAKE_PROFIT";
+  }
+  return null;
+};
+
+/**
+ * Sells every stock holding whose stop-loss, trailing stop or take-profit
+ * level a fresh quote crosses. Each exit closes the whole position (except
+ * shares covering written calls) and fills like a market order. High-water
+ * marks are expected to be ratcheted before this runs.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {Array<object>} quotes Fresh stock quotes.
+ * @param {string} slippage The user's slippage setting.
+ * @return {StockExitResult} The state after the exits.
+ */
+export const evaluateStockExits = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  quotes: Quote[],
+  slippage?: string,
+): StockExitResult => {
+  let newPortfolio = portfolio;
+  const newTransactions = [...transactions];
+  const triggered: StockExitResult["triggered"] = [];
+
+  for (const holding of portfolio.holdings) {
+    const quote = quotes.find((q) => q.symbol === holding.ticker);
+    if (!quote) continue;
+    const reason = getTriggeredStockExit(holding, quote.price);
+    if (!reason) continue;
+    const sellableShares = holding.shares -
+      getSharesCoveringCalls(newPortfolio.optionHoldings, holding.ticker);
+    if (sellableShares <= 0) continue;
+
+    let extra: Partial<Transaction>;
+    if (reason === "STOP_LOSS") {
+      extra = {
+        type: "STOP_LOSS_SELL",
+        stopLossTriggerPrice: holding.stopLossPrice as number,
+      };
+    } else if (reason === "TRAILING_STOP") {
+      const trailingStop = holding.trailingStop as TrailingStop;
+      extra = {
+        type: "TRAILING_STOP_SELL",
+        trailingPeakPrice: trailingStop.highWaterMark,
+        trailingTriggerPrice: getTrailingStopTriggerPrice(trailingStop),
+      };
+    } else {
+      extra = {
+        type: "TAKE_PROFIT_SELL",
+        takeProfitTriggerPrice: holding.takeProfitPrice as number,
+      };
+    }
+
+    const {fillPrice, midPrice} = getFillPrice("SELL", sellableShares,
+      {price: quote.price, volume: quote.avgVolume}, slippage);
+    const trade = applyStockSell(newPortfolio, holding.ticker, sellableShares,
+      fillPrice, {...extra, midPrice});
+    newPortfolio = trade.portfolio;
+    newTransactions.push(trade.transaction);
+    triggered.push({holding, transaction: trade.transaction, reason});
+  }
+
+  return {
+    portfolio: newPortfolio,
+    transactions: newTransactions,
+    triggered,
+    changed: triggered.length > 0,
+  };
+};
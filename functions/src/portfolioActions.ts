@@ -0,0 +1,901 @@
+// Portfolio changes the web app asks the server to make. Cash and positions
+// are only written here and by the automation pass; the client sends what it
+// wants done and every price comes from the server's own market data.
+
+import {isMarketOpen} from "./marketCalendar.js";
+import {applyOptionDelivery} from "./expiry.js";
+import {
+  createTrailingStop,
+  getCommittedSellQuantity,
+  getReservedCashForOrders,
+  resolveStockExits,
+  validateTrailingStopSettings,
+} from "./orders.js";
+import {
+  applyMultiLegClose,
+  applyMultiLegOpen,
+  getLegPrices,
+  validateMultiLegOrder,
+} from "./strategies.js";
+import {
+  applyBuyToCover,
+  applyOptionBuy,
+  applyOptionBuyToClose,
+  applyOptionSell,
+  applyOptionSellToOpen,
+  applyShortSell,
+  createId,
+  createMarginAccount,
+  formatCurrency,
+  getBuyingPower,
+  getFillPrice,
+  getMarginSummary,
+  getStockFillPrice,
+  hasOwnKey,
+  isFeePreset,
+  isShortOption,
+  MarketQuote,
+  StockExitLevels,
+  TradeError,
+  validateFeeSchedule,
+} from "./trading.js";
+import {
+  FeeSettings,
+  LotReliefMethod,
+  LotSelection,
+  OptionContract,
+  OptionHolding,
+  OrderLegRole,
+  OrderSide,
+  OrderType,
+  PendingOrder,
+  Portfolio,
+  Quote,
+  StrategyLegSpec,
+  TrailingStopSettings,
+  Transaction,
+} from "./types.js";
+
+export type PortfolioAction =
+  | {type: "SHORT_SELL"; ticker: string; name?: string; shares: number}
+  | {type: "BUY_TO_COVER"; ticker: string; shares: number}
+  | {
+    type: "OPTION_BUY";
+    option: OptionHolding;
+    contracts: number;
+    stopLossPrice?: number | null;
+    trailingStop?: TrailingStopSettings | null;
+  }
+  | {type: "OPTION_SELL"; symbol: string; contracts: number}
+  | {type: "OPTION_SELL_TO_OPEN"; option: OptionHolding; contracts: number}
+  | {type: "OPTION_BUY_TO_CLOSE"; symbol: string; contracts: number}
+  | {type: "EXERCISE"; symbol: string; contracts: number}
+  | {
+    type: "MULTI_LEG_OPEN";
+    ticker: string;
+    name: string;
+    legs: StrategyLegSpec[];
+    quantity: number;
+  }
+  | {type: "STRATEGY_CLOSE"; positionId: string}
+  | {type: "SET_MARGIN"; enabled: boolean}
+  | {type: "SET_FEES"; fees: FeeSettings}
+  | {type: "SET_DRIP"; ticker: string; enabled: boolean}
+  | {type: "SET_LOT_RELIEF"; method: Exclude<LotReliefMethod, "SPECIFIC">}
+  | {type: "SET_STOCK_EXITS"; ticker: string; exits: StockExitLevels}
+  | {type: "SET_OPTION_STOP_LOSS"; symbol: string; stopLossPrice: number | null}
+  | {
+    type: "SET_OPTION_TRAILING_STOP";
+    symbol: string;
+    trailingStop: TrailingStopSettings | null;
+  }
+  | {type: "TRANSFER"; kind: "DEPOSIT" | "WITHDRAWAL"; amount: number}
+  | {type: "PLACE_ORDERS"; orders: PendingOrder[]}
+  | {type: "CANCEL_ORDER"; orderId: string};
+
+export const PORTFOLIO_ACTION_TYPES: PortfolioAction["type"][] = [
+  "SHORT_SELL", "BUY_TO_COVER", "OPTION_BUY", "OPTION_SELL",
+  "OPTION_SELL_TO_OPEN", "OPTION_BUY_TO_CLOSE", "EXERCISE", "MULTI_LEG_OPEN",
+  "STRATEGY_CLOSE", "SET_MARGIN", "SET_FEES", "SET_DRIP", "SET_LOT_RELIEF",
+  "SET_STOCK_EXITS", "SET_OPTION_STOP_LOSS", "SET_OPTION_TRAILING_STOP",
+  "TRANSFER", "PLACE_ORDERS", "CANCEL_ORDER",
+];
+
+export interface MarketDataRequest {
+  ticker: string | null; // Stock quote
+  chains: {ticker: string; date: string}[]; // Option chains
+}
+
+export interface ActionMarketData {
+  quote: Quote | null;
+  optionContracts: OptionContract[];
+}
+
+export interface ActionContext {
+  orders: PendingOrder[];
+  slippage?: string;
+  now: number;
+}
+
+export interface ActionResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  orders?: PendingOrder[]; // Order placement and cancellation: the new book
+}
+
+// ROOT + YYMMDD + C/P + strike × 1000 (8 digits)
+const OCC_SYMBOL = /^([A-Z0-9.]+?)(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+const TRADE_ACTIONS: PortfolioAction["type"][] = [
+  "SHORT_SELL", "BUY_TO_COVER", "OPTION_BUY", "OPTION_SELL",
+  "OPTION_SELL_TO_OPEN", "OPTION_BUY_TO_CLOSE", "MULTI_LEG_OPEN",
+  "STRATEGY_CLOSE",
+];
+
+// Fields each action needs, by type: strings must be non-empty and
+// quantities positive
+const REQUIRED_FIELDS: Partial<Record<PortfolioAction["type"], {
+  strings?: string[];
+  quantities?: string[];
+}>> = {
+  SHORT_SELL: {strings: ["ticker"], quantities: ["shares"]},
+  BUY_TO_COVER: {strings: ["ticker"], quantities: ["shares"]},
+  OPTION_BUY: {quantities: ["contracts"]},
+  OPTION_SELL: {strings: ["symbol"], quantities: ["contracts"]},
+  OPTION_SELL_TO_OPEN: {quantities: ["contracts"]},
+  OPTION_BUY_TO_CLOSE: {strings: ["symbol"], quantities: ["contracts"]},
+  EXERCISE: {strings: ["symbol"], quantities: ["contracts"]},
+  MULTI_LEG_OPEN: {strings: ["ticker", "name"], quantities: ["quantity"]},
+  STRATEGY_CLOSE: {strings: ["positionId"]},
+  SET_DRIP: {strings: ["ticker"]},
+  SET_STOCK_EXITS: {strings: ["ticker"]},
+  SET_OPTION_STOP_LOSS: {strings: ["symbol"]},
+  SET_OPTION_TRAILING_STOP: {strings: ["symbol"]},
+  CANCEL_ORDER: {strings: ["orderId"]},
+};
+
+// A bracket is an optional entry and one or two exits. Entries buy; exits
+// sell the position at a take-profit limit or a stop.
+const ORDER_ROLES: Record<OrderLegRole, {
+  side: OrderSide;
+  orderTypes: OrderType[];
+}> = {
+  ENTRY: {side: "BUY", orderTypes: ["MARKET", "LIMIT"]},
+  TAKE_PROFIT: {side: "SELL", orderTypes: ["LIMIT"]},
+  STOP_LOSS: {side: "SELL", orderTypes: ["STOP"]},
+};
+
+const LOT_SELECTION_METHODS: LotSelection["method"][] =
+  ["FIFO", "LIFO", "HIFO", "SPECIFIC"];
+
+// The fields market data is fetched from must have the right types; the
+// rest of an order is checked when it's placed
+const isOrderRequest = (order: unknown): boolean => {
+  if (!order || typeof order !== "object") return false;
+  const fields = order as Record<string, unknown>;
+  return typeof fields.ticker === "string" && fields.ticker !== "" &&
+    (fields.optionSymbol === undefined ||
+      typeof fields.optionSymbol === "string") &&
+    (fields.strategyLegs === undefined || (Array.isArray(fields.strategyLegs) &&
+      fields.strategyLegs.every((leg) => !!leg &&
+        typeof leg.symbol === "string" &&
+        typeof leg.expirationDate === "string")));
+};
+
+/**
+ * Whether a request body is a well-formed portfolio action. What it asks
+ * for is checked when it's applied.
+ * @param {unknown} action The request's action.
+ * @return {boolean} True if it can be applied.
+ */
+export const isPortfolioAction = (
+  action: unknown,
+): action is PortfolioAction => {
+  if (!action || typeof action !== "object") return false;
+  const fields = action as Record<string, unknown>;
+  const type = fields.type as PortfolioAction["type"];
+  if (!PORTFOLIO_ACTION_TYPES.includes(type)) return false;
+  const required = REQUIRED_FIELDS[type] || {};
+  if ((type === "OPTION_BUY" || type === "OPTION_SELL_TO_OPEN") &&
+    typeof (fields.option as OptionHolding | undefined)?.symbol !== "string") {
+    return false;
+  }
+  if (type === "MULTI_LEG_OPEN" && !Array.isArray(fields.legs)) return false;
+  if (type === "PLACE_ORDERS" && !(Array.isArray(fields.orders) &&
+    fields.orders.every(isOrderRequest))) {
+    return false;
+  }
+  return (required.strings || []).every((key) =>
+    typeof fields[key] === "string" && fields[key] !== "") &&
+    (required.quantities || []).every((key) =>
+      Number.isFinite(fields[key]) && (fields[key] as number) > 0);
+};
+
+const findOption = (portfolio: Portfolio, symbol: string): OptionHolding => {
+  const option = portfolio.optionHoldings.find((o) => o.symbol === symbol);
+  if (!option) throw new TradeError("Option contract not found in portfolio.");
+  return option;
+};
+
+// A new contract's terms come from its symbol, not from the request, and it
+// must be listed in the underlying's chain for that expiration
+const getListedContract = <T extends {symbol: string}>(
+  contract: T,
+  optionContracts: OptionContract[],
+): T & Pick<OptionHolding, "optionType" | "strikePrice" | "expirationDate"> => {
+  const match = typeof contract.symbol === "string" &&
+    contract.symbol.match(OCC_SYMBOL);
+  if (!match || !optionContracts.some((c) => c.symbol === contract.symbol)) {
+    throw new TradeError(`${contract.symbol} isn't a listed contract.`);
+  }
+  return {
+    ...contract,
+    optionType: match[5] === "C" ? "call" : "put",
+    strikePrice: Number(match[6]) / 1000,
+    expirationDate: `20${match[2]}-${match[3]}-${match[4]}`,
+  };
+};
+
+// A contract to hold, built from the listing alone
+const getListedOption = (
+  symbol: string,
+  underlyingTicker: string,
+  optionContracts: OptionContract[],
+): OptionHolding => {
+  const listed = getListedContract({symbol}, optionContracts);
+  const contract = optionContracts.find((c) => c.symbol === symbol) as
+    OptionContract;
+  return {
+    symbol,
+    underlyingTicker,
+    shares: 0,
+    purchasePrice: 0,
+    currentPrice: contract.close_price ?? 0,
+    change: contract.change,
+    changesPercentage: contract.changesPercentage,
+    optionType: listed.optionType,
+    strikePrice: listed.strikePrice,
+    expirationDate: listed.expirationDate,
+    volume: contract.volume,
+    open_interest: contract.open_interest,
+    delta: null,
+    gamma: null,
+    theta: null,
+    vega: null,
+    impliedVolatility: contract.impliedVolatility,
+    bid: contract.bid,
+    ask: contract.ask,
+  };
+};
+
+// Strategy legs are rebuilt the same way; only each leg's contract and side
+// come from the request
+const getListedLegs = (
+  legs: StrategyLegSpec[],
+  optionContracts: OptionContract[],
+): StrategyLegSpec[] => legs.map((leg) => {
+  if (leg.side !== "long" && leg.side !== "short") {
+    throw new TradeError("Each leg must be bought or sold.");
+  }
+  const listed = getListedContract(leg, optionContracts);
+  return {
+    symbol: listed.symbol, optionType: listed.optionType,
+    strikePrice: listed.strikePrice,
+    expirationDate: listed.expirationDate, side: leg.side,
+  };
+});
+
+// A stop-loss protects long premium, so it sits between $0 and the price
+const checkOptionStopLoss = (stopLossPrice: number | null, price: number) => {
+  if (stopLossPrice !== null && !(typeof stopLossPrice === "number" &&
+    stopLossPrice > 0 && stopLossPrice < price)) {
+    throw new TradeError("Stop-loss must be between $0 and the current " +
+      `premium (${formatCurrency(price)}).`);
+  }
+};
+
+const getOptionQuote = (
+  symbol: string,
+  optionContracts: OptionContract[],
+): MarketQuote => {
+  const contract = optionContracts.find((c) => c.symbol === symbol);
+  if (!contract || contract.close_price === null) {
+    throw new TradeError(`Could not get a price for ${symbol}.`);
+  }
+  return {
+    price: contract.close_price,
+    bid: contract.bid,
+    ask: contract.ask,
+    volume: contract.volume,
+  };
+};
+
+const getStockQuote = (ticker: string, market: ActionMarketData): Quote => {
+  if (!market.quote || market.quote.symbol !== ticker ||
+    !(market.quote.price > 0)) {
+    throw new TradeError(`Could not get a price for ${ticker}.`);
+  }
+  return market.quote;
+};
+
+const getLegChains = (ticker: string, legs: {expirationDate: string}[]) =>
+  [...new Set(legs.map((leg) => leg.expirationDate))]
+    .map((date) => ({ticker, date}));
+
+// The chain a contract is listed in, from the expiration in its symbol
+const getContractChains = (ticker: string, symbol: string) => {
+  const match = symbol.match(OCC_SYMBOL);
+  return match ? [{ticker, date: `20${match[2]}-${match[3]}-${match[4]}`}] : [];
+};
+
+/**
+ * The quote and option chains an action is priced from.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {PortfolioAction} action The requested change.
+ * @return {MarketDataRequest} What to fetch.
+ */
+export const getActionMarketRequest = (
+  portfolio: Portfolio,
+  action: PortfolioAction,
+): MarketDataRequest => {
+  switch (action.type) {
+  case "SHORT_SELL":
+  case "BUY_TO_COVER":
+  case "SET_STOCK_EXITS":
+    return {ticker: action.ticker, chains: []};
+  case "OPTION_BUY":
+  case "OPTION_SELL_TO_OPEN":
+    return {
+      ticker: null,
+      chains: getContractChains(action.option.underlyingTicker,
+        action.option.symbol),
+    };
+  case "OPTION_SELL":
+  case "OPTION_BUY_TO_CLOSE":
+  case "SET_OPTION_STOP_LOSS":
+  case "SET_OPTION_TRAILING_STOP": {
+    const option = portfolio.optionHoldings
+      .find((o) => o.symbol === action.symbol);
+    return {
+      ticker: null,
+      chains: option ? [{
+        ticker: option.underlyingTicker, date: option.expirationDate,
+      }] : [],
+    };
+  }
+  case "MULTI_LEG_OPEN":
+    return {ticker: null, chains: getLegChains(action.ticker, action.legs)};
+  case "STRATEGY_CLOSE": {
+    const position = (portfolio.strategyPositions || [])
+      .find((p) => p.id === action.positionId);
+    return {
+      ticker: null,
+      chains: position ?
+        getLegChains(position.underlyingTicker, position.legs) : [],
+    };
+  }
+  case "PLACE_ORDERS": {
+    // Every order in one request trades the same instrument
+    const [order] = action.orders;
+    if (order?.assetType === "strategy") {
+      return {
+        ticker: null,
+        chains: getLegChains(order.ticker, order.strategyLegs || []),
+      };
+    }
+    if (order?.assetType === "option") {
+      return {
+        ticker: null,
+        chains: getContractChains(order.ticker, order.optionSymbol || ""),
+      };
+    }
+    return {ticker: order?.ticker || null, chains: []};
+  }
+  default:
+    return {ticker: null, chains: []};
+  }
+};
+
+// Trades pay out or take cash; settings only change what's stored
+const applyTrade = (
+  portfolio: Portfolio,
+  action: PortfolioAction,
+  market: ActionMarketData,
+  {slippage}: ActionContext,
+): ActionResult => {
+  switch (action.type) {
+  case "SHORT_SELL": {
+    const quote = getStockQuote(action.ticker, market);
+    const price = getStockFillPrice("SELL", action.shares, quote, slippage);
+    const trade = applyShortSell(portfolio, action.ticker,
+      action.name || quote.name || action.ticker, action.shares, price,
+      {midPrice: quote.price});
+    return {portfolio: trade.portfolio, transactions: [trade.transaction]};
+  }
+  case "BUY_TO_COVER": {
+    const quote = getStockQuote(action.ticker, market);
+    const price = getStockFillPrice("BUY", action.shares, quote, slippage);
+    const trade = applyBuyToCover(portfolio, action.ticker, action.shares,
+      price, {midPrice: quote.price});
+    return {portfolio: trade.portfolio, transactions: [trade.transaction]};
+  }
+  case "OPTION_BUY": {
+    // Adjusted contracts are only ever held, never bought new
+    const option = getListedOption(action.option.symbol,
+      action.option.underlyingTicker, market.optionContracts);
+    const {fillPrice, midPrice} = getFillPrice("BUY", action.contracts,
+      getOptionQuote(option.symbol, market.optionContracts), slippage);
+    // Stops are checked against the fill, where a new trail starts
+    if (action.stopLossPrice !== undefined) {
+      checkOptionStopLoss(action.stopLossPrice, fillPrice);
+    }
+    if (action.trailingStop) {
+      const error = validateTrailingStopSettings(action.trailingStop,
+        fillPrice);
+      if (error) throw new TradeError(error);
+    }
+    const trade = applyOptionBuy(portfolio, option, action.contracts,
+      fillPrice, {midPrice});
+    // When averaging into a position, newly entered stops replace the
+    // existing ones; the others are kept
+    const optionHoldings = trade.portfolio.optionHoldings.map((o) =>
+      o.symbol === option.symbol ? {
+        ...o,
+        ...(action.stopLossPrice !== undefined ?
+          {stopLossPrice: action.stopLossPrice} : {}),
+        ...(action.trailingStop !== undefined ? {
+          trailingStop: action.trailingStop ?
+            createTrailingStop(action.trailingStop, fillPrice) : null,
+        } : {}),
+      } : o);
+    return {
+      portfolio: {...trade.portfolio, optionHoldings},
+      transactions: [trade.transaction],
+    };
+  }
+  case "OPTION_SELL": {
+    const {fillPrice, midPrice} = getFillPrice("SELL", action.contracts,
+      getOptionQuote(action.symbol, market.optionContracts), slippage);
+    const trade = applyOptionSell(portfolio, action.symbol, action.contracts,
+      fillPrice, {midPrice});
+    return {portfolio: trade.portfolio, transactions: [trade.transaction]};
+  }
+  case "OPTION_SELL_TO_OPEN": {
+    const option = getListedOption(action.option.symbol,
+      action.option.underlyingTicker, market.optionContracts);
+    const {fillPrice, midPrice} = getFillPrice("SELL", action.contracts,
+      getOptionQuote(option.symbol, market.optionContracts), slippage);
+    const trade = applyOptionSellToOpen(portfolio, option, action.contracts,
+      fillPrice, {midPrice});
+    return {portfolio: trade.portfolio, transactions: [trade.transaction]};
+  }
+  case "OPTION_BUY_TO_CLOSE": {
+    const {fillPrice, midPrice} = getFillPrice("BUY", action.contracts,
+      getOptionQuote(action.symbol, market.optionContracts), slippage);
+    const trade = applyOptionBuyToClose(portfolio, action.symbol,
+      action.contracts, fillPrice, {midPrice});
+    return {portfolio: trade.portfolio, transactions: [trade.transaction]};
+  }
+  case "MULTI_LEG_OPEN": {
+    const legs = getListedLegs(action.legs, market.optionContracts);
+    const prices = getLegPrices(legs, market.optionContracts);
+    if (!prices) {
+      throw new TradeError("Could not get a current quote for every leg " +
+        "of this strategy. Please try again.");
+    }
+    const trade = applyMultiLegOpen(portfolio, {
+      ticker: action.ticker, name: action.name, legs,
+      quantity: action.quantity,
+    }, prices);
+    return {portfolio: trade.portfolio, transactions: trade.transactions};
+  }
+  case "STRATEGY_CLOSE": {
+    const position = (portfolio.strategyPositions || [])
+      .find((p) => p.id === action.positionId);
+    if (!position) {
+      throw new TradeError("Strategy position not found in portfolio.");
+    }
+    const prices = getLegPrices(position.legs, market.optionContracts);
+    if (!prices) {
+      throw new TradeError("Could not get a current quote for every leg " +
+        "of this strategy. Please try again.");
+    }
+    const trade = applyMultiLegClose(portfolio, action.positionId, prices);
+    return {portfolio: trade.portfolio, transactions: trade.transactions};
+  }
+  default:
+    throw new TradeError("Unknown trade.");
+  }
+};
+
+const applyCashTransfer = (
+  portfolio: Portfolio,
+  kind: "DEPOSIT" | "WITHDRAWAL",
+  amount: number,
+  {orders, now}: ActionContext,
+): ActionResult => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new TradeError("Please enter an amount greater than zero.");
+  }
+  if (kind === "WITHDRAWAL") {
+    // Cash set aside for open buy orders can't be withdrawn
+    const reserved = getReservedCashForOrders(orders);
+    if (reserved > 0 && amount > portfolio.cash - reserved) {
+      throw new TradeError(`${formatCurrency(reserved)} is reserved for ` +
+        "open buy orders. Cancel them to withdraw more.");
+    }
+    // Never more than the cash balance, and on a margin account never so
+    // much that the positions would exceed the initial requirement
+    const withdrawable = Math.max(0,
+      Math.min(portfolio.cash, getBuyingPower(portfolio, false)));
+    if (amount > withdrawable + 1e-9) {
+      throw new TradeError(
+        "You can't withdraw more than your available cash.");
+    }
+  }
+
+  const transaction: Transaction = {
+    id: createId(),
+    type: kind,
+    ticker: "",
+    shares: 0,
+    price: 0,
+    totalAmount: amount,
+    timestamp: now,
+    // Recorded for time-weighted returns, at the last stored prices
+    valueBefore: getMarginSummary(portfolio).equity,
+  };
+  return {
+    portfolio: {
+      ...portfolio,
+      cash: portfolio.cash + (kind === "DEPOSIT" ? amount : -amount),
+    },
+    transactions: [transaction],
+  };
+};
+
+// Orders are rebuilt field by field from the request: a contract's terms come
+// from its symbol and the listed chain, ids and times from here, and a market
+// order is reserved at the server's last price
+const placeOrders = (
+  portfolio: Portfolio,
+  requested: PendingOrder[],
+  market: ActionMarketData,
+  {orders, now}: ActionContext,
+): PendingOrder[] => {
+  const [first] = requested;
+  const assetType = first?.assetType || "stock";
+  const isBracket = requested.some((o) => o.role !== undefined);
+  const roles = requested.map((o) => o.role);
+  if (!first || !["stock", "option", "strategy"].includes(assetType) ||
+    requested.some((o) => o.ticker !== first.ticker ||
+      (o.assetType || "stock") !== assetType ||
+      o.optionSymbol !== first.optionSymbol ||
+      o.shares !== first.shares) ||
+    (isBracket ? assetType === "strategy" ||
+      roles.some((role) => !hasOwnKey(ORDER_ROLES, role)) ||
+      new Set(roles).size !== roles.length ||
+      roles.every((role) => role === "ENTRY") : requested.length > 1)) {
+    throw new TradeError("Invalid order.");
+  }
+  const {ticker} = first;
+  const name = typeof first.name === "string" && first.name ?
+    first.name : ticker;
+  const shares = Number(first.shares);
+  if (assetType === "stock" ? !(Number.isFinite(shares) && shares > 0) :
+    !(Number.isInteger(shares) && shares > 0)) {
+    throw new TradeError(assetType === "stock" ?
+      "Please enter a number of shares greater than zero." :
+      "Please enter a whole number of contracts.");
+  }
+
+  const instrument = assetType === "option" ?
+    first.optionSymbol || "" : ticker;
+  const getMarketPrice = () => assetType === "option" ?
+    getOptionQuote(instrument, market.optionContracts).price :
+    getStockQuote(ticker, market).price;
+  const option = assetType === "option" &&
+    requested.some((o) => o.side === "BUY") ?
+    getListedOption(instrument, ticker, market.optionContracts) : undefined;
+  let strategyLegs: StrategyLegSpec[] | undefined;
+  if (assetType === "strategy") {
+    strategyLegs = getListedLegs(first.strategyLegs || [],
+      market.optionContracts);
+    const prices = getLegPrices(strategyLegs, market.optionContracts);
+    if (!prices) {
+      throw new TradeError("Could not get a current quote for every leg " +
+        "of this strategy. Please try again.");
+    }
+    validateMultiLegOrder({ticker, name, legs: strategyLegs,
+      quantity: shares}, prices);
+  }
+
+  const groupId = isBracket ? createId() : undefined;
+  const entry = requested.find((o) => o.role === "ENTRY");
+  const entryId = entry ? createId() : undefined;
+  const placed = requested.map((o): PendingOrder => {
+    const allowed = o.role ? ORDER_ROLES[o.role] : {
+      side: o.side,
+      orderTypes: assetType === "strategy" ?
+        ["LIMIT"] : ["MARKET", "LIMIT"],
+    };
+    if (!["BUY", "SELL"].includes(o.side) || o.side !== allowed.side ||
+      (assetType === "strategy" && o.side !== "BUY") ||
+      !allowed.orderTypes.includes(o.orderType) ||
+      !["DAY", "GTC"].includes(o.timeInForce)) {
+      throw new TradeError("Invalid order.");
+    }
+    // A net limit below zero asks for a credit
+    const limitPrice = Number(o.limitPrice);
+    const stopPrice = Number(o.stopPrice);
+    if (o.orderType === "LIMIT" && !(Number.isFinite(limitPrice) &&
+      (assetType === "strategy" || limitPrice > 0))) {
+      throw new TradeError("Please enter a valid limit price.");
+    }
+    if (o.orderType === "STOP" && !(Number.isFinite(stopPrice) &&
+      stopPrice > 0)) {
+      throw new TradeError("Please enter a valid stop price.");
+    }
+    const lotSelection = assetType === "stock" && o.side === "SELL" &&
+      !isBracket && o.lotSelection &&
+      LOT_SELECTION_METHODS.includes(o.lotSelection.method) ? {
+        method: o.lotSelection.method,
+        ...(Array.isArray(o.lotSelection.lots) ? {
+          lots: o.lotSelection.lots.map((lot) => ({
+            lotId: String(lot?.lotId), shares: Number(lot?.shares),
+          })),
+        } : {}),
+      } : undefined;
+    return {
+      id: o.role === "ENTRY" && entryId ? entryId : createId(),
+      ticker,
+      name,
+      side: o.side,
+      orderType: o.orderType,
+      shares,
+      ...(o.orderType === "LIMIT" ? {limitPrice} : {}),
+      ...(o.orderType === "STOP" ? {stopPrice} : {}),
+      ...(o.orderType === "MARKET" ? {referencePrice: getMarketPrice()} : {}),
+      timeInForce: o.timeInForce,
+      createdAt: now,
+      assetType,
+      ...(assetType === "option" ? {optionSymbol: instrument} : {}),
+      ...(option && o.side === "BUY" ? {option} : {}),
+      ...(strategyLegs ? {strategyLegs} : {}),
+      ...(groupId && o.role ? {groupId, role: o.role} : {}),
+      ...(entryId && o.role !== "ENTRY" ? {parentOrderId: entryId} : {}),
+      ...(lotSelection ? {lotSelection} : {}),
+    };
+  });
+
+  // Exit levels are checked against where the position will be opened
+  if (isBracket) {
+    const placedEntry = placed.find((o) => o.role === "ENTRY");
+    const referencePrice = placedEntry?.orderType === "LIMIT" ?
+      placedEntry.limitPrice as number : getMarketPrice();
+    placed.forEach((o) => {
+      if (o.role === "TAKE_PROFIT" &&
+        (o.limitPrice as number) <= referencePrice) {
+        throw new TradeError(
+          `Take-profit must be above ${formatCurrency(referencePrice)}.`);
+      }
+      if (o.role === "STOP_LOSS" &&
+        (o.stopPrice as number) >= referencePrice) {
+        throw new TradeError(
+          `Stop must be between $0 and ${formatCurrency(referencePrice)}.`);
+      }
+    });
+  }
+
+  const required = getReservedCashForOrders(placed);
+  if (required > 0 && getBuyingPower(portfolio, assetType === "stock") -
+    getReservedCashForOrders(orders) < required) {
+    throw new TradeError(
+      "Not enough cash to cover this order and your other open buy orders.");
+  }
+  const selling = getCommittedSellQuantity(placed, instrument);
+  if (selling > 0) {
+    const owned = assetType === "option" ?
+      portfolio.optionHoldings.find((o) => o.symbol === instrument &&
+        !isShortOption(o))?.shares || 0 :
+      portfolio.holdings.find((h) => h.ticker === instrument)?.shares || 0;
+    if (owned - getCommittedSellQuantity(orders, instrument) < selling) {
+      throw new TradeError("You don't own enough uncommitted " +
+        "shares/contracts for this order.");
+    }
+  }
+  return [...orders, ...placed];
+};
+
+// Cancelling a bracket entry also drops its dormant exit legs
+const cancelOrder = (orders: PendingOrder[], orderId: string) => {
+  if (!orders.some((o) => o.id === orderId)) {
+    throw new TradeError(
+      "Order not found. It may already have been filled or expired.");
+  }
+  return orders.filter((o) => o.id !== orderId && o.parentOrderId !== orderId);
+};
+
+const applySetting = (
+  portfolio: Portfolio,
+  action: PortfolioAction,
+  market: ActionMarketData,
+): Portfolio => {
+  switch (action.type) {
+  case "SET_MARGIN": {
+    if (action.enabled) {
+      return {
+        ...portfolio,
+        margin: portfolio.margin ?
+          {...portfolio.margin, enabled: true} : createMarginAccount(),
+      };
+    }
+    if (!portfolio.margin) return portfolio;
+    if (portfolio.cash < 0) {
+      throw new TradeError("Pay off your margin debit balance (bring cash " +
+        "above $0) before switching to a cash account.");
+    }
+    return {
+      ...portfolio,
+      margin: {...portfolio.margin, enabled: false, marginCall: null},
+    };
+  }
+  case "SET_FEES": {
+    const {preset, custom} = action.fees;
+    if (!isFeePreset(preset)) throw new TradeError("Unknown fee setting.");
+    if (preset === "custom") {
+      const error = custom ? validateFeeSchedule(custom) :
+        "Please enter a custom fee schedule.";
+      if (error) throw new TradeError(error);
+    }
+    // Drop the custom schedule when a preset is chosen rather than storing
+    // undefined
+    return {
+      ...portfolio,
+      fees: preset === "custom" && custom ? {
+        preset,
+        custom: {
+          perShare: custom.perShare,
+          perContract: custom.perContract,
+          minimumPerTrade: custom.minimumPerTrade,
+          maxPercentOfValue: custom.maxPercentOfValue,
+          regulatoryFees: custom.regulatoryFees === true,
+        },
+      } : {preset},
+    };
+  }
+  case "SET_DRIP":
+    if (!portfolio.holdings.some((h) => h.ticker === action.ticker)) {
+      throw new TradeError("You don't own any shares of this stock.");
+    }
+    return {
+      ...portfolio,
+      holdings: portfolio.holdings.map((h) => h.ticker === action.ticker ?
+        {...h, drip: action.enabled} : h),
+    };
+  case "SET_LOT_RELIEF":
+    if (!["FIFO", "LIFO", "HIFO"].includes(action.method)) {
+      throw new TradeError("Unknown lot relief method.");
+    }
+    return {...portfolio, lotReliefMethod: action.method};
+  case "SET_STOCK_EXITS": {
+    const holding = portfolio.holdings.find((h) => h.ticker === action.ticker);
+    if (!holding) {
+      throw new TradeError("You don't own any shares of this stock.");
+    }
+    const exits = resolveStockExits(holding, action.exits,
+      getStockQuote(action.ticker, market).price);
+    return {
+      ...portfolio,
+      holdings: portfolio.holdings.map((h) => h === holding ?
+        {...h, ...exits} : h),
+    };
+  }
+  case "SET_OPTION_STOP_LOSS": {
+    const option = findOption(portfolio, action.symbol);
+    if (action.stopLossPrice !== null) {
+      if (isShortOption(option)) {
+        throw new TradeError(
+          "Stop-losses are only available on contracts you own.");
+      }
+      checkOptionStopLoss(action.stopLossPrice,
+        getOptionQuote(option.symbol, market.optionContracts).price);
+    }
+    return {
+      ...portfolio,
+      optionHoldings: portfolio.optionHoldings.map((o) => o === option ?
+        {...o, stopLossPrice: action.stopLossPrice} : o),
+    };
+  }
+  case "SET_OPTION_TRAILING_STOP": {
+    const option = findOption(portfolio, action.symbol);
+    let trailingStop = null;
+    if (action.trailingStop) {
+      if (isShortOption(option)) {
+        throw new TradeError(
+          "Trailing stops are only available on contracts you own.");
+      }
+      const price = getOptionQuote(option.symbol, market.optionContracts)
+        .price;
+      const error = validateTrailingStopSettings(action.trailingStop, price);
+      if (error) throw new TradeError(error);
+      trailingStop = createTrailingStop(action.trailingStop, price);
+    }
+    return {
+      ...portfolio,
+      optionHoldings: portfolio.optionHoldings.map((o) => o === option ?
+        {...o, trailingStop} : o),
+    };
+  }
+  default:
+    throw new TradeError("Unknown portfolio change.");
+  }
+};
+
+/**
+ * Applies a requested change to the stored portfolio. Trades fill at the
+ * server's market data and only in the regular session. Throws a TradeError
+ * with a user-facing message if the change can't be made.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {PortfolioAction} action The requested change.
+ * @param {ActionMarketData} market Data fetched for getActionMarketRequest.
+ * @param {ActionContext} context Open orders, slippage and the time.
+ * @return {ActionResult} The new portfolio and the transactions to log, or
+ * the new order book.
+ */
+export const applyPortfolioAction = (
+  portfolio: Portfolio,
+  action: PortfolioAction,
+  market: ActionMarketData,
+  context: ActionContext,
+): ActionResult => {
+  const stored = {
+    ...portfolio,
+    shortHoldings: portfolio.shortHoldings || [],
+    strategyPositions: portfolio.strategyPositions || [],
+  };
+  if (TRADE_ACTIONS.includes(action.type)) {
+    if (!isMarketOpen(context.now)) {
+      throw new TradeError("The market is closed.");
+    }
+    return applyTrade(stored, action, market, context);
+  }
+  if (action.type === "EXERCISE") {
+    const option = findOption(stored, action.symbol);
+    if (isShortOption(option)) {
+      throw new TradeError("Written contracts can't be exercised by you; " +
+        "they may be assigned at expiration.");
+    }
+    if (!Number.isInteger(action.contracts) || action.contracts <= 0 ||
+      action.contracts > option.shares) {
+      throw new TradeError("Please enter a whole number of contracts, up " +
+        `to ${option.shares}.`);
+    }
+    const delivery = applyOptionDelivery(stored, action.symbol,
+      action.contracts);
+    return {portfolio: delivery.portfolio, transactions: delivery.transactions};
+  }
+  if (action.type === "TRANSFER") {
+    return applyCashTransfer(stored, action.kind, Number(action.amount),
+      context);
+  }
+  // Open orders don't move cash or positions until they fill
+  if (action.type === "PLACE_ORDERS") {
+    return {
+      portfolio: stored,
+      transactions: [],
+      orders: placeOrders(stored, action.orders, market, context),
+    };
+  }
+  if (action.type === "CANCEL_ORDER") {
+    return {
+      portfolio: stored,
+      transactions: [],
+      orders: cancelOrder(context.orders, action.orderId),
+    };
+  }
+  return {
+    portfolio: applySetting(stored, action, market),
+    transactions: [],
+  };
+};
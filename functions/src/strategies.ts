@@ -0,0 +1,366 @@
+// Multi-leg strategy trades: opening, closing and settling at expiration.
+// The web app checks and prices the order ticket with utils/multiLegOrders;
+// keep the validation the two share in step.
+
+import {deliverUnderlying} from "./expiry.js";
+import {isOptionExpired} from "./marketCalendar.js";
+import {
+  chargeTradeFees,
+  createId,
+  formatCurrency,
+  getBuyingPower,
+  getContractMultiplier,
+  getLegSign,
+  getNetPrice,
+  getStrategyMaxLoss,
+  hasUndefinedRisk,
+  STANDARD_CONTRACT_MULTIPLIER,
+  TradeError,
+  TradeSide,
+} from "./trading.js";
+import {
+  OptionContract,
+  OptionSettlementMode,
+  Portfolio,
+  Quote,
+  StrategyLeg,
+  StrategyLegSpec,
+  StrategyPosition,
+  Transaction,
+} from "./types.js";
+
+export interface MultiLegOrder {
+  ticker: string;
+  name: string;
+  legs: StrategyLegSpec[];
+  quantity: number; // Contracts per leg
+}
+
+export interface MultiLegTradeResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  position: StrategyPosition;
+  netPrice: number;
+}
+
+export interface StrategySettlementResult {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  settled: {position: StrategyPosition; realizedPnl: number}[];
+  changed: boolean;
+}
+
+// Charges fees on every leg, each priced as its own option trade
+const chargeLegFees = (
+  result: MultiLegTradeResult,
+  sides: TradeSide[],
+  multiplier = STANDARD_CONTRACT_MULTIPLIER,
+): MultiLegTradeResult => {
+  let portfolio = result.portfolio;
+  const transactions = result.transactions.map((transaction, i) => {
+    const charged = chargeTradeFees({portfolio, transaction}, {
+      assetType: "option", side: sides[i],
+      quantity: transaction.shares, price: transaction.price, multiplier,
+    });
+    portfolio = charged.portfolio;
+    return charged.transaction;
+  });
+  return {...result, portfolio, transactions};
+};
+
+/**
+ * Formats a signed net price as "$1.20 debit" / "$0.85 credit".
+ * @param {number} netPrice Net premium per share.
+ * @return {string} The formatted price.
+ */
+export const formatNetPrice = (netPrice: number): string =>
+  `${formatCurrency(Math.abs(netPrice))} ${netPrice >= 0 ? "debit" : "credit"}`;
+
+/**
+ * Latest premium for every leg, or null if any leg has no usable quote: a
+ * multi-leg order is never priced (or filled) with a leg missing.
+ * @param {Array<object>} legs The strategy legs.
+ * @param {Array<object>} optionContracts Fresh option chain data.
+ * @return {Array<number> | null} The leg prices.
+ */
+export const getLegPrices = (
+  legs: StrategyLegSpec[],
+  optionContracts: OptionContract[],
+): number[] | null => {
+  const prices = legs.map((leg) =>
+    optionContracts.find((c) => c.symbol === leg.symbol)?.close_price);
+  if (prices.some((price) =>
+    price === null || price === undefined || price < 0)) {
+    return null;
+  }
+  return prices as number[];
+};
+
+/**
+ * Checks a multi-leg order can be opened at these leg prices: two or more
+ * different contracts, a whole quantity and defined risk. Throws a
+ * TradeError if it can't.
+ * @param {object} order The legs, underlying ticker, name and quantity.
+ * @param {Array<number>} prices Premium per share for each leg.
+ */
+export const validateMultiLegOrder = (
+  order: MultiLegOrder,
+  prices: number[],
+) => {
+  if (order.legs.length < 2) {
+    throw new TradeError("A multi-leg order needs at least two legs.");
+  }
+  if (!Number.isInteger(order.quantity) || order.quantity <= 0) {
+    throw new TradeError("Please enter a whole number of contracts.");
+  }
+  if (new Set(order.legs.map((leg) => leg.symbol)).size !==
+    order.legs.length) {
+    throw new TradeError(
+      "Each leg of a multi-leg order must be a different contract.");
+  }
+  if (prices.length !== order.legs.length ||
+    prices.some((price) => !(price >= 0))) {
+    throw new TradeError("Could not price every leg of this order.");
+  }
+  if (hasUndefinedRisk(order.legs)) {
+    throw new TradeError("This strategy sells more calls than it buys. " +
+      "Only defined-risk strategies are supported.");
+  }
+};
+
+/**
+ * Opens a multi-leg strategy: every leg fills at its own price and the legs
+ * are grouped into one strategy position. Throws a TradeError if the order
+ * can't be filled; nothing is filled in that case.
+ * @param {object} portfolio The portfolio document.
+ * @param {object} order The legs, underlying ticker, name and quantity.
+ * @param {Array<number>} prices Fill premium per share for each leg.
+ * @param {object} extra Fields merged into every leg's transaction.
+ * @return {MultiLegTradeResult} The new portfolio and leg transactions.
+ */
+export const applyMultiLegOpen = (
+  portfolio: Portfolio,
+  order: MultiLegOrder,
+  prices: number[],
+  extra: Partial<Transaction> = {},
+): MultiLegTradeResult => {
+  validateMultiLegOrder(order, prices);
+
+  const netPrice = getNetPrice(order.legs, prices);
+  // The worst case at expiration must be covered up front
+  const maxLoss = getStrategyMaxLoss(order.legs, netPrice) *
+    order.quantity * 100;
+  if (getBuyingPower(portfolio, false) < maxLoss) {
+    throw new TradeError(portfolio.margin?.enabled ?
+      "Not enough excess equity to cover this strategy's maximum loss." :
+      "Not enough cash to cover this strategy's maximum loss.");
+  }
+
+  const timestamp = Date.now();
+  const position: StrategyPosition = {
+    id: createId(),
+    name: order.name,
+    underlyingTicker: order.ticker,
+    quantity: order.quantity,
+    netEntryPrice: netPrice,
+    legs: order.legs.map((leg, i) => ({
+      ...leg, entryPrice: prices[i], currentPrice: prices[i], change: 0,
+    })),
+    openedAt: timestamp,
+  };
+  const transactions = order.legs.map((leg, i): Transaction => ({
+    id: createId(), type: "STRATEGY_LEG_OPEN", ticker: order.ticker,
+    shares: order.quantity, price: prices[i],
+    totalAmount: prices[i] * order.quantity * 100, timestamp,
+    optionSymbol: leg.symbol, optionType: leg.optionType,
+    strikePrice: leg.strikePrice, strategyId: position.id,
+    strategyName: order.name, legSide: leg.side, netPrice, ...extra,
+  }));
+
+  return chargeLegFees({
+    portfolio: {
+      ...portfolio,
+      cash: portfolio.cash - netPrice * order.quantity * 100,
+      strategyPositions: [...(portfolio.strategyPositions || []), position],
+    },
+    transactions,
+    position,
+    netPrice,
+  }, order.legs.map((leg) => leg.side === "long" ? "BUY" : "SELL"));
+};
+
+/**
+ * Closes every leg of a strategy position at once. Closing only reduces
+ * risk, so it is allowed even when it costs more cash than is free.
+ * @param {object} portfolio The portfolio document.
+ * @param {string} positionId The strategy position to close.
+ * @param {Array<number>} prices Fill premium per share for each leg.
+ * @param {object} extra Fields merged into every leg's transaction.
+ * @return {MultiLegTradeResult} The new portfolio and leg transactions.
+ */
+export const applyMultiLegClose = (
+  portfolio: Portfolio,
+  positionId: string,
+  prices: number[],
+  extra: Partial<Transaction> = {},
+): MultiLegTradeResult => {
+  const position = (portfolio.strategyPositions || [])
+    .find((p) => p.id === positionId);
+  if (!position) {
+    throw new TradeError("That strategy position is no longer open.");
+  }
+  if (prices.length !== position.legs.length ||
+    prices.some((price) => !(price >= 0))) {
+    throw new TradeError("Could not price every leg of this strategy.");
+  }
+
+  const netPrice = getNetPrice(position.legs, prices);
+  const multiplier = getContractMultiplier(position);
+  const timestamp = Date.now();
+  const transactions = position.legs.map((leg, i): Transaction => ({
+    id: createId(), type: "STRATEGY_LEG_CLOSE",
+    ticker: position.underlyingTicker, shares: position.quantity,
+    price: prices[i],
+    totalAmount: prices[i] * position.quantity * multiplier, timestamp,
+    purchasePrice: leg.entryPrice,
+    realizedPnl: getLegSign(leg.side) * (prices[i] - leg.entryPrice) *
+      position.quantity * multiplier,
+    optionSymbol: leg.symbol, optionType: leg.optionType,
+    strikePrice: leg.strikePrice, strategyId: position.id,
+    strategyName: position.name, legSide: leg.side, netPrice, ...extra,
+  }));
+
+  return chargeLegFees({
+    portfolio: {
+      ...portfolio,
+      cash: portfolio.cash + netPrice * position.quantity * multiplier,
+      strategyPositions: portfolio.strategyPositions
+        .filter((p) => p.id !== positionId),
+    },
+    transactions,
+    position,
+    netPrice,
+  }, position.legs.map((leg) => leg.side === "long" ? "SELL" : "BUY"),
+  multiplier);
+};
+
+/**
+ * Settles strategy legs that have reached expiration. In-the-money legs
+ * deliver shares when the user settles physically (falling back to cash if
+ * delivery fails); everything else settles in cash at intrinsic value. The
+ * position is removed once its last leg has settled. Without a quote for
+ * the underlying the legs are left for a later pass.
+ * @param {object} portfolio The portfolio document.
+ * @param {Array<object>} transactions The transaction log so far.
+ * @param {Array<object>} quotes Fresh quotes for the underlying tickers.
+ * @param {string} optionSettlement The user's setting: physical or cash.
+ * @param {number} now Current timestamp.
+ * @return {StrategySettlementResult} The settled state.
+ */
+export const settleExpiredStrategies = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  quotes: Quote[],
+  optionSettlement: OptionSettlementMode,
+  now: number = Date.now(),
+): StrategySettlementResult => {
+  let newPortfolio = portfolio;
+  const newTransactions = [...transactions];
+  const settled: StrategySettlementResult["settled"] = [];
+
+  const remaining = (portfolio.strategyPositions || []).flatMap(
+    (position) => {
+      const isReceiving = (leg: StrategyLeg) =>
+        (leg.optionType === "call") === (leg.side === "long");
+      // Legs taking shares in go first, so a spread's other leg can hand
+      // the same shares back out
+      const expiredLegs = position.legs
+        .filter((leg) => isOptionExpired(leg.expirationDate, now))
+        .sort((a, b) => Number(isReceiving(b)) - Number(isReceiving(a)));
+      if (expiredLegs.length === 0) return [position];
+
+      const quote = quotes.find((q) =>
+        q.symbol === position.underlyingTicker && q.price > 0);
+      if (!quote) {
+        console.warn(`[STRATEGY SETTLEMENT] No quote for ${
+          position.underlyingTicker}; ${position.name} will settle later.`);
+        return [position];
+      }
+      const stockPrice = quote.price;
+      const multiplier = getContractMultiplier(position);
+      const shares = position.quantity * multiplier;
+      let realizedPnl = 0;
+      expiredLegs.forEach((leg) => {
+        const intrinsicValue = leg.optionType === "call" ?
+          Math.max(0, stockPrice - leg.strikePrice) :
+          Math.max(0, leg.strikePrice - stockPrice);
+        const sign = getLegSign(leg.side);
+        const legFields = {
+          ticker: position.underlyingTicker, shares: position.quantity,
+          timestamp: now, purchasePrice: leg.entryPrice,
+          optionSymbol: leg.symbol, optionType: leg.optionType,
+          strikePrice: leg.strikePrice, strategyId: position.id,
+          strategyName: position.name, legSide: leg.side,
+        };
+
+        if (intrinsicValue > 0 && optionSettlement === "physical") {
+          try {
+            // The leg closes at zero premium; the shares move at the strike
+            const legPnl = -sign * leg.entryPrice * shares;
+            const legTransaction: Transaction = {
+              ...legFields,
+              id: createId(),
+              type: leg.side === "short" ?
+                "OPTION_ASSIGNMENT" : "OPTION_EXERCISE",
+              price: 0, totalAmount: 0, realizedPnl: legPnl,
+            };
+            const delivery = deliverUnderlying(newPortfolio,
+              position.underlyingTicker, isReceiving(leg), shares,
+              leg.strikePrice, {linkedTransactionId: legTransaction.id});
+            console.log(`[STRATEGY SETTLEMENT] ${position.name} leg ${
+              leg.symbol} (${leg.side}) expired in the money. Delivered ${
+              shares} shares of ${position.underlyingTicker}.`);
+            newPortfolio = delivery.portfolio;
+            newTransactions.push(legTransaction, ...delivery.trades);
+            realizedPnl += legPnl;
+            return;
+          } catch (error) {
+            console.warn("[STRATEGY SETTLEMENT] Could not deliver shares " +
+              `for ${leg.symbol}, cash-settling instead:`, error);
+          }
+        }
+
+        const legPnl = sign * (intrinsicValue - leg.entryPrice) * shares;
+        realizedPnl += legPnl;
+        newPortfolio = {
+          ...newPortfolio,
+          cash: newPortfolio.cash + sign * intrinsicValue * shares,
+        };
+        console.log(`[STRATEGY SETTLEMENT] ${position.name} leg ${
+          leg.symbol} (${leg.side}) expired at ${
+          intrinsicValue.toFixed(2)}. PnL: ${legPnl.toFixed(2)}`);
+        newTransactions.push({
+          ...legFields,
+          id: createId(),
+          type: intrinsicValue > 0 ? "OPTION_EXERCISE" : "OPTION_EXPIRE",
+          price: intrinsicValue, totalAmount: intrinsicValue * shares,
+          realizedPnl: legPnl,
+        });
+      });
+      settled.push({position, realizedPnl});
+
+      const openLegs = position.legs.filter((leg) =>
+        !expiredLegs.includes(leg));
+      return openLegs.length > 0 ? [{...position, legs: openLegs}] : [];
+    });
+
+  if (settled.length === 0) {
+    return {portfolio, transactions, settled, changed: false};
+  }
+  return {
+    portfolio: {...newPortfolio, strategyPositions: remaining},
+    transactions: newTransactions,
+    settled,
+    changed: true,
+  };
+};
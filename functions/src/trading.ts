@@ -0,0 +1,1156 @@
+// Trade math for executeTrade, the portfolio actions and the automation pass:
+// fills, fees, lots, margin and the option rules. Trades only execute here.
+// The web app shows margin, lots and option values with utils/margin, taxLots
+// and optionStrategies; functions can't import them, so keep the formulas the
+// two share in step.
+
+import {
+  ClosedLot,
+  FeeSchedule,
+  FeeSettings,
+  Holding,
+  LotSelection,
+  MarginAccount,
+  OptionHolding,
+  OrderSide,
+  Portfolio,
+  ShortHolding,
+  SlippageLevel,
+  StrategyLegSpec,
+  StrategyPosition,
+  TaxLot,
+  Transaction,
+  TrailingStopSettings,
+} from "./types.js";
+
+export type TradeSide = OrderSide;
+
+export interface StockExitLevels {
+  stopLossPrice?: number | null;
+  takeProfitPrice?: number | null;
+  trailingStop?: TrailingStopSettings | null;
+}
+
+// Exit levels as stored on a holding
+export type HoldingExits =
+  Required<Pick<Holding, "stopLossPrice" | "takeProfitPrice" | "trailingStop">>;
+
+export interface StockQuote {
+  price: number;
+  avgVolume?: number | null;
+  name?: string;
+}
+
+export interface TradeResult {
+  portfolio: Portfolio;
+  transaction: Transaction;
+}
+
+// What the fill model needs to know about an instrument: the last (or mark)
+// price, the two-sided quote if there is one, and average daily volume for
+// stocks or the day's volume for option contracts.
+export interface MarketQuote {
+  price: number;
+  bid?: number | null;
+  ask?: number | null;
+  volume?: number | null;
+}
+
+export interface FillPrice {
+  fillPrice: number;
+  midPrice: number;
+}
+
+interface FeeTrade {
+  assetType: "stock" | "option";
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  multiplier?: number; // Options: shares per contract; missing means 100
+}
+
+/**
+ * Thrown for trades that can't be filled. The message is shown to the user.
+ */
+export class TradeError extends Error {}
+
+const SEC_FEE_RATE = 27.80 / 1000000;
+const TAF_PER_SHARE = 0.000166;
+const TAF_MAX_PER_TRADE = 8.30;
+const TAF_PER_CONTRACT = 0.00279;
+const SHARE_EPSILON = 1e-9;
+const INITIAL_MARGIN_REQUIREMENT = 0.5;
+export const LONG_MAINTENANCE_REQUIREMENT = 0.25;
+export const SHORT_MAINTENANCE_REQUIREMENT = 0.3;
+const OPTION_MARGIN_REQUIREMENT = 1;
+// A cash account holds a short's proceeds plus as much again as collateral
+const CASH_SHORT_REQUIREMENT = 2;
+export const STANDARD_CONTRACT_MULTIPLIER = 100;
+// Annual %, as in the web app's constants
+export const DEFAULT_BORROW_RATE = 3;
+const DEFAULT_MARGIN_RATE = 8;
+
+const NO_FEES = {
+  perShare: 0, perContract: 0, minimumPerTrade: 0,
+  maxPercentOfValue: 0, regulatoryFees: false,
+};
+
+const FEE_PRESETS: {[preset: string]: typeof NO_FEES} = {
+  none: NO_FEES,
+  zeroCommission: {...NO_FEES, regulatoryFees: true},
+  discount: {...NO_FEES, perContract: 0.65, regulatoryFees: true},
+  perShare: {
+    perShare: 0.005, perContract: 0.65, minimumPerTrade: 1,
+    maxPercentOfValue: 1, regulatoryFees: true,
+  },
+};
+
+const SLIPPAGE_MODELS: {
+  [level in SlippageLevel]: {impact: number; maxSlippage: number}
+} = {
+  off: {impact: 0, maxSlippage: 0},
+  low: {impact: 0.05, maxSlippage: 0.01},
+  normal: {impact: 0.1, maxSlippage: 0.02},
+  high: {impact: 0.25, maxSlippage: 0.05},
+};
+
+// Settings are user data, so one only names an entry in a table like the
+// ones above if it's an own key, not "constructor" or "__proto__"
+export const hasOwnKey = (table: object, key: unknown): key is string =>
+  typeof key === "string" &&
+  Object.prototype.hasOwnProperty.call(table, key);
+
+export const createId = (): string =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 12);
+
+/**
+ * The calendar date (YYYY-MM-DD) in US Eastern time for a timestamp. Daily
+ * accruals are counted in Eastern calendar days.
+ * @param {number} timestamp The moment to convert.
+ * @return {string} The Eastern date key.
+ */
+export const getEasternDateKey = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString("en-CA",
+    {timeZone: "America/New_York"});
+
+/**
+ * Whole calendar days between two Eastern date keys. Never negative.
+ * @param {string} from The earlier date key (YYYY-MM-DD).
+ * @param {string} to The later date key (YYYY-MM-DD).
+ * @return {number} The number of days.
+ */
+export const getDaysBetweenDateKeys = (from: string, to: string): number => {
+  const diff = Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`);
+  return Math.max(0, Math.round(diff / (24 * 60 * 60 * 1000)));
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US",
+  {style: "currency", currency: "USD"});
+
+/**
+ * Formats an amount as US dollars, as the web app does in notifications.
+ * @param {number | null | undefined} value The amount.
+ * @return {string} The formatted amount, or N/A.
+ */
+export const formatCurrency = (value: number | null | undefined): string =>
+  value === null || value === undefined || isNaN(value) ?
+    "N/A" : currencyFormatter.format(value);
+
+// --- Fill model ---
+
+const roundPrice = (price: number): number => {
+  const factor = price < 1 ? 10000 : 100;
+  return Math.round(price * factor) / factor;
+};
+
+const hasTwoSidedQuote = (quote: MarketQuote): boolean =>
+  !!quote.bid && !!quote.ask && quote.bid > 0 && quote.ask >= quote.bid;
+
+const getSlippageRate = (
+  quantity: number,
+  volume: number | null | undefined,
+  level: string | undefined,
+): number => {
+  const model = hasOwnKey(SLIPPAGE_MODELS, level) ?
+    SLIPPAGE_MODELS[level as SlippageLevel] : SLIPPAGE_MODELS.normal;
+  if (!volume || volume <= 0 || quantity <= 0) return 0;
+  return Math.min(model.maxSlippage,
+    model.impact * Math.sqrt(quantity / volume));
+};
+
+/**
+ * Prices a market fill: buys lift the ask and sells hit the bid (or the last
+ * price without a two-sided quote), then the user's slippage setting moves
+ * the price further against the order.
+ * @param {TradeSide} side BUY for buys, covers and buy-to-close; SELL for
+ * sells, shorts and sell-to-open.
+ * @param {number} quantity Shares, or contracts for options.
+ * @param {MarketQuote} quote The instrument's latest quote.
+ * @param {string | undefined} level The user's slippage setting.
+ * @return {FillPrice} The fill price and the quote midpoint.
+ */
+export const getFillPrice = (
+  side: TradeSide,
+  quantity: number,
+  quote: MarketQuote,
+  level: string | undefined,
+): FillPrice => {
+  const twoSided = hasTwoSidedQuote(quote);
+  const midPrice = twoSided ?
+    ((quote.bid as number) + (quote.ask as number)) / 2 : quote.price;
+  const touch = !twoSided ? quote.price :
+    side === "BUY" ? quote.ask as number : quote.bid as number;
+  const slippage = touch * getSlippageRate(quantity, quote.volume, level);
+  const fillPrice = roundPrice(side === "BUY" ?
+    touch + slippage : Math.max(0, touch - slippage));
+  return {fillPrice, midPrice};
+};
+
+/**
+ * Prices a market stock fill at the last price, moved against the order by
+ * the user's slippage setting (sized by average daily volume).
+ * @param {TradeSide} side BUY or SELL.
+ * @param {number} shares Number of shares traded.
+ * @param {StockQuote} quote The stock's latest quote.
+ * @param {string | undefined} level The user's slippage setting.
+ * @return {number} The fill price per share.
+ */
+export const getStockFillPrice = (
+  side: TradeSide,
+  shares: number,
+  quote: StockQuote,
+  level: string | undefined,
+): number => getFillPrice(side, shares,
+  {price: quote.price, volume: quote.avgVolume}, level).fillPrice;
+
+// --- Options and strategies ---
+
+/**
+ * Shares per contract: 100 unless the contract was adjusted for a split with
+ * an uneven ratio.
+ * @param {object} item An option holding or strategy position.
+ * @return {number} The contract multiplier.
+ */
+export const getContractMultiplier = (item: {multiplier?: number}): number =>
+  item.multiplier ?? STANDARD_CONTRACT_MULTIPLIER;
+
+/**
+ * +1 for a long leg, -1 for a short leg.
+ * @param {string} side The leg's side.
+ * @return {number} The sign.
+ */
+export const getLegSign = (side: string): number => side === "long" ? 1 : -1;
+
+/**
+ * Whether an option holding was written (a liability) rather than bought.
+ * @param {object} option The option holding.
+ * @return {boolean} True for a written contract.
+ */
+export const isShortOption = (option: Pick<OptionHolding, "side">): boolean =>
+  option.side === "short";
+
+/**
+ * Net premium per share for a set of leg prices: positive is a debit,
+ * negative a credit.
+ * @param {Array<object>} legs The legs, each with a side.
+ * @param {Array<number>} prices Premium per share for each leg.
+ * @return {number} The net price.
+ */
+export const getNetPrice = (
+  legs: StrategyLegSpec[],
+  prices: number[],
+): number =>
+  legs.reduce((acc: number, leg, i: number) =>
+    acc + getLegSign(leg.side) * (prices[i] || 0), 0);
+
+const getExpiryValue = (
+  legs: StrategyLegSpec[],
+  stockPrice: number,
+): number =>
+  legs.reduce((acc: number, leg) => {
+    const intrinsic = leg.optionType === "call" ?
+      Math.max(0, stockPrice - leg.strikePrice) :
+      Math.max(0, leg.strikePrice - stockPrice);
+    return acc + getLegSign(leg.side) * intrinsic;
+  }, 0);
+
+/**
+ * Whether the legs can lose an unlimited amount (more calls sold than bought).
+ * @param {Array<object>} legs The strategy legs.
+ * @return {boolean} True for undefined risk.
+ */
+export const hasUndefinedRisk = (legs: StrategyLegSpec[]): boolean =>
+  legs.filter((leg) => leg.optionType === "call")
+    .reduce((acc: number, leg) => acc + getLegSign(leg.side), 0) < 0;
+
+/**
+ * Worst-case amount per share the legs can owe at expiration, ignoring the
+ * premiums: the collateral held for the short legs.
+ * @param {Array<object>} legs The strategy legs.
+ * @return {number} The collateral per share.
+ */
+export const getStrategyCollateral = (legs: StrategyLegSpec[]): number => {
+  if (hasUndefinedRisk(legs)) return Infinity;
+  const checkpoints = [0, ...legs.map((leg) => leg.strikePrice)];
+  const worstValue = Math.min(
+    ...checkpoints.map((price) => getExpiryValue(legs, price)));
+  return Math.max(0, -worstValue);
+};
+
+/**
+ * Maximum loss per share at expiration for legs entered at a net price.
+ * @param {Array<object>} legs The strategy legs.
+ * @param {number} netEntryPrice Net price (positive for a debit).
+ * @return {number} The maximum loss per share.
+ */
+export const getStrategyMaxLoss = (
+  legs: StrategyLegSpec[],
+  netEntryPrice: number,
+) =>
+  getStrategyCollateral(legs) + netEntryPrice;
+
+/**
+ * Current market value of a strategy position (negative for most credit
+ * spreads: the cost to close them).
+ * @param {object} position The strategy position.
+ * @return {number} The market value.
+ */
+export const getStrategyMarketValue = (
+  position: StrategyPosition,
+): number =>
+  getNetPrice(position.legs,
+    position.legs.map((leg) => leg.currentPrice || 0)) *
+  position.quantity * getContractMultiplier(position);
+
+/**
+ * Shares of a stock held back to cover written calls.
+ * @param {Array<object>} options The portfolio's option holdings.
+ * @param {string} ticker The stock ticker symbol.
+ * @return {number} The covering shares.
+ */
+export const getSharesCoveringCalls = (
+  options: OptionHolding[] = [],
+  ticker: string,
+): number => options
+  .filter((o) => isShortOption(o) && o.optionType === "call" &&
+    o.underlyingTicker === ticker)
+  .reduce((acc: number, o) =>
+    acc + o.shares * getContractMultiplier(o), 0);
+
+// --- Margin ---
+
+/**
+ * Equity, requirements and buying power at the holdings' current prices.
+ * Cash accounts report their free cash as buying power, after what secures
+ * their shorts, spreads and written puts, and are never on call.
+ * @param {object} portfolio The portfolio document.
+ * @return {object} The margin summary.
+ */
+export const getMarginSummary = (portfolio: Portfolio) => {
+  const options = portfolio.optionHoldings || [];
+  const strategies = portfolio.strategyPositions || [];
+  const longValue = (portfolio.holdings || []).reduce(
+    (acc: number, h) => acc + h.shares * h.currentPrice, 0);
+  const shortValue = (portfolio.shortHoldings || []).reduce(
+    (acc: number, s) => acc + s.shares * s.currentPrice, 0);
+  const optionValue = options.filter((o) => !isShortOption(o)).reduce(
+    (acc, o) => acc + o.shares * o.currentPrice * getContractMultiplier(o),
+    0);
+  const shortOptionValue = options.filter(isShortOption).reduce(
+    (acc, o) => acc + o.shares * o.currentPrice * getContractMultiplier(o),
+    0);
+  const shortPutCollateral = options
+    .filter((o) => isShortOption(o) && o.optionType === "put")
+    .reduce((acc, o) =>
+      acc + o.strikePrice * o.shares * getContractMultiplier(o), 0);
+  const strategyValue = strategies.reduce(
+    (acc, p) => acc + getStrategyMarketValue(p), 0);
+  const strategyCollateral = strategies.reduce((acc, p) => acc +
+    getStrategyCollateral(p.legs) * p.quantity * getContractMultiplier(p), 0);
+
+  const equity = portfolio.cash + longValue + optionValue + strategyValue -
+    shortValue - shortOptionValue;
+  const strategyRequirement = Math.max(0, strategyValue) *
+    OPTION_MARGIN_REQUIREMENT + strategyCollateral + shortPutCollateral;
+  const initialRequirement =
+    (longValue + shortValue) * INITIAL_MARGIN_REQUIREMENT +
+    optionValue * OPTION_MARGIN_REQUIREMENT + strategyRequirement;
+  const maintenanceRequirement = longValue * LONG_MAINTENANCE_REQUIREMENT +
+    shortValue * SHORT_MAINTENANCE_REQUIREMENT +
+    optionValue * OPTION_MARGIN_REQUIREMENT + strategyRequirement;
+  const excessEquity = equity - initialRequirement;
+  const isMarginAccount = !!portfolio.margin?.enabled;
+  const cashShortRequirement = shortValue * CASH_SHORT_REQUIREMENT;
+
+  return {
+    isMarginAccount,
+    equity,
+    debitBalance: Math.max(0, -portfolio.cash),
+    maintenanceRequirement,
+    excessEquity,
+    buyingPower: isMarginAccount ?
+      Math.max(0, excessEquity) / INITIAL_MARGIN_REQUIREMENT :
+      Math.max(0, portfolio.cash - strategyCollateral - shortPutCollateral -
+        cashShortRequirement),
+    marginCallAmount: isMarginAccount ?
+      Math.max(0, maintenanceRequirement - equity) : 0,
+  };
+};
+
+/**
+ * A new margin account, accruing interest from today.
+ * @param {number} now Current timestamp.
+ * @return {MarginAccount} The margin account.
+ */
+export const createMarginAccount = (now: number = Date.now()):
+  MarginAccount => ({
+  enabled: true,
+  interestRate: DEFAULT_MARGIN_RATE,
+  interestPaid: 0,
+  lastInterestDate: getEasternDateKey(now),
+  marginCall: null,
+});
+
+/**
+ * Funds available for a new position. Marginable purchases (stock, short
+ * sales) can use the full Reg-T buying power; options only excess equity.
+ * @param {object} portfolio The portfolio document.
+ * @param {boolean} marginable Whether the purchase can be bought on margin.
+ * @return {number} The buying power.
+ */
+export const getBuyingPower = (
+  portfolio: Portfolio,
+  marginable = true,
+): number => {
+  const summary = getMarginSummary(portfolio);
+  if (!summary.isMarginAccount || marginable) return summary.buyingPower;
+  return Math.max(0, summary.excessEquity);
+};
+
+// --- Fees ---
+
+/**
+ * Whether a fee setting names one of the presets, or a custom schedule.
+ * @param {string} preset The setting's preset.
+ * @return {boolean} True if the preset exists.
+ */
+export const isFeePreset = (preset: string): boolean =>
+  preset === "custom" || hasOwnKey(FEE_PRESETS, preset);
+
+/**
+ * A user-facing error for an invalid custom fee schedule, or null.
+ * @param {FeeSchedule} schedule The custom schedule.
+ * @return {string | null} The error.
+ */
+export const validateFeeSchedule = (schedule: FeeSchedule): string | null => {
+  const values = [schedule.perShare, schedule.perContract,
+    schedule.minimumPerTrade, schedule.maxPercentOfValue];
+  if (values.some((value) => !Number.isFinite(value) || value < 0)) {
+    return "Fees can't be negative.";
+  }
+  if (schedule.maxPercentOfValue > 100) {
+    return "The commission cap can't exceed 100% of the trade value.";
+  }
+  return null;
+};
+
+const calculateTradeFees = (
+  fees: FeeSettings | undefined,
+  trade: FeeTrade,
+): number => {
+  const schedule = !fees ? NO_FEES :
+    fees.preset === "custom" ? fees.custom || NO_FEES :
+      hasOwnKey(FEE_PRESETS, fees.preset) ? FEE_PRESETS[fees.preset] :
+        NO_FEES;
+  const isOption = trade.assetType === "option";
+  const value = trade.quantity * trade.price *
+    (isOption ? getContractMultiplier(trade) : 1);
+  let commission = trade.quantity *
+    (isOption ? schedule.perContract : schedule.perShare);
+  if (commission > 0) {
+    commission = Math.max(commission, schedule.minimumPerTrade);
+    if (schedule.maxPercentOfValue > 0) {
+      commission = Math.min(commission,
+        value * schedule.maxPercentOfValue / 100);
+    }
+  }
+  let regulatory = 0;
+  if (schedule.regulatoryFees && trade.side === "SELL") {
+    const taf = isOption ? trade.quantity * TAF_PER_CONTRACT :
+      Math.min(trade.quantity * TAF_PER_SHARE, TAF_MAX_PER_TRADE);
+    regulatory = value * SEC_FEE_RATE + taf;
+  }
+  return Math.round((commission + regulatory) * 100) / 100;
+};
+
+/**
+ * Charges the portfolio's fees on a filled trade: cash pays them and the
+ * transaction records them, counted against realizedPnl.
+ * @param {TradeResult} result The portfolio and transaction of a trade.
+ * @param {FeeTrade} trade What was traded, for sizing the fees.
+ * @return {TradeResult} The result with fees charged.
+ */
+export const chargeTradeFees = <T extends TradeResult>(
+  result: T,
+  trade: FeeTrade,
+): T => {
+  const fees = calculateTradeFees(result.portfolio.fees, trade);
+  if (fees <= 0) return result;
+  const cash = result.portfolio.cash - fees;
+  if (cash < 0 && !result.portfolio.margin?.enabled) {
+    throw new TradeError(
+      `Not enough cash to cover this trade and its ${fees.toFixed(2)} ` +
+      "in fees.");
+  }
+  return {
+    ...result,
+    portfolio: {...result.portfolio, cash},
+    transaction: {
+      ...result.transaction,
+      fees,
+      realizedPnl: (result.transaction.realizedPnl ?? 0) - fees,
+    },
+  };
+};
+
+// --- Tax lots ---
+
+/**
+ * A holding's tax lots; holdings from before lots were tracked count as one.
+ * @param {object} holding The stock holding.
+ * @return {Array<TaxLot>} The open lots.
+ */
+export const getHoldingLots = (holding: Holding): TaxLot[] => {
+  if (holding.lots && holding.lots.length > 0) return holding.lots;
+  return [{
+    id: `${holding.ticker}-legacy`,
+    shares: holding.shares,
+    costBasis: holding.purchasePrice,
+    acquiredAt: 0,
+  }];
+};
+
+/**
+ * Average cost per share across lots.
+ * @param {Array<object>} lots The lots.
+ * @return {number} The average cost, or 0 with no shares.
+ */
+export const getAverageCost = (
+  lots: {shares: number; costBasis: number}[],
+): number => {
+  const shares = lots.reduce((acc, lot) => acc + lot.shares, 0);
+  return shares > 0 ?
+    lots.reduce((acc, lot) => acc + lot.shares * lot.costBasis, 0) / shares :
+    0;
+};
+
+/**
+ * The lots a sale closes, by the selection's method or the lots it names.
+ * Throws a TradeError if named lots don't cover the sale.
+ * @param {Array<TaxLot>} lots The holding's open lots.
+ * @param {number} shares Shares being sold.
+ * @param {LotSelection} selection How to pick the lots.
+ * @return {Array<ClosedLot>} The closed lots.
+ */
+export const selectLotsToClose = (
+  lots: TaxLot[],
+  shares: number,
+  selection: LotSelection,
+): ClosedLot[] => {
+  if (selection.method === "SPECIFIC") {
+    const chosen = (selection.lots || []).filter((l) => l.shares > 0);
+    const total = chosen.reduce((acc, l) => acc + l.shares, 0);
+    if (Math.abs(total - shares) > 1e-6) {
+      throw new TradeError(
+        `The selected lots add up to ${Number(total.toFixed(4))} shares, ` +
+        `not the ${Number(shares.toFixed(4))} being sold.`);
+    }
+    return chosen.map(({lotId, shares: lotShares}) => {
+      const lot = lots.find((l) => l.id === lotId);
+      if (!lot || lot.shares < lotShares - 1e-6) {
+        throw new TradeError(
+          "One of the selected lots doesn't have that many shares left.");
+      }
+      return {
+        lotId,
+        shares: Math.min(lotShares, lot.shares),
+        costBasis: lot.costBasis,
+        acquiredAt: lot.acquiredAt,
+      };
+    });
+  }
+
+  const sorted = [...lots];
+  if (selection.method === "FIFO") {
+    sorted.sort((a, b) => a.acquiredAt - b.acquiredAt);
+  }
+  if (selection.method === "LIFO") {
+    sorted.sort((a, b) => b.acquiredAt - a.acquiredAt);
+  }
+  if (selection.method === "HIFO") {
+    sorted.sort((a, b) => b.costBasis - a.costBasis);
+  }
+  const closed: ClosedLot[] = [];
+  let remaining = shares;
+  for (const lot of sorted) {
+    if (remaining <= SHARE_EPSILON) break;
+    const taken = Math.min(lot.shares, remaining);
+    closed.push({
+      lotId: lot.id,
+      shares: taken,
+      costBasis: lot.costBasis,
+      acquiredAt: lot.acquiredAt,
+    });
+    remaining -= taken;
+  }
+  return closed;
+};
+
+/**
+ * The lots left after a sale closed some of them.
+ * @param {Array<TaxLot>} lots The open lots.
+ * @param {Array<ClosedLot>} closed The lots the sale closed.
+ * @return {Array<TaxLot>} The remaining lots.
+ */
+export const removeClosedLots = (
+  lots: TaxLot[],
+  closed: ClosedLot[],
+): TaxLot[] =>
+  lots
+    .map((lot) => {
+      const sold = closed.filter((c) => c.lotId === lot.id)
+        .reduce((acc, c) => acc + c.shares, 0);
+      return sold > 0 ? {...lot, shares: lot.shares - sold} : lot;
+    })
+    .filter((lot) => lot.shares > SHARE_EPSILON);
+
+// --- Trades ---
+
+// Every fill needs a positive number of shares, and contracts trade whole
+const checkShareQuantity = (shares: number) => {
+  if (!Number.isFinite(shares) || shares <= 0) {
+    throw new TradeError("Please enter a number of shares greater than zero.");
+  }
+};
+
+const checkContractQuantity = (contracts: number) => {
+  if (!Number.isInteger(contracts) || contracts <= 0) {
+    throw new TradeError("Please enter a whole number of contracts.");
+  }
+};
+
+/**
+ * Applies a market stock purchase, opening a new tax lot. Exit levels the
+ * caller provided (checked with resolveStockExits) replace the holding's.
+ * Throws a TradeError if the trade can't be filled.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {string} ticker The stock ticker symbol.
+ * @param {string} name The company name, for a new holding.
+ * @param {number} shares Number of shares to buy.
+ * @param {number} price The fill price per share.
+ * @param {object} extra Fields merged into the transaction (e.g. midPrice).
+ * @param {HoldingExits} exits Optional exit levels for the holding.
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyStockBuy = (
+  portfolio: Portfolio,
+  ticker: string,
+  name: string,
+  shares: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+  exits?: HoldingExits,
+): TradeResult => {
+  checkShareQuantity(shares);
+  if ((portfolio.shortHoldings || []).some((s) => s.ticker === ticker)) {
+    throw new TradeError(
+      "Cover your short position in this stock before buying it.");
+  }
+  const cost = shares * price;
+  if (getBuyingPower(portfolio, true) < cost) {
+    throw new TradeError(portfolio.margin?.enabled ?
+      "Not enough buying power to complete purchase." :
+      "Not enough cash to complete purchase.");
+  }
+
+  const transaction: Transaction = {
+    id: createId(), type: "BUY", ticker, shares, price, totalAmount: cost,
+    timestamp: Date.now(), ...extra,
+  };
+  const lot = {
+    id: transaction.id, shares, costBasis: price,
+    acquiredAt: transaction.timestamp,
+  };
+  const holdings: Holding[] = [...portfolio.holdings];
+  const index = holdings.findIndex((h) => h.ticker === ticker);
+  let holding: Holding;
+  if (index > -1) {
+    const lots = [...getHoldingLots(holdings[index]), lot];
+    holding = {
+      ...holdings[index],
+      shares: holdings[index].shares + shares,
+      purchasePrice: getAverageCost(lots),
+      currentPrice: price,
+      lots,
+    };
+  } else {
+    holding = {
+      ticker, name, shares, purchasePrice: price, currentPrice: price,
+      change: 0, changesPercentage: 0, lots: [lot],
+    };
+  }
+  if (exits) holding = {...holding, ...exits};
+  if (index > -1) holdings[index] = holding;
+  else holdings.push(holding);
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash - cost, holdings},
+    transaction,
+  }, {assetType: "stock", side: "BUY", quantity: shares, price});
+};
+
+/**
+ * Applies a market stock sale, realizing P&L lot by lot. Shares covering
+ * written calls can't be sold. Throws a TradeError if the trade can't be
+ * filled.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {string} ticker The stock ticker symbol.
+ * @param {number} shares Number of shares to sell.
+ * @param {number} price The fill price per share.
+ * @param {object} extra Fields merged into the transaction (e.g. midPrice).
+ * @param {LotSelection} lotSelection Lots to close; defaults to the
+ * portfolio's lot relief method.
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyStockSell = (
+  portfolio: Portfolio,
+  ticker: string,
+  shares: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+  lotSelection?: LotSelection,
+): TradeResult => {
+  checkShareQuantity(shares);
+  const holding = portfolio.holdings.find((h) => h.ticker === ticker);
+  if (!holding || holding.shares < shares) {
+    throw new TradeError("You don't own enough shares to sell.");
+  }
+  const coveringShares =
+    getSharesCoveringCalls(portfolio.optionHoldings, ticker);
+  if (holding.shares - coveringShares < shares - SHARE_EPSILON) {
+    throw new TradeError(
+      `${coveringShares} of your shares are covering written calls. ` +
+      "Buy the calls to close before selling them.");
+  }
+
+  const selection = lotSelection ||
+    {method: portfolio.lotReliefMethod || "FIFO"};
+  const lots = getHoldingLots(holding);
+  const closedLots = selectLotsToClose(lots, shares, selection);
+  const proceeds = shares * price;
+  const realizedPnl = closedLots.reduce(
+    (acc, lot) => acc + (price - lot.costBasis) * lot.shares, 0);
+
+  const transaction: Transaction = {
+    id: createId(), type: "SELL", ticker, shares, price,
+    totalAmount: proceeds, timestamp: Date.now(),
+    purchasePrice: getAverageCost(closedLots), realizedPnl, closedLots,
+    lotReliefMethod: selection.method, ...extra,
+  };
+
+  let holdings: Holding[] = [...portfolio.holdings];
+  if (holding.shares === shares) {
+    holdings = holdings.filter((h) => h.ticker !== ticker);
+  } else {
+    const remainingLots = removeClosedLots(lots, closedLots);
+    holdings = holdings.map((h) => h.ticker !== ticker ? h : {
+      ...holding,
+      shares: holding.shares - shares,
+      purchasePrice: getAverageCost(remainingLots),
+      lots: remainingLots,
+    });
+  }
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash + proceeds, holdings},
+    transaction,
+  }, {assetType: "stock", side: "SELL", quantity: shares, price});
+};
+
+/**
+ * Applies a market option purchase. Adding to an existing position averages
+ * the premium and keeps its stop-loss/trailing stop. Throws a TradeError if
+ * the trade can't be filled.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {object} option The contract to buy, with its market data.
+ * @param {number} contracts Number of contracts to buy.
+ * @param {number} price The fill premium per share.
+ * @param {object} extra Fields merged into the transaction (e.g. orderId).
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyOptionBuy = (
+  portfolio: Portfolio,
+  option: OptionHolding,
+  contracts: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+): TradeResult => {
+  checkContractQuantity(contracts);
+  const optionHoldings: OptionHolding[] =
+    [...(portfolio.optionHoldings || [])];
+  if (optionHoldings.some((o) => o.symbol === option.symbol &&
+    isShortOption(o))) {
+    throw new TradeError(
+      "You've written this contract. Use Buy to Close instead.");
+  }
+  const index = optionHoldings.findIndex((o) => o.symbol === option.symbol);
+  const multiplier = getContractMultiplier(
+    index > -1 ? optionHoldings[index] : option);
+  const cost = contracts * price * multiplier;
+  if (getBuyingPower(portfolio, false) < cost) {
+    throw new TradeError(portfolio.margin?.enabled ?
+      "Not enough excess equity to buy option contract(s)." :
+      "Not enough cash to buy option contract(s).");
+  }
+
+  const transaction: Transaction = {
+    id: createId(), type: "OPTION_BUY", ticker: option.underlyingTicker,
+    shares: contracts, price, totalAmount: cost, timestamp: Date.now(),
+    optionSymbol: option.symbol, optionType: option.optionType,
+    strikePrice: option.strikePrice, ...extra,
+  };
+  if (index > -1) {
+    const existing = optionHoldings[index];
+    const totalContracts = existing.shares + contracts;
+    const totalCost =
+      existing.shares * existing.purchasePrice * multiplier + cost;
+    optionHoldings[index] = {
+      ...existing,
+      shares: totalContracts,
+      purchasePrice: totalCost / totalContracts / multiplier,
+      currentPrice: price,
+      delta: option.delta,
+      gamma: option.gamma,
+      theta: option.theta,
+      vega: option.vega,
+      impliedVolatility: option.impliedVolatility,
+      open_interest: option.open_interest,
+      volume: option.volume,
+    };
+  } else {
+    optionHoldings.push({
+      ...option,
+      shares: contracts,
+      purchasePrice: price,
+      currentPrice: price,
+      stopLossPrice: option.stopLossPrice ?? null,
+      trailingStop: option.trailingStop ?? null,
+    });
+  }
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash - cost, optionHoldings},
+    transaction,
+  }, {assetType: "option", side: "BUY", quantity: contracts, price,
+    multiplier});
+};
+
+/**
+ * Applies a market sale of long option contracts. Throws a TradeError if
+ * the trade can't be filled.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {string} symbol The option contract symbol.
+ * @param {number} contracts Number of contracts to sell.
+ * @param {number} price The fill premium per share.
+ * @param {object} extra Fields merged into the transaction (e.g. orderId).
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyOptionSell = (
+  portfolio: Portfolio,
+  symbol: string,
+  contracts: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+): TradeResult => {
+  checkContractQuantity(contracts);
+  const existing = (portfolio.optionHoldings || [])
+    .find((o) => o.symbol === symbol);
+  if (!existing || isShortOption(existing) || existing.shares < contracts) {
+    throw new TradeError("You don't own enough contracts to sell.");
+  }
+  const multiplier = getContractMultiplier(existing);
+  const proceeds = contracts * price * multiplier;
+  const realizedPnl =
+    (price - existing.purchasePrice) * contracts * multiplier;
+
+  const transaction: Transaction = {
+    id: createId(), type: "OPTION_SELL", ticker: existing.underlyingTicker,
+    shares: contracts, price, totalAmount: proceeds, timestamp: Date.now(),
+    purchasePrice: existing.purchasePrice, realizedPnl,
+    optionSymbol: existing.symbol, optionType: existing.optionType,
+    strikePrice: existing.strikePrice, ...extra,
+  };
+  const optionHoldings = existing.shares === contracts ?
+    portfolio.optionHoldings.filter((o) => o.symbol !== symbol) :
+    portfolio.optionHoldings.map((o) => o.symbol !== symbol ? o :
+      {...existing, shares: existing.shares - contracts});
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash + proceeds, optionHoldings},
+    transaction,
+  }, {assetType: "option", side: "SELL", quantity: contracts, price,
+    multiplier});
+};
+
+/**
+ * Writes (sells to open) option contracts. Only covered calls and
+ * cash-secured puts are allowed: a call needs its deliverable uncommitted
+ * per contract, a put needs the strike times the multiplier in free cash
+ * (the premium received counts toward it). Throws a TradeError if the
+ * contracts can't be written.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {object} option The contract to write, with its market data.
+ * @param {number} contracts Number of contracts to write.
+ * @param {number} price The fill premium per share.
+ * @param {object} extra Fields merged into the transaction.
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyOptionSellToOpen = (
+  portfolio: Portfolio,
+  option: OptionHolding,
+  contracts: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+): TradeResult => {
+  checkContractQuantity(contracts);
+  const existing = portfolio.optionHoldings
+    .find((o) => o.symbol === option.symbol);
+  if (existing && !isShortOption(existing)) {
+    throw new TradeError(
+      "Sell your long contracts of this option before writing it.");
+  }
+
+  const multiplier = getContractMultiplier(existing || option);
+  const premium = contracts * price * multiplier;
+  if (option.optionType === "call") {
+    const sharesOwned = portfolio.holdings
+      .find((h) => h.ticker === option.underlyingTicker)?.shares || 0;
+    const freeShares = sharesOwned -
+      getSharesCoveringCalls(portfolio.optionHoldings, option.underlyingTicker);
+    if (freeShares < contracts * multiplier) {
+      throw new TradeError(`Covered calls need ${multiplier} shares of ${
+        option.underlyingTicker} per contract that aren't already ` +
+        "covering other calls.");
+    }
+  } else {
+    const collateral = option.strikePrice * contracts * multiplier;
+    if (getBuyingPower(portfolio, false) + premium < collateral) {
+      throw new TradeError(portfolio.margin?.enabled ?
+        "Not enough excess equity to secure this put." :
+        `Not enough cash to secure this put (strike × ${
+          multiplier} per contract).`);
+    }
+  }
+
+  const transaction: Transaction = {
+    id: createId(), type: "OPTION_SELL_TO_OPEN",
+    ticker: option.underlyingTicker, shares: contracts, price,
+    totalAmount: premium, timestamp: Date.now(),
+    optionSymbol: option.symbol, optionType: option.optionType,
+    strikePrice: option.strikePrice, legSide: "short", ...extra,
+  };
+  const optionHoldings = [...portfolio.optionHoldings];
+  if (existing) {
+    // Writing more of the same contract averages the premium received
+    const totalContracts = existing.shares + contracts;
+    const totalPremium =
+      existing.shares * existing.purchasePrice * multiplier + premium;
+    optionHoldings[optionHoldings.indexOf(existing)] = {
+      ...existing,
+      shares: totalContracts,
+      purchasePrice: totalPremium / totalContracts / multiplier,
+      currentPrice: price,
+    };
+  } else {
+    // Stops only protect long premium, so written contracts never carry them
+    optionHoldings.push({
+      ...option,
+      shares: contracts,
+      purchasePrice: price,
+      currentPrice: price,
+      stopLossPrice: null,
+      trailingStop: null,
+      side: "short",
+    });
+  }
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash + premium, optionHoldings},
+    transaction,
+  }, {assetType: "option", side: "SELL", quantity: contracts, price,
+    multiplier});
+};
+
+/**
+ * Buys back written option contracts. Realized P&L is the premium received
+ * minus the price paid to close. Throws a TradeError if the contracts can't
+ * be bought back.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {string} symbol The option contract symbol.
+ * @param {number} contracts Number of contracts to buy back.
+ * @param {number} price The fill premium per share.
+ * @param {object} extra Fields merged into the transaction.
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyOptionBuyToClose = (
+  portfolio: Portfolio,
+  symbol: string,
+  contracts: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+): TradeResult => {
+  checkContractQuantity(contracts);
+  const existing = (portfolio.optionHoldings || [])
+    .find((o) => o.symbol === symbol);
+  if (!existing || !isShortOption(existing) || existing.shares < contracts) {
+    throw new TradeError(
+      "You haven't written enough of these contracts to buy them back.");
+  }
+  const multiplier = getContractMultiplier(existing);
+  const cost = contracts * price * multiplier;
+  // Closing only reduces risk, so a margin account may borrow to do it
+  if (!portfolio.margin?.enabled && portfolio.cash < cost) {
+    throw new TradeError("Not enough cash to buy these contracts back.");
+  }
+
+  const transaction: Transaction = {
+    id: createId(), type: "OPTION_BUY_TO_CLOSE",
+    ticker: existing.underlyingTicker, shares: contracts, price,
+    totalAmount: cost, timestamp: Date.now(),
+    purchasePrice: existing.purchasePrice,
+    realizedPnl: (existing.purchasePrice - price) * contracts * multiplier,
+    optionSymbol: existing.symbol, optionType: existing.optionType,
+    strikePrice: existing.strikePrice, legSide: "short", ...extra,
+  };
+  const optionHoldings = existing.shares === contracts ?
+    portfolio.optionHoldings.filter((o) => o.symbol !== symbol) :
+    portfolio.optionHoldings.map((o) => o.symbol !== symbol ? o :
+      {...existing, shares: existing.shares - contracts});
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash - cost, optionHoldings},
+    transaction,
+  }, {assetType: "option", side: "BUY", quantity: contracts, price,
+    multiplier});
+};
+
+/**
+ * Opens (or adds to) a short stock position. Proceeds are credited to cash;
+ * a cash account holds them and as much again of its own cash against the
+ * short. Throws a TradeError if the short can't be opened.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {string} ticker The stock ticker symbol.
+ * @param {string} name The company name, for a new short position.
+ * @param {number} shares Number of shares to borrow and sell.
+ * @param {number} price The fill price per share.
+ * @param {object} extra Fields merged into the transaction.
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyShortSell = (
+  portfolio: Portfolio,
+  ticker: string,
+  name: string,
+  shares: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+): TradeResult => {
+  checkShareQuantity(shares);
+  if (portfolio.holdings.some((h) => h.ticker === ticker)) {
+    throw new TradeError(
+      "Sell your long shares of this stock before shorting it.");
+  }
+  const proceeds = shares * price;
+  if (getBuyingPower(portfolio, true) < proceeds) {
+    throw new TradeError(portfolio.margin?.enabled ?
+      "Not enough buying power to open this short sale." :
+      "Not enough cash to collateralize this short sale.");
+  }
+
+  const transaction: Transaction = {
+    id: createId(), type: "SHORT_SELL", ticker, shares, price,
+    totalAmount: proceeds, timestamp: Date.now(), ...extra,
+  };
+  const shortHoldings: ShortHolding[] =
+    [...(portfolio.shortHoldings || [])];
+  const index = shortHoldings.findIndex((s) => s.ticker === ticker);
+  if (index > -1) {
+    const existing = shortHoldings[index];
+    const totalShares = existing.shares + shares;
+    shortHoldings[index] = {
+      ...existing,
+      shares: totalShares,
+      entryPrice: (existing.shares * existing.entryPrice + proceeds) /
+        totalShares,
+      currentPrice: price,
+    };
+  } else {
+    shortHoldings.push({
+      ticker, name, shares, entryPrice: price, currentPrice: price,
+      change: 0, changesPercentage: 0, borrowRate: DEFAULT_BORROW_RATE,
+      borrowFeesPaid: 0,
+      lastBorrowFeeDate: getEasternDateKey(transaction.timestamp),
+    });
+  }
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash + proceeds, shortHoldings},
+    transaction,
+  }, {assetType: "stock", side: "SELL", quantity: shares, price});
+};
+
+/**
+ * Buys back shares to close (part of) a short position. Realized P&L is the
+ * entry price minus the cover price. Throws a TradeError if the cover can't
+ * be filled.
+ * @param {object} portfolio The stored portfolio document.
+ * @param {string} ticker The stock ticker symbol.
+ * @param {number} shares Number of shares to buy back.
+ * @param {number} price The fill price per share.
+ * @param {object} extra Fields merged into the transaction.
+ * @return {TradeResult} The new portfolio and the recorded transaction.
+ */
+export const applyBuyToCover = (
+  portfolio: Portfolio,
+  ticker: string,
+  shares: number,
+  price: number,
+  extra: Partial<Transaction> = {},
+): TradeResult => {
+  checkShareQuantity(shares);
+  const existing = (portfolio.shortHoldings || [])
+    .find((s) => s.ticker === ticker);
+  if (!existing || existing.shares < shares) {
+    throw new TradeError("You aren't short enough shares to cover.");
+  }
+  const cost = shares * price;
+  // Covering only reduces risk, so a margin account may borrow to do it
+  if (!portfolio.margin?.enabled && portfolio.cash < cost) {
+    throw new TradeError("Not enough cash to cover this short position.");
+  }
+
+  const transaction: Transaction = {
+    id: createId(), type: "BUY_TO_COVER", ticker, shares, price,
+    totalAmount: cost, timestamp: Date.now(),
+    purchasePrice: existing.entryPrice,
+    realizedPnl: (existing.entryPrice - price) * shares, ...extra,
+  };
+  const shortHoldings = existing.shares === shares ?
+    portfolio.shortHoldings.filter((s) => s.ticker !== ticker) :
+    portfolio.shortHoldings.map((s) => s.ticker !== ticker ? s :
+      {...existing, shares: existing.shares - shares});
+
+  return chargeTradeFees({
+    portfolio: {...portfolio, cash: portfolio.cash - cost, shortHoldings},
+    transaction,
+  }, {assetType: "stock", side: "BUY", quantity: shares, price});
+};
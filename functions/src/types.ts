@@ -0,0 +1,330 @@
+// Portfolio, transaction and order documents as the web app stores them
+// (types.ts in the web app), plus the market data the automation pass reads.
+// Keep these in step with the originals.
+
+export type LotReliefMethod = "FIFO" | "LIFO" | "HIFO" | "SPECIFIC";
+export type TrailType = "PERCENT" | "AMOUNT";
+export type OptionLegSide = "long" | "short";
+export type OptionType = "call" | "put";
+export type OrderSide = "BUY" | "SELL";
+export type OrderType = "MARKET" | "LIMIT" | "STOP";
+export type TimeInForce = "DAY" | "GTC";
+export type OrderAssetType = "stock" | "option" | "strategy";
+export type OrderLegRole = "ENTRY" | "TAKE_PROFIT" | "STOP_LOSS";
+export type CorporateActionKind = "SPLIT" | "SYMBOL_CHANGE" | "CASH_MERGER";
+export type SlippageLevel = "off" | "low" | "normal" | "high";
+export type OptionSettlementMode = "physical" | "cash";
+
+// One purchase of a stock, kept separate for lot-level P&L
+export interface TaxLot {
+  id: string; // The BUY transaction that opened it
+  shares: number;
+  costBasis: number; // Per share
+  acquiredAt: number; // 0 when unknown
+}
+
+export interface ClosedLot {
+  lotId: string;
+  shares: number;
+  costBasis: number;
+  acquiredAt: number;
+}
+
+export interface LotSelection {
+  method: LotReliefMethod;
+  lots?: {lotId: string; shares: number}[]; // SPECIFIC only
+}
+
+export interface TrailingStop {
+  trailType: TrailType;
+  trailValue: number; // Percent below the peak, or a dollar amount
+  highWaterMark: number;
+}
+
+export type TrailingStopSettings =
+  Pick<TrailingStop, "trailType" | "trailValue">;
+
+export interface Holding {
+  ticker: string;
+  name: string;
+  shares: number;
+  purchasePrice: number;
+  currentPrice: number;
+  change: number;
+  changesPercentage: number;
+  stopLossPrice?: number | null;
+  takeProfitPrice?: number | null;
+  trailingStop?: TrailingStop | null;
+  drip?: boolean;
+  lots?: TaxLot[]; // Missing on holdings bought before lots were tracked
+}
+
+export interface ShortHolding {
+  ticker: string;
+  name: string;
+  shares: number;
+  entryPrice: number;
+  currentPrice: number;
+  change: number;
+  changesPercentage: number;
+  borrowRate: number; // Annual %, of the position's market value
+  borrowFeesPaid: number;
+  lastBorrowFeeDate: string; // Eastern date fees were accrued through
+}
+
+export interface OptionHolding {
+  symbol: string;
+  underlyingTicker: string;
+  shares: number; // Contracts
+  purchasePrice: number; // Premium per share (received, for short holdings)
+  currentPrice: number;
+  change: number;
+  changesPercentage: number;
+  optionType: OptionType;
+  strikePrice: number;
+  expirationDate: string;
+  volume: number | null;
+  open_interest: number | null;
+  delta: number | null;
+  gamma: number | null;
+  theta: number | null;
+  vega: number | null;
+  impliedVolatility: number | null;
+  stopLossPrice?: number | null;
+  trailingStop?: TrailingStop | null;
+  side?: OptionLegSide; // Missing on older holdings, which are long
+  bid?: number | null;
+  ask?: number | null;
+  multiplier?: number; // Shares per contract; missing means 100
+}
+
+export interface StrategyLegSpec {
+  symbol: string;
+  optionType: OptionType;
+  strikePrice: number;
+  expirationDate: string;
+  side: OptionLegSide;
+}
+
+export interface StrategyLeg extends StrategyLegSpec {
+  entryPrice: number;
+  currentPrice: number;
+  change: number;
+}
+
+export interface StrategyPosition {
+  id: string;
+  name: string;
+  underlyingTicker: string;
+  quantity: number; // Contracts per leg
+  netEntryPrice: number; // Positive for a debit, negative for a credit
+  legs: StrategyLeg[];
+  openedAt: number;
+  multiplier?: number; // Missing means 100
+}
+
+export interface MarginCall {
+  issuedAt: number;
+  amount: number;
+  dueDate: string; // Eastern date; liquidated if still short after it
+}
+
+export interface MarginAccount {
+  enabled: boolean;
+  interestRate: number; // Annual %, on the debit balance
+  interestPaid: number;
+  lastInterestDate: string; // Eastern date interest was accrued through
+  marginCall: MarginCall | null;
+}
+
+export interface FeeSchedule {
+  perShare: number;
+  perContract: number;
+  minimumPerTrade: number;
+  maxPercentOfValue: number; // 0 = no cap
+  regulatoryFees: boolean;
+}
+
+export interface FeeSettings {
+  preset: string;
+  custom?: FeeSchedule; // Only used with the 'custom' preset
+}
+
+export interface PendingDividend {
+  id: string;
+  ticker: string;
+  exDate: string;
+  paymentDate: string;
+  amountPerShare: number;
+  shares: number; // Held going into the ex-date
+  side: "long" | "short";
+}
+
+export interface Portfolio {
+  cash: number; // Negative on a margin account with a debit balance
+  holdings: Holding[];
+  optionHoldings: OptionHolding[];
+  shortHoldings: ShortHolding[];
+  strategyPositions: StrategyPosition[];
+  initialValue: number;
+  margin?: MarginAccount;
+  fees?: FeeSettings;
+  pendingDividends?: PendingDividend[];
+  dividendsCheckedThrough?: string;
+  corporateActionsCheckedThrough?: string;
+  lotReliefMethod?: Exclude<LotReliefMethod, "SPECIFIC">;
+  startedAt?: number;
+  version?: number;
+}
+
+export type TransactionType = "BUY" | "SELL" | "STOP_LOSS_SELL" |
+  "TAKE_PROFIT_SELL" | "TRAILING_STOP_SELL" | "SHORT_SELL" | "BUY_TO_COVER" |
+  "BORROW_FEE" | "MARGIN_INTEREST" | "OPTION_BUY" | "OPTION_SELL" |
+  "OPTION_EXERCISE" | "OPTION_EXPIRE" | "OPTION_STOP_LOSS_SELL" |
+  "OPTION_TRAILING_STOP_SELL" | "STRATEGY_LEG_OPEN" | "STRATEGY_LEG_CLOSE" |
+  "OPTION_SELL_TO_OPEN" | "OPTION_BUY_TO_CLOSE" | "OPTION_ASSIGNMENT" |
+  "DIVIDEND" | "CORPORATE_ACTION" | "DEPOSIT" | "WITHDRAWAL";
+
+export interface Transaction {
+  id: string;
+  type: TransactionType;
+  ticker: string;
+  shares: number;
+  price: number;
+  totalAmount: number;
+  timestamp: number;
+  purchasePrice?: number;
+  realizedPnl?: number;
+  optionSymbol?: string;
+  optionType?: OptionType;
+  strikePrice?: number;
+  stopLossTriggerPrice?: number;
+  takeProfitTriggerPrice?: number;
+  trailingPeakPrice?: number;
+  trailingTriggerPrice?: number;
+  orderId?: string;
+  limitPrice?: number;
+  stopPrice?: number;
+  marginLiquidation?: boolean;
+  strategyId?: string;
+  strategyName?: string;
+  legSide?: OptionLegSide;
+  netPrice?: number;
+  linkedTransactionId?: string;
+  midPrice?: number;
+  fees?: number;
+  corporateAction?: CorporateActionKind;
+  splitRatio?: number;
+  previousTicker?: string;
+  description?: string;
+  closedLots?: ClosedLot[];
+  lotReliefMethod?: LotReliefMethod;
+  valueBefore?: number;
+}
+
+export interface PendingOrder {
+  id: string;
+  ticker: string; // The underlying, for option orders
+  name: string;
+  side: OrderSide;
+  orderType: OrderType;
+  shares: number; // Contracts, for option orders
+  limitPrice?: number;
+  stopPrice?: number;
+  referencePrice?: number; // MARKET orders: the last price when queued
+  timeInForce: TimeInForce;
+  createdAt: number;
+  assetType?: OrderAssetType; // Missing on older orders, which are stock
+  optionSymbol?: string;
+  option?: OptionHolding;
+  groupId?: string;
+  parentOrderId?: string;
+  role?: OrderLegRole;
+  strategyLegs?: StrategyLegSpec[];
+  lotSelection?: LotSelection;
+}
+
+// Final numbers of a portfolio run that was reset, kept in the archive index
+export interface ArchivedRun {
+  id: string;
+  portfolioId: string;
+  portfolioName: string;
+  startedAt: number;
+  endedAt: number;
+  initialValue: number;
+  netDeposits?: number; // Missing on runs archived before transfers
+  finalValue: number;
+  totalReturn: number; // Final value less everything put in
+  totalReturnPercent: number; // Time-weighted
+  realizedPnl: number;
+  feesPaid: number;
+  dividends: number;
+  closedTrades: number;
+  winningTrades: number;
+  bestTrade: number;
+  worstTrade: number;
+  openPositions: number; // Positions still open (and dropped) at the reset
+}
+
+export interface CorporateAction {
+  kind: CorporateActionKind;
+  ticker: string; // The symbol before the action
+  date: string;
+  ratio?: number; // SPLIT: new shares per old share
+  newTicker?: string; // SYMBOL_CHANGE
+  cashPerShare?: number; // CASH_MERGER
+}
+
+// --- Market data ---
+
+// The fields of an FMP quote the automation pass reads
+export interface Quote {
+  symbol: string;
+  price: number;
+  change: number;
+  changesPercentage: number;
+  avgVolume?: number | null;
+  name?: string;
+}
+
+// A Yahoo chain contract in the shape of the web app's option chain
+export interface OptionContract {
+  symbol: string;
+  close_price: number | null;
+  bid: number | null;
+  ask: number | null;
+  change: number;
+  changesPercentage: number;
+  volume: number | null;
+  open_interest: number | null;
+  impliedVolatility: number | null;
+}
+
+export interface StockSplit {
+  date: string;
+  numerator: number;
+  denominator: number;
+}
+
+export interface SymbolChange {
+  date: string;
+  oldSymbol: string;
+  newSymbol: string;
+}
+
+export interface DelistedCompany {
+  symbol: string;
+  delistedDate: string;
+}
+
+export interface Dividend {
+  date: string; // Ex-dividend date
+  dividend: number;
+  paymentDate: string;
+}
+
+// A rectangle drawn on a chart; time is in seconds
+export interface Drawing {
+  p1: {time: number; price: number};
+  p2: {time: number; price: number};
+}
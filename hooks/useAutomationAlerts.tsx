@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { collection, deleteDoc, onSnapshot, query } from 'firebase/firestore';
+import { db } from '../src/firebaseConfig';
+import { useAuth } from '../src/hooks/useAuth';
+import { useNotification } from './useNotification';
+
+interface AutomationAlertDoc {
+    text: string;
+    ticker?: string;
+}
+
+// Stop losses, order fills, expiry and price alerts run in the scheduled runAutomation Cloud Function.
+// It leaves a document per alert; the first open tab shows it and deletes it.
+export const useAutomationAlerts = () => {
+    const { user } = useAuth();
+    const { showNotification } = useNotification();
+
+    useEffect(() => {
+        if (!user) return;
+
+        const alertsRef = collection(db, 'users', user.uid, 'alerts');
+        const q = query(alertsRef);
+
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            snapshot.docChanges().forEach((change) => {
+                if (change.type === 'added' || change.type === 'modified') {
+                    const data = change.doc.data() as AutomationAlertDoc;
+                    showNotification({
+                        sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
+                        text: data.text,
+                        ticker: data.ticker
+                    });
+                    deleteDoc(change.doc.ref).catch(error => {
+                        console.error("[DEBUG] useAutomationAlerts: Failed to delete alert:", error);
+                    });
+                }
+            });
+        });
+
+        return () => unsubscribe();
+    }, [user, showNotification]);
+};
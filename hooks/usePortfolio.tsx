@@ -1,29 +1,135 @@
 import React, { createContext, useContext, useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { doc, onSnapshot, setDoc, writeBatch } from 'firebase/firestore';
+import { doc, onSnapshot, setDoc, getDoc, writeBatch, query, where, orderBy, limit } from 'firebase/firestore';
 import { db } from '../src/firebaseConfig';
 import { useAuth } from '../src/hooks/useAuth.tsx';
-import type { Portfolio, Holding, OptionHolding, Transaction, FmpQuote } from '../types';
+import type { Portfolio, PortfolioSummary, ArchivedRun, ArchivedRunSnapshot, Holding, OptionHolding, Transaction, FeeSettings, LotReliefMethod, LotSelection, PendingOrder, OrderSide, TimeInForce, TrailingStopSettings, OrderAssetType, StrategyLegSpec, OptionsStrategyRec, AlpacaOptionContract } from '../types';
 import { INITIAL_CASH } from '../constants';
 import * as fmpService from '../services/fmpService';
 import { nanoid } from 'nanoid';
 import { getOptionsChain } from '../services/optionsProxyService';
-import { loadDrawingsFromDB, SavedDrawing } from '../services/drawingService';
 import { useNotification } from './useNotification';
 import { formatCurrency } from '../utils/formatters';
+import { usePersistentState } from '../utils/localStorageManager';
+import { executeServerTrade, runPortfolioAction } from '../services/tradeService';
+import type { PortfolioAction, PortfolioActionResult } from '../services/tradeService';
+import { getTransactionsCollection, fetchTransactionsInRange, fetchRunTransactions, RECENT_TRANSACTION_LIMIT, CASH_FLOW_TYPES } from '../services/transactionLogService';
+import { getReservedCashForOrders, getCommittedSellQuantity, getOrderPrice, isOrderMarketable, describeOrder } from '../utils/orderBook';
+import { getBuyingPower } from '../utils/margin';
+import { getShortMarketValue } from '../utils/shortSelling';
+import { validateMultiLegOrder, getLegPrices, formatNetPrice, matchRecommendedLeg } from '../utils/multiLegOrders';
+import { getNetPrice, getStrategyMaxLoss, getStrategiesMarketValue, getOptionHoldingValue, isShortOption, getContractMultiplier } from '../utils/optionStrategies';
+import { calculateTimeValue } from '../utils/optionsCalculator';
+import { validateFeeSchedule } from '../utils/feeSchedule';
+import { getMarketStatus, isMarketOpen, formatMarketTime } from '../utils/marketCalendar';
+import { getPortfolioVersion } from '../utils/portfolioVersion';
+
+export interface LimitOrderRequest {
+    ticker: string;
+    name: string;
+    side: OrderSide;
+    shares: number;
+    limitPrice: number;
+    timeInForce: TimeInForce;
+}
+
+export interface BracketOrderRequest {
+    assetType: OrderAssetType;
+    ticker: string; // Underlying ticker for option orders
+    name: string;
+    shares: number; // Shares, or contracts for option orders
+    option?: OptionHolding; // Contract details, required for option orders
+    entryType?: 'MARKET' | 'LIMIT'; // Omit to place an OCO exit pair on an existing position
+    entryLimitPrice?: number;
+    takeProfitPrice?: number;
+    stopPrice?: number;
+    timeInForce: TimeInForce;
+}
+
+export interface MultiLegOrderRequest {
+    ticker: string;
+    name: string; // Strategy name shown on the position, e.g. 'Iron Condor'
+    legs: StrategyLegSpec[];
+    quantity: number; // Contracts per leg
+    orderType: 'MARKET' | 'LIMIT';
+    netLimitPrice?: number; // Signed: pay at most this debit, or (if negative) receive at least this credit
+    timeInForce: TimeInForce;
+}
+
+export interface StockExitLevels {
+    stopLossPrice?: number | null;
+    takeProfitPrice?: number | null;
+    trailingStop?: TrailingStopSettings | null;
+}
+
+// All of a user's portfolios, in the order they were created
+export type PortfolioCollection = PortfolioSummary[];
+
+export const MAIN_PORTFOLIO_ID = 'main';
+const MAX_PORTFOLIOS = 10;
+
+/**
+ * Document names under users/{uid}/data for one portfolio. The main portfolio keeps the
+ * original paths so accounts from before multiple portfolios need no migration.
+ */
+export const getPortfolioDocIds = (portfolioId: string) => portfolioId === MAIN_PORTFOLIO_ID
+    ? { portfolio: 'portfolio', transactions: 'transactions', orders: 'orders' }
+    : { portfolio: `portfolio_${portfolioId}`, transactions: `transactions_${portfolioId}`, orders: `orders_${portfolioId}` };
+
+const createEmptyPortfolio = (startingCash: number = INITIAL_CASH): Portfolio => ({
+    cash: startingCash,
+    holdings: [],
+    optionHoldings: [],
+    shortHoldings: [],
+    strategyPositions: [],
+    initialValue: startingCash,
+    startedAt: Date.now(),
+});
 
 interface PortfolioContextType {
     portfolio: Portfolio;
-    transactions: Transaction[];
-    buyStock: (ticker: string, name: string, shares: number, price: number) => void;
-    sellStock: (ticker: string, shares: number, price: number) => void;
+    transactions: Transaction[]; // The current run's newest RECENT_TRANSACTION_LIMIT transactions, oldest first
+    cashFlows: Transaction[]; // Every deposit and withdrawal of the current run, oldest first
+    loadRunTransactions: () => Promise<Transaction[]>; // The current run's whole log, read once
+    pendingOrders: PendingOrder[];
+    buyStock: (ticker: string, name: string, shares: number, price: number, exits?: StockExitLevels, avgVolume?: number) => void;
+    sellStock: (ticker: string, shares: number, price: number, avgVolume?: number, lotSelection?: LotSelection) => void;
     sellAllStock: (ticker: string) => Promise<void>; // ADD THIS
-    buyOption: (option: OptionHolding, stopLossPrice?: number | null) => void;
+    shortStock: (ticker: string, name: string, shares: number, price: number, avgVolume?: number) => Promise<void>;
+    coverShort: (ticker: string, shares: number, price: number, avgVolume?: number) => Promise<void>;
+    setMarginEnabled: (enabled: boolean) => Promise<void>;
+    setFeeSettings: (fees: FeeSettings) => Promise<void>;
+    setDividendReinvestment: (ticker: string, enabled: boolean) => Promise<void>;
+    setLotReliefMethod: (method: Exclude<LotReliefMethod, 'SPECIFIC'>) => Promise<void>;
+    buyOption: (option: OptionHolding, stopLossPrice?: number | null, trailingStop?: TrailingStopSettings | null) => void;
     sellOption: (symbol: string, shares: number, price: number) => void;
-    triggerStopLossSell: (optionHolding: OptionHolding, currentPrice: number) => Promise<void>;
+    sellOptionToOpen: (option: OptionHolding) => Promise<void>;
+    buyToCloseOption: (symbol: string, contracts: number, price: number) => Promise<void>;
+    exerciseOption: (symbol: string, contracts: number) => Promise<void>;
     manualSellOption: (symbol: string) => Promise<void>;
     updateOptionStopLoss: (symbol: string, newStopLossPrice: number | null) => Promise<void>;
+    placeLimitOrder: (request: LimitOrderRequest, currentPrice?: number) => Promise<void>;
+    placeBracketOrder: (request: BracketOrderRequest, currentPrice: number) => Promise<void>;
+    cancelOrder: (orderId: string) => Promise<void>;
+    placeMultiLegOrder: (request: MultiLegOrderRequest, optionContracts?: AlpacaOptionContract[]) => Promise<void>;
+    placeStrategyFromRecommendation: (rec: OptionsStrategyRec, quantity: number, netLimitPrice?: number) => Promise<void>;
+    closeStrategyPosition: (positionId: string) => Promise<void>;
+    updateStockExits: (ticker: string, exits: StockExitLevels) => Promise<void>;
+    updateOptionTrailingStop: (symbol: string, trailingStop: TrailingStopSettings | null) => Promise<void>;
     totalValue: number;
     isLoading: boolean;
+    allPortfolios: PortfolioCollection;
+    activePortfolio: string; // Id of the portfolio everything above reads and trades
+    setActivePortfolio: (portfolioId: string) => void;
+    createPortfolio: (name: string, startingCash: number) => Promise<void>;
+    renamePortfolio: (portfolioId: string, newName: string) => Promise<void>;
+    archivePortfolio: (portfolioId: string) => Promise<void>;
+    restorePortfolio: (portfolioId: string) => Promise<void>;
+    archivedRuns: ArchivedRun[]; // Past runs of every portfolio, oldest first
+    resetPortfolio: (initialValue: number) => Promise<void>;
+    depositCash: (amount: number) => Promise<void>;
+    withdrawCash: (amount: number) => Promise<void>;
+    repairPortfolioFromLog: () => Promise<void>; // Rewrites cash and positions from the run's transaction log
+    loadArchivedRun: (runId: string) => Promise<ArchivedRunSnapshot | null>;
 }
 
 const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined);
@@ -35,12 +141,19 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         cash: INITIAL_CASH,
         holdings: [],
         optionHoldings: [],
+        shortHoldings: [],
+        strategyPositions: [],
         initialValue: INITIAL_CASH,
     });
-    const recentAlertsRef = useRef<Record<string, number>>({});
     const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const [cashFlows, setCashFlows] = useState<Transaction[]>([]);
+    const [pendingOrders, setPendingOrders] = useState<PendingOrder[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const processingStopLossRef = useRef<Set<string>>(new Set());
+    const [allPortfolios, setAllPortfolios] = useState<PortfolioCollection>([]);
+    const [archivedRuns, setArchivedRuns] = useState<ArchivedRun[]>([]);
+    const [activePortfolio, setActivePortfolio] = usePersistentState<string>('activePortfolio', MAIN_PORTFOLIO_ID);
+    // Which portfolio's documents the state above was loaded from; saves wait until it matches the active one
+    const loadedPortfolioRef = useRef<string | null>(null);
 
     console.log('[DEBUG] usePortfolio.tsx: PortfolioProvider rendering.');
 
@@ -49,22 +162,76 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         portfolioRef.current = portfolio;
     }, [portfolio]);
 
-    const transactionsRef = useRef(transactions);
+    const pendingOrdersRef = useRef(pendingOrders);
+    useEffect(() => {
+        pendingOrdersRef.current = pendingOrders;
+    }, [pendingOrders]);
+
+    // Market orders only execute in the regular session; outside it, this says why and when it reopens
+    const getMarketClosedMessage = (): string | null => {
+        const status = getMarketStatus();
+        if (status.isOpen) return null;
+        return `The market is closed${status.holiday ? ` for ${status.holiday}` : ''}. It opens ${formatMarketTime(status.nextOpen)}.`;
+    };
+
+    // The list of portfolios lives in its own document, like watchlists. Accounts from before
+    // multiple portfolios get one entry for the portfolio they already have.
+    useEffect(() => {
+        if (!user) {
+            setAllPortfolios([]);
+            return;
+        }
+        const portfoliosDocRef = doc(db, 'users', user.uid, 'data', 'portfolios');
+        const unsubscribe = onSnapshot(portfoliosDocRef, (docSnap) => {
+            const portfolios = docSnap.exists() ? (docSnap.data().portfolios as PortfolioCollection) || [] : [];
+            if (portfolios.length === 0) {
+                const defaultPortfolios: PortfolioCollection = [{ id: MAIN_PORTFOLIO_ID, name: 'Main Portfolio', createdAt: Date.now() }];
+                setDoc(portfoliosDocRef, { portfolios: defaultPortfolios });
+                setAllPortfolios(defaultPortfolios);
+                return;
+            }
+            setAllPortfolios(portfolios);
+            // Ensure the active portfolio still exists and isn't archived, if not, fall back to the first open one
+            setActivePortfolio(current => portfolios.some(p => p.id === current && !p.archived)
+                ? current
+                : (portfolios.find(p => !p.archived) || portfolios[0]).id);
+        }, (error) => {
+            console.error("[DEBUG] usePortfolio.tsx: Error fetching portfolio list:", error);
+        });
+        return () => unsubscribe();
+    }, [user]);
+
+    // Index of reset runs; each run's full snapshot is its own document, loaded when viewed
     useEffect(() => {
-        transactionsRef.current = transactions;
-    }, [transactions]);
+        if (!user) {
+            setArchivedRuns([]);
+            return;
+        }
+        const unsubscribe = onSnapshot(doc(db, 'users', user.uid, 'data', 'archives'), (docSnap) => {
+            setArchivedRuns(docSnap.exists() ? (docSnap.data().runs as ArchivedRun[]) || [] : []);
+        }, (error) => {
+            console.error("[DEBUG] usePortfolio.tsx: Error fetching archived runs:", error);
+        });
+        return () => unsubscribe();
+    }, [user]);
+
+    const activePortfolioExists = allPortfolios.some(p => p.id === activePortfolio);
 
     useEffect(() => {
-        console.log('[DEBUG] usePortfolio.tsx: Main data fetching useEffect triggered. User:', user ? user.uid : 'null');
+        console.log('[DEBUG] usePortfolio.tsx: Main data fetching useEffect triggered. User:', user ? user.uid : 'null', 'Portfolio:', activePortfolio);
         if (!user) {
             console.log('[DEBUG] usePortfolio.tsx: No user, resetting portfolio and transactions.');
             setPortfolio({
                 cash: INITIAL_CASH,
                 holdings: [],
                 optionHoldings: [],
+                shortHoldings: [],
+                strategyPositions: [],
                 initialValue: INITIAL_CASH,
             });
             setTransactions([]);
+            setCashFlows([]);
+            setPendingOrders([]);
             console.log('[DEBUG] usePortfolio.tsx: Setting isLoading to false (no user).');
             setIsLoading(false);
             return;
@@ -76,6 +243,8 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             cash: INITIAL_CASH,
             holdings: [],
             optionHoldings: [],
+            shortHoldings: [],
+            strategyPositions: [],
             initialValue: INITIAL_CASH,
         });
         setTransactions([]);
@@ -86,8 +255,55 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
         console.log('[DEBUG] usePortfolio.tsx: User found, setting isLoading to true and attaching Firestore listeners.');
         setIsLoading(true);
-        const portfolioDocRef = doc(db, 'users', user.uid, 'data', 'portfolio');
-        const transactionsDocRef = doc(db, 'users', user.uid, 'data', 'transactions');
+        loadedPortfolioRef.current = null;
+        // Wait for the portfolio list, so a stale selection doesn't create documents for a portfolio that doesn't exist
+        if (!activePortfolioExists) return;
+
+        const docIds = getPortfolioDocIds(activePortfolio);
+        const portfolioDocRef = doc(db, 'users', user.uid, 'data', docIds.portfolio);
+        // The log used to be one array in this document; it now lives in the portfolio's transactions subcollection
+        const legacyTransactionsDocRef = doc(db, 'users', user.uid, 'data', docIds.transactions);
+        const transactionsCollection = getTransactionsCollection(user.uid, docIds.portfolio);
+        const ordersDocRef = doc(db, 'users', user.uid, 'data', docIds.orders);
+        // Switching portfolios leaves the previous one's data in state until both documents arrive
+        let portfolioLoaded = false;
+        let transactionsLoaded = false;
+        let legacyLogMigrated = false;
+        const markLoaded = () => {
+            if (!portfolioLoaded || !transactionsLoaded || !legacyLogMigrated || loadedPortfolioRef.current === activePortfolio) return;
+            loadedPortfolioRef.current = activePortfolio;
+            console.log('[DEBUG] usePortfolio.tsx: Setting isLoading to false (portfolio and transactions loaded).');
+            setIsLoading(false);
+        };
+
+        // Only the newest transactions of the current run stay live, so a long log isn't re-read on every load.
+        // Earlier runs stay in the log for Past Runs; pages that need the whole run read it with loadRunTransactions.
+        let runStartedAt: number | null = null;
+        let unsubTransactions = () => {};
+        const subscribeTransactions = (since: number) => {
+            if (since === runStartedAt) return;
+            unsubTransactions();
+            runStartedAt = since;
+            console.log(`[DEBUG] usePortfolio.tsx: Attaching snapshot listeners to transactions since ${since}: ${transactionsCollection.path}`);
+            const unsubRecent = onSnapshot(query(transactionsCollection, where('timestamp', '>=', since), orderBy('timestamp', 'desc'), limit(RECENT_TRANSACTION_LIMIT)), (snapshot) => {
+                console.log('[DEBUG] usePortfolio.tsx: Transactions snapshot received. Count:', snapshot.size);
+                setTransactions(snapshot.docs.map(d => d.data() as Transaction).reverse());
+                transactionsLoaded = true;
+                markLoaded();
+            }, (error) => {
+                console.error("[DEBUG] usePortfolio.tsx: FATAL ERROR fetching transactions snapshot:", error);
+            });
+            // Returns are measured against every deposit and withdrawal, however old; there are few of them
+            const unsubCashFlows = onSnapshot(query(transactionsCollection, where('type', 'in', CASH_FLOW_TYPES), where('timestamp', '>=', since), orderBy('timestamp', 'asc')), (snapshot) => {
+                setCashFlows(snapshot.docs.map(d => d.data() as Transaction));
+            }, (error) => {
+                console.error("[DEBUG] usePortfolio.tsx: FATAL ERROR fetching cash flow snapshot:", error);
+            });
+            unsubTransactions = () => {
+                unsubRecent();
+                unsubCashFlows();
+            };
+        };
 
         console.log(`[DEBUG] usePortfolio.tsx: Attaching snapshot listener to portfolio path: ${portfolioDocRef.path}`);
         
@@ -101,8 +317,12 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                     ...o,
                     stopLossPrice: o.stopLossPrice === undefined ? null : o.stopLossPrice
                 }));
-                console.log('[DEBUG] usePortfolio.tsx: Portfolio document exists. Data:', {...data, optionHoldings: optionsWithDefaults});
-                setPortfolio({...data, optionHoldings: optionsWithDefaults});
+                // Portfolios created before short selling / multi-leg orders lack these fields
+                const shortHoldings = data.shortHoldings || [];
+                const strategyPositions = data.strategyPositions || [];
+                console.log('[DEBUG] usePortfolio.tsx: Portfolio document exists. Data:', {...data, optionHoldings: optionsWithDefaults, shortHoldings, strategyPositions});
+                setPortfolio({...data, optionHoldings: optionsWithDefaults, shortHoldings, strategyPositions});
+                subscribeTransactions(data.startedAt ?? 0);
 
             } else {
                  console.log('[DEBUG] usePortfolio.tsx: Portfolio document does NOT exist. Creating default.');
@@ -110,187 +330,116 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                     cash: INITIAL_CASH,
                     holdings: [],
                     optionHoldings: [],
+                    shortHoldings: [],
+                    strategyPositions: [],
                     initialValue: INITIAL_CASH,
                 };
                  setDoc(portfolioDocRef, defaultPortfolio); // Create default doc
                  setPortfolio(defaultPortfolio);
+                 subscribeTransactions(0);
             }
-            console.log('[DEBUG] usePortfolio.tsx: Setting isLoading to false (after portfolio snapshot).');
-            setIsLoading(false); // Set loading false after portfolio is processed
+            portfolioLoaded = true;
+            markLoaded();
         }, (error) => {
             console.error("[DEBUG] usePortfolio.tsx: FATAL ERROR fetching portfolio snapshot:", error);
             setIsLoading(false);
         });
         
-        console.log(`[DEBUG] usePortfolio.tsx: Attaching snapshot listener to transactions path: ${transactionsDocRef.path}`);
-        const unsubTransactions = onSnapshot(transactionsDocRef, (doc) => {
-            console.log('[DEBUG] usePortfolio.tsx: Transactions snapshot received.');
+        // **MIGRATION LOGIC**: the server copies an array-format log into the subcollection, then drops the array
+        const unsubLegacyTransactions = onSnapshot(legacyTransactionsDocRef, async (doc) => {
+            const legacyTransactions: Transaction[] = doc.exists() ? doc.data().transactions || [] : [];
+            if (legacyTransactions.length > 0) {
+                console.log(`[DEBUG] usePortfolio.tsx: Migrating ${legacyTransactions.length} transactions from ${legacyTransactionsDocRef.path}.`);
+                try {
+                    // The snapshot re-triggers with the array gone
+                    await runPortfolioAction(user, { portfolioId: activePortfolio, action: { type: 'MIGRATE_LOG' } });
+                } catch (error) {
+                    console.error("[DEBUG] usePortfolio.tsx: Transaction log migration failed:", error);
+                }
+                return;
+            }
+            legacyLogMigrated = true;
+            markLoaded();
+        }, (error) => {
+            console.error("[DEBUG] usePortfolio.tsx: FATAL ERROR fetching legacy transactions document:", error);
+        });
+
+        // Open limit orders live in their own document next to portfolio and transactions.
+        const unsubOrders = onSnapshot(ordersDocRef, (doc) => {
             if (doc.exists()) {
-                console.log('[DEBUG] usePortfolio.tsx: Transactions document exists. Count:', (doc.data().transactions || []).length);
-                setTransactions(doc.data().transactions || []);
+                setPendingOrders(doc.data().orders || []);
             } else {
-                 console.log('[DEBUG] usePortfolio.tsx: Transactions document does NOT exist. Creating empty transactions array.');
-                 setDoc(transactionsDocRef, { transactions: [] }); // Create default doc
-                 setTransactions([]);
+                setPendingOrders([]);
             }
         }, (error) => {
-            console.error("[DEBUG] usePortfolio.tsx: FATAL ERROR fetching transactions snapshot:", error);
+            console.error("[DEBUG] usePortfolio.tsx: FATAL ERROR fetching orders snapshot:", error);
         });
 
         return () => {
             console.log('[DEBUG] usePortfolio.tsx: Unsubscribing from Firestore listeners.');
             unsubPortfolio();
             unsubTransactions();
+            unsubLegacyTransactions();
+            unsubOrders();
         };
-    }, [user]);
-
-    const saveData = useCallback(async (newPortfolio: Portfolio, newTransactions: Transaction[]) => {
-        if (!user) return;
-        // Ensure stopLossPrice is saved (or nullified if needed)
-        const portfolioToSave = {
-            ...newPortfolio,
-            optionHoldings: newPortfolio.optionHoldings.map(o => ({
-                ...o,
-                stopLossPrice: o.stopLossPrice === undefined ? null : o.stopLossPrice
-            }))
-        };
-        const portfolioDocRef = doc(db, 'users', user.uid, 'data', 'portfolio');
-        const transactionsDocRef = doc(db, 'users', user.uid, 'data', 'transactions');
-
-        // Use writeBatch for atomic update
-        const batch = writeBatch(db);
-        batch.set(portfolioDocRef, portfolioToSave); // Use set to overwrite or create
-        batch.set(transactionsDocRef, { transactions: newTransactions }); // Use set to overwrite or create
+    }, [user, activePortfolio, activePortfolioExists]);
 
+    const notifyReevaluated = useCallback((label: string) => {
+        showNotification({
+            sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
+            text: `Your portfolio was changed in another tab or device. ${label} was re-evaluated against the latest positions and cash.`
+        });
+    }, [showNotification]);
+
+    /**
+     * Asks the server to make a change to the active portfolio. It checks the change against the
+     * stored portfolio, prices trades from its own market data and writes the portfolio and log;
+     * the listeners pick up the result. Throws with a user-facing message if the change is rejected.
+     * @param label Names the change in the notice shown when it was re-evaluated, e.g. "Short sale of 10 TSLA".
+     */
+    const updatePortfolio = useCallback(async (label: string, action: PortfolioAction): Promise<PortfolioActionResult> => {
+        if (!user) throw new Error("You must be logged in to trade.");
+        if (loadedPortfolioRef.current !== activePortfolio) {
+            throw new Error('The portfolio is still loading. Please try again in a moment.');
+        }
+        const result = await runPortfolioAction(user, {
+            portfolioId: activePortfolio,
+            version: getPortfolioVersion(portfolioRef.current),
+            action,
+        });
+        if (result.reevaluated) notifyReevaluated(label);
+        return result;
+    }, [user, activePortfolio, notifyReevaluated]);
+
+    /**
+     * Places orders in the active portfolio's book. The server rebuilds each one from the request,
+     * pricing contracts from their listing, and checks it against the stored portfolio and open
+     * orders; the orders listener picks up the result. Returns true if the orders were placed.
+     * @param label Names the orders in the notice shown when they were re-evaluated.
+     * @param orders One order, or the legs of one bracket.
+     */
+    const placeOrders = useCallback(async (label: string, orders: PendingOrder[]): Promise<boolean> => {
         try {
-            await batch.commit();
-            console.log("[DEBUG] saveData successful.");
+            await updatePortfolio(label, { type: 'PLACE_ORDERS', orders });
+            return true;
         } catch (error) {
-            console.error("[DEBUG] saveData failed:", error);
+            alert((error as Error).message);
+            return false;
         }
+    }, [updatePortfolio]);
 
-    }, [user]);
-
-    const triggerStopLossSell = useCallback(async (optionHolding: OptionHolding, currentPrice: number) => {
-        if (!user || processingStopLossRef.current.has(optionHolding.symbol)) return;
-
-        processingStopLossRef.current.add(optionHolding.symbol); // Mark as processing
-        console.log(`[STOP LOSS TRIGGERED] for ${optionHolding.symbol} at price ${formatCurrency(currentPrice)} (SL: ${formatCurrency(optionHolding.stopLossPrice)})`);
-
-        // Use the current price as the execution price for the simulation
-        const sellPrice = currentPrice;
-        const proceeds = optionHolding.shares * sellPrice * 100;
-        const realizedPnl = (sellPrice - optionHolding.purchasePrice) * optionHolding.shares * 100;
-
-        const stopLossTransaction: Transaction = {
-            id: nanoid(),
-            type: 'OPTION_STOP_LOSS_SELL', // New type
-            ticker: optionHolding.underlyingTicker,
-            shares: optionHolding.shares,
-            price: sellPrice, // Actual execution price
-            totalAmount: proceeds,
-            timestamp: Date.now(),
-            purchasePrice: optionHolding.purchasePrice,
-            realizedPnl: realizedPnl,
-            optionSymbol: optionHolding.symbol,
-            optionType: optionHolding.optionType,
-            strikePrice: optionHolding.strikePrice,
-            stopLossTriggerPrice: optionHolding.stopLossPrice || undefined, // Record SL price
-        };
-
-        const currentPortfolio = portfolioRef.current;
-        const currentTransactions = transactionsRef.current;
-
-        // Remove the option holding from the portfolio
-        const newOptionHoldings = currentPortfolio.optionHoldings.filter(o => o.symbol !== optionHolding.symbol);
-        const newPortfolio: Portfolio = {
-            ...currentPortfolio,
-            cash: currentPortfolio.cash + proceeds,
-            optionHoldings: newOptionHoldings
-        };
-        const newTransactions = [...currentTransactions, stopLossTransaction];
-
+    // Has the server fill orders that are marketable now; the scheduled pass fills them otherwise
+    const evaluateOrders = useCallback(async () => {
         try {
-            await saveData(newPortfolio, newTransactions);
-            showNotification({
-                sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
-                text: `STOP LOSS executed for ${optionHolding.symbol} @ ${formatCurrency(sellPrice)}. Realized P&L: ${formatCurrency(realizedPnl)}`,
-                ticker: optionHolding.underlyingTicker
-            });
+            await updatePortfolio('Your order', { type: 'EVALUATE_ORDERS' });
         } catch (error) {
-            console.error(`[STOP LOSS FAILED] Error saving stop loss sale for ${optionHolding.symbol}:`, error);
-            // Optionally, show an error notification to the user
-        } finally {
-            processingStopLossRef.current.delete(optionHolding.symbol); // Unmark as processing
-        }
-    }, [user, saveData, showNotification]);
-
-    const settleExpiredOptions = (
-        currentPortfolio: Portfolio, 
-        currentTransactions: Transaction[], 
-        stockQuotes: FmpQuote[]
-    ): { updatedPortfolio: Portfolio; updatedTransactions: Transaction[]; changed: boolean } => {
-        let changed = false;
-        let newPortfolio = { ...currentPortfolio };
-        let newTransactions = [...currentTransactions];
-        const now = Date.now() - (60 * 1000); 
-
-        const unexpiredHoldings: OptionHolding[] = [];
-
-        for (const option of currentPortfolio.optionHoldings) {
-            const expiryDate = new Date(option.expirationDate).getTime();
-            
-            if (expiryDate > now) {
-                unexpiredHoldings.push(option);
-                continue; 
-            }
-
-            changed = true; 
-            
-            const quote = stockQuotes.find(q => q.symbol === option.underlyingTicker);
-            const currentStockPrice = quote?.price || 0;
-            const contracts = option.shares;
-
-            let intrinsicValue = 0;
-            
-            if (option.optionType === 'call') {
-                intrinsicValue = Math.max(0, currentStockPrice - option.strikePrice);
-            } else if (option.optionType === 'put') {
-                intrinsicValue = Math.max(0, option.strikePrice - currentStockPrice);
-            }
-            
-            const settlementPrice = intrinsicValue;
-            const realizedPnl = (settlementPrice - option.purchasePrice) * contracts * 100;
-            const cashProceeds = settlementPrice * contracts * 100;
-            const settlementType = intrinsicValue > 0 ? 'OPTION_EXERCISE' : 'OPTION_EXPIRE';
-
-            console.log(`[OPTION SETTLEMENT] ${option.symbol} expired. Type: ${settlementType}. Final Price: ${settlementPrice.toFixed(2)}. PnL: ${realizedPnl.toFixed(2)}`);
-
-            const settlementTransaction: Transaction = {
-                id: nanoid(), 
-                type: settlementType, 
-                ticker: option.underlyingTicker, 
-                shares: contracts, 
-                price: settlementPrice, 
-                totalAmount: cashProceeds, 
-                timestamp: Date.now(), 
-                purchasePrice: option.purchasePrice, 
-                realizedPnl: realizedPnl,
-                optionSymbol: option.symbol,
-                optionType: option.optionType,
-                strikePrice: option.strikePrice,
-            };
-
-            newTransactions.push(settlementTransaction);
-            newPortfolio.cash += cashProceeds;
+            console.error("[DEBUG] evaluateOrders failed; the order waits for the next automation pass:", error);
         }
+    }, [updatePortfolio]);
 
-        newPortfolio.optionHoldings = unexpiredHoldings;
-
-        return { updatedPortfolio: newPortfolio, updatedTransactions: newTransactions, changed };
-    };
-
-    // This useEffect hook handles periodic price updates for all holdings.
+    // This useEffect hook refreshes prices for display. Stops, orders, accruals, expiry and price alerts
+    // run in the scheduled runAutomation Cloud Function, so they fire with no tab open; its results
+    // arrive through the portfolio snapshot and its notifications through useAutomationAlerts.
     useEffect(() => {
         // FIX: Do not start the update process until the initial portfolio has loaded.
         if (isLoading) {
@@ -298,216 +447,80 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }
 
         const updateAllPrices = async () => {
-             const currentPortfolio = portfolioRef.current;
-             const currentTransactions = transactionsRef.current;
+            const currentPortfolio = portfolioRef.current;
+            const currentOrders = pendingOrdersRef.current;
 
-             if (!user || (currentPortfolio.holdings.length === 0 && currentPortfolio.optionHoldings.length === 0)) {
-                return;
-            }
+            const stockTickers = currentPortfolio.holdings.map(h => h.ticker);
+            const optionTickers = currentPortfolio.optionHoldings.map(o => o.underlyingTicker);
+            const orderTickers = currentOrders.map(o => o.ticker);
+            const shortTickers = currentPortfolio.shortHoldings.map(s => s.ticker);
+            const strategyTickers = currentPortfolio.strategyPositions.map(p => p.underlyingTicker);
+            const allRelevantTickers = [...new Set([...stockTickers, ...optionTickers, ...orderTickers, ...shortTickers, ...strategyTickers])];
 
-            const ALERT_COOLDOWN_MS = 5 * 60 * 1000;
+            if (!user || allRelevantTickers.length === 0) return;
 
             try {
-                // ... (existing code to fetch quotes, drawings, option chains remains the same) ...
-                 const stockTickers = currentPortfolio.holdings.map(h => h.ticker);
-                const optionTickers = currentPortfolio.optionHoldings.map(o => o.underlyingTicker);
-                const allRelevantTickers = [...new Set([...stockTickers, ...optionTickers])];
-
-                if (allRelevantTickers.length === 0) return;
-
-                const quotePromise = fmpService.getQuote(allRelevantTickers.join(','));
-                const drawingsPromises = Promise.all(allRelevantTickers.map(ticker => loadDrawingsFromDB(user, ticker)));
-
-                const [quotes, allDrawings] = await Promise.all([quotePromise, drawingsPromises]);
-
-                 // --- Drawings/Alerts Logic (remains the same) ---
-                const drawingsMap = allRelevantTickers.reduce((acc, ticker, index) => {
-                    acc[ticker] = allDrawings[index];
-                    return acc;
-                }, {} as Record<string, SavedDrawing[]>);
-
-                const currentTime = Date.now() / 1000;
-
-                quotes.forEach(quote => {
-                    const ticker = quote.symbol;
-                    const price = quote.price;
-                    const drawings = drawingsMap[ticker] || [];
-
-                    if (drawings.length === 0) return;
-
-                    drawings.forEach(drawing => {
-                         const t1 = drawing.p1.time as number;
-                         const t2 = drawing.p2.time as number;
-                         const p1 = drawing.p1.price;
-                         const p2 = drawing.p2.price;
-
-                         const minPrice = Math.min(p1, p2);
-                         const maxPrice = Math.max(p1, p2);
-                         const minTime = Math.min(t1, t2);
-                         const isDrawingActive = minTime <= currentTime;
-                         const priceWithinRange = price >= minPrice && price <= maxPrice;
-
-
-                        if (isDrawingActive && priceWithinRange) {
-                            const lastAlertTime = recentAlertsRef.current[ticker] || 0;
-                            const now = Date.now();
-
-                            if (now - lastAlertTime > ALERT_COOLDOWN_MS) {
-                                showNotification({
-                                    sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
-                                    text: `Price Alert! ${ticker} entered a saved rectangle (Price: ${formatCurrency(price)})`,
-                                    ticker: ticker
-                                });
-                                recentAlertsRef.current[ticker] = now;
-                            }
-                        }
-                    });
-                });
-
-
-                 // --- Option Chain Fetching (remains the same) ---
-                const optionFetchPairs = Array.from(new Set(
-                    currentPortfolio.optionHoldings.map(o => `${o.underlyingTicker}_${o.expirationDate}`)
-                )).map(pair => {
+                const optionFetchPairs = Array.from(new Set([
+                    ...currentPortfolio.optionHoldings.map(o => `${o.underlyingTicker}_${o.expirationDate}`),
+                    ...currentPortfolio.strategyPositions.flatMap(p => p.legs.map(leg => `${p.underlyingTicker}_${leg.expirationDate}`)),
+                ])).map(pair => {
                     const [ticker, date] = pair.split('_');
                     return { ticker, date };
                 });
 
-                const optionChainsResults = await Promise.all(
-                     optionFetchPairs.map(pair => getOptionsChain(pair.ticker, pair.date))
-                );
-
+                const [quotes, optionChainsResults] = await Promise.all([
+                    fmpService.getQuote(allRelevantTickers.join(',')),
+                    Promise.all(optionFetchPairs.map(pair => getOptionsChain(pair.ticker, pair.date))),
+                ]);
                 const flatOptionChains = optionChainsResults.flatMap(result => result.contracts);
 
-
-                let tempPortfolio = { ...currentPortfolio };
-                let newTransactions = [...currentTransactions];
-                let changed = false;
-                const stopLossesToTrigger: OptionHolding[] = []; // Collect options hitting SL
-
-                // --- Update Stock Holdings (remains the same) ---
-                 tempPortfolio.holdings = tempPortfolio.holdings.map(holding => {
-                    const quote = quotes.find(q => q.symbol === holding.ticker);
-                    if (quote && (quote.price !== holding.currentPrice || quote.change !== holding.change)) {
-                        changed = true;
+                // Display only: nothing is saved, so this never races the server's writes
+                setPortfolio(current => ({
+                    ...current,
+                    holdings: current.holdings.map(holding => {
+                        const quote = quotes.find(q => q.symbol === holding.ticker);
+                        return quote ? { ...holding, currentPrice: quote.price, change: quote.change, changesPercentage: quote.changesPercentage } : holding;
+                    }),
+                    shortHoldings: current.shortHoldings.map(short => {
+                        const quote = quotes.find(q => q.symbol === short.ticker);
+                        return quote ? { ...short, currentPrice: quote.price, change: quote.change, changesPercentage: quote.changesPercentage } : short;
+                    }),
+                    strategyPositions: current.strategyPositions.map(position => ({
+                        ...position,
+                        legs: position.legs.map(leg => {
+                            const fresh = flatOptionChains.find(c => c.symbol === leg.symbol);
+                            if (!fresh || fresh.close_price === null || fresh.close_price === undefined) return leg;
+                            return { ...leg, currentPrice: fresh.close_price, change: fresh.change || 0 };
+                        }),
+                    })),
+                    optionHoldings: current.optionHoldings.map(option => {
+                        const fresh = flatOptionChains.find(o => o.symbol === option.symbol);
+                        if (!fresh || fresh.close_price === null || fresh.close_price === undefined) {
+                            console.warn(`[UPDATE ALL PRICES] No fresh option data found for existing holding ${option.symbol}. Price not updated.`);
+                            return option;
+                        }
                         return {
-                            ...holding,
-                            currentPrice: quote.price,
-                            change: quote.change,
-                            changesPercentage: quote.changesPercentage
+                            ...option,
+                            currentPrice: fresh.close_price,
+                            change: fresh.change || 0,
+                            changesPercentage: fresh.changesPercentage || 0,
+                            delta: fresh.delta,
+                            gamma: fresh.gamma,
+                            theta: fresh.theta,
+                            vega: fresh.vega,
+                            impliedVolatility: fresh.impliedVolatility,
+                            open_interest: fresh.open_interest,
+                            volume: fresh.volume,
+                            bid: fresh.bid,
+                            ask: fresh.ask,
                         };
-                    }
-                    return holding;
-                });
-
-                // --- Update Option Holdings AND Check Stop Losses ---
-                tempPortfolio.optionHoldings = tempPortfolio.optionHoldings.map((option) => {
-                     // Find fresh data for this specific option contract
-                    const freshOptionData = flatOptionChains.find(o => o.symbol === option.symbol);
-                    let updatedOption = { ...option }; // Start with existing data
-
-                    if (freshOptionData) {
-                        const newPrice = freshOptionData.close_price;
-                         // Check if the price is valid (not null/undefined)
-                        if (newPrice !== null && newPrice !== undefined) {
-                            const epsilon = 0.0001;
-                             // Check if the price has actually changed
-                            const isPriceChanged = Math.abs(newPrice - option.currentPrice) > epsilon;
-
-                            if (isPriceChanged) {
-                                changed = true; // Mark portfolio as changed if price updated
-                                updatedOption = { // Update the option data
-                                    ...option,
-                                    currentPrice: newPrice,
-                                    change: freshOptionData.change || 0,
-                                    changesPercentage: freshOptionData.changesPercentage || 0,
-                                    delta: freshOptionData.delta,
-                                    gamma: freshOptionData.gamma,
-                                    theta: freshOptionData.theta,
-                                    vega: freshOptionData.vega,
-                                    impliedVolatility: freshOptionData.impliedVolatility,
-                                    open_interest: freshOptionData.open_interest,
-                                    volume: freshOptionData.volume
-                                };
-                            }
-
-                             // --- ADDED: Stop-Loss Check ---
-                             // Check if a stop loss is set and if the new price triggers it
-                             if (updatedOption.stopLossPrice !== null && updatedOption.stopLossPrice !== undefined &&
-                                 newPrice <= updatedOption.stopLossPrice &&
-                                 !processingStopLossRef.current.has(updatedOption.symbol)) // Ensure not already processing
-                             {
-                                 // Add to trigger list - use the *updated* option data
-                                 stopLossesToTrigger.push(updatedOption);
-                             }
-                            // --- END ADDED ---
-                        } else {
-                            // Log if fresh data exists but price is null/undefined
-                             console.warn(`[UPDATE ALL PRICES] Fresh data found for ${option.symbol}, but close_price is null or undefined.`);
-                        }
-                    } else {
-                         // Log if no fresh data found for an existing holding (might indicate data source issue)
-                         console.warn(`[UPDATE ALL PRICES] No fresh option data found for existing holding ${option.symbol}. Price not updated.`);
-                    }
-                    return updatedOption; // Return the potentially updated option
-                });
-
-                // --- Trigger Stop Losses AFTER updating all prices ---
-                 if (stopLossesToTrigger.length > 0) {
-                     // Use Promise.all to trigger all necessary stop losses concurrently
-                     await Promise.all(stopLossesToTrigger.map(optionToSell =>
-                         triggerStopLossSell(optionToSell, optionToSell.currentPrice) // Pass the trigger price
-                     ));
-                     // No need to manually update portfolio/transactions here,
-                     // triggerStopLossSell handles saving the updated state after sale.
-                     // The next onSnapshot will reflect the removal.
-                     // Set 'changed' to false because saveData happens inside triggerStopLossSell
-                     changed = false;
-                 }
-
-
-                // --- Settle Expired Options (remains the same) ---
-                 // Note: This needs to run *after* potential stop-loss triggers
-                 // so we don't try to settle an option that was just stop-loss sold.
-                 // We re-fetch the portfolio state from the ref inside settleExpiredOptions
-                 // if stop-losses were triggered, otherwise use tempPortfolio.
-
-                 // IMPORTANT: If stop losses were triggered, the portfolio state was potentially updated
-                 // inside triggerStopLossSell. We need to use the latest state from the ref.
-                const portfolioForSettlement = stopLossesToTrigger.length > 0 ? portfolioRef.current : tempPortfolio;
-                const transactionsForSettlement = stopLossesToTrigger.length > 0 ? transactionsRef.current : newTransactions;
-
-
-                const { updatedPortfolio: settledPortfolio, updatedTransactions: settledTransactions, changed: settledChanged } = settleExpiredOptions(
-                    portfolioForSettlement,
-                    transactionsForSettlement, // Use potentially updated transactions
-                    quotes
-                );
-
-                // If stop losses triggered, the portfolio/transactions were already saved.
-                // If only settlement happened, update temp vars.
-                if (stopLossesToTrigger.length === 0) {
-                     tempPortfolio = settledPortfolio;
-                     newTransactions = settledTransactions;
-                     changed = changed || settledChanged; // Update 'changed' based on settlement
-                 } else if (settledChanged) {
-                     // If both stop losses AND settlement happened, we need to save the settled state again.
-                     await saveData(settledPortfolio, settledTransactions);
-                     changed = false; // Mark as saved
-                 }
-
-
-                 // --- Save Data if changes occurred (and not already saved by SL) ---
-                if (changed) {
-                    await saveData(tempPortfolio, newTransactions);
-                }
-
+                    }),
+                }));
             } catch (error) {
-                console.error("[UPDATE ALL PRICES - FAIL] Failed to update prices or run alerts:", error);
+                console.error("[UPDATE ALL PRICES - FAIL] Failed to update prices:", error);
             }
         };
 
-        // ... (rest of the visibility change and interval logic remains the same) ...
         if (document.visibilityState === 'visible') {
             updateAllPrices();
         }
@@ -532,96 +545,127 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             document.removeEventListener('visibilitychange', handleVisibilityChange);
         };
     // FIX: Add isLoading to dependency array to re-trigger this effect after initial load.
-    }, [user, isLoading, showNotification, saveData, triggerStopLossSell]);
+    }, [user, isLoading]);
 
 
-    const buyStock = useCallback(async (ticker: string, name: string, shares: number, price: number) => {
-        if (!user) { alert("You must be logged in to trade."); return; }
+    // Outside the regular session a stock or option market order can wait in the book for the next open instead
+    const queueMarketOrder = async (
+        request: Pick<PendingOrder, 'ticker' | 'name' | 'side' | 'shares' | 'assetType' | 'optionSymbol' | 'option' | 'lotSelection'> & { referencePrice: number },
+        closedMessage: string
+    ) => {
+        if (!window.confirm(`${closedMessage} Queue this order to fill at market when it opens?`)) return;
+
         const currentPortfolio = portfolioRef.current;
-        const cost = shares * price;
-        if (currentPortfolio.cash < cost) {
-            alert("Not enough cash to complete purchase.");
-            return;
+        const currentOrders = pendingOrdersRef.current;
+        const isOption = request.assetType === 'option';
+        const instrument = isOption ? request.optionSymbol || '' : request.ticker;
+        if (request.side === 'BUY') {
+            const availableCash = getBuyingPower(currentPortfolio, !isOption) - getReservedCashForOrders(currentOrders);
+            if (availableCash < request.shares * request.referencePrice * (isOption ? getContractMultiplier(request.option || {}) : 1)) {
+                alert("Not enough cash to cover this order and your other open buy orders.");
+                return;
+            }
+        } else {
+            const owned = isOption
+                ? currentPortfolio.optionHoldings.find(o => o.symbol === instrument && !isShortOption(o))?.shares || 0
+                : currentPortfolio.holdings.find(h => h.ticker === instrument)?.shares || 0;
+            if (owned - getCommittedSellQuantity(currentOrders, instrument) < request.shares) {
+                alert("You don't own enough uncommitted shares/contracts for this order.");
+                return;
+            }
         }
 
-        const newTransaction: Transaction = {
-            id: nanoid(), type: 'BUY', ticker, shares, price, totalAmount: cost, timestamp: Date.now(),
+        // Drop optional fields rather than storing undefined
+        const order: PendingOrder = {
+            id: nanoid(),
+            ticker: request.ticker,
+            name: request.name,
+            side: request.side,
+            orderType: 'MARKET',
+            shares: request.shares,
+            referencePrice: request.referencePrice,
+            timeInForce: 'DAY',
+            createdAt: Date.now(),
+            assetType: request.assetType,
+            ...(request.optionSymbol ? { optionSymbol: request.optionSymbol } : {}),
+            ...(request.option ? { option: request.option } : {}),
+            ...(request.lotSelection ? { lotSelection: request.lotSelection } : {}),
         };
-        const newTransactions = [...transactionsRef.current, newTransaction];
-
-        const newHoldings = [...currentPortfolio.holdings];
-        const existingHoldingIndex = newHoldings.findIndex(h => h.ticker === ticker);
-        if (existingHoldingIndex > -1) {
-            const existing = newHoldings[existingHoldingIndex];
-            const totalShares = existing.shares + shares;
-            const totalCost = (existing.shares * existing.purchasePrice) + cost;
-            newHoldings[existingHoldingIndex] = { ...existing, shares: totalShares, purchasePrice: totalCost / totalShares, currentPrice: price };
-        } else {
-            // FIX: Initialize change and changesPercentage for new holdings
-            newHoldings.push({ ticker, name, shares, purchasePrice: price, currentPrice: price, change: 0, changesPercentage: 0 });
-        }
-        
-        const newPortfolio: Portfolio = { ...currentPortfolio, cash: currentPortfolio.cash - cost, holdings: newHoldings };
-        await saveData(newPortfolio, newTransactions);
-    }, [user, saveData]);
+        if (!await placeOrders(describeOrder(order), [order])) return;
+        showNotification({
+            sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
+            text: `${describeOrder(order)} queued for the open (${formatMarketTime(getMarketStatus().nextOpen)}).`,
+            ticker: request.ticker
+        });
+    };
 
-    const sellStock = useCallback(async (ticker: string, shares: number, price: number) => {
+    const buyStock = useCallback(async (ticker: string, name: string, shares: number, price: number, exits?: StockExitLevels, avgVolume?: number) => {
         if (!user) { alert("You must be logged in to trade."); return; }
-        const currentPortfolio = portfolioRef.current;
-        const existingHolding = currentPortfolio.holdings.find(h => h.ticker === ticker);
-        if (!existingHolding || existingHolding.shares < shares) {
-            alert("You don't own enough shares to sell.");
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) {
+            if (exits) {
+                alert(`${closedMessage} Use a bracket order to queue an entry with exits.`);
+                return;
+            }
+            await queueMarketOrder({ ticker, name, side: 'BUY', shares, referencePrice: price, assetType: 'stock' }, closedMessage);
             return;
         }
-
-        const proceeds = shares * price;
-        const realizedPnl = (price - existingHolding.purchasePrice) * shares;
-
-        const newTransaction: Transaction = {
-            id: nanoid(), type: 'SELL', ticker, shares, price, totalAmount: proceeds, timestamp: Date.now(), purchasePrice: existingHolding.purchasePrice, realizedPnl,
-        };
-        const newTransactions = [...transactionsRef.current, newTransaction];
-
-        let newHoldings = [...currentPortfolio.holdings];
-        if (existingHolding.shares === shares) {
-            newHoldings = newHoldings.filter(h => h.ticker !== ticker);
-        } else {
-            const holdingIndex = newHoldings.findIndex(h => h.ticker === ticker);
-            newHoldings[holdingIndex] = { ...existingHolding, shares: existingHolding.shares - shares };
+        try {
+            // Market buys fill on the server, which prices them from its own quote and writes the portfolio
+            const { reevaluated } = await executeServerTrade(user, {
+                portfolioId: activePortfolio,
+                version: getPortfolioVersion(portfolioRef.current),
+                side: 'BUY',
+                ticker,
+                shares,
+                name,
+                ...(exits ? { exits } : {}),
+            });
+            if (reevaluated) notifyReevaluated(`Purchase of ${shares} ${ticker}`);
+        } catch (error) {
+            alert((error as Error).message);
         }
+    }, [user, activePortfolio, notifyReevaluated]);
 
-        const newPortfolio: Portfolio = { ...currentPortfolio, cash: currentPortfolio.cash + proceeds, holdings: newHoldings };
-        await saveData(newPortfolio, newTransactions);
-    }, [user, saveData]);
+    const sellStock = useCallback(async (ticker: string, shares: number, price: number, avgVolume?: number, lotSelection?: LotSelection) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) {
+            const name = portfolioRef.current.holdings.find(h => h.ticker === ticker)?.name || ticker;
+            await queueMarketOrder({ ticker, name, side: 'SELL', shares, referencePrice: price, assetType: 'stock', ...(lotSelection ? { lotSelection } : {}) }, closedMessage);
+            return;
+        }
+        try {
+            const { reevaluated } = await executeServerTrade(user, {
+                portfolioId: activePortfolio,
+                version: getPortfolioVersion(portfolioRef.current),
+                side: 'SELL',
+                ticker,
+                shares,
+                ...(lotSelection ? { lotSelection } : {}),
+            });
+            if (reevaluated) notifyReevaluated(`Sale of ${shares} ${ticker}`);
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, activePortfolio, notifyReevaluated]);
 
     const sellOption = useCallback(async (symbol: string, shares: number, price: number) => {
         if (!user) { alert("You must be logged in to trade."); return; }
-        const currentPortfolio = portfolioRef.current;
-        const existingOption = currentPortfolio.optionHoldings.find(o => o.symbol === symbol);
-        if (!existingOption || existingOption.shares < shares) {
-            alert("You don't own enough contracts to sell.");
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) {
+            const holding = portfolioRef.current.optionHoldings.find(o => o.symbol === symbol);
+            const ticker = holding?.underlyingTicker || symbol;
+            await queueMarketOrder({ ticker, name: ticker, side: 'SELL', shares, referencePrice: price, assetType: 'option', optionSymbol: symbol }, closedMessage);
             return;
         }
-
-        const proceeds = shares * price * 100;
-        const realizedPnl = (price - existingOption.purchasePrice) * shares * 100;
-
-        const newTransaction: Transaction = {
-            id: nanoid(), type: 'OPTION_SELL', ticker: existingOption.underlyingTicker, shares, price, totalAmount: proceeds, timestamp: Date.now(), purchasePrice: existingOption.purchasePrice, realizedPnl, optionSymbol: existingOption.symbol, optionType: existingOption.optionType, strikePrice: existingOption.strikePrice,
-        };
-        const newTransactions = [...transactionsRef.current, newTransaction];
-        
-        let newOptionHoldings = [...currentPortfolio.optionHoldings];
-        if (existingOption.shares === shares) {
-            newOptionHoldings = newOptionHoldings.filter(o => o.symbol !== symbol);
-        } else {
-            const optionIndex = newOptionHoldings.findIndex(o => o.symbol === symbol);
-            newOptionHoldings[optionIndex] = { ...existingOption, shares: existingOption.shares - shares };
+        try {
+            // Fills at the server's quote for the contract
+            await updatePortfolio(`Sale of ${shares} ${symbol}`, { type: 'OPTION_SELL', symbol, contracts: shares });
+        } catch (error) {
+            alert((error as Error).message);
         }
-
-        const newPortfolio: Portfolio = { ...currentPortfolio, cash: currentPortfolio.cash + proceeds, optionHoldings: newOptionHoldings };
-        await saveData(newPortfolio, newTransactions);
-    }, [user, saveData]);
+    }, [user, updatePortfolio]);
 
     const sellAllStock = useCallback(async (ticker: string) => {
         if (!user) {
@@ -639,64 +683,247 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         alert(`Successfully submitted order to sell all ${existingHolding.shares.toFixed(4)} shares of ${ticker}.`);
     }, [user, sellStock]);
 
-    const buyOption = useCallback(async (option: OptionHolding, stopLossPrice?: number | null) => {
+    const shortStock = useCallback(async (ticker: string, name: string, shares: number, price: number, avgVolume?: number) => {
         if (!user) { alert("You must be logged in to trade."); return; }
-        const currentPortfolio = portfolioRef.current;
-        const cost = option.shares * option.purchasePrice * 100;
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) { alert(closedMessage); return; }
+        try {
+            await updatePortfolio(`Short sale of ${shares} ${ticker}`, { type: 'SHORT_SELL', ticker, name, shares });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
+
+    const coverShort = useCallback(async (ticker: string, shares: number, price: number, avgVolume?: number) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) { alert(closedMessage); return; }
+        try {
+            await updatePortfolio(`Buy to cover of ${shares} ${ticker}`, { type: 'BUY_TO_COVER', ticker, shares });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
 
-        if (currentPortfolio.cash < cost) {
-            alert("Not enough cash to buy option contract(s).");
+    // Settings are stored on the portfolio document, so they're saved by the server too
+    const changeSetting = useCallback(async (label: string, action: PortfolioAction) => {
+        try {
+            await updatePortfolio(label, action);
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [updatePortfolio]);
+
+    const setMarginEnabled = useCallback(async (enabled: boolean) => {
+        if (!user) return;
+        if (!enabled && !portfolioRef.current.margin) return;
+        await changeSetting(enabled ? 'Turning on margin' : 'Turning off margin', { type: 'SET_MARGIN', enabled });
+    }, [user, changeSetting]);
+
+    const setFeeSettings = useCallback(async (fees: FeeSettings) => {
+        if (!user) return;
+        if (fees.preset === 'custom') {
+            const error = fees.custom ? validateFeeSchedule(fees.custom) : "Please enter a custom fee schedule.";
+            if (error) {
+                alert(error);
+                return;
+            }
+        }
+        await changeSetting('Fee setting change', { type: 'SET_FEES', fees });
+    }, [user, changeSetting]);
+
+    const setDividendReinvestment = useCallback(async (ticker: string, enabled: boolean) => {
+        if (!user) return;
+        await changeSetting(`Dividend reinvestment change for ${ticker}`, { type: 'SET_DRIP', ticker, enabled });
+    }, [user, changeSetting]);
+
+    const setLotReliefMethod = useCallback(async (method: Exclude<LotReliefMethod, 'SPECIFIC'>) => {
+        if (!user) return;
+        await changeSetting('Lot relief method change', { type: 'SET_LOT_RELIEF', method });
+    }, [user, changeSetting]);
+
+    const updatePortfoliosInDb = async (portfolios: PortfolioCollection) => {
+        if (!user) return;
+        await setDoc(doc(db, 'users', user.uid, 'data', 'portfolios'), { portfolios });
+    };
+
+    const createPortfolio = useCallback(async (name: string, startingCash: number) => {
+        if (!user) return;
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            alert('Please enter a name for the portfolio.');
+            return;
+        }
+        if (allPortfolios.filter(p => !p.archived).length >= MAX_PORTFOLIOS) {
+            alert(`You can only have ${MAX_PORTFOLIOS} open portfolios. Archive one to make room.`);
+            return;
+        }
+        if (allPortfolios.some(p => p.name === trimmedName)) {
+            alert('A portfolio with this name already exists.');
+            return;
+        }
+        if (!Number.isFinite(startingCash) || startingCash <= 0) {
+            alert('Starting cash must be greater than zero.');
             return;
         }
 
-        // Add stopLossPrice to the transaction log? Maybe not necessary here, but keep in holding.
-        const newTransaction: Transaction = {
-            id: nanoid(), type: 'OPTION_BUY', ticker: option.underlyingTicker, shares: option.shares, price: option.purchasePrice, totalAmount: cost, timestamp: Date.now(), optionSymbol: option.symbol, optionType: option.optionType, strikePrice: option.strikePrice,
-        };
-        const newTransactions = [...transactionsRef.current, newTransaction];
+        const id = nanoid(10);
+        const docIds = getPortfolioDocIds(id);
+        // Create the new portfolio's documents and list it in one write, so it never shows up half made
+        const batch = writeBatch(db);
+        batch.set(doc(db, 'users', user.uid, 'data', docIds.portfolio), createEmptyPortfolio(startingCash));
+        batch.set(doc(db, 'users', user.uid, 'data', docIds.orders), { orders: [] });
+        batch.set(doc(db, 'users', user.uid, 'data', 'portfolios'), {
+            portfolios: [...allPortfolios, { id, name: trimmedName, createdAt: Date.now() }],
+        });
+        try {
+            await batch.commit();
+            console.log(`[DEBUG] Created portfolio ${trimmedName} (${id}) with ${formatCurrency(startingCash)}.`);
+            setActivePortfolio(id); // Switch to the new portfolio
+        } catch (error) {
+            console.error("[DEBUG] createPortfolio failed:", error);
+            alert('Could not create the portfolio. Please try again.');
+        }
+    }, [user, allPortfolios]);
 
-        const newOptionHoldings = [...currentPortfolio.optionHoldings];
-        const existingOptionIndex = newOptionHoldings.findIndex(o => o.symbol === option.symbol);
+    const renamePortfolio = useCallback(async (portfolioId: string, newName: string) => {
+        const trimmedName = newName.trim();
+        if (!user || !trimmedName) return;
+        if (allPortfolios.some(p => p.name === trimmedName && p.id !== portfolioId)) {
+            alert('A portfolio with this name already exists.');
+            return;
+        }
+        await updatePortfoliosInDb(allPortfolios.map(p => p.id === portfolioId ? { ...p, name: trimmedName } : p));
+    }, [user, allPortfolios]);
 
-        // Include stopLossPrice when adding/updating the holding
-        const optionWithStopLoss = {
-            ...option,
-            stopLossPrice: stopLossPrice === undefined ? null : stopLossPrice // Set null if not provided
-        };
+    // Archiving hides a portfolio from the switcher; its documents are kept
+    const archivePortfolio = useCallback(async (portfolioId: string) => {
+        if (!user) return;
+        const openPortfolios = allPortfolios.filter(p => !p.archived && p.id !== portfolioId);
+        if (openPortfolios.length === 0) {
+            alert('You must have at least one open portfolio.');
+            return;
+        }
+        if (activePortfolio === portfolioId) {
+            setActivePortfolio(openPortfolios[0].id);
+        }
+        await updatePortfoliosInDb(allPortfolios.map(p => p.id === portfolioId ? { ...p, archived: true } : p));
+    }, [user, allPortfolios, activePortfolio]);
 
-        if (existingOptionIndex > -1) {
-            const existing = newOptionHoldings[existingOptionIndex];
-            const totalContracts = existing.shares + optionWithStopLoss.shares;
-            const totalCost = (existing.shares * existing.purchasePrice * 100) + cost;
-            const newAveragePrice = (totalCost / totalContracts) / 100;
-
-             // When averaging, preserve the *newly entered* stop loss if provided,
-             // otherwise keep the existing one (or null if none existed).
-            const finalStopLoss = stopLossPrice !== undefined ? stopLossPrice : existing.stopLossPrice;
-
-
-            newOptionHoldings[existingOptionIndex] = {
-                ...existing,
-                shares: totalContracts,
-                purchasePrice: newAveragePrice,
-                currentPrice: optionWithStopLoss.currentPrice, // Update with latest market data
-                delta: optionWithStopLoss.delta,
-                gamma: optionWithStopLoss.gamma,
-                theta: optionWithStopLoss.theta,
-                vega: optionWithStopLoss.vega,
-                impliedVolatility: optionWithStopLoss.impliedVolatility,
-                open_interest: optionWithStopLoss.open_interest,
-                volume: optionWithStopLoss.volume,
-                stopLossPrice: finalStopLoss, // Preserve/update stop loss
-            };
-        } else {
-            newOptionHoldings.push(optionWithStopLoss);
+    const restorePortfolio = useCallback(async (portfolioId: string) => {
+        if (!user) return;
+        if (allPortfolios.filter(p => !p.archived).length >= MAX_PORTFOLIOS) {
+            alert(`You can only have ${MAX_PORTFOLIOS} open portfolios. Archive one to make room.`);
+            return;
+        }
+        // Rewrite the entry without the flag rather than storing archived: false
+        await updatePortfoliosInDb(allPortfolios.map(p => {
+            if (p.id !== portfolioId) return p;
+            const { archived, ...restored } = p;
+            return restored;
+        }));
+    }, [user, allPortfolios]);
+
+    const buyOption = useCallback(async (option: OptionHolding, stopLossPrice?: number | null, trailingStop?: TrailingStopSettings | null) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) {
+            if ((stopLossPrice !== undefined && stopLossPrice !== null) || trailingStop) {
+                alert(`${closedMessage} Use a bracket order to queue an entry with exits.`);
+                return;
+            }
+            await queueMarketOrder({
+                ticker: option.underlyingTicker, name: option.underlyingTicker, side: 'BUY', shares: option.shares, referencePrice: option.purchasePrice,
+                assetType: 'option', optionSymbol: option.symbol, option,
+            }, closedMessage);
+            return;
+        }
+        try {
+            // When averaging into a position, newly entered stops replace the existing ones; omitted ones are kept
+            await updatePortfolio(`Purchase of ${option.shares} ${option.symbol}`, {
+                type: 'OPTION_BUY', option, contracts: option.shares,
+                ...(stopLossPrice !== undefined ? { stopLossPrice } : {}),
+                ...(trailingStop !== undefined ? { trailingStop } : {}),
+            });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
+
+    const sellOptionToOpen = useCallback(async (option: OptionHolding) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) { alert(closedMessage); return; }
+        try {
+            await updatePortfolio(`Sale to open of ${option.shares} ${option.symbol}`, { type: 'OPTION_SELL_TO_OPEN', option, contracts: option.shares });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
+
+    const buyToCloseOption = useCallback(async (symbol: string, contracts: number, price: number) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) { alert(closedMessage); return; }
+        try {
+            await updatePortfolio(`Buy to close of ${contracts} ${symbol}`, { type: 'OPTION_BUY_TO_CLOSE', symbol, contracts });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
+
+    // Early exercise of a long (American-style) contract into shares at the strike
+    const exerciseOption = useCallback(async (symbol: string, contracts: number) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const option = portfolioRef.current.optionHoldings.find(o => o.symbol === symbol);
+        if (!option) {
+            alert("Option contract not found in portfolio.");
+            return;
+        }
+        if (isShortOption(option)) {
+            alert("Written contracts can't be exercised by you; they may be assigned at expiration.");
+            return;
+        }
+        if (!Number.isInteger(contracts) || contracts <= 0 || contracts > option.shares) {
+            alert(`Please enter a whole number of contracts, up to ${option.shares}.`);
+            return;
         }
 
-        const newPortfolio: Portfolio = { ...currentPortfolio, cash: currentPortfolio.cash - cost, optionHoldings: newOptionHoldings };
+        let stockPrice = 0;
+        try {
+            const [quote] = await fmpService.getQuote(option.underlyingTicker);
+            stockPrice = quote?.price || 0;
+        } catch (error) {
+            console.error(`[EXERCISE] Failed to fetch a quote for ${option.underlyingTicker}:`, error);
+        }
+        if (!(stockPrice > 0)) {
+            alert(`Could not get a price for ${option.underlyingTicker}. Please try again.`);
+            return;
+        }
+
+        const intrinsic = option.optionType === 'call' ? Math.max(0, stockPrice - option.strikePrice) : Math.max(0, option.strikePrice - stockPrice);
+        const timeValue = calculateTimeValue(option.optionType, stockPrice, option.strikePrice, option.expirationDate, option.impliedVolatility, option.currentPrice);
+        console.log(`[DEBUG] exerciseOption: ${symbol} x${contracts}, stock ${stockPrice.toFixed(2)}, intrinsic ${intrinsic.toFixed(2)}, time value ${timeValue.toFixed(2)}`);
 
-        await saveData(newPortfolio, newTransactions);
-    }, [user, saveData]);
+        if (intrinsic <= 0 && !window.confirm(`This ${option.optionType} is out of the money (${option.underlyingTicker} at ${formatCurrency(stockPrice)}, strike ${formatCurrency(option.strikePrice)}). Exercising it costs more than trading the shares directly. Exercise anyway?`)) {
+            return;
+        }
+        // Exercising gives up whatever the market would still pay above intrinsic value
+        if (timeValue >= 0.01 && !window.confirm(`Exercising forfeits about ${formatCurrency(timeValue * contracts * getContractMultiplier(option))} of remaining time value. Selling the contracts would keep it. Exercise anyway?`)) {
+            return;
+        }
+
+        try {
+            await updatePortfolio(`Exercise of ${contracts} ${symbol}`, { type: 'EXERCISE', symbol, contracts });
+            showNotification({
+                sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
+                text: `Exercised ${contracts} ${option.underlyingTicker} ${option.optionType} contract(s): ${option.optionType === 'call' ? 'bought' : 'sold'} ${contracts * getContractMultiplier(option)} shares at ${formatCurrency(option.strikePrice)}`,
+                ticker: option.underlyingTicker
+            });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio, showNotification]);
 
     const manualSellOption = useCallback(async (symbol: string) => {
         const existingOption = portfolioRef.current.optionHoldings.find(o => o.symbol === symbol);
@@ -704,62 +931,516 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             alert("Option contract not found in portfolio.");
             return;
         }
+        // Closing a written contract means buying it back
+        if (isShortOption(existingOption)) {
+            await buyToCloseOption(symbol, existingOption.shares, existingOption.currentPrice);
+            return;
+        }
         await sellOption(symbol, existingOption.shares, existingOption.currentPrice);
-    }, [sellOption]);
+    }, [sellOption, buyToCloseOption]);
 
     const updateOptionStopLoss = useCallback(async (symbol: string, newStopLossPrice: number | null) => {
         if (!user) return;
+        const option = portfolioRef.current.optionHoldings.find(o => o.symbol === symbol);
+        if (!option || (option.stopLossPrice ?? null) === newStopLossPrice) {
+            console.log(`No change detected for stop loss on ${symbol}.`);
+            return;
+        }
+        console.log(`Updating stop loss for ${symbol} to: ${newStopLossPrice !== null ? formatCurrency(newStopLossPrice) : 'None'}`);
+        await changeSetting(`Stop loss update for ${symbol}`, { type: 'SET_OPTION_STOP_LOSS', symbol, stopLossPrice: newStopLossPrice });
+    }, [user, changeSetting]);
+
+    const placeLimitOrder = useCallback(async (request: LimitOrderRequest, currentPrice?: number) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        if (!(request.shares > 0) || !(request.limitPrice > 0)) {
+            alert("Please enter a valid quantity and limit price.");
+            return;
+        }
+
+        const currentOrders = pendingOrdersRef.current;
+        const order: PendingOrder = {
+            id: nanoid(),
+            ticker: request.ticker,
+            name: request.name,
+            side: request.side,
+            orderType: 'LIMIT',
+            shares: request.shares,
+            limitPrice: request.limitPrice,
+            timeInForce: request.timeInForce,
+            createdAt: Date.now(),
+        };
+
         const currentPortfolio = portfolioRef.current;
-        const newOptionHoldings = currentPortfolio.optionHoldings.map(o => {
-            if (o.symbol === symbol) {
-                console.log(`Updating stop loss for ${symbol} to: ${newStopLossPrice !== null ? formatCurrency(newStopLossPrice) : 'None'}`);
-                return { ...o, stopLossPrice: newStopLossPrice };
+        if (order.side === 'BUY') {
+            const availableCash = getBuyingPower(currentPortfolio, true) - getReservedCashForOrders(currentOrders);
+            if (availableCash < order.shares * request.limitPrice) {
+                alert("Not enough cash to cover this order and your other open buy orders.");
+                return;
             }
-            return o;
-        });
+        } else {
+            const owned = currentPortfolio.holdings.find(h => h.ticker === order.ticker)?.shares || 0;
+            const committed = getCommittedSellQuantity(currentOrders, order.ticker);
+            if (owned - committed < order.shares) {
+                alert("You don't own enough uncommitted shares for this sell order.");
+                return;
+            }
+        }
+
+        if (!await placeOrders(describeOrder(order), [order])) return;
+        // A limit that is already marketable is filled by the server right away, at its market fill price.
+        // While the market is closed it rests until the open.
+        if (currentPrice !== undefined && isMarketOpen() && isOrderMarketable(order, currentPrice)) {
+            await evaluateOrders();
+        }
+    }, [user, placeOrders, evaluateOrders]);
+
+    const placeBracketOrder = useCallback(async (request: BracketOrderRequest, currentPrice: number) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const { assetType, entryType, takeProfitPrice, stopPrice } = request;
+        if (!(request.shares > 0)) {
+            alert("Please enter a valid quantity.");
+            return;
+        }
+        if (assetType === 'option' && !request.option) {
+            alert("Please select an option contract.");
+            return;
+        }
+        if (takeProfitPrice === undefined && stopPrice === undefined) {
+            alert("Please enter a take-profit and/or stop price for the exit legs.");
+            return;
+        }
+        if (entryType === 'LIMIT' && !(request.entryLimitPrice && request.entryLimitPrice > 0)) {
+            alert("Please enter a valid entry limit price.");
+            return;
+        }
 
-        if (JSON.stringify(newOptionHoldings) !== JSON.stringify(currentPortfolio.optionHoldings)) {
-             const newPortfolio: Portfolio = { ...currentPortfolio, optionHoldings: newOptionHoldings };
-             // No new transaction is needed for just updating the stop loss
-             await saveData(newPortfolio, transactionsRef.current);
+        // Exit levels are checked against where the position will be opened
+        const referencePrice = entryType === 'LIMIT' ? request.entryLimitPrice as number : currentPrice;
+        if (takeProfitPrice !== undefined && takeProfitPrice <= referencePrice) {
+            alert(`Take-profit must be above ${formatCurrency(referencePrice)}.`);
+            return;
+        }
+        if (stopPrice !== undefined && (stopPrice >= referencePrice || stopPrice <= 0)) {
+            alert(`Stop must be between $0 and ${formatCurrency(referencePrice)}.`);
+            return;
+        }
+
+        const currentOrders = pendingOrdersRef.current;
+        const currentPortfolio = portfolioRef.current;
+        const groupId = nanoid();
+        const createdAt = Date.now();
+        const instrument = {
+            ticker: request.ticker,
+            name: request.name,
+            assetType,
+            ...(assetType === 'option' && request.option ? { optionSymbol: request.option.symbol, option: request.option } : {}),
+        };
+        const instrumentKey = assetType === 'option' ? request.option?.symbol || '' : request.ticker;
+
+        let entryOrder: PendingOrder | null = null;
+        if (entryType) {
+            // A market entry fills at the server's price; outside the regular session it's queued for the open
+            entryOrder = {
+                id: nanoid(), ...instrument, side: 'BUY', shares: request.shares,
+                ...(entryType === 'MARKET'
+                    ? { orderType: 'MARKET' as const, referencePrice: currentPrice }
+                    : { orderType: 'LIMIT' as const, limitPrice: request.entryLimitPrice as number }),
+                timeInForce: request.timeInForce, createdAt, groupId, role: 'ENTRY',
+            };
+            const multiplier = assetType === 'option' ? getContractMultiplier(request.option || {}) : 1;
+            const availableCash = getBuyingPower(currentPortfolio, assetType === 'stock') - getReservedCashForOrders(currentOrders);
+            if (availableCash < entryOrder.shares * getOrderPrice(entryOrder) * multiplier) {
+                alert("Not enough cash to cover this order and your other open buy orders.");
+                return;
+            }
         } else {
-             console.log(`No change detected for stop loss on ${symbol}.`);
+            // OCO exit pair on a position the user already holds
+            const owned = assetType === 'option'
+                ? currentPortfolio.optionHoldings.find(o => o.symbol === instrumentKey && !isShortOption(o))?.shares || 0
+                : currentPortfolio.holdings.find(h => h.ticker === instrumentKey)?.shares || 0;
+            if (owned - getCommittedSellQuantity(currentOrders, instrumentKey) < request.shares) {
+                alert("You don't own enough uncommitted shares/contracts for these exit orders.");
+                return;
+            }
+        }
+
+        // The exit legs stay dormant until the entry fills
+        const legBase = {
+            ...instrument, side: 'SELL' as const, shares: request.shares, timeInForce: request.timeInForce, createdAt, groupId,
+            ...(entryOrder ? { parentOrderId: entryOrder.id } : {}),
+        };
+        const legs: PendingOrder[] = [];
+        if (takeProfitPrice !== undefined) {
+            legs.push({ id: nanoid(), ...legBase, orderType: 'LIMIT', limitPrice: takeProfitPrice, role: 'TAKE_PROFIT' });
+        }
+        if (stopPrice !== undefined) {
+            legs.push({ id: nanoid(), ...legBase, orderType: 'STOP', stopPrice, role: 'STOP_LOSS' });
+        }
+
+        const newOrders = [...(entryOrder ? [entryOrder] : []), ...legs];
+        if (!await placeOrders('Bracket order', newOrders)) return;
+        // An entry that can fill now is filled right away, so its exit legs go live immediately
+        if (entryOrder && isMarketOpen() && isOrderMarketable(entryOrder, currentPrice)) {
+            await evaluateOrders();
+        }
+    }, [user, placeOrders, evaluateOrders]);
+
+    const cancelOrder = useCallback(async (orderId: string) => {
+        if (!user) return;
+        const currentOrders = pendingOrdersRef.current;
+        if (!currentOrders.some(o => o.id === orderId)) {
+            alert("Order not found. It may already have been filled or expired.");
+            return;
+        }
+        try {
+            // Cancelling a bracket entry also drops its dormant exit legs
+            await updatePortfolio('Order cancellation', { type: 'CANCEL_ORDER', orderId });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
+
+    // Fetches fresh chains for every expiration the legs trade in, so all legs are priced together
+    const fetchLegContracts = async (ticker: string, expirations: string[]): Promise<AlpacaOptionContract[]> => {
+        const results = await Promise.all([...new Set(expirations)].map(date => getOptionsChain(ticker, date)));
+        return results.flatMap(result => result.contracts);
+    };
+
+    const placeMultiLegOrder = useCallback(async (request: MultiLegOrderRequest, optionContracts?: AlpacaOptionContract[]) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const { orderType, netLimitPrice } = request;
+        if (orderType === 'LIMIT' && (netLimitPrice === undefined || !isFinite(netLimitPrice))) {
+            alert("Please enter a valid net limit price.");
+            return;
+        }
+
+        let prices: number[] | null;
+        try {
+            const contracts = optionContracts || await fetchLegContracts(request.ticker, request.legs.map(leg => leg.expirationDate));
+            prices = getLegPrices(request.legs, contracts);
+        } catch (error) {
+            alert((error as Error).message);
+            return;
+        }
+        if (!prices) {
+            alert("Could not get a current quote for every leg of this strategy. Please try again.");
+            return;
+        }
+
+        const order = { ticker: request.ticker, name: request.name, legs: request.legs, quantity: request.quantity };
+        const netPrice = getNetPrice(request.legs, prices);
+        console.log(`[DEBUG] placeMultiLegOrder: ${request.name} x${request.quantity} on ${request.ticker}, market net ${netPrice.toFixed(2)}, limit ${netLimitPrice ?? 'none'}`);
+
+        // Multi-leg market orders aren't queued; a limit rests in the book until the open
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage && orderType === 'MARKET') {
+            alert(`${closedMessage} Place a net limit order to have it work from the open.`);
+            return;
+        }
+
+        // A market order fills every leg in one write, at the server's quotes
+        if (orderType === 'MARKET') {
+            try {
+                const { transactions: legTransactions = [] } = await updatePortfolio(`${request.name} on ${request.ticker}`, { type: 'MULTI_LEG_OPEN', ...order });
+                const filledNetPrice = legTransactions[0]?.netPrice ?? netPrice;
+                showNotification({
+                    sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
+                    text: `${request.name} on ${request.ticker} filled x${request.quantity} @ ${formatNetPrice(filledNetPrice)}`,
+                    ticker: request.ticker
+                });
+            } catch (error) {
+                alert((error as Error).message);
+            }
+            return;
+        }
+
+        try {
+            validateMultiLegOrder(order, prices);
+        } catch (error) {
+            alert((error as Error).message);
+            return;
+        }
+        const currentOrders = pendingOrdersRef.current;
+        const required = getStrategyMaxLoss(request.legs, netLimitPrice as number) * request.quantity * 100;
+        if (getBuyingPower(portfolioRef.current, false) - getReservedCashForOrders(currentOrders) < required) {
+            alert("Not enough cash to cover this strategy's maximum loss and your other open buy orders.");
+            return;
+        }
+
+        const pendingOrder: PendingOrder = {
+            id: nanoid(),
+            ticker: request.ticker,
+            name: request.name,
+            side: 'BUY',
+            orderType: 'LIMIT',
+            shares: request.quantity,
+            limitPrice: netLimitPrice,
+            timeInForce: request.timeInForce,
+            createdAt: Date.now(),
+            assetType: 'strategy',
+            strategyLegs: request.legs,
+        };
+        if (!await placeOrders(`${request.name} limit order on ${request.ticker}`, [pendingOrder])) return;
+        // A limit that is already marketable is filled by the server right away
+        if (!closedMessage && netPrice <= (netLimitPrice as number)) {
+            await evaluateOrders();
+        }
+    }, [user, updatePortfolio, placeOrders, evaluateOrders, showNotification]);
+
+    const placeStrategyFromRecommendation = useCallback(async (rec: OptionsStrategyRec, quantity: number, netLimitPrice?: number) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        if (rec.suggestedContracts.length < 2) {
+            alert("This recommendation has a single contract. Open it from the Options tab of the stock page instead.");
+            return;
+        }
+
+        let contracts: AlpacaOptionContract[];
+        try {
+            contracts = await fetchLegContracts(rec.ticker, rec.suggestedContracts.map(c => c.expiry));
+        } catch (error) {
+            alert((error as Error).message);
+            return;
+        }
+
+        const legs = rec.suggestedContracts.map(suggestion => matchRecommendedLeg(contracts, suggestion));
+        const missing = rec.suggestedContracts.filter((_, i) => !legs[i]);
+        if (missing.length > 0) {
+            alert(`These suggested contracts aren't listed right now: ${missing.map(c => `${c.action} ${c.strike} ${c.type} ${c.expiry}`).join(', ')}`);
+            return;
         }
-    }, [user, saveData]);
+
+        await placeMultiLegOrder({
+            ticker: rec.ticker,
+            name: rec.strategyName,
+            legs: legs as StrategyLegSpec[],
+            quantity,
+            orderType: netLimitPrice === undefined ? 'MARKET' : 'LIMIT',
+            ...(netLimitPrice !== undefined ? { netLimitPrice } : {}),
+            timeInForce: 'DAY',
+        }, contracts);
+    }, [user, placeMultiLegOrder]);
+
+    const closeStrategyPosition = useCallback(async (positionId: string) => {
+        if (!user) { alert("You must be logged in to trade."); return; }
+        const position = portfolioRef.current.strategyPositions.find(p => p.id === positionId);
+        if (!position) {
+            alert("Strategy position not found in portfolio.");
+            return;
+        }
+        const closedMessage = getMarketClosedMessage();
+        if (closedMessage) { alert(closedMessage); return; }
+        try {
+            // Every leg closes at the server's current quotes
+            await updatePortfolio(`Closing ${position.name} on ${position.underlyingTicker}`, { type: 'STRATEGY_CLOSE', positionId });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
+
+    // Exit levels are checked against the server's current price, and a new trail starts tracking from it
+    const updateStockExits = useCallback(async (ticker: string, exits: StockExitLevels) => {
+        if (!user) return;
+        if (!portfolioRef.current.holdings.some(h => h.ticker === ticker)) {
+            alert("You don't own any shares of this stock.");
+            return;
+        }
+        await changeSetting(`Exit level update for ${ticker}`, { type: 'SET_STOCK_EXITS', ticker, exits });
+    }, [user, changeSetting]);
+
+    const updateOptionTrailingStop = useCallback(async (symbol: string, trailingStop: TrailingStopSettings | null) => {
+        if (!user) return;
+        const option = portfolioRef.current.optionHoldings.find(o => o.symbol === symbol);
+        if (!option) return;
+        if (trailingStop && isShortOption(option)) {
+            alert("Trailing stops are only available on contracts you own.");
+            return;
+        }
+        await changeSetting(`Trailing stop update for ${symbol}`, { type: 'SET_OPTION_TRAILING_STOP', symbol, trailingStop });
+    }, [user, changeSetting]);
 
     const totalValue = useMemo(() => {
         const holdingsValue = portfolio.holdings.reduce((acc, h) => acc + (h.shares * h.currentPrice), 0);
-        const optionsValue = portfolio.optionHoldings.reduce((acc, o) => acc + (o.shares * o.currentPrice * 100), 0);
-        return portfolio.cash + holdingsValue + optionsValue;
+        // Written contracts count against the portfolio at the cost to buy them back
+        const optionsValue = portfolio.optionHoldings.reduce((acc, o) => acc + getOptionHoldingValue(o), 0);
+        // Short proceeds sit in cash, so the cost to buy the shares back is a liability
+        return portfolio.cash + holdingsValue + optionsValue + getStrategiesMarketValue(portfolio.strategyPositions) - getShortMarketValue(portfolio);
     }, [portfolio]);
 
+    // Simulated deposits and withdrawals move cash without counting as gains or losses
+    const transferCash = useCallback(async (type: 'DEPOSIT' | 'WITHDRAWAL', amount: number) => {
+        if (!user) return;
+        try {
+            const currentOrders = pendingOrdersRef.current;
+            // Cash set aside for open buy orders can't be withdrawn
+            const reserved = type === 'WITHDRAWAL' ? getReservedCashForOrders(currentOrders) : 0;
+            if (reserved > 0 && amount > portfolioRef.current.cash - reserved) {
+                alert(`${formatCurrency(reserved)} is reserved for open buy orders. Cancel them to withdraw more.`);
+                return;
+            }
+            await updatePortfolio(`${type === 'DEPOSIT' ? 'Deposit' : 'Withdrawal'} of ${formatCurrency(amount)}`, { type: 'TRANSFER', kind: type, amount });
+            console.log(`[DEBUG] ${type} of ${formatCurrency(amount)} recorded.`);
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, updatePortfolio]);
+
+    const depositCash = useCallback((amount: number) => transferCash('DEPOSIT', amount), [transferCash]);
+    const withdrawCash = useCallback((amount: number) => transferCash('WITHDRAWAL', amount), [transferCash]);
+
+    const loadRunTransactions = useCallback(async (): Promise<Transaction[]> => {
+        if (!user) return [];
+        return fetchRunTransactions(user.uid, getPortfolioDocIds(activePortfolio).portfolio, portfolioRef.current.startedAt ?? 0);
+    }, [user, activePortfolio]);
+
+    /**
+     * Replaces the snapshot's cash and positions with what the current run's transaction log adds up to
+     * (see the consistency report). The server rebuilds from the stored log.
+     */
+    const repairPortfolioFromLog = useCallback(async () => {
+        if (!user) return;
+        try {
+            const { cash } = await updatePortfolio('Portfolio repair', { type: 'REPAIR' });
+            console.log(`[DEBUG] Rebuilt portfolio ${activePortfolio} from its transaction log.`);
+            showNotification({
+                sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
+                text: `Portfolio rebuilt from your transaction log. Cash is now ${formatCurrency(cash ?? 0)}.`,
+            });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }, [user, activePortfolio, updatePortfolio, showNotification]);
+
+    /**
+     * Starts the active portfolio over: the server archives the current portfolio and open orders with
+     * the run's final stats, then restarts it with the given cash and no positions.
+     */
+    const resetPortfolio = useCallback(async (initialValue: number) => {
+        if (!user) return;
+        if (!Number.isFinite(initialValue) || initialValue <= 0) {
+            alert('Starting cash must be greater than zero.');
+            return;
+        }
+        try {
+            const { run } = await updatePortfolio('Portfolio reset', { type: 'RESET', initialValue });
+            if (!run) return;
+            console.log(`[DEBUG] Reset portfolio ${activePortfolio} to ${formatCurrency(initialValue)}; archived run ${run.id}.`);
+            showNotification({
+                sender: { uid: 'system', displayName: 'System Alert', email: '', photoURL: '', fontSize: 'medium' },
+                text: `Portfolio reset. Your previous run (${formatCurrency(run.finalValue)}, ${run.totalReturnPercent.toFixed(2)}%) was archived. Starting over with ${formatCurrency(initialValue)}.`,
+            });
+        } catch (error) {
+            console.error("[DEBUG] resetPortfolio failed:", error);
+            alert(`Could not reset the portfolio. Nothing was changed. ${(error as Error).message}`);
+        }
+    }, [user, activePortfolio, updatePortfolio, showNotification]);
+
+    const loadArchivedRun = useCallback(async (runId: string): Promise<ArchivedRunSnapshot | null> => {
+        if (!user) return null;
+        try {
+            const docSnap = await getDoc(doc(db, 'users', user.uid, 'data', `archive_${runId}`));
+            if (!docSnap.exists()) return null;
+            const data = docSnap.data() as Omit<ArchivedRunSnapshot, 'transactions'> & { transactions?: Transaction[] };
+            // Runs archived before the log moved to a subcollection carry their transactions with them
+            const transactions = data.transactions
+                ?? await fetchTransactionsInRange(user.uid, getPortfolioDocIds(data.run.portfolioId).portfolio, data.run.startedAt, data.run.endedAt);
+            return { ...data, transactions };
+        } catch (error) {
+            console.error("[DEBUG] loadArchivedRun failed:", error);
+            return null;
+        }
+    }, [user]);
+
     // OPTIMIZATION: Memoize the context value to prevent unnecessary re-renders of child components.
     const value = useMemo(() => ({
         portfolio,
         transactions,
+        cashFlows,
+        loadRunTransactions,
+        pendingOrders,
         buyStock,
         sellStock,
         sellAllStock,
+        shortStock,
+        coverShort,
+        setMarginEnabled,
+        setFeeSettings,
+        setDividendReinvestment,
+        setLotReliefMethod,
         buyOption,
         sellOption,
-        triggerStopLossSell, // Add the new function
+        sellOptionToOpen,
+        buyToCloseOption,
+        exerciseOption,
         manualSellOption,
         updateOptionStopLoss, // Add the new function
+        placeLimitOrder,
+        placeBracketOrder,
+        cancelOrder,
+        placeMultiLegOrder,
+        placeStrategyFromRecommendation,
+        closeStrategyPosition,
+        updateStockExits,
+        updateOptionTrailingStop,
         totalValue,
-        isLoading
+        isLoading,
+        allPortfolios,
+        activePortfolio,
+        setActivePortfolio,
+        createPortfolio,
+        renamePortfolio,
+        archivePortfolio,
+        restorePortfolio,
+        archivedRuns,
+        resetPortfolio,
+        depositCash,
+        withdrawCash,
+        repairPortfolioFromLog,
+        loadArchivedRun
     }), [
         portfolio,
         transactions,
+        cashFlows,
+        loadRunTransactions,
+        pendingOrders,
         buyStock,
         sellStock,
         sellAllStock,
+        shortStock,
+        coverShort,
+        setMarginEnabled,
+        setFeeSettings,
+        setDividendReinvestment,
+        setLotReliefMethod,
         buyOption,
         sellOption,
-        triggerStopLossSell, // Add dependency
+        sellOptionToOpen,
+        buyToCloseOption,
+        exerciseOption,
         manualSellOption,
         updateOptionStopLoss, // Add dependency
+        placeLimitOrder,
+        placeBracketOrder,
+        cancelOrder,
+        placeMultiLegOrder,
+        placeStrategyFromRecommendation,
+        closeStrategyPosition,
+        updateStockExits,
+        updateOptionTrailingStop,
         totalValue,
-        isLoading
+        isLoading,
+        allPortfolios,
+        activePortfolio,
+        setActivePortfolio,
+        createPortfolio,
+        renamePortfolio,
+        archivePortfolio,
+        restorePortfolio,
+        archivedRuns,
+        resetPortfolio,
+        depositCash,
+        withdrawCash,
+        repairPortfolioFromLog,
+        loadArchivedRun
     ]);
 
     return (
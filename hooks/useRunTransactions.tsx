@@ -0,0 +1,36 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Transaction } from '../types';
+import { usePortfolio } from './usePortfolio';
+
+// The whole current run's log, for pages that total or replay it. It's read once per visit;
+// trades made while the page is open arrive through the provider's live window and are merged in.
+export const useRunTransactions = () => {
+    const { portfolio, transactions, isLoading: isPortfolioLoading, activePortfolio, loadRunTransactions } = usePortfolio();
+    const [loaded, setLoaded] = useState<Transaction[] | null>(null);
+    const [loadFailed, setLoadFailed] = useState(false);
+    const since = portfolio.startedAt ?? 0;
+
+    useEffect(() => {
+        setLoaded(null);
+        setLoadFailed(false);
+        // Wait until the provider holds the active portfolio, so the read starts at its run
+        if (isPortfolioLoading) return;
+        let cancelled = false;
+        loadRunTransactions()
+            .then(result => { if (!cancelled) setLoaded(result); })
+            .catch(error => {
+                console.error('[DEBUG] useRunTransactions: Failed to load the transaction log:', error);
+                if (!cancelled) setLoadFailed(true);
+            });
+        return () => { cancelled = true; };
+    }, [isPortfolioLoading, activePortfolio, since, loadRunTransactions]);
+
+    const merged = useMemo(() => {
+        if (!loaded) return [];
+        const byId = new Map<string, Transaction>(loaded.map(t => [t.id, t]));
+        transactions.forEach(t => byId.set(t.id, t));
+        return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+    }, [loaded, transactions]);
+
+    return { transactions: merged, isLoading: loaded === null && !loadFailed, loadFailed };
+};
@@ -1,5 +1,6 @@
 // services/fmpService.ts
 import { FMP_BASE_URL } from '../constants';
+import type { FmpDividend, FmpStockSplit, FmpSymbolChange, FmpDelistedCompany } from '../types';
 // ... other imports ...
 
 const fetchFmp = async <T,>(endpoint: string): Promise<T> => {
@@ -123,4 +124,24 @@ export const getInsiderTrading = (ticker: string): Promise<FmpInsiderTrading[]>
 
 export const getGeneralNews = (limit: number = 10): Promise<FmpNews[]> => {
     return fetchFmp<FmpNews[]>(`/v3/stock_news?limit=${limit}`);
-}
\ No newline at end of file
+}
+
+// Ex-dates are under date; newest first
+export const getHistoricalDividends = (ticker: string): Promise<{ symbol?: string; historical?: FmpDividend[] }> => {
+    return fetchFmp<{ symbol?: string; historical?: FmpDividend[] }>(`/v3/historical-price-full/stock_dividend/${ticker}`);
+}
+
+// Split dates are under date; newest first
+export const getStockSplits = (ticker: string): Promise<{ symbol?: string; historical?: FmpStockSplit[] }> => {
+    return fetchFmp<{ symbol?: string; historical?: FmpStockSplit[] }>(`/v3/historical-price-full/stock_split/${ticker}`);
+}
+
+// Every listed symbol change, newest first
+export const getSymbolChanges = (): Promise<FmpSymbolChange[]> => {
+    return fetchFmp<FmpSymbolChange[]>(`/v4/symbol_change`);
+}
+
+// Most recent delistings first
+export const getDelistedCompanies = (page: number = 0): Promise<FmpDelistedCompany[]> => {
+    return fetchFmp<FmpDelistedCompany[]>(`/v3/delisted-companies?page=${page}`);
+}
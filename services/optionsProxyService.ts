@@ -165,6 +165,9 @@ export const getOptionsChain = async (symbol: string, date?: string): Promise<Op
                 strike_price: String(c.strike),
                 underlying_symbol: symbol.toUpperCase(),
                 close_price: closePrice,
+                // Keep the two-sided quote so market orders can fill at the bid/ask instead of the last trade
+                bid: c.bid > 0 ? c.bid : null,
+                ask: c.ask > 0 ? c.ask : null,
                 change: c.change || 0,
                 changesPercentage: c.percentChange || 0,
                 volume: c.volume || 0,
@@ -4,6 +4,7 @@ import * as fmpService from './fmpService';
 import { formatCurrency } from '../utils/formatters';
 import { callGeminiProxyWithSchema, getStockPicks, getOptionsStrategy, getPortfolioRecommendation, AuthFunctions } from './geminiService';
 import type { AiLevel } from '../src/hooks/useAuth';
+import { parseOptionsStrategyRec } from '../utils/multiLegOrders';
 
 // Defines the structure of a single step in the workflow
 // Note: These are also exported from types.ts now for consistency
@@ -313,7 +314,9 @@ export const getWorkflowFromPrompt = async (prompt: string, context: AppContext,
                     steps: [{
                         action: 'say',
                         message: strategyText,
-                        comment: 'Result from AI options strategy planner.'
+                        comment: 'Result from AI options strategy planner.',
+                        // Attached so the chat can offer to place the legs as one multi-leg order
+                        strategyRec: parseOptionsStrategyRec(strategyRec, stockTicker)
                     }]
                 };
 
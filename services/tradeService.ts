@@ -0,0 +1,117 @@
+import { User } from 'firebase/auth';
+import type { ArchivedRun, FeeSettings, LotReliefMethod, LotSelection, OptionHolding, OrderSide, PendingOrder, StrategyLegSpec, Transaction, TrailingStopSettings } from '../types';
+import { EXECUTE_TRADE_URL, UPDATE_PORTFOLIO_URL } from '../constants';
+
+export interface ServerTradeRequest {
+    portfolioId: string;
+    version: number; // Portfolio version the trade was placed from
+    side: OrderSide;
+    ticker: string;
+    shares: number;
+    name?: string; // Company name for a new holding
+    lotSelection?: LotSelection; // Sells only
+    exits?: ServerExitLevels; // Buys only: levels to set on the holding
+}
+
+export interface ServerExitLevels {
+    stopLossPrice?: number | null;
+    takeProfitPrice?: number | null;
+    trailingStop?: TrailingStopSettings | null;
+}
+
+export interface ServerTradeResult {
+    transaction: Transaction;
+    reevaluated: boolean; // The portfolio had changed since the trade was placed, so it was checked against the newer state
+}
+
+// Calls a function as the signed-in user and returns its JSON, or throws its error message
+const postAsUser = async <T>(user: User, url: string, body: unknown, failure: string): Promise<T> => {
+    const idToken = await user.getIdToken();
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${idToken}`,
+        },
+        body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(data.error || `${failure} (${response.status}).`);
+    }
+    return data as T;
+};
+
+/**
+ * Executes a market stock trade on the server. The function checks the user's ID token, prices the
+ * fill from its own quote and writes the portfolio and transaction log itself, so the client can't
+ * choose its price or its cash. The listeners on those documents pick up the result.
+ * Throws an Error with a user-facing message if the trade is rejected.
+ * @param user The signed-in user.
+ * @param request What to trade, in which portfolio.
+ */
+export const executeServerTrade = async (user: User, request: ServerTradeRequest): Promise<ServerTradeResult> => {
+    console.log(`[DEBUG] executeServerTrade: ${request.side} ${request.shares} ${request.ticker}`);
+    return postAsUser<ServerTradeResult>(user, EXECUTE_TRADE_URL, request, 'Trade failed');
+};
+
+// Every other change to cash, positions, open orders or portfolio settings; the server checks and prices each one
+export type PortfolioAction =
+    | { type: 'SHORT_SELL'; ticker: string; name?: string; shares: number }
+    | { type: 'BUY_TO_COVER'; ticker: string; shares: number }
+    | { type: 'OPTION_BUY'; option: OptionHolding; contracts: number; stopLossPrice?: number | null; trailingStop?: TrailingStopSettings | null }
+    | { type: 'OPTION_SELL'; symbol: string; contracts: number }
+    | { type: 'OPTION_SELL_TO_OPEN'; option: OptionHolding; contracts: number }
+    | { type: 'OPTION_BUY_TO_CLOSE'; symbol: string; contracts: number }
+    | { type: 'EXERCISE'; symbol: string; contracts: number }
+    | { type: 'MULTI_LEG_OPEN'; ticker: string; name: string; legs: StrategyLegSpec[]; quantity: number }
+    | { type: 'STRATEGY_CLOSE'; positionId: string }
+    | { type: 'SET_MARGIN'; enabled: boolean }
+    | { type: 'SET_FEES'; fees: FeeSettings }
+    | { type: 'SET_DRIP'; ticker: string; enabled: boolean }
+    | { type: 'SET_LOT_RELIEF'; method: Exclude<LotReliefMethod, 'SPECIFIC'> }
+    | { type: 'SET_STOCK_EXITS'; ticker: string; exits: ServerExitLevels }
+    | { type: 'SET_OPTION_STOP_LOSS'; symbol: string; stopLossPrice: number | null }
+    | { type: 'SET_OPTION_TRAILING_STOP'; symbol: string; trailingStop: TrailingStopSettings | null }
+    | { type: 'TRANSFER'; kind: 'DEPOSIT' | 'WITHDRAWAL'; amount: number }
+    // One order, or the legs of one bracket; the server assigns ids and checks them against the stored book
+    | { type: 'PLACE_ORDERS'; orders: PendingOrder[] }
+    // Also drops a bracket entry's dormant exit legs
+    | { type: 'CANCEL_ORDER'; orderId: string }
+    // Rewrites cash and positions from the run's transaction log
+    | { type: 'REPAIR' }
+    // Archives the run and starts over with this much cash
+    | { type: 'RESET'; initialValue: number }
+    // Moves a log stored as one array into the transactions subcollection
+    | { type: 'MIGRATE_LOG' }
+    // Fills open orders that are marketable now, instead of at the next automation pass
+    | { type: 'EVALUATE_ORDERS' };
+
+export interface PortfolioActionRequest {
+    portfolioId: string;
+    version?: number; // Portfolio version the change was made from
+    action: PortfolioAction;
+}
+
+export interface PortfolioActionResult {
+    transactions?: Transaction[]; // Trades, transfers and exercises
+    reevaluated?: boolean; // The portfolio had changed since the request was made, so it was checked against the newer state
+    cash?: number; // Repairs: cash after the rebuild
+    run?: ArchivedRun; // Resets: the archived run
+    migrated?: number; // Log migrations: transactions moved
+}
+
+/**
+ * Makes a change to a portfolio on the server. Cash, positions, open orders and the transaction
+ * log can only be written there (see firestore.rules), so trades other than market stock trades,
+ * orders, settings, cash transfers, repairs and resets all come through here. The listeners pick
+ * up the result.
+ * Throws an Error with a user-facing message if the change is rejected.
+ * @param user The signed-in user.
+ * @param request The change, in which portfolio.
+ */
+export const runPortfolioAction = async (user: User, request: PortfolioActionRequest): Promise<PortfolioActionResult> => {
+    console.log(`[DEBUG] runPortfolioAction: ${request.action.type} on ${request.portfolioId}`);
+    return postAsUser<PortfolioActionResult>(user, UPDATE_PORTFOLIO_URL, request, 'Update failed');
+};
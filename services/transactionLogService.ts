@@ -0,0 +1,101 @@
+import { collection, getDocs, getAggregateFromServer, limit, orderBy, query, startAfter, sum, where, QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../src/firebaseConfig';
+import type { Transaction } from '../types';
+
+export const TRANSACTION_PAGE_SIZE = 50;
+
+// How many of the newest transactions the app keeps live; older ones are read when a page needs them
+export const RECENT_TRANSACTION_LIMIT = 100;
+
+// Transactions that move money in or out of the account rather than trade
+export const CASH_FLOW_TYPES: Transaction['type'][] = ['DEPOSIT', 'WITHDRAWAL'];
+
+export interface TransactionPage {
+    transactions: Transaction[];
+    cursor: QueryDocumentSnapshot<DocumentData> | null; // Pass back to load the next page
+    hasMore: boolean;
+}
+
+/**
+ * A portfolio's transaction log: one document per transaction, keyed by its id, under the portfolio document.
+ * @param uid The user's id.
+ * @param portfolioDocId The portfolio document's id ('portfolio' for the main portfolio, 'portfolio_<id>' otherwise).
+ */
+export const getTransactionsCollection = (uid: string, portfolioDocId: string) => {
+    return collection(db, 'users', uid, 'data', portfolioDocId, 'transactions');
+};
+
+/**
+ * One page of the log, newest first.
+ * @param since Only transactions at or after this timestamp (the start of the current run).
+ * @param ticker Only this ticker's transactions, if given.
+ * @param cursor The cursor of the previous page; omit for the first page.
+ */
+export const fetchTransactionPage = async (
+    uid: string,
+    portfolioDocId: string,
+    since: number,
+    ticker?: string,
+    cursor?: QueryDocumentSnapshot<DocumentData> | null,
+    pageSize: number = TRANSACTION_PAGE_SIZE
+): Promise<TransactionPage> => {
+    const constraints = [
+        ...(ticker ? [where('ticker', '==', ticker)] : []),
+        where('timestamp', '>=', since),
+        orderBy('timestamp', 'desc'),
+        ...(cursor ? [startAfter(cursor)] : []),
+        // One extra tells us whether another page follows
+        limit(pageSize + 1),
+    ];
+    const snapshot = await getDocs(query(getTransactionsCollection(uid, portfolioDocId), ...constraints));
+    const docs = snapshot.docs.slice(0, pageSize);
+    return {
+        transactions: docs.map(d => d.data() as Transaction),
+        cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+        hasMore: snapshot.docs.length > pageSize,
+    };
+};
+
+/**
+ * The whole log of a run, oldest first. Reads every entry, so only pages that total or replay
+ * the run (tax report, consistency check, reset) call it, once.
+ * @param since The start of the run.
+ */
+export const fetchRunTransactions = async (uid: string, portfolioDocId: string, since: number): Promise<Transaction[]> => {
+    const snapshot = await getDocs(query(
+        getTransactionsCollection(uid, portfolioDocId),
+        where('timestamp', '>=', since),
+        orderBy('timestamp', 'asc')
+    ));
+    return snapshot.docs.map(d => d.data() as Transaction);
+};
+
+export interface RunTotals {
+    realizedPnl: number;
+    fees: number;
+}
+
+/**
+ * Realized P&L and fees summed over a run on the server, without reading each entry.
+ */
+export const fetchRunTotals = async (uid: string, portfolioDocId: string, since: number): Promise<RunTotals> => {
+    const snapshot = await getAggregateFromServer(
+        query(getTransactionsCollection(uid, portfolioDocId), where('timestamp', '>=', since)),
+        { realizedPnl: sum('realizedPnl'), fees: sum('fees') }
+    );
+    const data = snapshot.data();
+    return { realizedPnl: data.realizedPnl || 0, fees: data.fees || 0 };
+};
+
+/**
+ * Every transaction from a time range, oldest first (e.g. a run that has since been reset).
+ */
+export const fetchTransactionsInRange = async (uid: string, portfolioDocId: string, from: number, to: number): Promise<Transaction[]> => {
+    const snapshot = await getDocs(query(
+        getTransactionsCollection(uid, portfolioDocId),
+        where('timestamp', '>=', from),
+        where('timestamp', '<=', to),
+        orderBy('timestamp', 'asc')
+    ));
+    return snapshot.docs.map(d => d.data() as Transaction);
+};
@@ -2,7 +2,7 @@ import React, { createContext, useContext, useState, useEffect, ReactNode, useCa
 import { getAuth, onAuthStateChanged, User as FirebaseAuthUser } from 'firebase/auth';
 import { doc, setDoc, serverTimestamp, onSnapshot, getDoc, increment, writeBatch, Timestamp, collection, query, where, updateDoc } from 'firebase/firestore';
 import { db } from '../firebaseConfig';
-import { User as UserType } from '../../types';
+import { User as UserType, OptionSettlementMode, SlippageLevel } from '../../types';
 import Spinner from '../../components/common/Spinner';
 
 // Define and export usage limits for different tiers
@@ -28,6 +28,8 @@ export type AiLevel = 'beginner' | 'intermediate' | 'advanced';
 interface UserSettings {
   fontSize: 'small' | 'medium' | 'large';
   aiLevel: AiLevel;
+  optionSettlement: OptionSettlementMode;
+  slippage: SlippageLevel;
   isPro: boolean;
   activePriceId: string | null;
   maxUsed: number;
@@ -47,6 +49,8 @@ interface AuthContextType {
   maxUsed: number;
   updateFontSize: (size: UserSettings['fontSize']) => Promise<void>;
   updateAiLevel: (level: AiLevel) => Promise<void>;
+  updateOptionSettlement: (mode: OptionSettlementMode) => Promise<void>;
+  updateSlippage: (level: SlippageLevel) => Promise<void>;
   isSubscriptionModalOpen: boolean;
   subscriptionModalReason: string;
   openSubscriptionModal: (reason?: string) => void;
@@ -60,6 +64,8 @@ interface AuthContextType {
 const DEFAULT_SETTINGS: UserSettings = {
     fontSize: 'medium',
     aiLevel: 'intermediate',
+    optionSettlement: 'physical',
+    slippage: 'normal',
     isPro: false,
     activePriceId: null,
     maxUsed: 0,
@@ -152,6 +158,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         const newSettings = {
             fontSize: data.fontSize || 'medium',
             aiLevel: data.aiLevel || 'intermediate',
+            optionSettlement: data.optionSettlement || 'physical',
+            slippage: data.slippage || 'normal',
             maxUsed: data.maxUsed ?? 0,
             liteUsed: data.liteUsed ?? 0,
             lastUsageReset: data.lastUsageReset,
@@ -253,6 +261,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [user]);
 
+  const updateOptionSettlement = useCallback(async (mode: OptionSettlementMode) => {
+    if (!user) return;
+    try {
+      const userDocRef = doc(db, 'users', user.uid);
+      await setDoc(userDocRef, { optionSettlement: mode }, { merge: true });
+      // Local state will update via the onSnapshot listener
+    } catch (error) {
+      console.error("Failed to update option settlement mode:", error);
+    }
+  }, [user]);
+
+  const updateSlippage = useCallback(async (level: SlippageLevel) => {
+    if (!user) return;
+    try {
+      const userDocRef = doc(db, 'users', user.uid);
+      await setDoc(userDocRef, { slippage: level }, { merge: true });
+      // Local state will update via the onSnapshot listener
+    } catch (error) {
+      console.error("Failed to update slippage level:", error);
+    }
+  }, [user]);
+
   const checkUsage = useCallback((model: 'max' | 'lite'): boolean => {
       const { isPro, activePriceId, liteUsed, maxUsed, usageTier } = userSettings;
       if (isPro && activePriceId === STRIPE_PRO_PRICE_ID_MONTHLY) return true;
@@ -362,6 +392,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     maxUsed: userSettings.maxUsed,
     updateFontSize,
     updateAiLevel,
+    updateOptionSettlement,
+    updateSlippage,
     isSubscriptionModalOpen,
     subscriptionModalReason,
     openSubscriptionModal,
@@ -376,6 +408,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       userSettings, // Includes usageTier
       updateFontSize,
       updateAiLevel,
+      updateOptionSettlement,
+      updateSlippage,
       isSubscriptionModalOpen,
       subscriptionModalReason,
       openSubscriptionModal,
@@ -6,13 +6,223 @@ export interface Holding {
   currentPrice: number;
   change: number;
   changesPercentage: number;
+  stopLossPrice?: number | null;
+  takeProfitPrice?: number | null;
+  trailingStop?: TrailingStop | null;
+  drip?: boolean; // Reinvest cash dividends in fractional shares of this stock
+  lots?: TaxLot[]; // Missing on holdings bought before lots were tracked; purchasePrice is their weighted average
+}
+
+// One purchase of a stock, kept separate for lot-level P&L and holding periods
+export interface TaxLot {
+  id: string; // The BUY transaction that opened it
+  shares: number;
+  costBasis: number; // Per share
+  acquiredAt: number; // Timestamp; 0 when unknown (holdings from before lots were tracked)
+}
+
+// Which lots a sale closes: first in, last in, highest cost first, or lots chosen by the user
+export type LotReliefMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'SPECIFIC';
+
+export interface LotSelection {
+  method: LotReliefMethod;
+  lots?: { lotId: string; shares: number }[]; // SPECIFIC only
+}
+
+export interface ClosedLot {
+  lotId: string;
+  shares: number;
+  costBasis: number;
+  acquiredAt: number;
+}
+
+export type TrailType = 'PERCENT' | 'AMOUNT';
+
+export interface TrailingStop {
+  trailType: TrailType;
+  trailValue: number; // Percent (e.g. 5 = 5%) or dollar amount below the peak
+  highWaterMark: number; // Highest price seen since the trail was set
+}
+
+export type TrailingStopSettings = Pick<TrailingStop, 'trailType' | 'trailValue'>;
+
+export interface ShortHolding {
+  ticker: string;
+  name: string;
+  shares: number; // Shares borrowed and sold short (always positive)
+  entryPrice: number; // Average price the shares were shorted at
+  currentPrice: number;
+  change: number;
+  changesPercentage: number;
+  borrowRate: number; // Annual borrow fee as a percent of the position's market value
+  borrowFeesPaid: number;
+  lastBorrowFeeDate: string; // Eastern date (YYYY-MM-DD) fees were last accrued through
+}
+
+export type OptionLegSide = 'long' | 'short';
+
+// One contract of a multi-leg strategy, as ordered
+export interface StrategyLegSpec {
+  symbol: string;
+  optionType: 'call' | 'put';
+  strikePrice: number;
+  expirationDate: string;
+  side: OptionLegSide;
+}
+
+export interface StrategyLeg extends StrategyLegSpec {
+  entryPrice: number; // Premium per share this leg was filled at
+  currentPrice: number;
+  change: number; // Day's change in premium
+}
+
+// A multi-leg options position (spread, condor, ...) opened and closed as one unit
+export interface StrategyPosition {
+  id: string;
+  name: string; // e.g. 'Bull Call Spread'
+  underlyingTicker: string;
+  quantity: number; // Contracts per leg
+  netEntryPrice: number; // Net premium per share: positive for a debit paid, negative for a credit received
+  legs: StrategyLeg[];
+  openedAt: number;
+  multiplier?: number; // Shares per contract for every leg; missing means the standard 100
+}
+
+export interface MarginCall {
+  issuedAt: number;
+  amount: number; // Equity shortfall below the maintenance requirement when issued
+  dueDate: string; // Eastern date (YYYY-MM-DD); positions are liquidated if still short after this
+}
+
+export interface MarginAccount {
+  enabled: boolean;
+  interestRate: number; // Annual % charged on the debit balance (negative cash)
+  interestPaid: number;
+  lastInterestDate: string; // Eastern date (YYYY-MM-DD) interest was last accrued through
+  marginCall: MarginCall | null;
+}
+
+export interface FeeSchedule {
+  perShare: number; // Commission per share on stock trades
+  perContract: number; // Commission per option contract
+  minimumPerTrade: number; // Minimum commission per order, when any commission is charged
+  maxPercentOfValue: number; // Commission cap as a % of trade value (0 = no cap)
+  regulatoryFees: boolean; // Pass through the SEC fee and FINRA TAF on sells
+}
+
+export type FeePresetId = 'none' | 'zeroCommission' | 'discount' | 'perShare' | 'custom';
+
+export interface FeeSettings {
+  preset: FeePresetId;
+  custom?: FeeSchedule; // Only used with the 'custom' preset
 }
 
 export interface Portfolio {
-  cash: number;
+  cash: number; // Goes negative on a margin account; the negative part is the debit balance
   holdings: Holding[];
   optionHoldings: OptionHolding[];
+  shortHoldings: ShortHolding[];
+  strategyPositions: StrategyPosition[];
   initialValue: number;
+  margin?: MarginAccount; // Missing for cash accounts
+  fees?: FeeSettings; // Missing means no commissions or fees
+  pendingDividends?: PendingDividend[]; // Dividends went ex while held, waiting for their pay date
+  dividendsCheckedThrough?: string; // Eastern date (YYYY-MM-DD) ex-dates have been processed through
+  corporateActionsCheckedThrough?: string; // Eastern date (YYYY-MM-DD) splits, symbol changes and mergers have been applied through
+  lotReliefMethod?: Exclude<LotReliefMethod, 'SPECIFIC'>; // Default for sales; missing means FIFO
+  startedAt?: number; // When this run began (creation or the last reset); missing on portfolios from before resets
+  version?: number; // Bumped on every write; a write made from an older version is re-evaluated or rejected
+}
+
+// One of a user's named paper portfolios. Each has its own portfolio, transactions and orders documents.
+export interface PortfolioSummary {
+  id: string; // 'main' for the portfolio every account started with
+  name: string;
+  createdAt: number;
+  archived?: boolean; // Hidden from the switcher; its data is kept
+}
+
+// Final numbers of a portfolio run that was reset, kept in the archive index
+export interface ArchivedRun {
+  id: string;
+  portfolioId: string;
+  portfolioName: string;
+  startedAt: number;
+  endedAt: number;
+  initialValue: number;
+  netDeposits?: number; // Deposits less withdrawals during the run; missing on runs archived before transfers
+  finalValue: number; // Cash plus open positions at their last prices when the run was reset
+  totalReturn: number; // Final value less everything put in
+  totalReturnPercent: number; // Time-weighted
+  realizedPnl: number;
+  feesPaid: number;
+  dividends: number;
+  closedTrades: number;
+  winningTrades: number;
+  bestTrade: number;
+  worstTrade: number;
+  openPositions: number; // Positions still open (and dropped) at the reset
+}
+
+// The full state of a run at the moment it was reset, stored next to the index entry
+export interface ArchivedRunSnapshot {
+  run: ArchivedRun;
+  portfolio: Portfolio;
+  transactions: Transaction[]; // Embedded in older archives; newer ones are loaded from the log by the run's date range
+  pendingOrders: PendingOrder[]; // Cancelled by the reset
+}
+
+export type CorporateActionKind = 'SPLIT' | 'SYMBOL_CHANGE' | 'CASH_MERGER';
+
+export interface CorporateAction {
+    kind: CorporateActionKind;
+    ticker: string; // The symbol before the action
+    date: string; // Effective Eastern date (YYYY-MM-DD)
+    ratio?: number; // SPLIT: new shares per old share (0.1 for a 1-for-10 reverse split)
+    newTicker?: string; // SYMBOL_CHANGE
+    cashPerShare?: number; // CASH_MERGER
+}
+
+export interface FmpStockSplit {
+    date: string;
+    label: string;
+    numerator: number;
+    denominator: number;
+}
+
+export interface FmpSymbolChange {
+    date: string;
+    name: string;
+    oldSymbol: string;
+    newSymbol: string;
+}
+
+export interface FmpDelistedCompany {
+    symbol: string;
+    companyName: string;
+    exchange: string;
+    ipoDate: string;
+    delistedDate: string;
+}
+
+export interface PendingDividend {
+    id: string;
+    ticker: string;
+    exDate: string; // YYYY-MM-DD
+    paymentDate: string; // YYYY-MM-DD
+    amountPerShare: number;
+    shares: number; // Held going into the ex-date
+    side: 'long' | 'short'; // Shorts owe the dividend to the share lender
+}
+
+export interface FmpDividend {
+    date: string; // Ex-dividend date
+    label: string;
+    adjDividend: number;
+    dividend: number;
+    recordDate: string;
+    paymentDate: string;
+    declarationDate: string;
 }
 
 export interface FmpQuote {
@@ -338,6 +548,8 @@ export interface AlpacaOptionContract {
     strike_price: string;
     underlying_symbol: string;
     close_price: number | null;
+    bid: number | null;
+    ask: number | null;
     volume: number | null;
     open_interest: number | null;
     delta: number | null;
@@ -373,6 +585,11 @@ export interface OptionHolding {
   vega: number | null;
   impliedVolatility: number | null;
   stopLossPrice?: number | null;
+  trailingStop?: TrailingStop | null;
+  side?: OptionLegSide; // Missing on older holdings, which are always long. Short holdings use purchasePrice as the premium received.
+  bid?: number | null; // Latest quote, used to fill market orders at the bid/ask
+  ask?: number | null;
+  multiplier?: number; // Shares per contract; missing means the standard 100. Changes when a split is adjusted in.
 }
 
 export interface AlpacaOptionBar {
@@ -399,7 +616,7 @@ export interface AiScreener {
 
 export interface Transaction {
     id: string;
-    type: 'BUY' | 'SELL' | 'OPTION_BUY' | 'OPTION_SELL' | 'OPTION_EXERCISE' | 'OPTION_EXPIRE' | 'OPTION_STOP_LOSS_SELL';
+    type: 'BUY' | 'SELL' | 'STOP_LOSS_SELL' | 'TAKE_PROFIT_SELL' | 'TRAILING_STOP_SELL' | 'SHORT_SELL' | 'BUY_TO_COVER' | 'BORROW_FEE' | 'MARGIN_INTEREST' | 'OPTION_BUY' | 'OPTION_SELL' | 'OPTION_EXERCISE' | 'OPTION_EXPIRE' | 'OPTION_STOP_LOSS_SELL' | 'OPTION_TRAILING_STOP_SELL' | 'STRATEGY_LEG_OPEN' | 'STRATEGY_LEG_CLOSE' | 'OPTION_SELL_TO_OPEN' | 'OPTION_BUY_TO_CLOSE' | 'OPTION_ASSIGNMENT' | 'DIVIDEND' | 'CORPORATE_ACTION' | 'DEPOSIT' | 'WITHDRAWAL';
     ticker: string;
     shares: number;
     price: number;
@@ -411,6 +628,55 @@ export interface Transaction {
     optionType?: 'call' | 'put';
     strikePrice?: number;
     stopLossTriggerPrice?: number;
+    takeProfitTriggerPrice?: number;
+    trailingPeakPrice?: number; // High-water mark when a trailing stop fired
+    trailingTriggerPrice?: number;
+    orderId?: string; // Set when the trade was filled from a pending order
+    limitPrice?: number;
+    stopPrice?: number;
+    marginLiquidation?: boolean; // Set on trades forced by an unmet margin call
+    strategyId?: string; // Legs of one multi-leg order share the StrategyPosition id
+    strategyName?: string;
+    legSide?: OptionLegSide; // Also marks CORPORATE_ACTION entries for short stock
+    netPrice?: number; // Net premium per share of the whole multi-leg order (negative for a credit)
+    linkedTransactionId?: string; // Stock trades created by exercise/assignment (or a dividend reinvestment) point back to their source transaction
+    midPrice?: number; // Mid (or last) price when the fill was priced; price is the actual fill after spread and slippage
+    fees?: number; // Commission plus regulatory fees; already taken out of cash and realizedPnl
+    corporateAction?: CorporateActionKind; // Audit entries for adjustments made by a corporate action
+    splitRatio?: number; // SPLIT entries: new shares per old share
+    previousTicker?: string; // SYMBOL_CHANGE entries: the ticker before the change
+    description?: string; // Human-readable summary of an audit entry
+    closedLots?: ClosedLot[]; // Stock sales: the tax lots the shares came from
+    lotReliefMethod?: LotReliefMethod;
+    valueBefore?: number; // DEPOSIT/WITHDRAWAL: total portfolio value just before the transfer
+}
+
+export type OrderSide = 'BUY' | 'SELL';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP';
+export type TimeInForce = 'DAY' | 'GTC';
+export type OrderAssetType = 'stock' | 'option' | 'strategy';
+export type OrderLegRole = 'ENTRY' | 'TAKE_PROFIT' | 'STOP_LOSS';
+
+export interface PendingOrder {
+    id: string;
+    ticker: string; // Underlying ticker for option orders
+    name: string;
+    side: OrderSide;
+    orderType: OrderType; // MARKET orders are ones placed while the market was closed, queued for the next open
+    shares: number; // Shares, or contracts for option orders
+    limitPrice?: number; // Set for LIMIT orders
+    stopPrice?: number; // Set for STOP orders
+    referencePrice?: number; // Set for MARKET orders: the last price when queued, used to reserve cash
+    timeInForce: TimeInForce;
+    createdAt: number;
+    assetType?: OrderAssetType; // Missing on older orders, which are always stock orders
+    optionSymbol?: string;
+    option?: OptionHolding; // Contract details used to open the position when an option buy fills
+    groupId?: string; // Bracket/OCO group: when one exit leg fills the other legs are cancelled
+    parentOrderId?: string; // Exit legs stay dormant until this entry order fills
+    role?: OrderLegRole;
+    strategyLegs?: StrategyLegSpec[]; // Multi-leg orders: limitPrice is the signed net price (negative for a credit)
+    lotSelection?: LotSelection; // Stock sells: lots to close when it fills (the portfolio default otherwise)
 }
 
 export interface YahooOptionContract {
@@ -473,14 +739,23 @@ export interface User {
   liteUsed?: number;
   lastUsageReset?: import('firebase/firestore').Timestamp;
   referralSource?: string | null;   
+  optionSettlement?: OptionSettlementMode;
+  slippage?: SlippageLevel;
 }
 
+// 'physical' delivers shares when an option is exercised or assigned; 'cash' pays out intrinsic value instead
+export type OptionSettlementMode = 'physical' | 'cash';
+
+// How hard market-impact slippage hits fills, on top of crossing the bid/ask spread
+export type SlippageLevel = 'off' | 'low' | 'normal' | 'high';
+
 
 export interface AiChatMessage {
     id: string;
     sender: 'user' | 'bot' | 'system';
     text: string;
     timestamp: number;
+    strategyRec?: OptionsStrategyRec; // Lets the user place the recommended strategy from the chat
 }
 
 // Add these new interfaces for the AI workflow context
@@ -492,6 +767,7 @@ export interface WorkflowStep {
     message?: string;
     duration?: number;
     comment: string;
+    strategyRec?: OptionsStrategyRec;
 }
 
 export interface AppContext {
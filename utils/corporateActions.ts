@@ -0,0 +1,356 @@
+import { nanoid } from 'nanoid';
+import type {
+    Portfolio, Transaction, PendingOrder, CorporateAction,
+    Holding, ShortHolding, OptionHolding, StrategyPosition, TrailingStop,
+} from '../types';
+import { getContractMultiplier, getLegSign, isShortOption } from './optionStrategies';
+import { formatCurrency } from './formatters';
+import { getHoldingLots, splitLots } from './taxLots';
+
+interface AppliedAction {
+    portfolio: Portfolio;
+    orders: PendingOrder[];
+    entries: Transaction[];
+    cancelledOrders: PendingOrder[];
+}
+
+// ROOT + YYMMDD + C/P + strike × 1000 (8 digits)
+const OCC_SYMBOL = /^([A-Z0-9.]+?)(\d{6})([CP])(\d{8})$/;
+
+/**
+ * Rewrites an OCC option symbol for an adjusted contract. Contracts whose deliverable is no
+ * longer 100 shares trade under a numbered root (XYZ → XYZ1), so quotes for the old series stop.
+ */
+const rewriteOptionSymbol = (
+    symbol: string,
+    ticker: string,
+    changes: { newTicker?: string; strikePrice?: number; adjustedRoot?: boolean }
+): string => {
+    const match = symbol.match(OCC_SYMBOL);
+    if (!match) return symbol;
+    const [, root, expiration, type, strike] = match;
+    const suffix = root.startsWith(ticker) ? root.slice(ticker.length) : '';
+    const newSuffix = changes.adjustedRoot ? String(Number(suffix || 0) + 1) : suffix;
+    const newStrike = changes.strikePrice !== undefined ? String(Math.round(changes.strikePrice * 1000)).padStart(8, '0') : strike;
+    return `${changes.newTicker || ticker}${newSuffix}${expiration}${type}${newStrike}`;
+};
+
+// Whole-number splits add contracts at the standard size; anything else changes the deliverable per contract
+const isWholeRatio = (ratio: number): boolean => ratio >= 2 && Math.abs(ratio - Math.round(ratio)) < 1e-9;
+
+/**
+ * A split ratio as it is usually quoted, e.g. "3-for-1", "3-for-2" or "1-for-10".
+ */
+export const describeSplitRatio = (ratio: number): string => {
+    for (let denominator = 1; denominator <= 20; denominator++) {
+        const numerator = ratio * denominator;
+        if (Math.abs(numerator - Math.round(numerator)) < 1e-6) return `${Math.round(numerator)}-for-${denominator}`;
+    }
+    return `${Number(ratio.toFixed(4))}-for-1`;
+};
+
+const describeAction = (action: CorporateAction): string => {
+    if (action.kind === 'SPLIT') return `${describeSplitRatio(action.ratio || 1)} ${(action.ratio || 1) < 1 ? 'reverse split' : 'split'}`;
+    if (action.kind === 'SYMBOL_CHANGE') return `Symbol change ${action.ticker} → ${action.newTicker}`;
+    return `Cash merger at ${formatCurrency(action.cashPerShare)}/share`;
+};
+
+const auditEntry = (action: CorporateAction, now: number, fields: Pick<Transaction, 'ticker' | 'shares' | 'price' | 'description'> & Partial<Transaction>): Transaction => ({
+    id: nanoid(),
+    type: 'CORPORATE_ACTION',
+    totalAmount: 0,
+    timestamp: now,
+    corporateAction: action.kind,
+    ...(action.kind === 'SPLIT' ? { splitRatio: action.ratio } : {}),
+    ...(action.kind === 'SYMBOL_CHANGE' ? { previousTicker: action.ticker } : {}),
+    ...fields,
+});
+
+const adjustTrailingStop = (trailingStop: TrailingStop, ratio: number): TrailingStop => ({
+    ...trailingStop,
+    highWaterMark: trailingStop.highWaterMark / ratio,
+    // A percent trail scales on its own; a dollar trail is per share
+    ...(trailingStop.trailType === 'AMOUNT' ? { trailValue: trailingStop.trailValue / ratio } : {}),
+});
+
+// Divides whichever of the given per-share prices are set; missing ones stay missing since Firestore rejects undefined
+const dividePrices = <T extends object>(item: T, keys: (keyof T)[], ratio: number): Partial<T> => {
+    return Object.fromEntries(keys.filter(key => typeof item[key] === 'number').map(key => [key, (item[key] as number) / ratio])) as Partial<T>;
+};
+
+const isOrderOn = (order: PendingOrder, ticker: string): boolean => order.ticker === ticker;
+
+const isStockOrder = (order: PendingOrder): boolean => !order.assetType || order.assetType === 'stock';
+
+/**
+ * Splits (and reverse splits) multiply share counts by the ratio and divide every per-share price by it,
+ * so position values are unchanged. Options follow the OCC convention: whole-number splits multiply the
+ * contracts, any other ratio keeps the contract count and changes the shares each contract delivers.
+ * Open stock orders are resized; option and strategy orders are cancelled since their contracts changed.
+ */
+const applySplit = (portfolio: Portfolio, orders: PendingOrder[], action: CorporateAction, now: number): AppliedAction => {
+    const ratio = action.ratio || 1;
+    const ticker = action.ticker;
+    const label = describeAction(action);
+    const wholeRatio = isWholeRatio(ratio);
+    const entries: Transaction[] = [];
+
+    const holdings = portfolio.holdings.map((h): Holding => {
+        if (h.ticker !== ticker) return h;
+        const adjusted: Holding = {
+            ...h,
+            shares: h.shares * ratio,
+            purchasePrice: h.purchasePrice / ratio,
+            currentPrice: h.currentPrice / ratio,
+            change: h.change / ratio,
+            ...dividePrices(h, ['stopLossPrice', 'takeProfitPrice'], ratio),
+            ...(h.trailingStop ? { trailingStop: adjustTrailingStop(h.trailingStop, ratio) } : {}),
+            ...(h.lots ? { lots: splitLots(h.lots, ratio) } : {}),
+        };
+        entries.push(auditEntry(action, now, {
+            ticker, shares: adjusted.shares, price: adjusted.purchasePrice, purchasePrice: adjusted.purchasePrice,
+            description: `${label}: ${Number(h.shares.toFixed(4))} → ${Number(adjusted.shares.toFixed(4))} shares, cost basis ${formatCurrency(h.purchasePrice)} → ${formatCurrency(adjusted.purchasePrice)}/share`,
+        }));
+        return adjusted;
+    });
+
+    const shortHoldings = (portfolio.shortHoldings || []).map((s): ShortHolding => {
+        if (s.ticker !== ticker) return s;
+        const adjusted: ShortHolding = {
+            ...s,
+            shares: s.shares * ratio,
+            entryPrice: s.entryPrice / ratio,
+            currentPrice: s.currentPrice / ratio,
+            change: s.change / ratio,
+        };
+        entries.push(auditEntry(action, now, {
+            ticker, shares: adjusted.shares, price: adjusted.entryPrice, purchasePrice: adjusted.entryPrice, legSide: 'short',
+            description: `${label}: short ${Number(s.shares.toFixed(4))} → ${Number(adjusted.shares.toFixed(4))} shares, entry ${formatCurrency(s.entryPrice)} → ${formatCurrency(adjusted.entryPrice)}/share`,
+        }));
+        return adjusted;
+    });
+
+    const optionHoldings = portfolio.optionHoldings.map((o): OptionHolding => {
+        if (o.underlyingTicker !== ticker) return o;
+        const strikePrice = o.strikePrice / ratio;
+        const adjusted: OptionHolding = {
+            ...o,
+            symbol: rewriteOptionSymbol(o.symbol, ticker, { strikePrice, adjustedRoot: !wholeRatio }),
+            shares: wholeRatio ? o.shares * ratio : o.shares,
+            strikePrice,
+            purchasePrice: o.purchasePrice / ratio,
+            currentPrice: o.currentPrice / ratio,
+            change: o.change / ratio,
+            ...dividePrices(o, ['stopLossPrice', 'bid', 'ask'], ratio),
+            ...(o.trailingStop ? { trailingStop: adjustTrailingStop(o.trailingStop, ratio) } : {}),
+            ...(wholeRatio ? {} : { multiplier: getContractMultiplier(o) * ratio }),
+        };
+        entries.push(auditEntry(action, now, {
+            ticker, shares: adjusted.shares, price: adjusted.purchasePrice, purchasePrice: adjusted.purchasePrice,
+            optionSymbol: adjusted.symbol, optionType: o.optionType, strikePrice,
+            ...(isShortOption(o) ? { legSide: 'short' as const } : {}),
+            description: `${label}: ${o.shares} ${o.symbol} → ${adjusted.shares} ${adjusted.symbol}, strike ${formatCurrency(o.strikePrice)} → ${formatCurrency(strikePrice)}, ${Number(getContractMultiplier(adjusted).toFixed(4))} shares per contract`,
+        }));
+        return adjusted;
+    });
+
+    const strategyPositions = (portfolio.strategyPositions || []).map((p): StrategyPosition => {
+        if (p.underlyingTicker !== ticker) return p;
+        const adjusted: StrategyPosition = {
+            ...p,
+            quantity: wholeRatio ? p.quantity * ratio : p.quantity,
+            netEntryPrice: p.netEntryPrice / ratio,
+            legs: p.legs.map(leg => {
+                const strikePrice = leg.strikePrice / ratio;
+                return {
+                    ...leg,
+                    symbol: rewriteOptionSymbol(leg.symbol, ticker, { strikePrice, adjustedRoot: !wholeRatio }),
+                    strikePrice,
+                    entryPrice: leg.entryPrice / ratio,
+                    currentPrice: leg.currentPrice / ratio,
+                    change: leg.change / ratio,
+                };
+            }),
+            ...(wholeRatio ? {} : { multiplier: getContractMultiplier(p) * ratio }),
+        };
+        entries.push(auditEntry(action, now, {
+            ticker, shares: adjusted.quantity, price: adjusted.netEntryPrice, strategyId: p.id, strategyName: p.name,
+            description: `${label}: ${p.name} ${p.quantity} → ${adjusted.quantity} contract(s) per leg, strikes ${p.legs.map(l => formatCurrency(l.strikePrice / ratio)).join('/')}, ${Number(getContractMultiplier(adjusted).toFixed(4))} shares per contract`,
+        }));
+        return adjusted;
+    });
+
+    const cancelledOrders = orders.filter(o => isOrderOn(o, ticker) && !isStockOrder(o));
+    const newOrders = orders
+        .filter(o => !cancelledOrders.includes(o))
+        .map((o): PendingOrder => {
+            if (!isOrderOn(o, ticker)) return o;
+            return {
+                ...o,
+                shares: o.shares * ratio,
+                ...dividePrices(o, ['limitPrice', 'stopPrice', 'referencePrice'], ratio),
+                ...(o.lotSelection?.lots ? { lotSelection: { ...o.lotSelection, lots: o.lotSelection.lots.map(l => ({ ...l, shares: l.shares * ratio })) } } : {}),
+            };
+        });
+
+    // Dividends that went ex before the split are still owed on the pre-split shares
+    const pendingDividends = (portfolio.pendingDividends || []).map(d => d.ticker === ticker
+        ? { ...d, shares: d.shares * ratio, amountPerShare: d.amountPerShare / ratio }
+        : d
+    );
+
+    return {
+        portfolio: { ...portfolio, holdings, shortHoldings, optionHoldings, strategyPositions, pendingDividends },
+        orders: newOrders,
+        entries,
+        cancelledOrders,
+    };
+};
+
+/**
+ * Renames a ticker everywhere it appears: positions, option contracts (their OCC root too),
+ * strategy legs, open orders and pending dividends.
+ */
+const applySymbolChange = (portfolio: Portfolio, orders: PendingOrder[], action: CorporateAction, now: number): AppliedAction => {
+    const ticker = action.ticker;
+    const newTicker = action.newTicker || ticker;
+    const label = describeAction(action);
+    const renameSymbol = (symbol: string) => rewriteOptionSymbol(symbol, ticker, { newTicker });
+    const entries: Transaction[] = [];
+
+    const holdings = portfolio.holdings.map(h => {
+        if (h.ticker !== ticker) return h;
+        entries.push(auditEntry(action, now, { ticker: newTicker, shares: h.shares, price: h.purchasePrice, description: `${label}: ${Number(h.shares.toFixed(4))} shares` }));
+        return { ...h, ticker: newTicker };
+    });
+    const shortHoldings = (portfolio.shortHoldings || []).map(s => {
+        if (s.ticker !== ticker) return s;
+        entries.push(auditEntry(action, now, { ticker: newTicker, shares: s.shares, price: s.entryPrice, legSide: 'short', description: `${label}: short ${Number(s.shares.toFixed(4))} shares` }));
+        return { ...s, ticker: newTicker };
+    });
+    const optionHoldings = portfolio.optionHoldings.map(o => {
+        if (o.underlyingTicker !== ticker) return o;
+        const symbol = renameSymbol(o.symbol);
+        entries.push(auditEntry(action, now, {
+            ticker: newTicker, shares: o.shares, price: o.purchasePrice, optionSymbol: symbol, optionType: o.optionType, strikePrice: o.strikePrice,
+            ...(isShortOption(o) ? { legSide: 'short' as const } : {}),
+            description: `${label}: ${o.symbol} → ${symbol}`,
+        }));
+        return { ...o, underlyingTicker: newTicker, symbol };
+    });
+    const strategyPositions = (portfolio.strategyPositions || []).map(p => {
+        if (p.underlyingTicker !== ticker) return p;
+        entries.push(auditEntry(action, now, { ticker: newTicker, shares: p.quantity, price: p.netEntryPrice, strategyId: p.id, strategyName: p.name, description: `${label}: ${p.name}` }));
+        return { ...p, underlyingTicker: newTicker, legs: p.legs.map(leg => ({ ...leg, symbol: renameSymbol(leg.symbol) })) };
+    });
+
+    const newOrders = orders.map((o): PendingOrder => {
+        if (!isOrderOn(o, ticker)) return o;
+        return {
+            ...o,
+            ticker: newTicker,
+            ...(o.optionSymbol ? { optionSymbol: renameSymbol(o.optionSymbol) } : {}),
+            ...(o.option ? { option: { ...o.option, underlyingTicker: newTicker, symbol: renameSymbol(o.option.symbol) } } : {}),
+            ...(o.strategyLegs ? { strategyLegs: o.strategyLegs.map(leg => ({ ...leg, symbol: renameSymbol(leg.symbol) })) } : {}),
+        };
+    });
+    const pendingDividends = (portfolio.pendingDividends || []).map(d => d.ticker === ticker ? { ...d, ticker: newTicker } : d);
+
+    return {
+        portfolio: { ...portfolio, holdings, shortHoldings, optionHoldings, strategyPositions, pendingDividends },
+        orders: newOrders,
+        entries,
+        cancelledOrders: [],
+    };
+};
+
+/**
+ * Closes everything on a ticker acquired for cash: shares are paid out (shorts pay it back) at the deal
+ * price, options and strategy legs settle at their intrinsic value against it, and open orders are cancelled.
+ * Dividends that already went ex are still paid.
+ */
+const applyCashMerger = (portfolio: Portfolio, orders: PendingOrder[], action: CorporateAction, now: number): AppliedAction => {
+    const ticker = action.ticker;
+    const cashPerShare = action.cashPerShare || 0;
+    const label = describeAction(action);
+    const intrinsicValue = (optionType: 'call' | 'put', strikePrice: number) => optionType === 'call'
+        ? Math.max(0, cashPerShare - strikePrice)
+        : Math.max(0, strikePrice - cashPerShare);
+    let cash = portfolio.cash;
+    const entries: Transaction[] = [];
+
+    portfolio.holdings.filter(h => h.ticker === ticker).forEach(h => {
+        const proceeds = h.shares * cashPerShare;
+        cash += proceeds;
+        // A cash merger is a sale of every lot for tax purposes
+        const closedLots = getHoldingLots(h).map(lot => ({ lotId: lot.id, shares: lot.shares, costBasis: lot.costBasis, acquiredAt: lot.acquiredAt }));
+        entries.push(auditEntry(action, now, {
+            ticker, shares: h.shares, price: cashPerShare, totalAmount: proceeds, purchasePrice: h.purchasePrice,
+            realizedPnl: (cashPerShare - h.purchasePrice) * h.shares, closedLots,
+            description: `${label}: ${Number(h.shares.toFixed(4))} shares paid out for ${formatCurrency(proceeds)}`,
+        }));
+    });
+    (portfolio.shortHoldings || []).filter(s => s.ticker === ticker).forEach(s => {
+        const cost = s.shares * cashPerShare;
+        cash -= cost;
+        entries.push(auditEntry(action, now, {
+            ticker, shares: s.shares, price: cashPerShare, totalAmount: cost, purchasePrice: s.entryPrice, legSide: 'short',
+            realizedPnl: (s.entryPrice - cashPerShare) * s.shares,
+            description: `${label}: short ${Number(s.shares.toFixed(4))} shares closed for ${formatCurrency(cost)}`,
+        }));
+    });
+    portfolio.optionHoldings.filter(o => o.underlyingTicker === ticker).forEach(o => {
+        const settlement = intrinsicValue(o.optionType, o.strikePrice);
+        const multiplier = getContractMultiplier(o);
+        const isShort = isShortOption(o);
+        // A written contract pays out its intrinsic value; its purchasePrice is the premium received
+        cash += (isShort ? -settlement : settlement) * o.shares * multiplier;
+        entries.push(auditEntry(action, now, {
+            ticker, shares: o.shares, price: settlement, totalAmount: settlement * o.shares * multiplier, purchasePrice: o.purchasePrice,
+            realizedPnl: (isShort ? o.purchasePrice - settlement : settlement - o.purchasePrice) * o.shares * multiplier,
+            optionSymbol: o.symbol, optionType: o.optionType, strikePrice: o.strikePrice,
+            ...(isShort ? { legSide: 'short' as const } : {}),
+            description: `${label}: ${o.shares} ${o.symbol} settled at ${formatCurrency(settlement)}`,
+        }));
+    });
+    (portfolio.strategyPositions || []).filter(p => p.underlyingTicker === ticker).forEach(p => {
+        const multiplier = getContractMultiplier(p);
+        p.legs.forEach(leg => {
+            const settlement = intrinsicValue(leg.optionType, leg.strikePrice);
+            const sign = getLegSign(leg.side);
+            cash += sign * settlement * p.quantity * multiplier;
+            entries.push(auditEntry(action, now, {
+                ticker, shares: p.quantity, price: settlement, totalAmount: settlement * p.quantity * multiplier, purchasePrice: leg.entryPrice,
+                realizedPnl: sign * (settlement - leg.entryPrice) * p.quantity * multiplier,
+                optionSymbol: leg.symbol, optionType: leg.optionType, strikePrice: leg.strikePrice,
+                strategyId: p.id, strategyName: p.name, legSide: leg.side,
+                description: `${label}: ${p.name} leg ${leg.symbol} settled at ${formatCurrency(settlement)}`,
+            }));
+        });
+    });
+
+    const cancelledOrders = orders.filter(o => isOrderOn(o, ticker));
+    return {
+        portfolio: {
+            ...portfolio,
+            cash,
+            holdings: portfolio.holdings.filter(h => h.ticker !== ticker),
+            shortHoldings: (portfolio.shortHoldings || []).filter(s => s.ticker !== ticker),
+            optionHoldings: portfolio.optionHoldings.filter(o => o.underlyingTicker !== ticker),
+            strategyPositions: (portfolio.strategyPositions || []).filter(p => p.underlyingTicker !== ticker),
+        },
+        orders: orders.filter(o => !cancelledOrders.includes(o)),
+        entries,
+        cancelledOrders,
+    };
+};
+
+/**
+ * Applies one corporate action to a portfolio snapshot and its open orders without saving it.
+ * Every position it adjusts gets a CORPORATE_ACTION audit entry.
+ */
+export const applyCorporateAction = (portfolio: Portfolio, orders: PendingOrder[], action: CorporateAction, now: number = Date.now()): AppliedAction => {
+    if (action.kind === 'SPLIT') return applySplit(portfolio, orders, action, now);
+    if (action.kind === 'SYMBOL_CHANGE') return applySymbolChange(portfolio, orders, action, now);
+    return applyCashMerger(portfolio, orders, action, now);
+};
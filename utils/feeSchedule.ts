@@ -0,0 +1,30 @@
+import type { FeeSchedule, FeePresetId, FeeSettings } from '../types';
+
+const NO_FEES: FeeSchedule = { perShare: 0, perContract: 0, minimumPerTrade: 0, maxPercentOfValue: 0, regulatoryFees: false };
+
+export const FEE_PRESETS: Record<Exclude<FeePresetId, 'custom'>, { label: string; schedule: FeeSchedule }> = {
+    none: { label: 'No Fees', schedule: NO_FEES },
+    zeroCommission: { label: 'Zero Commission', schedule: { ...NO_FEES, regulatoryFees: true } },
+    discount: { label: '$0 Stocks, $0.65/Contract', schedule: { ...NO_FEES, perContract: 0.65, regulatoryFees: true } },
+    perShare: { label: '$0.005/Share, $1 Min', schedule: { perShare: 0.005, perContract: 0.65, minimumPerTrade: 1, maxPercentOfValue: 1, regulatoryFees: true } },
+};
+
+/**
+ * Resolves a portfolio's fee settings to the schedule in effect. Portfolios without
+ * settings trade free, as they always have.
+ */
+export const getFeeSchedule = (settings?: FeeSettings): FeeSchedule => {
+    if (!settings) return NO_FEES;
+    if (settings.preset === 'custom') return settings.custom || NO_FEES;
+    return FEE_PRESETS[settings.preset]?.schedule || NO_FEES;
+};
+
+/**
+ * Returns a user-facing error for an invalid custom schedule, or null if it is usable.
+ */
+export const validateFeeSchedule = (schedule: FeeSchedule): string | null => {
+    const values = [schedule.perShare, schedule.perContract, schedule.minimumPerTrade, schedule.maxPercentOfValue];
+    if (values.some(value => !Number.isFinite(value) || value < 0)) return "Fees can't be negative.";
+    if (schedule.maxPercentOfValue > 100) return "The commission cap can't exceed 100% of the trade value.";
+    return null;
+};
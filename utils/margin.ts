@@ -0,0 +1,97 @@
+import type { Portfolio } from '../types';
+import { getStrategiesMarketValue, getStrategiesCollateral, isShortOption, getShortPutCollateral, getContractMultiplier } from './optionStrategies';
+
+// Reg-T style requirements, as a fraction of position market value
+export const INITIAL_MARGIN_REQUIREMENT = 0.5;
+export const LONG_MAINTENANCE_REQUIREMENT = 0.25;
+export const SHORT_MAINTENANCE_REQUIREMENT = 0.3;
+// Long options have no loan value, so they are always paid for in full
+export const OPTION_MARGIN_REQUIREMENT = 1;
+// A cash account holds a short's proceeds plus as much again as collateral
+export const CASH_SHORT_REQUIREMENT = 2;
+
+export interface MarginSummary {
+    isMarginAccount: boolean;
+    longMarketValue: number;
+    shortMarketValue: number;
+    optionMarketValue: number; // Long option holdings only
+    shortOptionMarketValue: number; // Cost to buy back written covered calls and cash-secured puts
+    shortPutCollateral: number; // Cash securing written puts
+    cashShortRequirement: number; // Cash accounts: proceeds and collateral held against short stock
+    strategyMarketValue: number; // Net value of multi-leg positions (negative for open credit spreads)
+    strategyCollateral: number; // Held against the short legs of multi-leg positions
+    equity: number;
+    debitBalance: number; // Amount borrowed from the broker (negative cash)
+    initialRequirement: number;
+    maintenanceRequirement: number;
+    excessEquity: number; // Equity above the initial requirement (Reg-T excess)
+    buyingPower: number; // Marginable stock that can be bought right now
+    equityPercent: number; // Equity as a % of gross position value
+    marginCallAmount: number; // Equity shortfall below the maintenance requirement
+}
+
+export const isMarginEnabled = (portfolio: Portfolio): boolean => !!portfolio.margin?.enabled;
+
+/**
+ * Computes equity, requirements and buying power from the current holdings.
+ * Cash accounts report their cash (less short, spread and put collateral) as buying power and can never be on call.
+ */
+export const getMarginSummary = (portfolio: Portfolio): MarginSummary => {
+    const longMarketValue = portfolio.holdings.reduce((acc, h) => acc + (h.shares * h.currentPrice), 0);
+    const shortMarketValue = (portfolio.shortHoldings || []).reduce((acc, s) => acc + (s.shares * s.currentPrice), 0);
+    const optionMarketValue = portfolio.optionHoldings.filter(o => !isShortOption(o)).reduce((acc, o) => acc + (o.shares * o.currentPrice * getContractMultiplier(o)), 0);
+    const shortOptionMarketValue = portfolio.optionHoldings.filter(isShortOption).reduce((acc, o) => acc + (o.shares * o.currentPrice * getContractMultiplier(o)), 0);
+    const shortPutCollateral = getShortPutCollateral(portfolio.optionHoldings);
+    const strategyMarketValue = getStrategiesMarketValue(portfolio.strategyPositions);
+    const strategyCollateral = getStrategiesCollateral(portfolio.strategyPositions);
+    const equity = portfolio.cash + longMarketValue + optionMarketValue + strategyMarketValue - shortMarketValue - shortOptionMarketValue;
+    const grossMarketValue = longMarketValue + shortMarketValue + optionMarketValue + shortOptionMarketValue + Math.abs(strategyMarketValue);
+
+    // Spreads are paid for in full and their short legs are fully collateralized, in either account type.
+    // Written puts are cash-secured the same way; covered calls are secured by shares instead of cash.
+    const strategyRequirement = Math.max(0, strategyMarketValue) * OPTION_MARGIN_REQUIREMENT + strategyCollateral + shortPutCollateral;
+    const initialRequirement = (longMarketValue + shortMarketValue) * INITIAL_MARGIN_REQUIREMENT
+        + optionMarketValue * OPTION_MARGIN_REQUIREMENT
+        + strategyRequirement;
+    const maintenanceRequirement = longMarketValue * LONG_MAINTENANCE_REQUIREMENT
+        + shortMarketValue * SHORT_MAINTENANCE_REQUIREMENT
+        + optionMarketValue * OPTION_MARGIN_REQUIREMENT
+        + strategyRequirement;
+    const excessEquity = equity - initialRequirement;
+    const isMarginAccount = isMarginEnabled(portfolio);
+    const cashShortRequirement = shortMarketValue * CASH_SHORT_REQUIREMENT;
+
+    return {
+        isMarginAccount,
+        longMarketValue,
+        shortMarketValue,
+        optionMarketValue,
+        shortOptionMarketValue,
+        shortPutCollateral,
+        cashShortRequirement,
+        strategyMarketValue,
+        strategyCollateral,
+        equity,
+        debitBalance: Math.max(0, -portfolio.cash),
+        initialRequirement,
+        maintenanceRequirement,
+        excessEquity,
+        buyingPower: isMarginAccount
+            ? Math.max(0, excessEquity) / INITIAL_MARGIN_REQUIREMENT
+            : Math.max(0, portfolio.cash - strategyCollateral - shortPutCollateral - cashShortRequirement),
+        equityPercent: grossMarketValue > 0 ? (equity / grossMarketValue) * 100 : 100,
+        marginCallAmount: isMarginAccount ? Math.max(0, maintenanceRequirement - equity) : 0,
+    };
+};
+
+/**
+ * Funds available for a new position. Marginable purchases (stock, and short sales) can use
+ * the full Reg-T buying power; non-marginable ones (options) only the excess equity.
+ * @param portfolio The current portfolio state.
+ * @param marginable Whether the purchase can be bought on margin.
+ */
+export const getBuyingPower = (portfolio: Portfolio, marginable: boolean = true): number => {
+    const summary = getMarginSummary(portfolio);
+    if (!summary.isMarginAccount) return summary.buyingPower;
+    return marginable ? summary.buyingPower : Math.max(0, summary.excessEquity);
+};
@@ -0,0 +1,252 @@
+// NYSE trading calendar: regular and extended sessions, full-day holidays and early closes.
+// All session times are US Eastern wall-clock minutes after midnight.
+
+const PRE_MARKET_OPEN = 4 * 60;
+const REGULAR_OPEN = 9 * 60 + 30;
+const REGULAR_CLOSE = 16 * 60;
+const EARLY_CLOSE = 13 * 60;
+const AFTER_HOURS_CLOSE = 20 * 60;
+const EARLY_AFTER_HOURS_CLOSE = 17 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough to step over any run of weekends and holidays
+const MAX_DAYS_TO_NEXT_SESSION = 10;
+
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed';
+
+export interface TradingDay {
+    dateKey: string; // YYYY-MM-DD, Eastern
+    preMarketOpen: number; // Timestamps
+    open: number;
+    close: number;
+    afterHoursClose: number;
+    earlyClose: boolean;
+}
+
+export interface MarketStatus {
+    session: MarketSession;
+    isOpen: boolean; // Regular session only; orders don't fill in extended hours
+    label: string;
+    holiday: string | null; // Name of today's holiday, if the exchange is closed for one
+    earlyClose: boolean;
+    nextOpen: number; // Next regular-session open (the current one's open while it is in progress)
+    nextClose: number; // Close of the regular session in progress or the next one
+}
+
+interface EasternParts {
+    dateKey: string;
+    weekday: number; // 0 = Sunday
+    minutes: number;
+}
+
+const easternFormatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+    hourCycle: 'h23',
+});
+
+const getEasternWallClock = (timestamp: number) => {
+    const parts: Record<string, string> = {};
+    easternFormatter.formatToParts(new Date(timestamp)).forEach(p => { parts[p.type] = p.value; });
+    return {
+        year: Number(parts.year), month: Number(parts.month), day: Number(parts.day),
+        hour: Number(parts.hour), minute: Number(parts.minute), second: Number(parts.second),
+    };
+};
+
+const getEasternParts = (timestamp: number): EasternParts => {
+    const { year, month, day, hour, minute } = getEasternWallClock(timestamp);
+    const dateKey = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    return { dateKey, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(), minutes: hour * 60 + minute };
+};
+
+/**
+ * Converts an Eastern wall-clock time on a date to a timestamp, honoring daylight saving time.
+ */
+const easternTimeToTimestamp = (dateKey: string, minutes: number): number => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const wallAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+    // Shift by the Eastern offset at that instant; a second pass settles times near a DST change
+    let timestamp = wallAsUtc;
+    for (let i = 0; i < 2; i++) {
+        const wall = getEasternWallClock(timestamp);
+        const offset = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second) - timestamp;
+        timestamp = wallAsUtc - offset;
+    }
+    return timestamp;
+};
+
+/**
+ * Midnight Eastern at the start of a date, e.g. the moment a dividend goes ex.
+ */
+export const getEasternDayStart = (dateKey: string): number => easternTimeToTimestamp(dateKey, 0);
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (dateKey: string, days: number): string => toDateKey(new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS));
+
+const getWeekday = (dateKey: string): number => new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+// The nth given weekday of a month (n = -1 for the last one)
+const nthWeekday = (year: number, month: number, weekday: number, n: number): string => {
+    if (n < 0) {
+        const last = new Date(Date.UTC(year, month + 1, 0));
+        last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+        return toDateKey(last);
+    }
+    const first = new Date(Date.UTC(year, month, 1));
+    first.setUTCDate(1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+    return toDateKey(first);
+};
+
+// Gregorian Easter (anonymous algorithm), for Good Friday
+const getEasterSunday = (year: number): string => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return toDateKey(new Date(Date.UTC(year, month - 1, day)));
+};
+
+// Fixed-date holidays move to Friday when they fall on a Saturday and to Monday on a Sunday
+const observed = (dateKey: string): string => {
+    const weekday = getWeekday(dateKey);
+    if (weekday === 6) return addDays(dateKey, -1);
+    if (weekday === 0) return addDays(dateKey, 1);
+    return dateKey;
+};
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * NYSE full-day holidays for a year, keyed by the Eastern date the exchange is closed.
+ */
+const getHolidays = (year: number): Map<string, string> => {
+    const cached = holidayCache.get(year);
+    if (cached) return cached;
+
+    const holidays = new Map<string, string>();
+    // New Year's Day on a Saturday isn't made up on the Friday before (that would be the prior year's last trading day)
+    const newYears = `${year}-01-01`;
+    if (getWeekday(newYears) !== 6) holidays.set(observed(newYears), "New Year's Day");
+    holidays.set(nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day');
+    holidays.set(nthWeekday(year, 1, 1, 3), "Washington's Birthday");
+    holidays.set(addDays(getEasterSunday(year), -2), 'Good Friday');
+    holidays.set(nthWeekday(year, 4, 1, -1), 'Memorial Day');
+    if (year >= 2022) holidays.set(observed(`${year}-06-19`), 'Juneteenth');
+    holidays.set(observed(`${year}-07-04`), 'Independence Day');
+    holidays.set(nthWeekday(year, 8, 1, 1), 'Labor Day');
+    holidays.set(nthWeekday(year, 10, 4, 4), 'Thanksgiving Day');
+    holidays.set(observed(`${year}-12-25`), 'Christmas Day');
+
+    holidayCache.set(year, holidays);
+    return holidays;
+};
+
+export const getHolidayName = (dateKey: string): string | null => {
+    return getHolidays(Number(dateKey.slice(0, 4))).get(dateKey) || null;
+};
+
+/**
+ * Early (1pm) closes: July 3rd and Christmas Eve when they fall Monday–Thursday, and the day after Thanksgiving.
+ */
+const isEarlyClose = (dateKey: string): boolean => {
+    const year = Number(dateKey.slice(0, 4));
+    const weekday = getWeekday(dateKey);
+    const midweek = weekday >= 1 && weekday <= 4;
+    if (dateKey === `${year}-07-03` || dateKey === `${year}-12-24`) return midweek && !getHolidayName(dateKey);
+    return dateKey === addDays(nthWeekday(year, 10, 4, 4), 1);
+};
+
+/**
+ * Session times for an Eastern date, or null if the exchange is closed all day (weekend or holiday).
+ */
+export const getTradingDay = (dateKey: string): TradingDay | null => {
+    const weekday = getWeekday(dateKey);
+    if (weekday === 0 || weekday === 6 || getHolidayName(dateKey)) return null;
+    const earlyClose = isEarlyClose(dateKey);
+    return {
+        dateKey,
+        preMarketOpen: easternTimeToTimestamp(dateKey, PRE_MARKET_OPEN),
+        open: easternTimeToTimestamp(dateKey, REGULAR_OPEN),
+        close: easternTimeToTimestamp(dateKey, earlyClose ? EARLY_CLOSE : REGULAR_CLOSE),
+        afterHoursClose: easternTimeToTimestamp(dateKey, earlyClose ? EARLY_AFTER_HOURS_CLOSE : AFTER_HOURS_CLOSE),
+        earlyClose,
+    };
+};
+
+/**
+ * The regular session in progress at a timestamp, or the next one to open.
+ */
+export const getCurrentOrNextSession = (timestamp: number = Date.now()): TradingDay => {
+    const today = getEasternParts(timestamp).dateKey;
+    for (let i = 0; i <= MAX_DAYS_TO_NEXT_SESSION; i++) {
+        const day = getTradingDay(addDays(today, i));
+        if (day && timestamp < day.close) return day;
+    }
+    throw new Error(`No trading session found within ${MAX_DAYS_TO_NEXT_SESSION} days of ${today}.`);
+};
+
+export const isMarketOpen = (timestamp: number = Date.now()): boolean => {
+    const session = getCurrentOrNextSession(timestamp);
+    return timestamp >= session.open;
+};
+
+export const getNextMarketOpen = (timestamp: number = Date.now()): number => {
+    return getCurrentOrNextSession(timestamp).open;
+};
+
+export const getMarketStatus = (timestamp: number = Date.now()): MarketStatus => {
+    const { dateKey } = getEasternParts(timestamp);
+    const today = getTradingDay(dateKey);
+    const next = getCurrentOrNextSession(timestamp);
+
+    let session: MarketSession = 'closed';
+    if (today) {
+        if (timestamp >= today.open && timestamp < today.close) session = 'regular';
+        else if (timestamp >= today.preMarketOpen && timestamp < today.open) session = 'pre';
+        else if (timestamp >= today.close && timestamp < today.afterHoursClose) session = 'post';
+    }
+    const labels: Record<MarketSession, string> = { pre: 'Pre-Market', regular: 'Market Open', post: 'After Hours', closed: 'Market Closed' };
+
+    return {
+        session,
+        isOpen: session === 'regular',
+        label: labels[session],
+        holiday: getHolidayName(dateKey),
+        earlyClose: !!today?.earlyClose,
+        nextOpen: next.open,
+        nextClose: next.close,
+    };
+};
+
+/**
+ * When an option expiring on a date stops trading: that day's close (4pm ET, 1pm on an early close).
+ * A date the exchange is closed falls back to 4pm ET.
+ */
+export const getOptionExpirationCutoff = (expirationDate: string): number => {
+    const dateKey = expirationDate.slice(0, 10);
+    return getTradingDay(dateKey)?.close ?? easternTimeToTimestamp(dateKey, REGULAR_CLOSE);
+};
+
+export const isOptionExpired = (expirationDate: string, now: number = Date.now()): boolean => {
+    return now >= getOptionExpirationCutoff(expirationDate);
+};
+
+/**
+ * Short Eastern-time description of a timestamp, e.g. "Mon 9:30 AM ET".
+ */
+export const formatMarketTime = (timestamp: number): string => {
+    return `${new Date(timestamp).toLocaleString('en-US', { timeZone: 'America/New_York', weekday: 'short', hour: 'numeric', minute: '2-digit' })} ET`;
+};
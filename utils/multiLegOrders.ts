@@ -0,0 +1,102 @@
+import type { StrategyLegSpec, AlpacaOptionContract, OptionsStrategyRec } from '../types';
+import { hasUndefinedRisk } from './optionStrategies';
+import { formatCurrency } from './formatters';
+
+export interface MultiLegOrder {
+    ticker: string; // Underlying ticker shared by every leg
+    name: string; // Strategy name, e.g. 'Iron Condor'
+    legs: StrategyLegSpec[];
+    quantity: number; // Contracts per leg
+}
+
+/**
+ * Formats a signed net price as "$1.20 debit" / "$0.85 credit".
+ */
+export const formatNetPrice = (netPrice: number): string => {
+    return `${formatCurrency(Math.abs(netPrice))} ${netPrice >= 0 ? 'debit' : 'credit'}`;
+};
+
+/**
+ * Looks up the latest premium for every leg. Returns null if any leg has no usable quote,
+ * since a multi-leg order must never be priced (or filled) with a leg missing.
+ */
+export const getLegPrices = (legs: StrategyLegSpec[], optionContracts: AlpacaOptionContract[]): number[] | null => {
+    const prices = legs.map(leg => optionContracts.find(c => c.symbol === leg.symbol)?.close_price);
+    if (prices.some(price => price === null || price === undefined || price < 0)) return null;
+    return prices as number[];
+};
+
+/**
+ * Throws an Error with a user-facing message if the legs can't form a supported order.
+ * @param order The legs, underlying and quantity.
+ * @param prices Premium per share for each leg, in the same order as order.legs.
+ */
+export const validateMultiLegOrder = (order: MultiLegOrder, prices: number[]) => {
+    if (order.legs.length < 2) {
+        throw new Error("A multi-leg order needs at least two legs.");
+    }
+    if (!Number.isInteger(order.quantity) || order.quantity <= 0) {
+        throw new Error("Please enter a whole number of contracts.");
+    }
+    if (new Set(order.legs.map(leg => leg.symbol)).size !== order.legs.length) {
+        throw new Error("Each leg of a multi-leg order must be a different contract.");
+    }
+    if (prices.length !== order.legs.length || prices.some(price => !(price >= 0))) {
+        throw new Error("Could not price every leg of this order.");
+    }
+    if (hasUndefinedRisk(order.legs)) {
+        throw new Error("This strategy sells more calls than it buys. Only defined-risk strategies are supported.");
+    }
+};
+
+/**
+ * Normalizes the raw AI strategy response. The model answers with the Gemini schema's field
+ * names ('Call'/'Buy', strikePrice, expirationDate), so both spellings are accepted.
+ * @param raw Parsed JSON from getOptionsStrategy.
+ * @param ticker The underlying the strategy was planned for.
+ */
+export const parseOptionsStrategyRec = (raw: any, ticker: string): OptionsStrategyRec => {
+    const riskProfile = ['High', 'Medium', 'Low'].includes(raw?.riskProfile)
+        ? raw.riskProfile
+        : (raw?.riskProfile === 'Undefined Risk' ? 'High' : 'Medium');
+    return {
+        ticker: (raw?.ticker || raw?.keyMetrics?.underlyingSymbol || ticker).toUpperCase(),
+        targetPrice: raw?.targetPrice ?? null,
+        targetDate: raw?.targetDate ?? null,
+        strategyName: raw?.strategyName || 'Uncertain',
+        strategySummary: raw?.strategySummary || raw?.description || '',
+        suggestedContracts: (raw?.suggestedContracts || []).map((c: any) => ({
+            type: String(c.type).toLowerCase() === 'put' ? 'put' : 'call',
+            action: String(c.action).toUpperCase() === 'SELL' ? 'SELL' : 'BUY',
+            strike: Number(c.strike ?? c.strikePrice),
+            expiry: c.expiry || c.expirationDate,
+            premium: Number(c.premium) || 0,
+            rationale: c.rationale || '',
+        })),
+        riskProfile,
+        maxRisk: raw?.maxRisk ?? raw?.keyMetrics?.maxLoss ?? null,
+    };
+};
+
+/**
+ * Finds the listed contract for a recommended leg: same type and expiration, exact strike.
+ * Returns null if the chain doesn't list it (the AI sometimes suggests strikes that don't exist).
+ */
+export const matchRecommendedLeg = (
+    contracts: AlpacaOptionContract[],
+    suggestion: OptionsStrategyRec['suggestedContracts'][number]
+): StrategyLegSpec | null => {
+    const contract = contracts.find(c =>
+        c.type === suggestion.type &&
+        c.expiration_date === suggestion.expiry &&
+        Math.abs(parseFloat(c.strike_price) - suggestion.strike) < 0.005
+    );
+    if (!contract) return null;
+    return {
+        symbol: contract.symbol,
+        optionType: suggestion.type,
+        strikePrice: parseFloat(contract.strike_price),
+        expirationDate: contract.expiration_date,
+        side: suggestion.action === 'BUY' ? 'long' : 'short',
+    };
+};
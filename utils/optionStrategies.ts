@@ -0,0 +1,125 @@
+import type { StrategyLegSpec, StrategyLeg, StrategyPosition, OptionLegSide, OptionHolding } from '../types';
+
+// Shares delivered per standard contract
+export const STANDARD_CONTRACT_MULTIPLIER = 100;
+
+/**
+ * Shares per contract for an option holding or strategy position. Only contracts adjusted
+ * for a split with an uneven ratio deliver something other than 100.
+ */
+export const getContractMultiplier = (item: { multiplier?: number }): number => item.multiplier ?? STANDARD_CONTRACT_MULTIPLIER;
+
+/**
+ * +1 for a long leg (we own the premium), -1 for a short leg (we owe it).
+ */
+export const getLegSign = (side: OptionLegSide): number => side === 'long' ? 1 : -1;
+
+/**
+ * Net premium per share for a set of leg prices: positive is a debit, negative a credit.
+ */
+export const getNetPrice = (legs: { side: OptionLegSide }[], prices: number[]): number => {
+    return legs.reduce((acc, leg, i) => acc + getLegSign(leg.side) * (prices[i] || 0), 0);
+};
+
+const getIntrinsicValue = (leg: StrategyLegSpec, stockPrice: number): number => {
+    return leg.optionType === 'call'
+        ? Math.max(0, stockPrice - leg.strikePrice)
+        : Math.max(0, leg.strikePrice - stockPrice);
+};
+
+/**
+ * Net intrinsic value per share of all legs if the stock finishes at the given price.
+ */
+const getExpiryValue = (legs: StrategyLegSpec[], stockPrice: number): number => {
+    return legs.reduce((acc, leg) => acc + getLegSign(leg.side) * getIntrinsicValue(leg, stockPrice), 0);
+};
+
+/**
+ * Returns true if the legs can lose an unlimited amount, i.e. more calls are sold than bought.
+ * Short puts are bounded (the stock can only go to zero) so they don't count here.
+ */
+export const hasUndefinedRisk = (legs: StrategyLegSpec[]): boolean => {
+    const netCalls = legs
+        .filter(leg => leg.optionType === 'call')
+        .reduce((acc, leg) => acc + getLegSign(leg.side), 0);
+    return netCalls < 0;
+};
+
+/**
+ * Worst-case amount per share the legs can owe at expiration, ignoring the premiums.
+ * This is the collateral a broker holds for the short legs (e.g. the width of a credit spread).
+ * The payoff is piecewise linear between strikes, so checking zero and every strike is enough.
+ * Legs are evaluated as if they expire together.
+ */
+export const getStrategyCollateral = (legs: StrategyLegSpec[]): number => {
+    if (hasUndefinedRisk(legs)) return Infinity;
+    const checkpoints = [0, ...legs.map(leg => leg.strikePrice)];
+    const worstValue = Math.min(...checkpoints.map(price => getExpiryValue(legs, price)));
+    return Math.max(0, -worstValue);
+};
+
+/**
+ * Maximum loss per share at expiration for legs entered at a net price (positive = debit).
+ */
+export const getStrategyMaxLoss = (legs: StrategyLegSpec[], netEntryPrice: number): number => {
+    return getStrategyCollateral(legs) + netEntryPrice;
+};
+
+/**
+ * Current market value of a strategy position. Short legs count against it, so a credit
+ * spread is usually worth a negative amount (the cost to close it).
+ */
+export const getStrategyMarketValue = (position: StrategyPosition): number => {
+    return getNetPrice(position.legs, position.legs.map(leg => leg.currentPrice)) * position.quantity * getContractMultiplier(position);
+};
+
+/**
+ * Market value of every open strategy position.
+ */
+export const getStrategiesMarketValue = (positions: StrategyPosition[] = []): number => {
+    return positions.reduce((acc, p) => acc + getStrategyMarketValue(p), 0);
+};
+
+/**
+ * Cash set aside for the short legs of every open strategy position.
+ */
+export const getStrategiesCollateral = (positions: StrategyPosition[] = []): number => {
+    return positions.reduce((acc, p) => acc + getStrategyCollateral(p.legs) * p.quantity * getContractMultiplier(p), 0);
+};
+
+/**
+ * Day's change in value of a strategy position, from each leg's premium change.
+ */
+export const getStrategyDailyChange = (position: StrategyPosition): number => {
+    return getNetPrice(position.legs, position.legs.map(leg => leg.change || 0)) * position.quantity * getContractMultiplier(position);
+};
+
+/**
+ * Short label for one leg, e.g. "Short 105 Call 2025-01-17".
+ */
+export const describeLeg = (leg: StrategyLegSpec | StrategyLeg): string => {
+    const side = leg.side === 'long' ? 'Long' : 'Short';
+    const type = leg.optionType === 'call' ? 'Call' : 'Put';
+    return `${side} ${leg.strikePrice} ${type} ${leg.expirationDate}`;
+};
+
+/**
+ * Short (written) option holdings are a liability; everything else is a long position.
+ */
+export const isShortOption = (option: OptionHolding): boolean => option.side === 'short';
+
+/**
+ * Signed market value of a single-leg option holding: negative for a written contract.
+ */
+export const getOptionHoldingValue = (option: OptionHolding): number => {
+    return getLegSign(isShortOption(option) ? 'short' : 'long') * option.shares * option.currentPrice * getContractMultiplier(option);
+};
+
+/**
+ * Cash that must stay aside to secure written puts: the strike for every share deliverable.
+ */
+export const getShortPutCollateral = (options: OptionHolding[] = []): number => {
+    return options
+        .filter(o => isShortOption(o) && o.optionType === 'put')
+        .reduce((acc, o) => acc + o.strikePrice * o.shares * getContractMultiplier(o), 0);
+};
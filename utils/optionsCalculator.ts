@@ -139,4 +139,37 @@ export const calculateGreeks = (
         console.error("Client-side Black-Scholes calculation failed (Check inputs S, K, T, IV):", e);
         return { delta: null, gamma: null, theta: null, vega: null, impliedVolatility: IV };
     }
-};
\ No newline at end of file
+};
+// Black-Scholes price per share (with dividend yield)
+const calculateBlackScholesPrice = (optionType: OptionType, S: number, K: number, T: number, r: number, q: number, sigma: number): number => {
+    const d1 = calculateD1(S, K, T, r, q, sigma);
+    const d2 = d1 - sigma * Math.sqrt(T);
+    return optionType === 'call'
+        ? S * Math.exp(-q * T) * normCDF(d1) - K * Math.exp(-r * T) * normCDF(d2)
+        : K * Math.exp(-r * T) * normCDF(-d2) - S * Math.exp(-q * T) * normCDF(-d1);
+};
+
+/**
+ * Estimates the time value per share left in an option (what exercising it early gives up),
+ * from the same inputs as calculateGreeks. Uses the Black-Scholes price when implied volatility
+ * is known, otherwise the market premium, minus intrinsic value.
+ */
+export const calculateTimeValue = (
+    optionType: OptionType,
+    S: number,
+    K: number,
+    expirationDate: string,
+    IV: number | null,
+    marketPrice: number
+): number => {
+    const intrinsic = optionType === 'call' ? Math.max(0, S - K) : Math.max(0, K - S);
+    const T = calculateTimeToExpiration(expirationDate);
+    if (T <= 0) return 0;
+
+    let price = marketPrice;
+    if (IV !== null && IV > 0 && S > 0) {
+        const theoretical = calculateBlackScholesPrice(optionType, S, K, T, RISK_FREE_RATE, DIVIDEND_YIELD, IV);
+        if (Number.isFinite(theoretical)) price = theoretical;
+    }
+    return Math.max(0, price - intrinsic);
+};
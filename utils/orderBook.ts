@@ -0,0 +1,102 @@
+import type { PendingOrder } from '../types';
+import { formatCurrency } from './formatters';
+import { formatNetPrice } from './multiLegOrders';
+import { getStrategyMaxLoss, getContractMultiplier, STANDARD_CONTRACT_MULTIPLIER } from './optionStrategies';
+
+/**
+ * Returns the calendar date (YYYY-MM-DD) in US Eastern time for a timestamp.
+ * Daily accruals (borrow fees, margin interest) are counted in Eastern calendar days.
+ */
+export const getEasternDateKey = (timestamp: number): string => {
+    return new Date(timestamp).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+};
+
+/**
+ * The price an order is working at: the limit for LIMIT orders, the trigger for STOP orders,
+ * and the price when it was queued for MARKET orders.
+ */
+export const getOrderPrice = (order: PendingOrder): number => {
+    if (order.orderType === 'MARKET') return order.referencePrice ?? 0;
+    return (order.orderType === 'STOP' ? order.stopPrice : order.limitPrice) ?? 0;
+};
+
+/**
+ * The symbol an order trades: the contract symbol for option orders, the ticker otherwise.
+ * Multi-leg orders are labelled with their underlying and strategy name.
+ */
+export const getOrderInstrument = (order: PendingOrder): string => {
+    if (order.assetType === 'strategy') return `${order.ticker} ${order.name}`;
+    return order.assetType === 'option' ? (order.optionSymbol || '') : order.ticker;
+};
+
+// Option buys carry the contract they open, adjusted deliverable included; strategies open standard contracts
+const getOrderMultiplier = (order: PendingOrder): number => {
+    if (order.assetType === 'option') return getContractMultiplier(order.option || {});
+    return order.assetType === 'strategy' ? STANDARD_CONTRACT_MULTIPLIER : 1;
+};
+
+/**
+ * A buy limit is marketable at or below its limit price; a sell limit at or above it.
+ * A sell stop triggers at or below its stop price; a buy stop at or above it.
+ */
+export const isOrderMarketable = (order: PendingOrder, price: number): boolean => {
+    if (!price || price <= 0) return false;
+    if (order.orderType === 'MARKET') return true;
+    const orderPrice = getOrderPrice(order);
+    if (order.orderType === 'STOP') {
+        return order.side === 'BUY' ? price >= orderPrice : price <= orderPrice;
+    }
+    return order.side === 'BUY' ? price <= orderPrice : price >= orderPrice;
+};
+
+/**
+ * Dormant bracket legs are waiting for their entry order and can't fill yet.
+ */
+export const isOrderActive = (order: PendingOrder): boolean => !order.parentOrderId;
+
+/**
+ * Cash already committed to open buy orders, so new orders can't over-commit the account.
+ * Multi-leg orders commit their maximum loss at the net limit price.
+ */
+export const getReservedCashForOrders = (orders: PendingOrder[]): number => {
+    return orders
+        .filter(o => o.side === 'BUY' && isOrderActive(o))
+        .reduce((acc, o) => {
+            const perUnit = o.assetType === 'strategy'
+                ? getStrategyMaxLoss(o.strategyLegs || [], getOrderPrice(o))
+                : getOrderPrice(o);
+            return acc + (o.shares * perUnit * getOrderMultiplier(o));
+        }, 0);
+};
+
+/**
+ * Shares (or contracts) of an instrument already promised to active sell orders.
+ * Legs of one OCO group sell the same position, so each group only counts once.
+ */
+export const getCommittedSellQuantity = (orders: PendingOrder[], instrument: string): number => {
+    const groupMax = new Map<string, number>();
+    let total = 0;
+    orders
+        .filter(o => o.side === 'SELL' && isOrderActive(o) && getOrderInstrument(o) === instrument)
+        .forEach(o => {
+            if (o.groupId) {
+                groupMax.set(o.groupId, Math.max(groupMax.get(o.groupId) || 0, o.shares));
+            } else {
+                total += o.shares;
+            }
+        });
+    groupMax.forEach(shares => { total += shares; });
+    return total;
+};
+
+/**
+ * Short human-readable description used in notifications, e.g. "SELL 10 AAPL stop $180.00".
+ */
+export const describeOrder = (order: PendingOrder): string => {
+    if (order.assetType === 'strategy') {
+        return `${getOrderInstrument(order)} x${order.shares} net limit ${formatNetPrice(getOrderPrice(order))}`;
+    }
+    if (order.orderType === 'MARKET') return `${order.side} ${order.shares} ${getOrderInstrument(order)} at the open`;
+    const priceLabel = order.orderType === 'STOP' ? 'stop' : 'limit';
+    return `${order.side} ${order.shares} ${getOrderInstrument(order)} ${priceLabel} ${formatCurrency(getOrderPrice(order))}`;
+};
@@ -0,0 +1,98 @@
+import type { Portfolio, Transaction } from '../types';
+import { getBuyingPower } from './margin';
+
+export interface CashFlow {
+    timestamp: number;
+    amount: number; // Positive for deposits, negative for withdrawals
+    valueBefore: number; // Total portfolio value just before the money moved
+}
+
+export interface PerformanceSummary {
+    netContributions: number; // Starting cash plus deposits less withdrawals
+    deposits: number;
+    withdrawals: number;
+    totalGain: number; // Current value less everything put in
+    timeWeightedReturn: number; // Percent; the strategy's return, unaffected by when money moved
+    moneyWeightedReturn: number; // Percent; the investor's return, weighting each dollar by how long it was invested
+}
+
+/**
+ * Deposits and withdrawals in the order they happened.
+ */
+export const getCashFlows = (transactions: Transaction[]): CashFlow[] => {
+    return transactions
+        .filter(t => t.type === 'DEPOSIT' || t.type === 'WITHDRAWAL')
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(t => ({
+            timestamp: t.timestamp,
+            amount: t.type === 'DEPOSIT' ? t.totalAmount : -t.totalAmount,
+            valueBefore: t.valueBefore ?? 0,
+        }));
+};
+
+/**
+ * Cash that can leave the account: never more than the cash balance, and on a margin account
+ * never so much that the positions would exceed the initial requirement.
+ */
+export const getWithdrawableCash = (portfolio: Portfolio): number => {
+    return Math.max(0, Math.min(portfolio.cash, getBuyingPower(portfolio, false)));
+};
+
+/**
+ * Time-weighted return: the returns between cash flows, chained. Each period runs from the value
+ * just after one flow to the value just before the next, so deposits and withdrawals don't count as gains.
+ */
+export const getTimeWeightedReturn = (initialValue: number, flows: CashFlow[], currentValue: number): number => {
+    let growth = 1;
+    let periodStart = initialValue;
+    [...flows.map(f => ({ end: f.valueBefore, next: f.valueBefore + f.amount })), { end: currentValue, next: 0 }].forEach(({ end, next }) => {
+        // A period that started from nothing (everything withdrawn) has no return to chain
+        if (periodStart > 0) growth *= end / periodStart;
+        periodStart = next;
+    });
+    return (growth - 1) * 100;
+};
+
+/**
+ * Money-weighted return by the Modified Dietz method: the gain over the average capital invested,
+ * with each flow weighted by the fraction of the period it was in the account.
+ */
+export const getMoneyWeightedReturn = (
+    initialValue: number,
+    startedAt: number,
+    flows: CashFlow[],
+    currentValue: number,
+    now: number = Date.now()
+): number => {
+    const period = now - startedAt;
+    const netFlows = flows.reduce((acc, f) => acc + f.amount, 0);
+    const weightedFlows = flows.reduce((acc, f) => acc + f.amount * (period > 0 ? (now - f.timestamp) / period : 1), 0);
+    const averageCapital = initialValue + weightedFlows;
+    if (averageCapital <= 0) return 0;
+    return ((currentValue - initialValue - netFlows) / averageCapital) * 100;
+};
+
+/**
+ * Returns for a portfolio run from its start (initialValue at startedAt) to now.
+ */
+export const getPerformanceSummary = (
+    portfolio: Portfolio,
+    transactions: Transaction[],
+    currentValue: number,
+    startedAt: number,
+    now: number = Date.now()
+): PerformanceSummary => {
+    const flows = getCashFlows(transactions);
+    const deposits = flows.filter(f => f.amount > 0).reduce((acc, f) => acc + f.amount, 0);
+    const withdrawals = flows.filter(f => f.amount < 0).reduce((acc, f) => acc - f.amount, 0);
+    const netContributions = portfolio.initialValue + deposits - withdrawals;
+
+    return {
+        netContributions,
+        deposits,
+        withdrawals,
+        totalGain: currentValue - netContributions,
+        timeWeightedReturn: getTimeWeightedReturn(portfolio.initialValue, flows, currentValue),
+        moneyWeightedReturn: getMoneyWeightedReturn(portfolio.initialValue, startedAt, flows, currentValue, now),
+    };
+};
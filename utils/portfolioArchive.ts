@@ -0,0 +1,10 @@
+import type { Portfolio, Transaction } from '../types';
+
+/**
+ * When a run began: set on portfolios created or reset since runs were tracked, otherwise the
+ * first transaction (or the reset itself, for a portfolio that never traded).
+ */
+export const getRunStartedAt = (portfolio: Portfolio, transactions: Transaction[], fallback: number): number => {
+    if (portfolio.startedAt) return portfolio.startedAt;
+    return transactions.reduce((earliest, t) => Math.min(earliest, t.timestamp), fallback);
+};
@@ -0,0 +1,282 @@
+import { describe, it, expect } from 'vitest';
+import type { Portfolio, Transaction, Holding, ShortHolding, OptionHolding, StrategyPosition } from '../types';
+import { replayTransactions, checkPortfolioConsistency, getTransactionCashFlow } from './portfolioReplay';
+
+// 10:00 Eastern on a Monday; each entry in a ledger is a minute after the last
+const START = Date.UTC(2026, 0, 5, 15);
+
+const AAPL_CALL = 'AAPL260116C00150000';
+const MSFT_PUT = 'MSFT260116P00045000';
+const SPY_LONG_CALL = 'SPY260116C00500000';
+const SPY_SHORT_CALL = 'SPY260116C00510000';
+
+// Builds a ledger in the order given, with ids and timestamps filled in
+const ledger = (...entries: (Partial<Transaction> & Pick<Transaction, 'type' | 'ticker'>)[]): Transaction[] =>
+    entries.map((entry, i) => ({
+        id: `t${i + 1}`,
+        shares: 0,
+        price: 0,
+        totalAmount: 0,
+        timestamp: START + i * 60_000,
+        ...entry,
+    }));
+
+// Stored positions carry market data the log doesn't have; only quantities and costs are compared
+const holding = (ticker: string, shares: number, purchasePrice: number): Holding => ({
+    ticker, name: `${ticker} Inc.`, shares, purchasePrice, currentPrice: purchasePrice * 1.1, change: 1, changesPercentage: 1,
+});
+
+const short = (ticker: string, shares: number, entryPrice: number): ShortHolding => ({
+    ticker, name: `${ticker} Inc.`, shares, entryPrice, currentPrice: entryPrice * 0.9, change: -1, changesPercentage: -1,
+    borrowRate: 3, borrowFeesPaid: 0, lastBorrowFeeDate: '2026-01-05',
+});
+
+const option = (symbol: string, underlyingTicker: string, shares: number, purchasePrice: number, side?: 'short'): OptionHolding => ({
+    symbol, underlyingTicker, shares, purchasePrice, currentPrice: purchasePrice + 0.5, change: 0.5, changesPercentage: 10,
+    optionType: symbol.includes('C0') ? 'call' : 'put', strikePrice: 0, expirationDate: '2026-01-16',
+    volume: 100, open_interest: 1000, delta: 0.4, gamma: 0.01, theta: -0.05, vega: 0.1, impliedVolatility: 0.3,
+    ...(side ? { side } : {}),
+});
+
+const emptyPortfolio = (initialValue: number): Portfolio => ({
+    cash: initialValue, holdings: [], optionHoldings: [], shortHoldings: [], strategyPositions: [], initialValue,
+});
+
+// One of everything the log records, oldest first
+const FULL_LEDGER = ledger(
+    { type: 'DEPOSIT', ticker: 'CASH', totalAmount: 10000, valueBefore: 100000 },
+    // FIFO: the sale comes out of the first lot
+    { type: 'BUY', ticker: 'AAPL', shares: 10, price: 100, totalAmount: 1000, fees: 1 },
+    { type: 'BUY', ticker: 'AAPL', shares: 10, price: 120, totalAmount: 1200 },
+    { type: 'SELL', ticker: 'AAPL', shares: 5, price: 130, totalAmount: 650, lotReliefMethod: 'FIFO' },
+    // LIFO: the sale comes out of the last lot
+    { type: 'BUY', ticker: 'MSFT', shares: 10, price: 50, totalAmount: 500 },
+    { type: 'BUY', ticker: 'MSFT', shares: 10, price: 60, totalAmount: 600 },
+    { type: 'SELL', ticker: 'MSFT', shares: 5, price: 70, totalAmount: 350, lotReliefMethod: 'LIFO' },
+    { type: 'SHORT_SELL', ticker: 'TSLA', shares: 10, price: 200, totalAmount: 2000 },
+    { type: 'BORROW_FEE', ticker: 'TSLA', shares: 10, price: 0, totalAmount: 1.5 },
+    { type: 'BUY_TO_COVER', ticker: 'TSLA', shares: 4, price: 190, totalAmount: 760 },
+    { type: 'OPTION_BUY', ticker: 'AAPL', shares: 2, price: 3, totalAmount: 600, optionSymbol: AAPL_CALL, optionType: 'call', strikePrice: 150 },
+    { type: 'OPTION_SELL_TO_OPEN', ticker: 'MSFT', shares: 1, price: 2, totalAmount: 200, optionSymbol: MSFT_PUT, optionType: 'put', strikePrice: 45 },
+    {
+        type: 'STRATEGY_LEG_OPEN', ticker: 'SPY', shares: 1, price: 10, totalAmount: 1000, optionSymbol: SPY_LONG_CALL, optionType: 'call',
+        strikePrice: 500, strategyId: 'spread1', strategyName: 'Bull Call Spread', legSide: 'long', netPrice: 6,
+    },
+    {
+        type: 'STRATEGY_LEG_OPEN', ticker: 'SPY', shares: 1, price: 4, totalAmount: 400, optionSymbol: SPY_SHORT_CALL, optionType: 'call',
+        strikePrice: 510, strategyId: 'spread1', strategyName: 'Bull Call Spread', legSide: 'short', netPrice: 6,
+    },
+    {
+        type: 'STRATEGY_LEG_CLOSE', ticker: 'SPY', shares: 1, price: 2, totalAmount: 200, optionSymbol: SPY_SHORT_CALL, optionType: 'call',
+        strikePrice: 510, strategyId: 'spread1', strategyName: 'Bull Call Spread', legSide: 'short',
+    },
+    { type: 'BUY', ticker: 'NVDA', shares: 10, price: 400, totalAmount: 4000 },
+    { type: 'CORPORATE_ACTION', ticker: 'NVDA', shares: 40, price: 100, corporateAction: 'SPLIT', splitRatio: 4 },
+    { type: 'BUY', ticker: 'FB', shares: 5, price: 300, totalAmount: 1500 },
+    { type: 'CORPORATE_ACTION', ticker: 'META', shares: 5, price: 300, corporateAction: 'SYMBOL_CHANGE', previousTicker: 'FB' },
+    { type: 'BUY', ticker: 'XYZ', shares: 20, price: 40, totalAmount: 800 },
+    { type: 'CORPORATE_ACTION', ticker: 'XYZ', shares: 20, price: 50, totalAmount: 1000, corporateAction: 'CASH_MERGER' },
+    // DRIP: the dividend is paid, then spent on fractional shares at the day's price
+    { type: 'BUY', ticker: 'KO', shares: 100, price: 60, totalAmount: 6000 },
+    { type: 'DIVIDEND', ticker: 'KO', shares: 100, price: 0.5, totalAmount: 50, realizedPnl: 50 },
+    { type: 'BUY', ticker: 'KO', shares: 50 / 62, price: 62, totalAmount: 50, linkedTransactionId: 't23' },
+    { type: 'WITHDRAWAL', ticker: 'CASH', totalAmount: 1000, valueBefore: 95000 },
+);
+
+const FULL_CASH = 100000 + 10000 - 1001 - 1200 + 650 - 500 - 600 + 350 + 2000 - 1.5 - 760 - 600 + 200
+    - 1000 + 400 - 200 - 4000 - 1500 - 800 + 1000 - 6000 + 50 - 50 - 1000;
+
+// The snapshot a correctly kept portfolio would have after FULL_LEDGER
+const fullSnapshot = (): Portfolio => ({
+    ...emptyPortfolio(100000),
+    cash: FULL_CASH,
+    holdings: [
+        holding('AAPL', 15, (5 * 100 + 10 * 120) / 15),
+        holding('MSFT', 15, (10 * 50 + 5 * 60) / 15),
+        holding('NVDA', 40, 100),
+        holding('META', 5, 300),
+        holding('KO', 100 + 50 / 62, (6000 + 50) / (100 + 50 / 62)),
+    ],
+    shortHoldings: [short('TSLA', 6, 200)],
+    optionHoldings: [option(AAPL_CALL, 'AAPL', 2, 3), option(MSFT_PUT, 'MSFT', 1, 2, 'short')],
+    strategyPositions: [{
+        id: 'spread1', name: 'Bull Call Spread', underlyingTicker: 'SPY', quantity: 1, netEntryPrice: 6, openedAt: START,
+        legs: [{ symbol: SPY_LONG_CALL, optionType: 'call', strikePrice: 500, expirationDate: '2026-01-16', side: 'long', entryPrice: 10, currentPrice: 12, change: 2 }],
+    } satisfies StrategyPosition],
+});
+
+describe('getTransactionCashFlow', () => {
+    it('takes fees out of what the trade moved', () => {
+        expect(getTransactionCashFlow(FULL_LEDGER[1])).toBe(-1001);
+        expect(getTransactionCashFlow(FULL_LEDGER[3])).toBe(650);
+    });
+
+    it('pays out on short legs and charges borrow fees', () => {
+        expect(getTransactionCashFlow(FULL_LEDGER[12])).toBe(-1000);
+        expect(getTransactionCashFlow(FULL_LEDGER[13])).toBe(400);
+        expect(getTransactionCashFlow(FULL_LEDGER[14])).toBe(-200);
+        expect(getTransactionCashFlow(FULL_LEDGER[8])).toBe(-1.5);
+    });
+
+    it('uses the sign a dividend recorded, so shorts owe theirs', () => {
+        const owed = ledger({ type: 'DIVIDEND', ticker: 'TSLA', shares: 6, price: 0.25, totalAmount: 1.5, realizedPnl: -1.5 })[0];
+        expect(getTransactionCashFlow(owed)).toBe(-1.5);
+    });
+});
+
+describe('replayTransactions', () => {
+    const { portfolio, issues } = replayTransactions(fullSnapshot(), FULL_LEDGER);
+    const findHolding = (ticker: string) => portfolio.holdings.find(h => h.ticker === ticker);
+
+    it('applies every entry without issues', () => {
+        expect(issues).toEqual([]);
+        expect(portfolio.cash).toBeCloseTo(FULL_CASH, 6);
+    });
+
+    it('closes the oldest lots on a FIFO sale', () => {
+        expect(findHolding('AAPL')?.lots?.map(lot => [lot.shares, lot.costBasis])).toEqual([[5, 100], [10, 120]]);
+        expect(findHolding('AAPL')?.purchasePrice).toBeCloseTo(1700 / 15, 6);
+    });
+
+    it('closes the newest lots on a LIFO sale', () => {
+        expect(findHolding('MSFT')?.lots?.map(lot => [lot.shares, lot.costBasis])).toEqual([[10, 50], [5, 60]]);
+        expect(findHolding('MSFT')?.purchasePrice).toBeCloseTo(800 / 15, 6);
+    });
+
+    it('keeps the short open after a partial cover and tracks its borrow fees', () => {
+        expect(portfolio.shortHoldings).toHaveLength(1);
+        expect(portfolio.shortHoldings[0]).toMatchObject({ ticker: 'TSLA', shares: 6, entryPrice: 200, borrowFeesPaid: 1.5 });
+    });
+
+    it('rebuilds long and written contracts from their symbols', () => {
+        expect(portfolio.optionHoldings.find(o => o.symbol === AAPL_CALL)).toMatchObject({
+            shares: 2, purchasePrice: 3, optionType: 'call', strikePrice: 150, expirationDate: '2026-01-16',
+        });
+        expect(portfolio.optionHoldings.find(o => o.symbol === MSFT_PUT)).toMatchObject({ shares: 1, purchasePrice: 2, side: 'short' });
+    });
+
+    it('keeps a strategy open with the legs that are left', () => {
+        expect(portfolio.strategyPositions).toHaveLength(1);
+        expect(portfolio.strategyPositions[0]).toMatchObject({ id: 'spread1', quantity: 1, netEntryPrice: 6 });
+        expect(portfolio.strategyPositions[0].legs.map(leg => leg.symbol)).toEqual([SPY_LONG_CALL]);
+    });
+
+    it('re-applies splits and symbol changes', () => {
+        expect(findHolding('NVDA')).toMatchObject({ shares: 40, purchasePrice: 100 });
+        expect(findHolding('FB')).toBeUndefined();
+        expect(findHolding('META')).toMatchObject({ shares: 5, purchasePrice: 300 });
+    });
+
+    it('closes positions bought out for cash', () => {
+        expect(findHolding('XYZ')).toBeUndefined();
+    });
+
+    it('adds reinvested dividends to the holding', () => {
+        expect(findHolding('KO')?.shares).toBeCloseTo(100 + 50 / 62, 9);
+        expect(findHolding('KO')?.lots).toHaveLength(2);
+    });
+
+    it('applies a split once however many entries it wrote', () => {
+        const withShortEntry = ledger(
+            { type: 'BUY', ticker: 'NVDA', shares: 10, price: 400, totalAmount: 4000 },
+            { type: 'SHORT_SELL', ticker: 'NVDA', shares: 5, price: 400, totalAmount: 2000 },
+        );
+        const splitAt = START + 10 * 60_000;
+        const split = [
+            ...withShortEntry,
+            { id: 's1', type: 'CORPORATE_ACTION', ticker: 'NVDA', shares: 40, price: 100, totalAmount: 0, timestamp: splitAt, corporateAction: 'SPLIT', splitRatio: 4 },
+            { id: 's2', type: 'CORPORATE_ACTION', ticker: 'NVDA', shares: 20, price: 100, totalAmount: 0, timestamp: splitAt, corporateAction: 'SPLIT', splitRatio: 4, legSide: 'short' },
+        ] satisfies Transaction[];
+        const replayed = replayTransactions(emptyPortfolio(100000), split).portfolio;
+        expect(replayed.holdings[0].shares).toBe(40);
+        expect(replayed.shortHoldings[0]).toMatchObject({ shares: 20, entryPrice: 100 });
+    });
+
+    it('reports entries it can\'t apply as recorded', () => {
+        const { issues: oversold } = replayTransactions(emptyPortfolio(100000), ledger(
+            { type: 'BUY', ticker: 'AAPL', shares: 5, price: 100, totalAmount: 500 },
+            { type: 'SELL', ticker: 'AAPL', shares: 8, price: 110, totalAmount: 880 },
+            { type: 'BUY_TO_COVER', ticker: 'TSLA', shares: 1, price: 190, totalAmount: 190 },
+            { type: 'STRATEGY_LEG_CLOSE', ticker: 'SPY', shares: 1, price: 2, totalAmount: 200, optionSymbol: SPY_SHORT_CALL, strategyId: 'missing' },
+        ));
+        expect(oversold.map(issue => issue.transactionId)).toEqual(['t2', 't3', 't4']);
+    });
+});
+
+describe('checkPortfolioConsistency', () => {
+    it('passes a snapshot that matches its log', () => {
+        const report = checkPortfolioConsistency(fullSnapshot(), FULL_LEDGER);
+        expect(report.discrepancies).toEqual([]);
+        expect(report.consistent).toBe(true);
+        expect(report.transactionCount).toBe(FULL_LEDGER.length);
+    });
+
+    it('ignores float dust', () => {
+        const snapshot = fullSnapshot();
+        const report = checkPortfolioConsistency({ ...snapshot, cash: snapshot.cash + 0.004 }, FULL_LEDGER);
+        expect(report.consistent).toBe(true);
+    });
+
+    it('reports cash that drifted from the log', () => {
+        const snapshot = fullSnapshot();
+        const report = checkPortfolioConsistency({ ...snapshot, cash: snapshot.cash + 250 }, FULL_LEDGER);
+        expect(report.consistent).toBe(false);
+        expect(report.discrepancies).toEqual([
+            { kind: 'cash', key: 'cash', label: 'Cash', expected: expect.closeTo(FULL_CASH, 6), actual: expect.closeTo(FULL_CASH + 250, 6) },
+        ]);
+    });
+
+    it('reports positions missing on either side', () => {
+        const snapshot = fullSnapshot();
+        const report = checkPortfolioConsistency({
+            ...snapshot,
+            holdings: [...snapshot.holdings.filter(h => h.ticker !== 'NVDA'), holding('XYZ', 20, 40)],
+        }, FULL_LEDGER);
+        expect(report.discrepancies).toEqual([
+            { kind: 'stock', key: 'NVDA', label: 'NVDA shares', expected: 40, actual: null },
+            { kind: 'stock', key: 'XYZ', label: 'XYZ shares', expected: null, actual: 20 },
+        ]);
+    });
+
+    it('reports wrong quantities and costs', () => {
+        const snapshot = fullSnapshot();
+        const report = checkPortfolioConsistency({
+            ...snapshot,
+            holdings: snapshot.holdings.map(h => h.ticker === 'AAPL' ? { ...h, purchasePrice: 110 } : h),
+            shortHoldings: [short('TSLA', 10, 200)],
+        }, FULL_LEDGER);
+        expect(report.discrepancies.map(d => d.label)).toEqual(['AAPL cost basis', 'TSLA shares short']);
+    });
+
+    it('reports a written contract stored as a long one', () => {
+        const snapshot = fullSnapshot();
+        const report = checkPortfolioConsistency({
+            ...snapshot,
+            optionHoldings: snapshot.optionHoldings.map(o => o.symbol === MSFT_PUT ? { ...o, side: undefined } : o),
+        }, FULL_LEDGER);
+        expect(report.discrepancies).toEqual([
+            { kind: 'option', key: MSFT_PUT, label: `${MSFT_PUT} contracts`, expected: -1, actual: 1 },
+        ]);
+    });
+
+    it('reports a strategy leg the log closed', () => {
+        const snapshot = fullSnapshot();
+        const [spread] = snapshot.strategyPositions;
+        const report = checkPortfolioConsistency({
+            ...snapshot,
+            strategyPositions: [{ ...spread, legs: [...spread.legs, { ...spread.legs[0], symbol: SPY_SHORT_CALL, strikePrice: 510, side: 'short' }] }],
+        }, FULL_LEDGER);
+        expect(report.discrepancies).toEqual([
+            { kind: 'strategy', key: 'spread1', label: 'spread1 open legs', expected: 1, actual: 2 },
+        ]);
+    });
+
+    it('fails a log with entries it can\'t replay even when the totals match', () => {
+        const transactions = [...FULL_LEDGER, ...ledger({ type: 'SELL', ticker: 'AMZN', shares: 1, price: 0, totalAmount: 0 })
+            .map(t => ({ ...t, id: 'stray', timestamp: START + FULL_LEDGER.length * 60_000 }))];
+        const report = checkPortfolioConsistency(fullSnapshot(), transactions);
+        expect(report.discrepancies).toEqual([]);
+        expect(report.issues).toHaveLength(1);
+        expect(report.consistent).toBe(false);
+    });
+});
@@ -0,0 +1,396 @@
+import type { Portfolio, Transaction, Holding, ShortHolding, OptionHolding, StrategyPosition, TaxLot, LotReliefMethod } from '../types';
+import { DEFAULT_BORROW_RATE } from '../constants';
+import { getEasternDateKey } from './orderBook';
+import { applyCorporateAction } from './corporateActions';
+import { STANDARD_CONTRACT_MULTIPLIER } from './optionStrategies';
+import { getHoldingLots, getAverageCost, selectLotsToClose, removeClosedLots } from './taxLots';
+
+// Fractional shares and averaged prices leave float dust; differences below these are not drift
+const QUANTITY_TOLERANCE = 1e-6;
+const PRICE_TOLERANCE = 1e-4;
+const CASH_TOLERANCE = 0.01;
+
+// ROOT + YYMMDD + C/P + strike × 1000 (8 digits)
+const OCC_SYMBOL = /^([A-Z0-9.]+?)(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+// Which way each transaction moves cash, before fees. Types missing here depend on the leg side.
+const CASH_DIRECTION: Partial<Record<Transaction['type'], 1 | -1>> = {
+    BUY: -1, SELL: 1, STOP_LOSS_SELL: 1, TAKE_PROFIT_SELL: 1, TRAILING_STOP_SELL: 1,
+    SHORT_SELL: 1, BUY_TO_COVER: -1, BORROW_FEE: -1, MARGIN_INTEREST: -1,
+    OPTION_BUY: -1, OPTION_SELL: 1, OPTION_STOP_LOSS_SELL: 1, OPTION_TRAILING_STOP_SELL: 1,
+    OPTION_SELL_TO_OPEN: 1, OPTION_BUY_TO_CLOSE: -1,
+    DEPOSIT: 1, WITHDRAWAL: -1,
+};
+
+const STOCK_SALES: Transaction['type'][] = ['SELL', 'STOP_LOSS_SELL', 'TAKE_PROFIT_SELL', 'TRAILING_STOP_SELL'];
+const OPTION_CLOSES: Transaction['type'][] = ['OPTION_SELL', 'OPTION_STOP_LOSS_SELL', 'OPTION_TRAILING_STOP_SELL', 'OPTION_BUY_TO_CLOSE', 'OPTION_EXERCISE', 'OPTION_EXPIRE', 'OPTION_ASSIGNMENT'];
+
+// A transaction the replay couldn't apply as recorded, e.g. a sale of more shares than the log holds
+export interface ReplayIssue {
+    transactionId: string;
+    timestamp: number;
+    message: string;
+}
+
+export interface ReplayResult {
+    portfolio: Portfolio; // Cash and positions rebuilt from the log, on top of the starting snapshot's settings
+    issues: ReplayIssue[];
+}
+
+export type DiscrepancyKind = 'cash' | 'stock' | 'short' | 'option' | 'strategy';
+
+export interface ConsistencyDiscrepancy {
+    kind: DiscrepancyKind;
+    key: string; // Ticker, option symbol or strategy id ('cash' for cash)
+    label: string; // What is being compared, e.g. "AAPL shares"
+    expected: number | null; // Rebuilt from the log; null when the log has no such position
+    actual: number | null; // In the stored snapshot; null when the snapshot has no such position
+}
+
+export interface ConsistencyReport {
+    consistent: boolean;
+    discrepancies: ConsistencyDiscrepancy[];
+    issues: ReplayIssue[];
+    replayed: Portfolio;
+    transactionCount: number;
+}
+
+/**
+ * Cash a transaction added (positive) or took out (negative), fees included.
+ * Short legs, written contracts and short stock pay out instead of receiving; a dividend's
+ * realizedPnl already carries its sign (shorts owe the dividend).
+ */
+export const getTransactionCashFlow = (t: Transaction): number => {
+    const fees = t.fees || 0;
+    const legSign = t.legSide === 'short' ? -1 : 1;
+    switch (t.type) {
+        case 'DIVIDEND':
+            return t.realizedPnl ?? t.totalAmount;
+        case 'STRATEGY_LEG_OPEN':
+            return -legSign * t.totalAmount - fees;
+        case 'STRATEGY_LEG_CLOSE':
+            return legSign * t.totalAmount - fees;
+        // Settlements and cash mergers; physical delivery and splits record no cash here
+        case 'OPTION_EXERCISE':
+        case 'OPTION_EXPIRE':
+        case 'OPTION_ASSIGNMENT':
+        case 'CORPORATE_ACTION':
+            return legSign * t.totalAmount - fees;
+        default:
+            return (CASH_DIRECTION[t.type] || 0) * t.totalAmount - fees;
+    }
+};
+
+// Contracts only record their symbol, so the expiration comes from its OCC date
+const getExpirationDate = (symbol: string): string => {
+    const match = symbol.match(OCC_SYMBOL);
+    return match ? `20${match[2]}-${match[3]}-${match[4]}` : '';
+};
+
+// Entries written before strikes were recorded still have it in the symbol
+const getStrikePrice = (t: Transaction): number => {
+    if (t.strikePrice !== undefined) return t.strikePrice;
+    const match = (t.optionSymbol || '').match(OCC_SYMBOL);
+    return match ? Number(match[6]) / 1000 : 0;
+};
+
+// Shares per contract, from what the trade cost; only set when it isn't the standard 100
+const getRecordedMultiplier = (t: Transaction): { multiplier?: number } => {
+    if (!(t.price > 0) || !(t.shares > 0)) return {};
+    const multiplier = t.totalAmount / (t.shares * t.price);
+    return Math.abs(multiplier - STANDARD_CONTRACT_MULTIPLIER) > 0.01 ? { multiplier: Number(multiplier.toFixed(4)) } : {};
+};
+
+const newOptionHolding = (t: Transaction, side?: 'short'): OptionHolding => ({
+    symbol: t.optionSymbol || '',
+    underlyingTicker: t.ticker,
+    shares: t.shares,
+    purchasePrice: t.price,
+    currentPrice: t.price,
+    change: 0,
+    changesPercentage: 0,
+    optionType: t.optionType || 'call',
+    strikePrice: getStrikePrice(t),
+    expirationDate: getExpirationDate(t.optionSymbol || ''),
+    volume: null,
+    open_interest: null,
+    delta: null,
+    gamma: null,
+    theta: null,
+    vega: null,
+    impliedVolatility: null,
+    stopLossPrice: null,
+    trailingStop: null,
+    ...(side ? { side } : {}),
+    ...getRecordedMultiplier(t),
+});
+
+// Lots a sale closed: the ones it recorded, or the lot relief method's pick for older sales
+const getLotsAfterSale = (lots: TaxLot[], t: Transaction, remainingShares: number): TaxLot[] => {
+    if (t.closedLots) {
+        const remaining = removeClosedLots(lots, t.closedLots);
+        const total = remaining.reduce((acc, lot) => acc + lot.shares, 0);
+        if (Math.abs(total - remainingShares) <= QUANTITY_TOLERANCE) return remaining;
+    }
+    const method: Exclude<LotReliefMethod, 'SPECIFIC'> = t.lotReliefMethod && t.lotReliefMethod !== 'SPECIFIC' ? t.lotReliefMethod : 'FIFO';
+    const held = lots.reduce((acc, lot) => acc + lot.shares, 0);
+    return removeClosedLots(lots, selectLotsToClose(lots, Math.min(t.shares, held), { method }));
+};
+
+const applyStockTransaction = (portfolio: Portfolio, t: Transaction, issue: (message: string) => void): Portfolio => {
+    const existing = portfolio.holdings.find(h => h.ticker === t.ticker);
+    if (t.type === 'BUY') {
+        const lot: TaxLot = { id: t.id, shares: t.shares, costBasis: t.price, acquiredAt: t.timestamp };
+        if (!existing) {
+            const holding: Holding = { ticker: t.ticker, name: t.ticker, shares: t.shares, purchasePrice: t.price, currentPrice: t.price, change: 0, changesPercentage: 0, lots: [lot] };
+            return { ...portfolio, holdings: [...portfolio.holdings, holding] };
+        }
+        const lots = [...getHoldingLots(existing), lot];
+        return { ...portfolio, holdings: portfolio.holdings.map(h => h === existing ? { ...h, shares: h.shares + t.shares, purchasePrice: getAverageCost(lots), lots } : h) };
+    }
+
+    const held = existing?.shares || 0;
+    if (held < t.shares - QUANTITY_TOLERANCE) {
+        issue(`Sells ${Number(t.shares.toFixed(4))} ${t.ticker} but the log only holds ${Number(held.toFixed(4))}.`);
+    }
+    if (!existing) return portfolio;
+    const remainingShares = held - t.shares;
+    if (remainingShares <= QUANTITY_TOLERANCE) {
+        return { ...portfolio, holdings: portfolio.holdings.filter(h => h !== existing) };
+    }
+    const lots = getLotsAfterSale(getHoldingLots(existing), t, remainingShares);
+    return { ...portfolio, holdings: portfolio.holdings.map(h => h === existing ? { ...h, shares: remainingShares, purchasePrice: getAverageCost(lots), lots } : h) };
+};
+
+const applyShortTransaction = (portfolio: Portfolio, t: Transaction, issue: (message: string) => void): Portfolio => {
+    const existing = portfolio.shortHoldings.find(s => s.ticker === t.ticker);
+    if (t.type === 'SHORT_SELL') {
+        if (!existing) {
+            const short: ShortHolding = {
+                ticker: t.ticker, name: t.ticker, shares: t.shares, entryPrice: t.price, currentPrice: t.price, change: 0, changesPercentage: 0,
+                borrowRate: DEFAULT_BORROW_RATE, borrowFeesPaid: 0, lastBorrowFeeDate: getEasternDateKey(t.timestamp),
+            };
+            return { ...portfolio, shortHoldings: [...portfolio.shortHoldings, short] };
+        }
+        const shares = existing.shares + t.shares;
+        const entryPrice = (existing.shares * existing.entryPrice + t.shares * t.price) / shares;
+        return { ...portfolio, shortHoldings: portfolio.shortHoldings.map(s => s === existing ? { ...s, shares, entryPrice } : s) };
+    }
+    if (t.type === 'BORROW_FEE') {
+        if (!existing) return portfolio;
+        return { ...portfolio, shortHoldings: portfolio.shortHoldings.map(s => s === existing ? { ...s, borrowFeesPaid: s.borrowFeesPaid + t.totalAmount, lastBorrowFeeDate: getEasternDateKey(t.timestamp) } : s) };
+    }
+
+    const held = existing?.shares || 0;
+    if (held < t.shares - QUANTITY_TOLERANCE) {
+        issue(`Covers ${Number(t.shares.toFixed(4))} ${t.ticker} but the log is only short ${Number(held.toFixed(4))}.`);
+    }
+    if (!existing) return portfolio;
+    return {
+        ...portfolio,
+        shortHoldings: held - t.shares <= QUANTITY_TOLERANCE
+            ? portfolio.shortHoldings.filter(s => s !== existing)
+            : portfolio.shortHoldings.map(s => s === existing ? { ...s, shares: held - t.shares } : s),
+    };
+};
+
+const applyOptionTransaction = (portfolio: Portfolio, t: Transaction, issue: (message: string) => void): Portfolio => {
+    const symbol = t.optionSymbol || '';
+    const existing = portfolio.optionHoldings.find(o => o.symbol === symbol);
+    if (t.type === 'OPTION_BUY' || t.type === 'OPTION_SELL_TO_OPEN') {
+        const isShort = t.type === 'OPTION_SELL_TO_OPEN';
+        if (!existing) {
+            return { ...portfolio, optionHoldings: [...portfolio.optionHoldings, newOptionHolding(t, isShort ? 'short' : undefined)] };
+        }
+        if ((existing.side === 'short') !== isShort) {
+            issue(`${isShort ? 'Writes' : 'Buys'} ${symbol} while the log holds it ${isShort ? 'long' : 'short'}.`);
+        }
+        const shares = existing.shares + t.shares;
+        const purchasePrice = (existing.shares * existing.purchasePrice + t.shares * t.price) / shares;
+        return { ...portfolio, optionHoldings: portfolio.optionHoldings.map(o => o === existing ? { ...o, shares, purchasePrice } : o) };
+    }
+
+    const held = existing?.shares || 0;
+    if (held < t.shares - QUANTITY_TOLERANCE) {
+        issue(`Closes ${t.shares} ${symbol} but the log only holds ${held}.`);
+    }
+    if (!existing) return portfolio;
+    return {
+        ...portfolio,
+        optionHoldings: held - t.shares <= QUANTITY_TOLERANCE
+            ? portfolio.optionHoldings.filter(o => o !== existing)
+            : portfolio.optionHoldings.map(o => o === existing ? { ...o, shares: held - t.shares } : o),
+    };
+};
+
+const applyStrategyTransaction = (portfolio: Portfolio, t: Transaction, issue: (message: string) => void): Portfolio => {
+    const existing = portfolio.strategyPositions.find(p => p.id === t.strategyId);
+    if (t.type === 'STRATEGY_LEG_OPEN') {
+        const leg = {
+            symbol: t.optionSymbol || '', optionType: t.optionType || 'call', strikePrice: getStrikePrice(t),
+            expirationDate: getExpirationDate(t.optionSymbol || ''), side: t.legSide || 'long',
+            entryPrice: t.price, currentPrice: t.price, change: 0,
+        } as const;
+        if (existing) {
+            return { ...portfolio, strategyPositions: portfolio.strategyPositions.map(p => p === existing ? { ...p, legs: [...p.legs, leg] } : p) };
+        }
+        const position: StrategyPosition = {
+            id: t.strategyId || t.id, name: t.strategyName || 'Strategy', underlyingTicker: t.ticker, quantity: t.shares,
+            netEntryPrice: t.netPrice ?? 0, legs: [leg], openedAt: t.timestamp, ...getRecordedMultiplier(t),
+        };
+        return { ...portfolio, strategyPositions: [...portfolio.strategyPositions, position] };
+    }
+
+    // Closes, expirations and cash mergers each take one leg off
+    if (!existing || !existing.legs.some(leg => leg.symbol === t.optionSymbol)) {
+        issue(`Closes the ${t.optionSymbol} leg of ${t.strategyName || 'a strategy'} but the log has no such open leg.`);
+        return portfolio;
+    }
+    const legs = existing.legs.filter(leg => leg.symbol !== t.optionSymbol);
+    return {
+        ...portfolio,
+        strategyPositions: legs.length === 0
+            ? portfolio.strategyPositions.filter(p => p !== existing)
+            : portfolio.strategyPositions.map(p => p === existing ? { ...p, legs } : p),
+    };
+};
+
+// A cash merger's entries each close one position; they carry their own cash
+const applyCashMergerEntry = (portfolio: Portfolio, t: Transaction, issue: (message: string) => void): Portfolio => {
+    if (t.strategyId) return applyStrategyTransaction(portfolio, t, issue);
+    if (t.optionSymbol) return { ...portfolio, optionHoldings: portfolio.optionHoldings.filter(o => o.symbol !== t.optionSymbol) };
+    if (t.legSide === 'short') return { ...portfolio, shortHoldings: portfolio.shortHoldings.filter(s => s.ticker !== t.ticker) };
+    return { ...portfolio, holdings: portfolio.holdings.filter(h => h.ticker !== t.ticker) };
+};
+
+/**
+ * Rebuilds cash and positions from a run's transaction log, oldest first, starting from the run's
+ * starting cash and no positions. Prices, names and stop settings aren't in the log, so positions
+ * rebuilt here carry the trade price and ticker until merged with a snapshot (see rebuildPortfolioFromLog in functions/src/replay).
+ * Splits and symbol changes are re-applied with the same code that applied them, once per action.
+ * @param start The portfolio whose run is replayed; only its starting cash and settings are used.
+ * @param transactions The run's log, in any order.
+ */
+export const replayTransactions = (start: Portfolio, transactions: Transaction[]): ReplayResult => {
+    const issues: ReplayIssue[] = [];
+    const appliedActions = new Set<string>();
+    let portfolio: Portfolio = {
+        ...start,
+        cash: start.initialValue,
+        holdings: [],
+        optionHoldings: [],
+        shortHoldings: [],
+        strategyPositions: [],
+    };
+
+    // Array order breaks ties, so trades logged together (delivery, multi-leg fills) stay in order
+    const ordered = transactions.map((t, i) => ({ t, i })).sort((a, b) => a.t.timestamp - b.t.timestamp || a.i - b.i).map(({ t }) => t);
+    for (const t of ordered) {
+        const issue = (message: string) => issues.push({ transactionId: t.id, timestamp: t.timestamp, message });
+        portfolio = { ...portfolio, cash: portfolio.cash + getTransactionCashFlow(t) };
+
+        if (t.type === 'CORPORATE_ACTION') {
+            if (t.corporateAction === 'CASH_MERGER') {
+                portfolio = applyCashMergerEntry(portfolio, t, issue);
+                continue;
+            }
+            // One action writes an entry per position it adjusted, all with the same timestamp
+            const ticker = t.corporateAction === 'SYMBOL_CHANGE' ? t.previousTicker : t.ticker;
+            if (!ticker) {
+                issue(`Symbol change to ${t.ticker} doesn't record the old ticker, so it can't be replayed.`);
+                continue;
+            }
+            const key = `${t.corporateAction}_${ticker}_${t.timestamp}`;
+            if (appliedActions.has(key)) continue;
+            appliedActions.add(key);
+            portfolio = applyCorporateAction(portfolio, [], {
+                kind: t.corporateAction || 'SPLIT',
+                ticker,
+                date: getEasternDateKey(t.timestamp),
+                ...(t.corporateAction === 'SYMBOL_CHANGE' ? { newTicker: t.ticker } : { ratio: t.splitRatio || 1 }),
+            }, t.timestamp).portfolio;
+        } else if (t.type === 'BUY' || STOCK_SALES.includes(t.type)) {
+            portfolio = applyStockTransaction(portfolio, t, issue);
+        } else if (t.type === 'SHORT_SELL' || t.type === 'BUY_TO_COVER' || t.type === 'BORROW_FEE') {
+            portfolio = applyShortTransaction(portfolio, t, issue);
+        } else if (t.type === 'STRATEGY_LEG_OPEN' || t.type === 'STRATEGY_LEG_CLOSE' || (t.strategyId && OPTION_CLOSES.includes(t.type))) {
+            portfolio = applyStrategyTransaction(portfolio, t, issue);
+        } else if (t.type === 'OPTION_BUY' || t.type === 'OPTION_SELL_TO_OPEN' || OPTION_CLOSES.includes(t.type)) {
+            portfolio = applyOptionTransaction(portfolio, t, issue);
+        }
+        // Deposits, withdrawals, dividends and margin interest only move cash
+    }
+
+    return { portfolio, issues };
+};
+
+const compare = (
+    discrepancies: ConsistencyDiscrepancy[],
+    tolerance: number,
+    entry: Omit<ConsistencyDiscrepancy, 'expected' | 'actual'>,
+    expected: number | null,
+    actual: number | null
+) => {
+    if (expected !== null && actual !== null && Math.abs(expected - actual) <= tolerance) return;
+    discrepancies.push({ ...entry, expected, actual });
+};
+
+// Compares the positions one kind of holding has on each side, by key
+const comparePositions = <T>(
+    discrepancies: ConsistencyDiscrepancy[],
+    kind: DiscrepancyKind,
+    replayed: T[],
+    stored: T[],
+    getKey: (item: T) => string,
+    fields: { label: string; value: (item: T) => number; tolerance: number }[]
+) => {
+    const keys = [...new Set([...replayed.map(getKey), ...stored.map(getKey)])];
+    keys.forEach(key => {
+        const fromLog = replayed.find(item => getKey(item) === key);
+        const inSnapshot = stored.find(item => getKey(item) === key);
+        fields.forEach(field => {
+            // A position missing on one side is reported once, on its quantity
+            if ((!fromLog || !inSnapshot) && field !== fields[0]) return;
+            compare(discrepancies, field.tolerance, { kind, key, label: `${key} ${field.label}` },
+                fromLog ? field.value(fromLog) : null, inSnapshot ? field.value(inSnapshot) : null);
+        });
+    });
+};
+
+/**
+ * Replays the run's log and compares the result with the stored snapshot: cash, share and contract
+ * counts, cost bases and open strategy legs. Market data (prices, greeks) and settings aren't compared.
+ * @param portfolio The stored portfolio snapshot.
+ * @param transactions The current run's transaction log.
+ */
+export const checkPortfolioConsistency = (portfolio: Portfolio, transactions: Transaction[]): ConsistencyReport => {
+    const { portfolio: replayed, issues } = replayTransactions(portfolio, transactions);
+    const discrepancies: ConsistencyDiscrepancy[] = [];
+
+    compare(discrepancies, CASH_TOLERANCE, { kind: 'cash', key: 'cash', label: 'Cash' }, replayed.cash, portfolio.cash);
+    comparePositions(discrepancies, 'stock', replayed.holdings, portfolio.holdings, h => h.ticker, [
+        { label: 'shares', value: h => h.shares, tolerance: QUANTITY_TOLERANCE },
+        { label: 'cost basis', value: h => h.purchasePrice, tolerance: PRICE_TOLERANCE },
+    ]);
+    comparePositions(discrepancies, 'short', replayed.shortHoldings, portfolio.shortHoldings || [], s => s.ticker, [
+        { label: 'shares short', value: s => s.shares, tolerance: QUANTITY_TOLERANCE },
+        { label: 'entry price', value: s => s.entryPrice, tolerance: PRICE_TOLERANCE },
+    ]);
+    comparePositions(discrepancies, 'option', replayed.optionHoldings, portfolio.optionHoldings, o => o.symbol, [
+        // Written contracts count as negative so a long/short mix-up shows
+        { label: 'contracts', value: o => o.side === 'short' ? -o.shares : o.shares, tolerance: QUANTITY_TOLERANCE },
+        { label: 'premium', value: o => o.purchasePrice, tolerance: PRICE_TOLERANCE },
+    ]);
+    comparePositions(discrepancies, 'strategy', replayed.strategyPositions, portfolio.strategyPositions || [], p => p.id, [
+        { label: 'contracts per leg', value: p => p.quantity, tolerance: QUANTITY_TOLERANCE },
+        { label: 'open legs', value: p => p.legs.length, tolerance: 0 },
+    ]);
+
+    return {
+        consistent: discrepancies.length === 0 && issues.length === 0,
+        discrepancies,
+        issues,
+        replayed,
+        transactionCount: transactions.length,
+    };
+};
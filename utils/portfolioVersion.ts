@@ -0,0 +1,7 @@
+import type { Portfolio } from '../types';
+
+/**
+ * Portfolios saved before versioning count as version 0. The server bumps the version on every
+ * write, so a trade placed from an older one is re-checked against the newer state.
+ */
+export const getPortfolioVersion = (portfolio: Portfolio): number => portfolio.version ?? 0;
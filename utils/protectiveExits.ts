@@ -0,0 +1,20 @@
+import type { TrailingStop, TrailingStopSettings } from '../types';
+
+/**
+ * Returns a user-facing error for invalid trail settings, or null if they are usable.
+ */
+export const validateTrailingStopSettings = (settings: TrailingStopSettings, price: number): string | null => {
+    if (!(settings.trailValue > 0)) return "Trailing stop amount must be greater than zero.";
+    if (settings.trailType === 'PERCENT' && settings.trailValue >= 100) return "Trailing stop percent must be below 100%.";
+    if (settings.trailType === 'AMOUNT' && settings.trailValue >= price) return "Trailing stop amount must be less than the current price.";
+    return null;
+};
+
+/**
+ * The price at which the trailing stop fires: the peak minus the trail.
+ */
+export const getTrailingStopTriggerPrice = (trailingStop: TrailingStop): number => {
+    return trailingStop.trailType === 'PERCENT'
+        ? trailingStop.highWaterMark * (1 - trailingStop.trailValue / 100)
+        : trailingStop.highWaterMark - trailingStop.trailValue;
+};
@@ -0,0 +1,8 @@
+import type { Portfolio } from '../types';
+
+/**
+ * Market value owed to cover every open short position.
+ */
+export const getShortMarketValue = (portfolio: Portfolio): number => {
+    return (portfolio.shortHoldings || []).reduce((acc, s) => acc + (s.shares * s.currentPrice), 0);
+};
@@ -0,0 +1,86 @@
+import type { Holding, TaxLot, ClosedLot, LotReliefMethod, LotSelection } from '../types';
+
+// Fractional shares leave float dust; anything smaller than this is treated as zero
+const SHARE_EPSILON = 1e-9;
+
+export const LOT_RELIEF_METHODS: Record<LotReliefMethod, string> = {
+    FIFO: 'First In, First Out',
+    LIFO: 'Last In, First Out',
+    HIFO: 'Highest Cost First',
+    SPECIFIC: 'Specific Lots',
+};
+
+/**
+ * A holding's tax lots. Holdings bought before lots were tracked are one lot at their
+ * averaged purchase price with an unknown acquisition date.
+ */
+export const getHoldingLots = (holding: Holding): TaxLot[] => {
+    if (holding.lots && holding.lots.length > 0) return holding.lots;
+    return [{ id: `${holding.ticker}-legacy`, shares: holding.shares, costBasis: holding.purchasePrice, acquiredAt: 0 }];
+};
+
+/**
+ * Weighted average cost per share of a set of lots (what Holding.purchasePrice shows).
+ */
+export const getAverageCost = (lots: { shares: number; costBasis: number }[]): number => {
+    const shares = lots.reduce((acc, lot) => acc + lot.shares, 0);
+    return shares > 0 ? lots.reduce((acc, lot) => acc + lot.shares * lot.costBasis, 0) / shares : 0;
+};
+
+const orderLots = (lots: TaxLot[], method: Exclude<LotReliefMethod, 'SPECIFIC'>): TaxLot[] => {
+    const sorted = [...lots];
+    if (method === 'FIFO') sorted.sort((a, b) => a.acquiredAt - b.acquiredAt);
+    if (method === 'LIFO') sorted.sort((a, b) => b.acquiredAt - a.acquiredAt);
+    if (method === 'HIFO') sorted.sort((a, b) => b.costBasis - a.costBasis);
+    return sorted;
+};
+
+/**
+ * Picks the lots a sale of the given shares closes. Throws an Error with a user-facing
+ * message if a specific-lot selection doesn't match the holding or the share count.
+ */
+export const selectLotsToClose = (lots: TaxLot[], shares: number, selection: LotSelection): ClosedLot[] => {
+    if (selection.method === 'SPECIFIC') {
+        const chosen = (selection.lots || []).filter(l => l.shares > 0);
+        const total = chosen.reduce((acc, l) => acc + l.shares, 0);
+        if (Math.abs(total - shares) > 1e-6) {
+            throw new Error(`The selected lots add up to ${Number(total.toFixed(4))} shares, not the ${Number(shares.toFixed(4))} being sold.`);
+        }
+        return chosen.map(({ lotId, shares: lotShares }) => {
+            const lot = lots.find(l => l.id === lotId);
+            if (!lot || lot.shares < lotShares - 1e-6) {
+                throw new Error("One of the selected lots doesn't have that many shares left.");
+            }
+            return { lotId, shares: Math.min(lotShares, lot.shares), costBasis: lot.costBasis, acquiredAt: lot.acquiredAt };
+        });
+    }
+
+    const closed: ClosedLot[] = [];
+    let remaining = shares;
+    for (const lot of orderLots(lots, selection.method)) {
+        if (remaining <= SHARE_EPSILON) break;
+        const taken = Math.min(lot.shares, remaining);
+        closed.push({ lotId: lot.id, shares: taken, costBasis: lot.costBasis, acquiredAt: lot.acquiredAt });
+        remaining -= taken;
+    }
+    return closed;
+};
+
+/**
+ * The lots left after a sale closes some of them.
+ */
+export const removeClosedLots = (lots: TaxLot[], closed: ClosedLot[]): TaxLot[] => {
+    return lots
+        .map(lot => {
+            const sold = closed.filter(c => c.lotId === lot.id).reduce((acc, c) => acc + c.shares, 0);
+            return sold > 0 ? { ...lot, shares: lot.shares - sold } : lot;
+        })
+        .filter(lot => lot.shares > SHARE_EPSILON);
+};
+
+/**
+ * Adjusts lots for a split: more shares at a proportionally lower basis, same acquisition dates.
+ */
+export const splitLots = (lots: TaxLot[], ratio: number): TaxLot[] => {
+    return lots.map(lot => ({ ...lot, shares: lot.shares * ratio, costBasis: lot.costBasis / ratio }));
+};
@@ -0,0 +1,264 @@
+import type { Transaction } from '../types';
+import { getEasternDateKey } from './orderBook';
+
+export type HoldingTerm = 'SHORT' | 'LONG';
+
+// One line of a Form 8949-style report: a lot (or a whole position when lots weren't tracked) that was closed
+export interface TaxReportRow {
+    id: string; // Source transaction id, plus the lot for stock sales
+    transactionId: string;
+    description: string; // e.g. "10 sh AAPL" or "2 AAPL250117C00150000"
+    ticker: string;
+    instrument: string; // Option symbol, or the ticker for stock
+    quantity: number;
+    dateAcquired: number; // 0 prints as VARIOUS
+    dateSold: number;
+    proceeds: number; // Net of the sale's fees
+    costBasis: number; // Including any wash-sale loss deferred into it
+    adjustment: number; // Wash-sale loss disallowed on this line (added back to the gain)
+    code: '' | 'W';
+    gain: number; // proceeds - costBasis + adjustment
+    term: HoldingTerm;
+    shortSale: boolean; // Closed a short stock position or a written option
+    replacementIds?: string[]; // Wash sales: the purchases that triggered it
+}
+
+export interface TaxReportTotals {
+    proceeds: number;
+    costBasis: number;
+    adjustment: number;
+    gain: number;
+    count: number;
+}
+
+export interface TaxReport {
+    year: number;
+    rows: TaxReportRow[];
+    shortTerm: TaxReportTotals; // Form 8949 Part I
+    longTerm: TaxReportTotals; // Form 8949 Part II
+    washSales: number;
+    disallowedLosses: number;
+    dividends: number; // Ordinary dividends received (net of dividends owed on shorts)
+    openingFees: number; // Commissions on opening trades, already counted in realized P&L but not in any line above
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WASH_SALE_WINDOW_MS = 30 * DAY_MS;
+
+const STOCK_SALES: Transaction['type'][] = ['SELL', 'STOP_LOSS_SELL', 'TAKE_PROFIT_SELL', 'TRAILING_STOP_SELL'];
+const OPTION_CLOSES: Transaction['type'][] = ['OPTION_SELL', 'OPTION_STOP_LOSS_SELL', 'OPTION_TRAILING_STOP_SELL', 'OPTION_EXERCISE', 'OPTION_EXPIRE', 'OPTION_ASSIGNMENT', 'OPTION_BUY_TO_CLOSE', 'STRATEGY_LEG_CLOSE'];
+const OPENING_TRADES: Transaction['type'][] = ['BUY', 'SHORT_SELL', 'OPTION_BUY', 'OPTION_SELL_TO_OPEN', 'STRATEGY_LEG_OPEN'];
+
+export const getTaxYear = (timestamp: number): number => Number(getEasternDateKey(timestamp).slice(0, 4));
+
+/**
+ * Long-term means held more than a year: sold after the first anniversary of the purchase date.
+ */
+export const getHoldingTerm = (acquiredAt: number, soldAt: number): HoldingTerm => {
+    const acquired = getEasternDateKey(acquiredAt);
+    const anniversary = `${Number(acquired.slice(0, 4)) + 1}${acquired.slice(4)}`;
+    return getEasternDateKey(soldAt) > anniversary ? 'LONG' : 'SHORT';
+};
+
+const isShortSide = (t: Transaction): boolean => {
+    return t.type === 'BUY_TO_COVER' || t.type === 'OPTION_BUY_TO_CLOSE' || t.legSide === 'short';
+};
+
+// Where an option position was opened: its earliest opening trade before the close
+const findOptionOpening = (t: Transaction, transactions: Transaction[]): Transaction | undefined => {
+    return transactions
+        .filter(o => o.optionSymbol === t.optionSymbol && o.timestamp <= t.timestamp
+            && (o.type === 'OPTION_BUY' || o.type === 'OPTION_SELL_TO_OPEN' || o.type === 'STRATEGY_LEG_OPEN')
+            && (!t.strategyId || o.strategyId === t.strategyId))
+        .sort((a, b) => a.timestamp - b.timestamp)[0];
+};
+
+// Shares whose purchase date wasn't tracked: short-term if any were bought within the year before the sale
+const getUntrackedTerm = (t: Transaction, transactions: Transaction[]): HoldingTerm => {
+    const boughtWithinYear = transactions.some(b => b.type === 'BUY' && b.ticker === t.ticker && b.timestamp <= t.timestamp && getHoldingTerm(b.timestamp, t.timestamp) === 'SHORT');
+    return boughtWithinYear ? 'SHORT' : 'LONG';
+};
+
+/**
+ * Breaks every closing transaction into report lines, before wash-sale adjustments. Gains match the
+ * realized P&L the ledger already shows (fees included); proceeds and basis are derived from it.
+ */
+const buildRows = (transactions: Transaction[]): TaxReportRow[] => {
+    const rows: TaxReportRow[] = [];
+    transactions.forEach(t => {
+        const realized = t.realizedPnl ?? 0;
+        const fees = t.fees || 0;
+        const isMerger = t.type === 'CORPORATE_ACTION' && t.corporateAction === 'CASH_MERGER';
+        const isStockSale = STOCK_SALES.includes(t.type) || (isMerger && !t.optionSymbol && !t.strategyId && t.legSide !== 'short');
+
+        if (isStockSale && t.closedLots && t.closedLots.length > 0) {
+            t.closedLots.forEach(lot => {
+                const share = lot.shares / t.shares;
+                const proceeds = lot.shares * t.price - fees * share;
+                const costBasis = lot.shares * lot.costBasis;
+                rows.push({
+                    id: `${t.id}-${lot.lotId}`, transactionId: t.id, description: `${Number(lot.shares.toFixed(4))} sh ${t.ticker}`, ticker: t.ticker, instrument: t.ticker,
+                    quantity: lot.shares, dateAcquired: lot.acquiredAt, dateSold: t.timestamp, proceeds, costBasis, adjustment: 0, code: '', gain: proceeds - costBasis,
+                    term: lot.acquiredAt > 0 ? getHoldingTerm(lot.acquiredAt, t.timestamp) : getUntrackedTerm(t, transactions), shortSale: false,
+                });
+            });
+            return;
+        }
+
+        const isClose = isStockSale || t.type === 'BUY_TO_COVER' || OPTION_CLOSES.includes(t.type) || isMerger;
+        if (!isClose) return;
+
+        const short = isShortSide(t);
+        // A long close's proceeds are what came in; a short close's basis is what was paid to get out
+        const proceeds = short ? t.totalAmount + fees + realized : t.totalAmount - fees;
+        const costBasis = proceeds - realized;
+        let dateAcquired = 0;
+        let term: HoldingTerm = 'SHORT';
+        if (t.optionSymbol && !short) {
+            const opening = findOptionOpening(t, transactions);
+            if (opening) {
+                dateAcquired = opening.timestamp;
+                term = getHoldingTerm(opening.timestamp, t.timestamp);
+            }
+        } else if (!short) {
+            term = getUntrackedTerm(t, transactions);
+        }
+        // Short sales and written options are short-term however long they were open
+        rows.push({
+            id: t.id, transactionId: t.id, description: `${short ? 'Short ' : ''}${Number(t.shares.toFixed(4))} ${t.optionSymbol ? t.optionSymbol : `sh ${t.ticker}`}`,
+            ticker: t.ticker, instrument: t.optionSymbol || t.ticker, quantity: t.shares, dateAcquired, dateSold: t.timestamp,
+            proceeds, costBasis, adjustment: 0, code: '', gain: proceeds - costBasis, term, shortSale: short,
+        });
+    });
+    return rows.sort((a, b) => a.dateSold - b.dateSold);
+};
+
+interface Replacement {
+    id: string;
+    timestamp: number;
+    shares: number; // Share-equivalents: calls count 100 per contract
+}
+
+// Purchases that count as buying back what a loss sale sold: the same stock, calls on it, or the same option contract
+const getReplacements = (row: TaxReportRow, transactions: Transaction[]): Replacement[] => {
+    const isOption = row.instrument !== row.ticker;
+    return transactions
+        .filter(t => t.type === 'BUY' || t.type === 'OPTION_BUY' || (t.type === 'STRATEGY_LEG_OPEN' && t.legSide === 'long'))
+        .filter(t => Math.abs(t.timestamp - row.dateSold) <= WASH_SALE_WINDOW_MS)
+        .filter(t => isOption
+            ? t.optionSymbol === row.instrument
+            : t.ticker === row.ticker && (t.type === 'BUY' || t.optionType === 'call'))
+        .map(t => ({ id: t.id, timestamp: t.timestamp, shares: t.optionSymbol ? t.shares * (isOption ? 1 : 100) : t.shares }));
+};
+
+/**
+ * Applies the wash-sale rule: a loss is disallowed (code W) to the extent substantially identical
+ * stock or options were bought within 30 days before or after the sale. Each purchase can only
+ * absorb one loss, and a disallowed stock loss is added to the basis of the replacement lot when it is sold.
+ * Positions the sale itself closed don't count as replacements.
+ */
+const applyWashSales = (rows: TaxReportRow[], transactions: Transaction[]): TaxReportRow[] => {
+    const usedShares = new Map<string, number>();
+    const deferredByLot = new Map<string, number>();
+    const closedByTransaction = new Map<string, Set<string>>();
+    transactions.forEach(t => {
+        if (t.closedLots) closedByTransaction.set(t.id, new Set(t.closedLots.map(l => l.lotId)));
+    });
+
+    return rows.map(row => {
+        const lotId = row.id.startsWith(`${row.transactionId}-`) ? row.id.slice(row.transactionId.length + 1) : null;
+        const deferred = lotId ? deferredByLot.get(lotId) || 0 : 0;
+        let adjusted: TaxReportRow = deferred > 0
+            ? { ...row, costBasis: row.costBasis + deferred, gain: row.gain - deferred }
+            : row;
+        // Short positions are left out: replacing a short isn't tracked
+        if (adjusted.gain >= 0 || row.shortSale) return adjusted;
+
+        const soldLots = closedByTransaction.get(row.transactionId);
+        const acquisition = row.dateAcquired;
+        let remaining = row.quantity;
+        const replacementIds: string[] = [];
+        let replacedShares = 0;
+        getReplacements(row, transactions)
+            .filter(r => !soldLots?.has(r.id) && r.timestamp !== acquisition && r.id !== row.transactionId)
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .forEach(r => {
+                if (remaining <= 1e-9) return;
+                const available = r.shares - (usedShares.get(r.id) || 0);
+                if (available <= 1e-9) return;
+                const taken = Math.min(available, remaining);
+                usedShares.set(r.id, (usedShares.get(r.id) || 0) + taken);
+                remaining -= taken;
+                replacedShares += taken;
+                replacementIds.push(r.id);
+                // The disallowed loss moves into the basis of the replacement shares
+                deferredByLot.set(r.id, (deferredByLot.get(r.id) || 0) + (-adjusted.gain) * (taken / row.quantity));
+            });
+        if (replacedShares <= 0) return adjusted;
+
+        const disallowed = -adjusted.gain * Math.min(1, replacedShares / row.quantity);
+        adjusted = { ...adjusted, adjustment: disallowed, code: 'W', gain: adjusted.gain + disallowed, replacementIds };
+        return adjusted;
+    });
+};
+
+const totalRows = (rows: TaxReportRow[]): TaxReportTotals => rows.reduce((acc, row) => ({
+    proceeds: acc.proceeds + row.proceeds,
+    costBasis: acc.costBasis + row.costBasis,
+    adjustment: acc.adjustment + row.adjustment,
+    gain: acc.gain + row.gain,
+    count: acc.count + 1,
+}), { proceeds: 0, costBasis: 0, adjustment: 0, gain: 0, count: 0 });
+
+/**
+ * Capital-gains report for one tax year. The whole log is scanned so wash sales that straddle
+ * the year boundary are still caught.
+ */
+export const buildTaxReport = (transactions: Transaction[], year: number): TaxReport => {
+    const sorted = [...transactions].sort((a, b) => a.timestamp - b.timestamp);
+    const rows = applyWashSales(buildRows(sorted), sorted).filter(row => getTaxYear(row.dateSold) === year);
+    const inYear = sorted.filter(t => getTaxYear(t.timestamp) === year);
+    const washRows = rows.filter(row => row.code === 'W');
+
+    return {
+        year,
+        rows,
+        shortTerm: totalRows(rows.filter(row => row.term === 'SHORT')),
+        longTerm: totalRows(rows.filter(row => row.term === 'LONG')),
+        washSales: washRows.length,
+        disallowedLosses: washRows.reduce((acc, row) => acc + row.adjustment, 0),
+        dividends: inYear.filter(t => t.type === 'DIVIDEND').reduce((acc, t) => acc + (t.realizedPnl || 0), 0),
+        openingFees: inYear.filter(t => OPENING_TRADES.includes(t.type)).reduce((acc, t) => acc + (t.fees || 0), 0),
+    };
+};
+
+/**
+ * Tax years with any closing trade or dividend, newest first.
+ */
+export const getTaxYears = (transactions: Transaction[]): number[] => {
+    const years = new Set(transactions.filter(t => t.realizedPnl !== undefined).map(t => getTaxYear(t.timestamp)));
+    return [...years].sort((a, b) => b - a);
+};
+
+export const formatTaxDate = (timestamp: number): string => {
+    if (!timestamp) return 'VARIOUS';
+    const [year, month, day] = getEasternDateKey(timestamp).split('-');
+    return `${month}/${day}/${year}`;
+};
+
+const csvCell = (value: string | number): string => {
+    const text = typeof value === 'number' ? value.toFixed(2) : value;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The report's lines as CSV, in Form 8949 column order.
+ */
+export const taxReportToCsv = (report: TaxReport): string => {
+    const header = ['Description of property', 'Date acquired', 'Date sold', 'Proceeds', 'Cost basis', 'Code', 'Adjustment', 'Gain or (loss)', 'Term'];
+    const lines = report.rows.map(row => [
+        row.description, formatTaxDate(row.dateAcquired), formatTaxDate(row.dateSold), row.proceeds, row.costBasis,
+        row.code, row.adjustment > 0 ? row.adjustment : '', row.gain, row.term === 'LONG' ? 'Long-term' : 'Short-term',
+    ].map(csvCell).join(','));
+    return [header.join(','), ...lines].join('\n');
+};
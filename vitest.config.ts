@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts: its global.Buffer define breaks vitest's own Buffer checks
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    },
+  },
+  test: {
+    include: ['utils/**/*.test.ts', 'functions/src/**/*.test.ts'],
+  },
+});